@@ -8,6 +8,7 @@ import React, { useEffect } from 'react';
 import * as ScreenOrientation from 'expo-screen-orientation';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AuthProvider } from './src/hooks/useAuth';
+import { KioskProvider } from './src/hooks/useKiosk';
 import AppNavigator from './src/navigation/AppNavigator';
 
 export default function App() {
@@ -25,7 +26,9 @@ export default function App() {
     <SafeAreaProvider>
       <AuthProvider>
 {/* StatusBar removed for debugging */}
-        <AppNavigator />
+        <KioskProvider>
+          <AppNavigator />
+        </KioskProvider>
       </AuthProvider>
     </SafeAreaProvider>
   );
@@ -4,20 +4,115 @@ import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
-import { transcribeAudio } from './services/speechToText';
-import { extractTextFromImage } from './services/visionOcr';
-import { matchWords } from './services/wordMatching';
-import { calculateMetrics, analyzeErrorPatterns, generatePatternSummary } from './services/metricsCalculator';
+import { getSpeechProvider, isSpeechProviderName, transcribeAudio } from './services/speechToText';
+import {
+  analyzeReading,
+  analyzeMatchingResult,
+  applyExpectedWordEdits,
+  applyWordOverrides,
+  remapWordOverrides,
+  toStoredMetrics,
+  ExpectedWordEdit,
+  WordOverride,
+} from './services/readingAnalysis';
+import { commitRevision, revisionRef } from './services/revisionHistory';
 import { generateVideo } from './services/videoGenerator';
-import { generatePdfReport } from './services/pdfGenerator';
-import { generateAISummary } from './services/summaryGenerator';
-import { generateSpeechAudio } from './services/textToSpeech';
+import { generatePdfReport, toPdfReportInput } from './services/pdfGenerator';
+import {
+  hasParentalConsent,
+  recordConsent,
+  refuseWithoutConsent,
+  isConsentMethod,
+  isConsentStatus,
+} from './services/parentalConsent';
+import { findCorruptUploads, HASH_CHECK_FAILED_MESSAGE } from './services/uploadIntegrity';
+import {
+  findMissingUploads,
+  parseUploadManifest,
+  UPLOAD_MANIFEST_FILE,
+} from './services/uploadManifest';
+import { refreshStudentProgress } from './services/studentProgress';
+import {
+  createPendingStages,
+  isPipelineStage,
+  isStaleStage,
+  PipelineOutcome,
+  runAssessmentPipeline,
+  PIPELINE_TIMEOUT_SECONDS,
+  STAGE_LABELS,
+} from './services/assessmentPipeline';
+import {
+  buildSccDataset,
+  getSccFileName,
+  parseSccDataset,
+  ParsedSccDataset,
+  SccSourceAssessment,
+  SCC_IMPORT_SOURCE,
+} from './services/sccDataset';
+import { enforceRetention } from './services/dataRetention';
+import { buildStudentRecords, getRecordsFileName } from './services/studentRecords';
+import { deleteStudentCascade } from './services/studentDeletion';
+import {
+  shareStudent as grantStudentShare,
+  unshareStudent as revokeStudentShare,
+  hasSharedWriteAccess,
+  hasStudentWriteAccess,
+  SHARE_ACCESS,
+} from './services/studentSharing';
+import {
+  canManageSchools,
+  createOrganization as createOrganizationDocs,
+  getMember,
+  isAdminRole,
+  removeMember,
+  saveClass,
+  saveSchool,
+  setMember,
+  setOcrProvider,
+  setSpeechProvider,
+  acceptInvite,
+  declineInvite,
+  findMissingSchools,
+  hasOtherDistrictAdmin,
+  inviteMember,
+  OrgMember,
+  ORG_ROLES,
+} from './services/organizations';
+import { isOcrProviderName } from './services/visionOcr';
 
 admin.initializeApp();
 
 const db = admin.firestore();
 const storage = admin.storage();
 
+// Speech-to-Text budget within the 540s function timeout (untimed readings run up to 5 minutes)
+const PRE_TRANSCRIBE_MAX_WAIT_SECONDS = 480;
+
+// Longer readings get their video on request (generateAssessmentVideo has its own time budget)
+const AUTO_VIDEO_MAX_AUDIO_SECONDS = 120;
+
+/**
+ * Keep a student's stored progress in step with their assessments
+ * Failures are logged only - progress can always be recomputed on demand
+ */
+async function updateStudentProgress(teacherId: string, studentId: string | undefined): Promise<void> {
+  if (!studentId) return;
+  try {
+    await refreshStudentProgress(db, teacherId, studentId);
+  } catch (error) {
+    console.error(`Progress update failed for student ${studentId}:`, error);
+  }
+}
+
+/**
+ * Fields of an object in callable input; anything else reads as an object without fields
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
 /**
  * Pre-transcribe audio when uploaded early (before image)
  * This allows transcription to start while user takes the picture
@@ -25,7 +120,7 @@ const storage = admin.storage();
  */
 export const preTranscribeAudio = functions
   .runWith({
-    timeoutSeconds: 180,
+    timeoutSeconds: 540,  // Untimed readings can be up to 5 minutes long
     memory: '512MB',
   })
   .storage
@@ -61,9 +156,18 @@ export const preTranscribeAudio = functions
       return;
     }
 
+    // Never send a recording to Speech-to-Text without parental consent
+    if (!(await hasParentalConsent(db, teacherId, data?.studentId))) {
+      await refuseWithoutConsent(db, storage.bucket(object.bucket), teacherId, assessmentId, data?.studentId || null);
+      return;
+    }
+
     try {
       // Mark that pre-transcription is starting
-      await assessmentRef.update({ preTranscribeStatus: 'processing' });
+      await assessmentRef.update({
+        preTranscribeStatus: 'processing',
+        preTranscribeStartedAt: admin.firestore.Timestamp.now(),
+      });
 
       const bucket = storage.bucket(object.bucket);
       const audioFile = bucket.file(filePath);
@@ -77,7 +181,8 @@ export const preTranscribeAudio = functions
       console.log(`[Pre-transcribe] Starting transcription: ${gcsUri}`);
 
       // Call Speech-to-Text
-      const transcription = await transcribeAudio(gcsUri, audioContentType);
+      const speechProvider = await getSpeechProvider(db, teacherId);
+      const transcription = await transcribeAudio(speechProvider, gcsUri, audioContentType, PRE_TRANSCRIBE_MAX_WAIT_SECONDS);
       console.log(`[Pre-transcribe] Complete: "${transcription.transcript.substring(0, 50)}..."`);
 
       // Store pre-transcription result
@@ -98,12 +203,89 @@ export const preTranscribeAudio = functions
   });
 
 /**
- * Triggered when a file is uploaded to the uploads/ folder
- * Expected path: uploads/{teacherId}/{assessmentId}/audio.webm or image.jpg
+ * Generate the playback video once processing completes (non-blocking for the user:
+ * results show immediately, the video appears when ready)
+ * Video generation is non-critical - failures are logged only
+ */
+async function autoGenerateVideo(
+  bucket: ReturnType<admin.storage.Storage['bucket']>,
+  teacherId: string,
+  assessmentId: string,
+  assessmentData: admin.firestore.DocumentData
+): Promise<void> {
+  const audioDuration = assessmentData.audioDuration || 0;
+  if (audioDuration > AUTO_VIDEO_MAX_AUDIO_SECONDS) {
+    console.log(`Skipping auto video for ${Math.round(audioDuration)}s recording - generated on request`);
+    return;
+  }
+
+  try {
+    console.log('Starting auto video generation...');
+
+    // Download audio from the temp location to a temp file
+    const tempAudioPath = path.join(os.tmpdir(), `audio-${assessmentId}.webm`);
+    const audioTempPath = `audio-temp/${teacherId}/${assessmentId}/audio.webm`;
+    await bucket.file(audioTempPath).download({ destination: tempAudioPath });
+
+    // Generate video
+    const tempVideoPath = path.join(os.tmpdir(), `video-${assessmentId}.mp4`);
+
+    await generateVideo(
+      {
+        words: assessmentData.words || [],
+        audioDuration,
+        studentName: assessmentData.studentName || 'Student',
+        wpm: assessmentData.metrics?.wordsPerMinute || 0,
+      },
+      tempAudioPath,
+      tempVideoPath
+    );
+
+    // Upload video to storage
+    const videoStoragePath = `videos/${teacherId}/${assessmentId}/video.mp4`;
+    const videoDownloadToken = uuidv4();
+
+    await bucket.upload(tempVideoPath, {
+      destination: videoStoragePath,
+      metadata: {
+        contentType: 'video/mp4',
+        metadata: {
+          firebaseStorageDownloadTokens: videoDownloadToken,
+        },
+      },
+    });
+
+    // Generate download URL
+    const videoUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(videoStoragePath)}?alt=media&token=${videoDownloadToken}`;
+
+    // Update assessment with video URL
+    await db.collection('teachers').doc(teacherId)
+      .collection('assessments').doc(assessmentId)
+      .update({
+        videoUrl,
+        videoGeneratedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+    // Clean up temp files
+    fs.unlinkSync(tempAudioPath);
+    fs.unlinkSync(tempVideoPath);
+
+    console.log(`Video auto-generated successfully for assessment ${assessmentId}`);
+  } catch (videoError) {
+    console.error('Auto video generation failed (non-critical):', videoError);
+  }
+}
+
+/**
+ * Triggered when an assessment's upload manifest is written
+ * Expected path: uploads/{teacherId}/{assessmentId}/manifest.json, written by the app after
+ * the files it lists (recording, page images in reading order) have been uploaded
+ * Assessments of a library passage use its text as the expected words and may have no image
+ * The analysis itself runs as the stages of services/assessmentPipeline
  */
 export const processAssessment = functions
   .runWith({
-    timeoutSeconds: 540,  // Increased for video generation
+    timeoutSeconds: PIPELINE_TIMEOUT_SECONDS,  // Increased for video generation
     memory: '2GB',        // Increased for video generation
     secrets: ['GEMINI_API_KEY'],  // Access API keys
   })
@@ -117,326 +299,197 @@ export const processAssessment = functions
     if (!filePath.startsWith('uploads/')) return;
 
     const pathParts = filePath.split('/');
-    // Expected: uploads/{teacherId}/{assessmentId}/{filename}
+    // Expected: uploads/{teacherId}/{assessmentId}/manifest.json
     if (pathParts.length !== 4) return;
 
     const [, teacherId, assessmentId, fileName] = pathParts;
 
-    console.log(`Processing file: ${filePath}`);
-    console.log(`Teacher: ${teacherId}, Assessment: ${assessmentId}, File: ${fileName}`);
+    // The files listed in the manifest were uploaded before it - nothing to do until then
+    if (fileName !== UPLOAD_MANIFEST_FILE) return;
+
+    console.log(`Processing manifest: ${filePath}`);
+    console.log(`Teacher: ${teacherId}, Assessment: ${assessmentId}`);
 
-    // Check if this is the second file (we need both audio and image)
     const assessmentRef = db.collection('teachers').doc(teacherId)
       .collection('assessments').doc(assessmentId);
 
     const bucket = storage.bucket(object.bucket);
     const uploadsPrefix = `uploads/${teacherId}/${assessmentId}/`;
 
-    const [files] = await bucket.getFiles({ prefix: uploadsPrefix });
-
-    // Wait for both files
-    const hasAudio = files.some(f => f.name.includes('audio'));
-    const hasImage = files.some(f => f.name.includes('image'));
-
-    if (!hasAudio || !hasImage) {
-      console.log('Waiting for both files to be uploaded...');
+    // Server-side consent backstop: uploads for a student without parental consent are deleted
+    const uploadDoc = await assessmentRef.get();
+    if (!uploadDoc.exists) {
+      console.log('Assessment document does not exist');
+      return;
+    }
+    if (!(await hasParentalConsent(db, teacherId, uploadDoc.data()?.studentId))) {
+      await refuseWithoutConsent(db, bucket, teacherId, assessmentId, uploadDoc.data()?.studentId || null);
       return;
     }
 
-    console.log('Both files present, starting processing...');
-
-    // Use Firestore transaction to prevent race condition
-    // Only one function instance should process the assessment
-    const lockAcquired = await db.runTransaction(async (transaction) => {
+    // Storage may deliver the event more than once, and a retried upload may rewrite the
+    // manifest - only the first manifest claims the assessment (its generation is recorded)
+    const claimed = await db.runTransaction(async (transaction) => {
       const doc = await transaction.get(assessmentRef);
-      if (!doc.exists) {
-        console.log('Assessment document does not exist');
-        return false;
-      }
-
-      const data = doc.data();
-      // Only proceed if status is 'uploading' (initial status from client)
-      // Skip if already 'processing' or 'complete' to prevent race conditions
-      if (data?.status !== 'uploading') {
-        console.log(`Assessment status is ${data?.status}, skipping...`);
+      if (doc.data()?.manifestGeneration) {
         return false;
       }
-
-      // Set status to processing atomically
-      transaction.update(assessmentRef, { status: 'processing' });
+      transaction.update(assessmentRef, {
+        status: 'processing',
+        manifestGeneration: object.generation,
+        stages: createPendingStages(),
+      });
       return true;
     });
 
-    if (!lockAcquired) {
-      console.log('Lock not acquired, another instance is processing');
+    if (!claimed) {
+      console.log('Assessment was already claimed by an earlier manifest, skipping...');
       return;
     }
 
-    console.log('Lock acquired, proceeding with processing...');
-
     try {
-      // Re-fetch files to ensure they still exist (in case of race condition)
-      const [currentFiles] = await bucket.getFiles({ prefix: uploadsPrefix });
-      const audioFile = currentFiles.find(f => f.name.includes('audio'));
-      const imageFile = currentFiles.find(f => f.name.includes('image'));
+      const manifest = parseUploadManifest((await bucket.file(filePath).download())[0]);
 
-      if (!audioFile || !imageFile) {
-        console.error('Files no longer exist after acquiring lock');
+      // Every file the manifest lists must be present at its recorded size
+      const [currentFiles] = await bucket.getFiles({ prefix: uploadsPrefix });
+      const missingUploads = findMissingUploads(currentFiles, manifest);
+      if (missingUploads.length > 0) {
+        console.error('Manifest files missing or incomplete:', missingUploads);
         await assessmentRef.update({
           status: 'error',
-          errorMessage: 'Upload files were not found. Please try again.',
+          errorMessage: `Upload files were not found (${missingUploads.join(', ')}). Please try again.`,
         });
         return;
       }
 
-      // Verify files exist by checking their existence
-      const [audioExists] = await audioFile.exists();
-      const [imageExists] = await imageFile.exists();
-
-      if (!audioExists || !imageExists) {
-        console.error('Files do not exist after verification');
+      // Compare the stored bytes with the hashes the app computed before uploading
+      const corruptUploads = await findCorruptUploads(
+        manifest.files.map(file => bucket.file(uploadsPrefix + file.name)),
+        Object.fromEntries(manifest.files.map(file => [file.name, file.sha256]))
+      );
+      if (corruptUploads.length > 0) {
         await assessmentRef.update({
           status: 'error',
-          errorMessage: 'Upload files could not be verified. Please try again.',
+          errorMessage: `${HASH_CHECK_FAILED_MESSAGE} (${corruptUploads.join(', ')})`,
         });
         return;
       }
 
-      // Check if pre-transcription is available
-      const assessmentDoc = await assessmentRef.get();
-      const assessmentData = assessmentDoc.data();
-      const hasPreTranscript = assessmentData?.preTranscribeStatus === 'complete' &&
-                               assessmentData?.preTranscriptWords;
+      console.log(`${manifest.files.length} upload(s) present and verified, starting processing...`);
 
-      // Get the actual audio file's metadata for content type
-      const [audioMetadata] = await audioFile.getMetadata();
-      const audioContentType = audioMetadata.contentType || 'audio/webm';
-      console.log(`Audio content type: ${audioContentType}`);
-
-      // Download image for Vision OCR (it uses buffer)
-      const [imageBuffer] = await imageFile.download();
-
-      let transcription;
-
-      if (hasPreTranscript) {
-        // Use pre-transcription result (saves 5-15 seconds!)
-        console.log('Using pre-transcription result...');
-        transcription = {
-          transcript: assessmentData.preTranscript,
-          words: assessmentData.preTranscriptWords,
-        };
-      } else {
-        // No pre-transcription available, do it now
-        const gcsUri = `gs://${bucket.name}/${audioFile.name}`;
-        console.log(`Audio GCS URI: ${gcsUri}`);
-        console.log('Calling Speech-to-Text API (no pre-transcription available)...');
-        transcription = await transcribeAudio(gcsUri, audioContentType);
-      }
+      const outcome = await runAssessmentPipeline({ db, bucket, teacherId, assessmentId, assessmentRef, manifest });
+      if (!outcome.complete) return;
 
-      console.log(`Transcription: "${transcription.transcript.substring(0, 100)}..."`);
+      const assessmentData = (await assessmentRef.get()).data() || {};
+      await updateStudentProgress(teacherId, assessmentData.studentId);
+      await autoGenerateVideo(bucket, teacherId, assessmentId, assessmentData);
 
-      // Call Vision OCR
-      const ocrResult = await extractTextFromImage(imageBuffer);
-      console.log(`OCR extracted ${ocrResult.words.length} words`);
+    } catch (error) {
+      console.error('Processing error:', error);
 
-      // Use OCR words with bounding boxes directly (no need to re-parse)
-      // The matchWords function now accepts OcrWordWithBox[] which includes position data
-      const matchingResult = matchWords(ocrResult.words, transcription.words);
-      console.log(`Matching complete: ${matchingResult.correctCount} correct, ${matchingResult.errorCount} errors`);
+      await assessmentRef.update({
+        status: 'error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
 
-      // Calculate metrics
-      const audioDuration = transcription.words.length > 0
-        ? transcription.words[transcription.words.length - 1].endTime
-        : 0;
-      const metrics = calculateMetrics(matchingResult, audioDuration);
+/**
+ * Callable function to run a failed processing stage again
+ * The stage reuses what earlier stages stored, then the stages after it run as usual
+ * A stage left 'running' by a function that timed out counts as failed
+ */
+export const retryAssessmentStage = functions
+  .runWith({
+    timeoutSeconds: PIPELINE_TIMEOUT_SECONDS,
+    memory: '2GB',
+    secrets: ['GEMINI_API_KEY'],
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
 
-      // Analyze error patterns
-      const errorPatterns = analyzeErrorPatterns(matchingResult.words);
+    const { teacherId, assessmentId, stage } = data;
+    const userId = context.auth.uid;
 
-      // Generate pattern summary with severity, recommendations, and referrals
-      const patternSummary = generatePatternSummary(errorPatterns, metrics);
-      console.log(`Pattern analysis: ${patternSummary.severity} severity, ${patternSummary.primaryIssues.length} issues, ${patternSummary.recommendations.length} recommendations`);
+    if (typeof teacherId !== 'string' || !teacherId || typeof assessmentId !== 'string' || !assessmentId) {
+      throw new functions.https.HttpsError('invalid-argument', 'teacherId and assessmentId are required');
+    }
 
-      // Generate AI summary for student feedback
-      const studentName = assessmentData?.studentName || 'Student';
-      const aiSummary = await generateAISummary(
-        studentName,
-        metrics,
-        matchingResult.words,
-        errorPatterns,
-        patternSummary
-      );
-      console.log(`AI summary generated: ${aiSummary.length} chars`);
+    // Verify the user owns this assessment, or records for its student as a co-teacher
+    if (teacherId !== userId && !(await hasSharedWriteAccess(db, teacherId, userId, assessmentId))) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only retry your own assessments');
+    }
 
-      // Generate TTS audio for the AI summary
-      let aiSummaryAudioUrl: string | null = null;
-      try {
-        // Use Google Cloud TTS with Studio voice (highest quality)
-        const audioBuffer = await generateSpeechAudio(aiSummary);
+    if (!isPipelineStage(stage)) {
+      throw new functions.https.HttpsError('invalid-argument', `Unknown processing stage: ${stage}`);
+    }
 
-        // Upload audio to storage
-        const summaryAudioPath = `summary-audio/${teacherId}/${assessmentId}/summary.mp3`;
-        const summaryAudioToken = uuidv4();
-        const summaryAudioFile = bucket.file(summaryAudioPath);
+    const assessmentRef = db.collection('teachers').doc(teacherId)
+      .collection('assessments').doc(assessmentId);
 
-        await summaryAudioFile.save(audioBuffer, {
-          metadata: {
-            contentType: 'audio/mpeg',
-            metadata: {
-              firebaseStorageDownloadTokens: summaryAudioToken,
-            },
-          },
-        });
+    // Claim the failed stage so a double tap doesn't run it twice
+    const claim = await db.runTransaction<{ error: string } | { previousStatus?: string }>(async (transaction) => {
+      const doc = await transaction.get(assessmentRef);
+      if (!doc.exists) return { error: 'Assessment not found' };
 
-        aiSummaryAudioUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(summaryAudioPath)}?alt=media&token=${summaryAudioToken}`;
-        console.log(`TTS audio uploaded: ${audioBuffer.length} bytes`);
-      } catch (ttsError) {
-        console.error('TTS generation failed, will use device TTS fallback:', ttsError);
-        // Continue without TTS audio - frontend will fall back to expo-speech
+      const stageRecord = doc.data()?.stages?.[stage];
+      if (stageRecord?.status !== 'error' && !isStaleStage(stageRecord)) {
+        return { error: `The ${STAGE_LABELS[stage].toLowerCase()} stage has not failed (${stageRecord?.status || 'not started'})` };
       }
 
-      // Move audio to temp bucket for playback (24h TTL handled by lifecycle rule)
-      const tempAudioPath = `audio-temp/${teacherId}/${assessmentId}/audio.webm`;
-      const audioDownloadToken = uuidv4();
-
-      // Copy audio file
-      await bucket.file(audioFile.name).copy(bucket.file(tempAudioPath));
-
-      // Set download token metadata for public access
-      await bucket.file(tempAudioPath).setMetadata({
-        metadata: {
-          firebaseStorageDownloadTokens: audioDownloadToken,
-        },
+      transaction.update(assessmentRef, {
+        [`stages.${stage}.status`]: 'running',
+        [`stages.${stage}.startedAt`]: admin.firestore.Timestamp.now(),
+        // A failed required stage left the whole assessment in error
+        ...(doc.data()?.status === 'error' ? { status: 'processing', errorMessage: admin.firestore.FieldValue.delete() } : {}),
       });
+      return { previousStatus: doc.data()?.status };
+    });
 
-      // Generate public download URL for audio
-      const audioUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(tempAudioPath)}?alt=media&token=${audioDownloadToken}`;
-
-      // Move image to temp bucket for display
-      const tempImagePath = `images-temp/${teacherId}/${assessmentId}/image.jpg`;
-      const imageDownloadToken = uuidv4();
+    if ('error' in claim) {
+      throw new functions.https.HttpsError('failed-precondition', claim.error);
+    }
 
-      // Copy image file
-      await bucket.file(imageFile.name).copy(bucket.file(tempImagePath));
+    let outcome: PipelineOutcome;
+    try {
+      const bucket = storage.bucket();
+      // The uploads (and manifest) are gone once an assessment completes - only stages
+      // that don't read them (summary, audio) can run then
+      const [manifestContents] = await bucket.file(`uploads/${teacherId}/${assessmentId}/${UPLOAD_MANIFEST_FILE}`)
+        .download()
+        .catch(() => [null]);
+      const manifest = manifestContents ? parseUploadManifest(manifestContents) : null;
 
-      // Set download token metadata for public access
-      await bucket.file(tempImagePath).setMetadata({
-        metadata: {
-          firebaseStorageDownloadTokens: imageDownloadToken,
-        },
-      });
+      console.log(`Retrying stage ${stage} of assessment ${assessmentId}`);
+      outcome = await runAssessmentPipeline({ db, bucket, teacherId, assessmentId, assessmentRef, manifest }, stage);
 
-      // Generate public download URL for image
-      const imageUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(tempImagePath)}?alt=media&token=${imageDownloadToken}`;
+    } catch (error) {
+      console.error('Stage retry error:', error);
 
-      // Save results to Firestore
+      // Release the claim - the stage shows as failed again instead of running until it goes stale
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const failedAssessment = claim.previousStatus !== 'complete';
       await assessmentRef.update({
-        status: 'complete',
-        audioUrl,
-        imageUrl,
-        audioDuration,
-        ocrText: ocrResult.fullText,
-        transcript: transcription.transcript,
-        imageWidth: ocrResult.imageWidth,
-        imageHeight: ocrResult.imageHeight,
-        metrics: {
-          accuracy: metrics.accuracy,
-          wordsPerMinute: metrics.wordsPerMinute,
-          prosodyScore: metrics.prosodyScore,
-          prosodyGrade: metrics.prosodyGrade,
-          totalWords: metrics.totalWords,
-          correctCount: metrics.correctCount,
-          errorCount: metrics.errorCount,
-          skipCount: metrics.skipCount,
-          hesitationCount: metrics.hesitationCount,
-          fillerWordCount: metrics.fillerWordCount,
-          repeatCount: metrics.repeatCount,
-        },
-        words: matchingResult.words,
-        errorPatterns,
-        patternSummary,
-        aiSummary,
-        aiSummaryAudioUrl,
-        processedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      console.log('Results saved to Firestore');
-
-      // Auto-generate video in background (non-blocking for user)
-      // User sees results immediately, video appears when ready
-      try {
-        console.log('Starting auto video generation...');
-
-        // Download audio to temp file
-        const tempAudioPath = path.join(os.tmpdir(), `audio-${assessmentId}.webm`);
-        await bucket.file(tempAudioPath.replace(os.tmpdir() + path.sep, '')).download({ destination: tempAudioPath }).catch(() => {
-          // Audio might already be moved, download from temp location
-        });
-
-        // Try downloading from audio-temp location
-        const audioTempPath = `audio-temp/${teacherId}/${assessmentId}/audio.webm`;
-        await bucket.file(audioTempPath).download({ destination: tempAudioPath });
-
-        // Generate video
-        const tempVideoPath = path.join(os.tmpdir(), `video-${assessmentId}.mp4`);
-
-        await generateVideo(
-          {
-            words: matchingResult.words,
-            audioDuration,
-            studentName: studentName || 'Student',
-            wpm: metrics.wordsPerMinute || 0,
-          },
-          tempAudioPath,
-          tempVideoPath
-        );
-
-        // Upload video to storage
-        const videoStoragePath = `videos/${teacherId}/${assessmentId}/video.mp4`;
-        const videoDownloadToken = uuidv4();
-
-        await bucket.upload(tempVideoPath, {
-          destination: videoStoragePath,
-          metadata: {
-            contentType: 'video/mp4',
-            metadata: {
-              firebaseStorageDownloadTokens: videoDownloadToken,
-            },
-          },
-        });
-
-        // Generate download URL
-        const videoUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(videoStoragePath)}?alt=media&token=${videoDownloadToken}`;
-
-        // Update assessment with video URL
-        await assessmentRef.update({
-          videoUrl,
-          videoGeneratedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
-
-        // Clean up temp files
-        fs.unlinkSync(tempAudioPath);
-        fs.unlinkSync(tempVideoPath);
-
-        console.log(`Video auto-generated successfully for assessment ${assessmentId}`);
-      } catch (videoError) {
-        // Video generation is non-critical - don't fail the assessment
-        console.error('Auto video generation failed (non-critical):', videoError);
-      }
-
-      // Delete original uploads
-      await audioFile.delete();
-      await imageFile.delete();
-      console.log('Original uploads deleted');
+        [`stages.${stage}.status`]: 'error',
+        [`stages.${stage}.error`]: message,
+        ...(failedAssessment ? {
+          status: 'error',
+          errorMessage: `${STAGE_LABELS[stage]} failed: ${message}`,
+          failedStage: stage,
+        } : {}),
+      }).catch(updateError => console.error('Failed to record the stage retry error:', updateError));
 
-    } catch (error) {
-      console.error('Processing error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to retry the processing stage');
+    }
 
-      await assessmentRef.update({
-        status: 'error',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-      });
+    if (outcome.complete) {
+      await updateStudentProgress(teacherId, (await assessmentRef.get()).data()?.studentId);
     }
+    return outcome;
   });
 
 /**
@@ -458,8 +511,8 @@ export const generateAssessmentVideo = functions
     const { teacherId, assessmentId } = data;
     const userId = context.auth.uid;
 
-    // Verify the user owns this assessment
-    if (teacherId !== userId) {
+    // Verify the user owns this assessment, or records for its student as a co-teacher
+    if (teacherId !== userId && !(await hasSharedWriteAccess(db, teacherId, userId, assessmentId))) {
       throw new functions.https.HttpsError('permission-denied', 'You can only generate videos for your own assessments');
     }
 
@@ -570,8 +623,8 @@ export const generateAssessmentPdf = functions
     const { teacherId, assessmentId } = data;
     const userId = context.auth.uid;
 
-    // Verify the user owns this assessment
-    if (teacherId !== userId) {
+    // Verify the user owns this assessment, or records for its student as a co-teacher
+    if (teacherId !== userId && !(await hasSharedWriteAccess(db, teacherId, userId, assessmentId))) {
       throw new functions.https.HttpsError('permission-denied', 'You can only generate PDFs for your own assessments');
     }
 
@@ -595,28 +648,7 @@ export const generateAssessmentPdf = functions
       const bucket = storage.bucket();
 
       // Generate PDF with full assessment data
-      const pdfBuffer = await generatePdfReport({
-        studentName: assessmentData.studentName,
-        assessmentDate: assessmentData.createdAt?.toDate() || new Date(),
-        metrics: {
-          accuracy: assessmentData.metrics?.accuracy || 0,
-          wordsPerMinute: assessmentData.metrics?.wordsPerMinute || 0,
-          prosodyScore: assessmentData.metrics?.prosodyScore || 0,
-          prosodyGrade: assessmentData.metrics?.prosodyGrade || '',
-          totalWords: assessmentData.metrics?.totalWords || 0,
-          correctCount: assessmentData.metrics?.correctCount || 0,
-          errorCount: assessmentData.metrics?.errorCount || 0,
-          skipCount: assessmentData.metrics?.skipCount || 0,
-          hesitationCount: assessmentData.metrics?.hesitationCount,
-          fillerWordCount: assessmentData.metrics?.fillerWordCount,
-          repeatCount: assessmentData.metrics?.repeatCount,
-          selfCorrectionCount: assessmentData.metrics?.selfCorrectionCount,
-        },
-        words: assessmentData.words || [],
-        errorPatterns: assessmentData.errorPatterns || [],
-        aiSummary: assessmentData.aiSummary,
-        patternSummary: assessmentData.patternSummary,
-      });
+      const pdfBuffer = await generatePdfReport(toPdfReportInput(assessmentData));
 
       // Upload PDF to storage
       const pdfStoragePath = `pdfs/${teacherId}/${assessmentId}/report.pdf`;
@@ -650,3 +682,1297 @@ export const generateAssessmentPdf = functions
     }
   });
 
+
+/**
+ * Callable function to re-analyze an assessment after the teacher corrects the OCR words
+ * Re-runs matching, metrics and pattern analysis against the stored transcript words
+ */
+export const reanalyzeAssessment = functions
+  .runWith({
+    timeoutSeconds: 120,
+    memory: '512MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, assessmentId, expectedWords, reason } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this assessment, or records for its student as a co-teacher
+    if (teacherId !== userId && !(await hasSharedWriteAccess(db, teacherId, userId, assessmentId))) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only re-analyze your own assessments');
+    }
+
+    if (!Array.isArray(expectedWords)) {
+      throw new functions.https.HttpsError('invalid-argument', 'expectedWords must be an array');
+    }
+
+    const edits: ExpectedWordEdit[] = expectedWords.map((item: unknown) => {
+      const edit = toRecord(item);
+      return {
+        ocrIndex: Number(edit.ocrIndex),
+        text: typeof edit.text === 'string' ? edit.text : '',
+        included: edit.included !== false,
+      };
+    });
+
+    if (edits.some(edit => !Number.isInteger(edit.ocrIndex) || edit.ocrIndex < 0)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Each expected word needs a valid ocrIndex');
+    }
+
+    // Get the assessment data
+    const assessmentRef = db.collection('teachers').doc(teacherId)
+      .collection('assessments').doc(assessmentId);
+    const assessmentDoc = await assessmentRef.get();
+
+    if (!assessmentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Assessment not found');
+    }
+
+    const assessmentData = assessmentDoc.data()!;
+
+    // Check if assessment is complete
+    if (assessmentData.status !== 'complete') {
+      throw new functions.https.HttpsError('failed-precondition', 'Assessment must be complete before re-analysis');
+    }
+
+    const ocrWords = assessmentData.ocrWords;
+    const transcriptWords = assessmentData.transcriptWords || assessmentData.preTranscriptWords;
+
+    if (!Array.isArray(ocrWords) || !Array.isArray(transcriptWords)) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        'This assessment was processed before re-analysis was available'
+      );
+    }
+
+    const correctedWords = applyExpectedWordEdits(ocrWords, edits);
+    if (correctedWords.length === 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'At least one word must be included in the passage');
+    }
+
+    console.log(`Re-analyzing assessment ${assessmentId} with ${correctedWords.length} expected words`);
+
+    const audioDuration = assessmentData.audioDuration || 0;
+    let analysis = analyzeReading(correctedWords, transcriptWords, audioDuration);
+
+    // Keep the teacher's rescoring of words the new alignment still scores the same way
+    const { overrides, dropped } = remapWordOverrides(assessmentData.words || [], analysis.matchingResult.words);
+    if (overrides.length > 0) {
+      analysis = analyzeMatchingResult(
+        applyWordOverrides(analysis.matchingResult.words, overrides, analysis.matchingResult.fillerWordCount),
+        audioDuration
+      );
+    }
+    if (dropped.length > 0) {
+      console.log(`Re-analysis dropped ${dropped.length} word override(s) that no longer apply`);
+    }
+    const { matchingResult, metrics, errorPatterns, patternSummary } = analysis;
+
+    // Video and PDF were rendered from the previous results, so drop them
+    const revision = await commitRevision(db, assessmentRef, {
+      metrics: toStoredMetrics(metrics),
+      words: matchingResult.words,
+      errorPatterns,
+      patternSummary,
+      expectedWordEdits: edits,
+    }, {
+      uid: userId,
+      source: 'reanalysis',
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : 'Corrected passage words',
+    }, {
+      reanalyzedAt: admin.firestore.FieldValue.serverTimestamp(),
+      videoUrl: admin.firestore.FieldValue.delete(),
+      pdfUrl: admin.firestore.FieldValue.delete(),
+      // The summary describes the old scores; the student view falls back to a built-in message
+      aiSummary: admin.firestore.FieldValue.delete(),
+      aiSummaryAudioUrl: admin.firestore.FieldValue.delete(),
+    });
+
+    console.log(`Re-analysis saved for assessment ${assessmentId} as revision ${revision}`);
+    await updateStudentProgress(teacherId, assessmentData.studentId);
+    return {
+      revision,
+      accuracy: metrics.accuracy,
+      wordsPerMinute: metrics.wordsPerMinute,
+      totalWords: metrics.totalWords,
+      keptOverrides: overrides.length,
+      droppedOverrides: dropped,
+    };
+  });
+
+/**
+ * Callable function to restore an earlier revision of an assessment
+ * The restored results are recorded as a new revision so history is never rewritten
+ */
+export const restoreAssessmentRevision = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, assessmentId, revision, reason } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this assessment, or records for its student as a co-teacher
+    if (teacherId !== userId && !(await hasSharedWriteAccess(db, teacherId, userId, assessmentId))) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only restore your own assessments');
+    }
+
+    if (!Number.isInteger(revision) || revision < 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'revision must be a non-negative integer');
+    }
+
+    const assessmentRef = db.collection('teachers').doc(teacherId)
+      .collection('assessments').doc(assessmentId);
+    const revisionDoc = await revisionRef(assessmentRef, revision).get();
+
+    if (!revisionDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Revision not found');
+    }
+
+    const revisionData = revisionDoc.data()!;
+
+    try {
+      const newRevision = await commitRevision(db, assessmentRef, {
+        metrics: revisionData.metrics,
+        words: revisionData.words || [],
+        errorPatterns: revisionData.errorPatterns || [],
+        patternSummary: revisionData.patternSummary || null,
+        expectedWordEdits: revisionData.expectedWordEdits || null,
+      }, {
+        uid: userId,
+        source: 'restore',
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : `Restored revision ${revision}`,
+        restoredFrom: revision,
+      }, {
+        videoUrl: admin.firestore.FieldValue.delete(),
+        pdfUrl: admin.firestore.FieldValue.delete(),
+        aiSummary: admin.firestore.FieldValue.delete(),
+        aiSummaryAudioUrl: admin.firestore.FieldValue.delete(),
+      });
+
+      console.log(`Assessment ${assessmentId} restored to revision ${revision} as revision ${newRevision}`);
+      const assessmentDoc = await assessmentRef.get();
+      await updateStudentProgress(teacherId, assessmentDoc.data()?.studentId);
+      return { revision: newRevision };
+
+    } catch (error) {
+      console.error('Revision restore error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to restore revision');
+    }
+  });
+
+const OVERRIDE_STATUSES = ['correct', 'misread', 'substituted', 'skipped', 'self-corrected'];
+
+function isWordOverride(override: { index: number; status: unknown }): override is WordOverride {
+  return Number.isInteger(override.index) && override.index >= 0
+    && typeof override.status === 'string' && OVERRIDE_STATUSES.includes(override.status);
+}
+
+/**
+ * Callable function to manually override the scoring of individual words
+ * Recomputes metrics and error patterns from the overridden alignment
+ */
+export const overrideWordScores = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, assessmentId, overrides, reason } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this assessment, or records for its student as a co-teacher
+    if (teacherId !== userId && !(await hasSharedWriteAccess(db, teacherId, userId, assessmentId))) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only rescore your own assessments');
+    }
+
+    if (!Array.isArray(overrides) || overrides.length === 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'overrides must be a non-empty array');
+    }
+
+    const wordOverrides = overrides.map((item: unknown) => {
+      const override = toRecord(item);
+      return { index: Number(override.index), status: override.status };
+    });
+
+    if (!wordOverrides.every(isWordOverride)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Each override needs a valid word index and status');
+    }
+
+    // Get the assessment data
+    const assessmentRef = db.collection('teachers').doc(teacherId)
+      .collection('assessments').doc(assessmentId);
+    const assessmentDoc = await assessmentRef.get();
+
+    if (!assessmentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Assessment not found');
+    }
+
+    const assessmentData = assessmentDoc.data()!;
+
+    // Check if assessment is complete
+    if (assessmentData.status !== 'complete') {
+      throw new functions.https.HttpsError('failed-precondition', 'Assessment must be complete before rescoring');
+    }
+
+    const words = assessmentData.words || [];
+    if (wordOverrides.some(o => o.index >= words.length)) {
+      throw new functions.https.HttpsError('invalid-argument', 'Word index is out of range');
+    }
+
+    try {
+      const matchingResult = applyWordOverrides(
+        words,
+        wordOverrides,
+        assessmentData.metrics?.fillerWordCount || 0
+      );
+      const { metrics, errorPatterns, patternSummary } = analyzeMatchingResult(
+        matchingResult,
+        assessmentData.audioDuration || 0
+      );
+
+      // Video and PDF were rendered from the previous scoring, so drop them
+      const revision = await commitRevision(db, assessmentRef, {
+        metrics: toStoredMetrics(metrics),
+        words: matchingResult.words,
+        errorPatterns,
+        patternSummary,
+        expectedWordEdits: assessmentData.expectedWordEdits || null,
+      }, {
+        uid: userId,
+        source: 'override',
+        reason: typeof reason === 'string' && reason.trim()
+          ? reason.trim()
+          : `Rescored ${wordOverrides.length} word${wordOverrides.length === 1 ? '' : 's'}`,
+      }, {
+        videoUrl: admin.firestore.FieldValue.delete(),
+        pdfUrl: admin.firestore.FieldValue.delete(),
+        aiSummary: admin.firestore.FieldValue.delete(),
+        aiSummaryAudioUrl: admin.firestore.FieldValue.delete(),
+      });
+
+      console.log(`Word overrides saved for assessment ${assessmentId} as revision ${revision}`);
+      await updateStudentProgress(teacherId, assessmentData.studentId);
+      return {
+        revision,
+        accuracy: metrics.accuracy,
+        wordsPerMinute: metrics.wordsPerMinute,
+        prosodyScore: metrics.prosodyScore,
+      };
+
+    } catch (error) {
+      console.error('Word override error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to save word scoring');
+    }
+  });
+
+/**
+ * Callable function to recompute a student's celeration progress
+ * Used by charts after phase changes or aims are edited
+ */
+export const getStudentProgress = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, studentId } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this student
+    if (teacherId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only view progress for your own students');
+    }
+
+    if (typeof studentId !== 'string' || !studentId) {
+      throw new functions.https.HttpsError('invalid-argument', 'studentId is required');
+    }
+
+    const studentDoc = await db.collection('teachers').doc(teacherId)
+      .collection('students').doc(studentId).get();
+
+    if (!studentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Student not found');
+    }
+
+    try {
+      return await refreshStudentProgress(db, teacherId, studentId);
+    } catch (error) {
+      console.error('Progress calculation error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to calculate progress');
+    }
+  });
+
+/**
+ * Callable function to import a Standard Celeration Chart dataset (student-data-*.json)
+ * Historical timings are stored as metrics-only assessments so they plot alongside new ones
+ */
+export const importSccDataset = functions
+  .runWith({
+    timeoutSeconds: 120,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, dataset, studentId } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns the target roster
+    if (teacherId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only import data for your own students');
+    }
+
+    let parsed: ParsedSccDataset;
+    try {
+      parsed = parseSccDataset(dataset);
+    } catch (error) {
+      throw new functions.https.HttpsError('invalid-argument', error instanceof Error ? error.message : 'Invalid dataset');
+    }
+
+    const teacherRef = db.collection('teachers').doc(teacherId);
+    const studentsRef = teacherRef.collection('students');
+
+    // Resolve the student: explicit target, then a previous import of the same source student
+    let targetStudentId: string | null = null;
+    let studentName = parsed.student.name;
+
+    if (studentId) {
+      const studentDoc = await studentsRef.doc(studentId).get();
+      if (!studentDoc.exists) {
+        throw new functions.https.HttpsError('not-found', 'Student not found');
+      }
+      targetStudentId = studentId;
+      studentName = studentDoc.data()!.name;
+    } else if (parsed.student.externalId) {
+      const existing = await studentsRef
+        .where('externalId', '==', parsed.student.externalId)
+        .limit(1)
+        .get();
+      if (!existing.empty) {
+        targetStudentId = existing.docs[0].id;
+        studentName = existing.docs[0].data().name;
+      }
+    }
+
+    try {
+      let createdStudent = false;
+      if (!targetStudentId) {
+        const studentRef = await studentsRef.add({
+          name: parsed.student.name,
+          grade: parsed.student.grade,
+          externalId: parsed.student.externalId,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        targetStudentId = studentRef.id;
+        createdStudent = true;
+      }
+
+      // Skip timings already imported for this student
+      const previousImports = await teacherRef.collection('assessments')
+        .where('studentId', '==', targetStudentId)
+        .where('source', '==', SCC_IMPORT_SOURCE)
+        .get();
+      const importedIds = new Set(previousImports.docs.map(doc => doc.data().importedFrom?.sourceAssessmentId));
+      const pending = parsed.assessments.filter(assessment => !importedIds.has(assessment.sourceAssessmentId));
+
+      // Firestore batches are limited to 500 writes
+      for (let start = 0; start < pending.length; start += 400) {
+        const batch = db.batch();
+        for (const assessment of pending.slice(start, start + 400)) {
+          const timestamp = admin.firestore.Timestamp.fromDate(assessment.date);
+          batch.set(teacherRef.collection('assessments').doc(), {
+            studentId: targetStudentId,
+            studentName,
+            status: 'complete',
+            source: SCC_IMPORT_SOURCE,
+            importedFrom: {
+              sourceAssessmentId: assessment.sourceAssessmentId,
+              source: parsed.source,
+              importedAt: admin.firestore.FieldValue.serverTimestamp(),
+            },
+            createdAt: timestamp,
+            processedAt: timestamp,
+            audioDuration: assessment.countingTimeSec,
+            metrics: assessment.metrics,
+            words: [],
+            errorPatterns: [],
+          });
+        }
+        await batch.commit();
+      }
+
+      await updateStudentProgress(teacherId, targetStudentId);
+
+      console.log(`Imported ${pending.length} assessments for student ${targetStudentId}`);
+      return {
+        studentId: targetStudentId,
+        studentName,
+        createdStudent,
+        imported: pending.length,
+        skipped: parsed.assessments.length - pending.length,
+      };
+
+    } catch (error) {
+      console.error('Dataset import error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to import dataset');
+    }
+  });
+
+/**
+ * Callable function to export a student's assessments as a Standard Celeration Chart dataset
+ */
+export const exportSccDataset = functions
+  .runWith({
+    timeoutSeconds: 120,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, studentId } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this student
+    if (teacherId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only export data for your own students');
+    }
+
+    if (typeof studentId !== 'string' || !studentId) {
+      throw new functions.https.HttpsError('invalid-argument', 'studentId is required');
+    }
+
+    const teacherRef = db.collection('teachers').doc(teacherId);
+    const studentDoc = await teacherRef.collection('students').doc(studentId).get();
+
+    if (!studentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Student not found');
+    }
+
+    const studentData = studentDoc.data()!;
+
+    try {
+      const assessmentsSnapshot = await teacherRef.collection('assessments')
+        .where('studentId', '==', studentId)
+        .where('status', '==', 'complete')
+        .get();
+
+      const assessments: SccSourceAssessment[] = assessmentsSnapshot.docs
+        .filter(doc => doc.data().metrics)
+        .map(doc => {
+          const assessmentData = doc.data();
+          return {
+            id: doc.id,
+            createdAt: assessmentData.createdAt?.toDate() || new Date(),
+            audioDuration: assessmentData.audioDuration,
+            metrics: assessmentData.metrics,
+            words: assessmentData.words || [],
+            patternSummary: assessmentData.patternSummary || null,
+          };
+        });
+
+      if (assessments.length === 0) {
+        throw new functions.https.HttpsError('failed-precondition', 'Student has no completed assessments to export');
+      }
+
+      const dataset = buildSccDataset(
+        { id: studentId, name: studentData.name, grade: studentData.grade },
+        assessments
+      );
+      const fileName = getSccFileName(studentData.name, assessments.length);
+
+      // Upload JSON to storage
+      const bucket = storage.bucket();
+      const exportStoragePath = `exports/${teacherId}/${studentId}/${fileName}`;
+      const downloadToken = uuidv4();
+
+      await bucket.file(exportStoragePath).save(JSON.stringify(dataset, null, 2), {
+        metadata: {
+          contentType: 'application/json',
+          contentDisposition: `attachment; filename="${fileName}"`,
+          metadata: {
+            firebaseStorageDownloadTokens: downloadToken,
+          },
+        },
+      });
+
+      const url = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(exportStoragePath)}?alt=media&token=${downloadToken}`;
+
+      console.log(`Exported ${assessments.length} assessments for student ${studentId}`);
+      return { fileName, url, assessmentCount: assessments.length };
+
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Dataset export error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to export dataset');
+    }
+  });
+
+// Lifetime of the signed download link of a student records export
+const RECORDS_URL_TTL_MINUTES = 15;
+
+/**
+ * Export every record held about a student (FERPA inspection request)
+ * Bundles assessments, revisions, PDF reports, AI summaries and retained media into a ZIP
+ * with a manifest; the link expires after 15 minutes and the file after the export retention period
+ */
+export const exportStudentRecords = functions
+  .runWith({
+    timeoutSeconds: 540,
+    memory: '2GB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, studentId } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this student
+    if (teacherId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only export records of your own students');
+    }
+
+    if (typeof studentId !== 'string' || !studentId) {
+      throw new functions.https.HttpsError('invalid-argument', 'studentId is required');
+    }
+
+    const studentDoc = await db.collection('teachers').doc(teacherId)
+      .collection('students').doc(studentId).get();
+    if (!studentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Student not found');
+    }
+
+    try {
+      const bucket = storage.bucket();
+      const { zip, manifest } = await buildStudentRecords(db, bucket, teacherId, studentId);
+      const fileName = getRecordsFileName(studentDoc.data()!.name);
+
+      const file = bucket.file(`exports/${teacherId}/${studentId}/${fileName}`);
+      await file.save(zip, {
+        metadata: {
+          contentType: 'application/zip',
+          contentDisposition: `attachment; filename="${fileName}"`,
+        },
+      });
+
+      const expiresAt = Date.now() + RECORDS_URL_TTL_MINUTES * 60 * 1000;
+      const [url] = await file.getSignedUrl({ action: 'read', expires: expiresAt });
+
+      console.log(`Exported records of student ${studentId}: ${manifest.files.length} files, ${zip.length} bytes`);
+      return {
+        fileName,
+        url,
+        expiresAt: new Date(expiresAt).toISOString(),
+        assessmentCount: manifest.assessmentCount,
+        fileCount: manifest.files.length,
+      };
+
+    } catch (error) {
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      console.error('Student records export error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to export student records');
+    }
+  });
+
+/**
+ * Permanently delete a student (COPPA/FERPA deletion request)
+ * Removes the student, every assessment with its subcollections and all their Storage files,
+ * and returns the deletion certificate recorded in the deletion log
+ */
+export const deleteStudent = functions
+  .runWith({
+    timeoutSeconds: 540,
+    memory: '512MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, studentId } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this student
+    if (teacherId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only delete your own students');
+    }
+
+    if (typeof studentId !== 'string' || !studentId) {
+      throw new functions.https.HttpsError('invalid-argument', 'studentId is required');
+    }
+
+    const studentDoc = await db.collection('teachers').doc(teacherId)
+      .collection('students').doc(studentId).get();
+    if (!studentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Student not found');
+    }
+
+    try {
+      const certificate = await deleteStudentCascade(db, storage.bucket(), teacherId, studentId, userId);
+
+      console.log(
+        `Deleted student ${studentId}: ${certificate.assessmentIds.length} assessment(s), ` +
+        `${certificate.documentsDeleted} document(s), ${certificate.filesDeleted} file(s)`
+      );
+      return certificate;
+
+    } catch (error) {
+      console.error('Student deletion error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to delete student');
+    }
+  });
+
+/**
+ * Record a student's parental consent (owner, or co-teacher with write access)
+ * The recorder is the signed-in user; every change is kept in the consent history
+ */
+export const setStudentConsent = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, studentId, status, method } = data;
+    const userId = context.auth.uid;
+
+    if (typeof teacherId !== 'string' || !teacherId || typeof studentId !== 'string' || !studentId) {
+      throw new functions.https.HttpsError('invalid-argument', 'teacherId and studentId are required');
+    }
+    if (!isConsentStatus(status) || (method !== null && !isConsentMethod(method))) {
+      throw new functions.https.HttpsError('invalid-argument', 'A valid consent status and method are required');
+    }
+
+    if (teacherId !== userId && !(await hasStudentWriteAccess(db, teacherId, userId, studentId))) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only record consent for your own students');
+    }
+
+    const studentDoc = await db.collection('teachers').doc(teacherId)
+      .collection('students').doc(studentId).get();
+    if (!studentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Student not found');
+    }
+
+    try {
+      const recorder = { uid: userId, email: context.auth.token.email || null };
+      await recordConsent(db, teacherId, studentId, status, method, recorder);
+      return { recordedBy: recorder.uid, recordedByEmail: recorder.email };
+
+    } catch (error) {
+      console.error('Set consent error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to save consent');
+    }
+  });
+
+/**
+ * Share a student with a co-teacher by email, with read or read-write access
+ */
+export const shareStudent = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, studentId, access } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this student
+    if (teacherId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only share your own students');
+    }
+
+    const email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : '';
+    if (typeof studentId !== 'string' || !studentId || !email || !SHARE_ACCESS.includes(access)) {
+      throw new functions.https.HttpsError('invalid-argument', 'studentId, email and access (read or write) are required');
+    }
+
+    const studentDoc = await db.collection('teachers').doc(teacherId)
+      .collection('students').doc(studentId).get();
+    if (!studentDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'Student not found');
+    }
+
+    let grantee: admin.auth.UserRecord;
+    try {
+      grantee = await admin.auth().getUserByEmail(email);
+    } catch {
+      throw new functions.https.HttpsError('not-found', 'No account uses this email. Ask them to sign in to the app once first.');
+    }
+    if (grantee.uid === userId) {
+      throw new functions.https.HttpsError('failed-precondition', 'You cannot share a student with yourself');
+    }
+
+    try {
+      await grantStudentShare(
+        db,
+        { uid: userId, email: context.auth.token.email || '' },
+        studentId,
+        { uid: grantee.uid, email },
+        access
+      );
+
+      console.log(`Shared student ${studentId} of ${teacherId} with ${grantee.uid} (${access})`);
+      return { uid: grantee.uid, email, access };
+
+    } catch (error) {
+      console.error('Share student error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to share student');
+    }
+  });
+
+/**
+ * Revoke a co-teacher's access to a student
+ */
+export const unshareStudent = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { teacherId, studentId, uid } = data;
+    const userId = context.auth.uid;
+
+    // Verify the user owns this student
+    if (teacherId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only change sharing of your own students');
+    }
+
+    if (typeof studentId !== 'string' || !studentId || typeof uid !== 'string' || !uid) {
+      throw new functions.https.HttpsError('invalid-argument', 'studentId and uid are required');
+    }
+
+    try {
+      await revokeStudentShare(db, teacherId, studentId, uid);
+      console.log(`Unshared student ${studentId} of ${teacherId} from ${uid}`);
+      return { success: true };
+
+    } catch (error) {
+      console.error('Unshare student error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to stop sharing student');
+    }
+  });
+
+/**
+ * Get the caller's membership of an organization, or refuse the request
+ */
+async function requireOrgMember(orgId: unknown, uid: string): Promise<OrgMember> {
+  if (typeof orgId !== 'string' || !orgId) {
+    throw new functions.https.HttpsError('invalid-argument', 'orgId is required');
+  }
+
+  const member = await getMember(db, orgId, uid);
+  if (!member) {
+    throw new functions.https.HttpsError('permission-denied', 'You are not a member of this organization');
+  }
+  return member;
+}
+
+/**
+ * Create an organization (school or district); the caller becomes its district admin
+ */
+export const createOrganization = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name) {
+      throw new functions.https.HttpsError('invalid-argument', 'name is required');
+    }
+
+    try {
+      const orgId = await createOrganizationDocs(db, name, {
+        uid: context.auth.uid,
+        email: context.auth.token.email || '',
+        displayName: context.auth.token.name || null,
+      });
+
+      console.log(`Created organization ${orgId} for ${context.auth.uid}`);
+      return { orgId };
+
+    } catch (error) {
+      console.error('Create organization error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to create organization');
+    }
+  });
+
+/**
+ * Add or rename a school of an organization (district admins only)
+ */
+export const saveOrganizationSchool = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId, schoolId } = data;
+    const member = await requireOrgMember(orgId, context.auth.uid);
+    if (member.role !== 'district-admin') {
+      throw new functions.https.HttpsError('permission-denied', 'Only district admins can manage schools');
+    }
+
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name) {
+      throw new functions.https.HttpsError('invalid-argument', 'name is required');
+    }
+
+    try {
+      const savedId = await saveSchool(db, orgId, typeof schoolId === 'string' && schoolId ? schoolId : null, name);
+      return { schoolId: savedId };
+
+    } catch (error) {
+      console.error('Save school error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to save school');
+    }
+  });
+
+/**
+ * Add or update a class of a school (school admins of that school and district admins)
+ */
+export const saveOrganizationClass = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId, classId, schoolId, teacherId } = data;
+    const member = await requireOrgMember(orgId, context.auth.uid);
+
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name || typeof schoolId !== 'string' || !schoolId || typeof teacherId !== 'string' || !teacherId) {
+      throw new functions.https.HttpsError('invalid-argument', 'name, schoolId and teacherId are required');
+    }
+
+    if (!canManageSchools(member, [schoolId])) {
+      throw new functions.https.HttpsError('permission-denied', 'You can only manage classes of your schools');
+    }
+
+    const schoolDoc = await db.collection('organizations').doc(orgId).collection('schools').doc(schoolId).get();
+    if (!schoolDoc.exists) {
+      throw new functions.https.HttpsError('not-found', 'School not found');
+    }
+
+    // The class's current school and the teacher's schools are checked with the write
+    let result: Awaited<ReturnType<typeof saveClass>>;
+    try {
+      result = await saveClass(db, orgId, typeof classId === 'string' && classId ? classId : null, {
+        name,
+        schoolId,
+        teacherId,
+      }, member);
+    } catch (error) {
+      console.error('Save class error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to save class');
+    }
+
+    if ('refusal' in result) {
+      switch (result.refusal) {
+        case 'class-not-found':
+          throw new functions.https.HttpsError('not-found', 'Class not found');
+        case 'teacher-not-member':
+          throw new functions.https.HttpsError('not-found', 'The class teacher must be a member of the organization');
+        default:
+          throw new functions.https.HttpsError('permission-denied', 'You can only manage classes and teachers of your schools');
+      }
+    }
+    return { classId: result.classId };
+  });
+
+/**
+ * Choose the OCR provider for every classroom of an organization (district admins only)
+ * ocrProvider null leaves the choice to each teacher
+ */
+export const setOrganizationOcrProvider = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId, ocrProvider } = data;
+    const member = await requireOrgMember(orgId, context.auth.uid);
+    if (member.role !== 'district-admin') {
+      throw new functions.https.HttpsError('permission-denied', 'Only district admins can choose the OCR provider');
+    }
+
+    if (ocrProvider !== null && !isOcrProviderName(ocrProvider)) {
+      throw new functions.https.HttpsError('invalid-argument', 'ocrProvider must be a known provider or null');
+    }
+
+    try {
+      await setOcrProvider(db, orgId, ocrProvider);
+      console.log(`Set OCR provider of organization ${orgId} to ${ocrProvider ?? 'teacher choice'}`);
+      return { success: true };
+
+    } catch (error) {
+      console.error('Set OCR provider error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to save OCR provider');
+    }
+  });
+
+/**
+ * Choose the speech provider for every classroom of an organization (district admins only)
+ * speechProvider null leaves the choice to each teacher
+ */
+export const setOrganizationSpeechProvider = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId, speechProvider } = data;
+    const member = await requireOrgMember(orgId, context.auth.uid);
+    if (member.role !== 'district-admin') {
+      throw new functions.https.HttpsError('permission-denied', 'Only district admins can choose the speech provider');
+    }
+
+    if (speechProvider !== null && !isSpeechProviderName(speechProvider)) {
+      throw new functions.https.HttpsError('invalid-argument', 'speechProvider must be a known provider or null');
+    }
+
+    try {
+      await setSpeechProvider(db, orgId, speechProvider);
+      console.log(`Set speech provider of organization ${orgId} to ${speechProvider ?? 'teacher choice'}`);
+      return { success: true };
+
+    } catch (error) {
+      console.error('Set speech provider error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to save speech provider');
+    }
+  });
+
+/**
+ * Invite someone to an organization by email, or change a member's role and schools
+ * School admins can invite teachers and specialists to their own schools; district admins anyone
+ */
+export const setOrganizationMember = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId, role } = data;
+    const member = await requireOrgMember(orgId, context.auth.uid);
+
+    const email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : '';
+    const schoolIds: string[] = Array.isArray(data.schoolIds)
+      ? data.schoolIds.filter((id: unknown) => typeof id === 'string' && id)
+      : [];
+    if (!email || !ORG_ROLES.includes(role)) {
+      throw new functions.https.HttpsError('invalid-argument', 'email and a valid role are required');
+    }
+    if (role !== 'district-admin' && schoolIds.length === 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'Choose at least one school');
+    }
+
+    if (!canManageSchools(member, schoolIds) || (member.role !== 'district-admin' && isAdminRole(role))) {
+      throw new functions.https.HttpsError('permission-denied', 'You cannot grant this role for these schools');
+    }
+
+    if ((await findMissingSchools(db, orgId, schoolIds)).length > 0) {
+      throw new functions.https.HttpsError('invalid-argument', 'Choose schools of this organization');
+    }
+
+    let user: admin.auth.UserRecord;
+    try {
+      user = await admin.auth().getUserByEmail(email);
+    } catch {
+      throw new functions.https.HttpsError('not-found', 'No account uses this email. Ask them to sign in to the app once first.');
+    }
+
+    if (user.uid === context.auth.uid) {
+      throw new functions.https.HttpsError('failed-precondition', 'You cannot change your own membership');
+    }
+
+    const existing = await getMember(db, orgId, user.uid);
+    if (existing && member.role !== 'district-admin' && isAdminRole(existing.role)) {
+      throw new functions.https.HttpsError('permission-denied', 'Only district admins can change admins');
+    }
+
+    const memberSchoolIds = role === 'district-admin' ? [] : schoolIds;
+    try {
+      // New people are invited; they join (and share their classroom) only once they accept
+      if (!existing) {
+        await inviteMember(db, orgId, user.uid, role, memberSchoolIds, context.auth.uid);
+        console.log(`Invited ${user.uid} as ${role} of organization ${orgId}`);
+        return { uid: user.uid, invited: true, classroomLinked: false };
+      }
+
+      const classroomLinked = await setMember(db, orgId, user.uid, role, memberSchoolIds);
+      console.log(`Set ${user.uid} as ${role} of organization ${orgId}`);
+      return { uid: user.uid, invited: false, classroomLinked };
+
+    } catch (error) {
+      console.error('Set organization member error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to save member');
+    }
+  });
+
+/**
+ * Accept an invite to an organization as the invited user
+ * They become a member and their classroom is shared with the organization's staff
+ */
+export const acceptOrganizationInvite = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId } = data;
+    if (typeof orgId !== 'string' || !orgId) {
+      throw new functions.https.HttpsError('invalid-argument', 'orgId is required');
+    }
+
+    let classroomLinked: boolean | null;
+    try {
+      classroomLinked = await acceptInvite(db, orgId, {
+        uid: context.auth.uid,
+        email: context.auth.token.email || '',
+        displayName: context.auth.token.name || null,
+      });
+    } catch (error) {
+      console.error('Accept organization invite error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to accept invitation');
+    }
+
+    if (classroomLinked === null) {
+      throw new functions.https.HttpsError('not-found', 'The invitation was withdrawn or already answered');
+    }
+
+    console.log(`${context.auth.uid} joined organization ${orgId}`);
+    return { classroomLinked };
+  });
+
+/**
+ * Decline an invite to an organization as the invited user
+ */
+export const declineOrganizationInvite = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId } = data;
+    if (typeof orgId !== 'string' || !orgId) {
+      throw new functions.https.HttpsError('invalid-argument', 'orgId is required');
+    }
+
+    try {
+      await declineInvite(db, orgId, context.auth.uid);
+      return { success: true };
+
+    } catch (error) {
+      console.error('Decline organization invite error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to decline invitation');
+    }
+  });
+
+/**
+ * Leave an organization: the caller's classes are removed and its staff lose access
+ * to their classroom (the last district admin cannot leave)
+ */
+export const leaveOrganization = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId } = data;
+    const member = await requireOrgMember(orgId, context.auth.uid);
+
+    if (member.role === 'district-admin' && !(await hasOtherDistrictAdmin(db, orgId, member.uid))) {
+      throw new functions.https.HttpsError(
+        'failed-precondition',
+        'Make another member a district admin before leaving'
+      );
+    }
+
+    try {
+      await removeMember(db, orgId, member.uid);
+      console.log(`${member.uid} left organization ${orgId}`);
+      return { success: true };
+
+    } catch (error) {
+      console.error('Leave organization error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to leave organization');
+    }
+  });
+
+/**
+ * Remove a member from an organization, with their classes and classroom access
+ */
+export const removeOrganizationMember = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: '256MB',
+  })
+  .https
+  .onCall(async (data, context) => {
+    // Verify authentication
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const { orgId, uid } = data;
+    const member = await requireOrgMember(orgId, context.auth.uid);
+
+    if (typeof uid !== 'string' || !uid) {
+      throw new functions.https.HttpsError('invalid-argument', 'uid is required');
+    }
+    if (uid === context.auth.uid) {
+      throw new functions.https.HttpsError('failed-precondition', 'You cannot remove yourself');
+    }
+
+    const existing = await getMember(db, orgId, uid);
+    if (!existing) {
+      throw new functions.https.HttpsError('not-found', 'Member not found');
+    }
+
+    if (!canManageSchools(member, existing.schoolIds) || (member.role !== 'district-admin' && isAdminRole(existing.role))) {
+      throw new functions.https.HttpsError('permission-denied', 'You cannot remove this member');
+    }
+
+    try {
+      await removeMember(db, orgId, uid);
+      console.log(`Removed ${uid} from organization ${orgId}`);
+      return { success: true };
+
+    } catch (error) {
+      console.error('Remove organization member error:', error);
+      throw new functions.https.HttpsError('internal', 'Failed to remove member');
+    }
+  });
+
+/**
+ * Scheduled enforcement of the data retention policy
+ * Deletes expired audio, images, videos, summary audio, reports and exports,
+ * clears their URLs from assessments and appends each deletion to the teacher's deletion log
+ */
+export const enforceDataRetention = functions
+  .runWith({
+    timeoutSeconds: 540,
+    memory: '512MB',
+  })
+  .pubsub
+  .schedule('every 60 minutes')
+  .onRun(async () => {
+    const summary = await enforceRetention(db, storage.bucket());
+    console.log(
+      `[Retention] Deleted ${summary.deletedFiles} file(s), cleared URLs on ` +
+      `${summary.clearedAssessments} assessment(s), wrote ${summary.logEntries} log entries`
+    );
+    return null;
+  });
@@ -0,0 +1,452 @@
+/**
+ * Assessment Pipeline
+ * Processing of an uploaded reading as explicit stages (transcribe → OCR → match →
+ * metrics → patterns → summary → TTS → media). Each stage reads what earlier stages
+ * stored on the assessment document and stores its own output there, so any stage can
+ * be run again on its own. Progress is kept per stage in stages.{name}:
+ * { status, startedAt, durationMs, error }
+ * A failed required stage stops the pipeline and marks the assessment as an error;
+ * the summary and its audio are optional and the assessment completes without them.
+ * A stage still 'running' after the function timeout was cut off and counts as failed
+ */
+
+import * as admin from 'firebase-admin';
+import { v4 as uuidv4 } from 'uuid';
+import { getSpeechProvider, transcribeAudio } from './speechToText';
+import { extractTextFromImages, getOcrProvider } from './visionOcr';
+import { matchWords, summarizeAlignment } from './wordMatching';
+import { calculateMetrics, analyzeErrorPatterns, generatePatternSummary, Metrics } from './metricsCalculator';
+import { toStoredMetrics } from './readingAnalysis';
+import { buildRevisionData, revisionRef } from './revisionHistory';
+import { generateAISummary } from './summaryGenerator';
+import { generateSpeechAudio } from './textToSpeech';
+import { getStudentPrivacy } from './pseudonymizer';
+import {
+  getLibraryPassage,
+  getLibraryPassages,
+  identifyPassage,
+  mapCanonicalWords,
+  passageTextToWords,
+} from './passageLibrary';
+import { getManifestFiles, UploadManifest, UPLOAD_MANIFEST_FILE } from './uploadManifest';
+
+type Bucket = ReturnType<admin.storage.Storage['bucket']>;
+
+// Timeout of the functions that run the pipeline (processAssessment, retryAssessmentStage)
+export const PIPELINE_TIMEOUT_SECONDS = 540;
+
+// Speech-to-Text budget within the function timeout, shared by waiting on a running
+// pre-transcription and transcribing; the rest is left for the later stages
+const TRANSCRIBE_BUDGET_SECONDS = 300;
+const PRE_TRANSCRIPT_WAIT_SECONDS = 180;
+
+export const PIPELINE_STAGES = ['transcribe', 'ocr', 'match', 'metrics', 'patterns', 'summary', 'tts', 'media'] as const;
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export type StageStatus = 'pending' | 'running' | 'complete' | 'error';
+
+export interface StageRecord {
+  status: StageStatus;
+  startedAt: admin.firestore.Timestamp | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+  transcribe: 'Transcribing speech',
+  ocr: 'Extracting text',
+  match: 'Matching words',
+  metrics: 'Calculating metrics',
+  patterns: 'Analyzing patterns',
+  summary: 'Writing summary',
+  tts: 'Recording summary audio',
+  media: 'Preparing playback',
+};
+
+// The assessment is complete without these; they can be retried later
+const OPTIONAL_STAGES: PipelineStage[] = ['summary', 'tts'];
+
+export interface PipelineContext {
+  db: admin.firestore.Firestore;
+  bucket: Bucket;
+  teacherId: string;
+  assessmentId: string;
+  assessmentRef: admin.firestore.DocumentReference;
+  manifest: UploadManifest | null;   // Null once the uploads are deleted (after completion)
+}
+
+export interface PipelineOutcome {
+  complete: boolean;
+  failedStage: PipelineStage | null;
+}
+
+type StageRunner = (
+  context: PipelineContext,
+  data: admin.firestore.DocumentData
+) => Promise<admin.firestore.DocumentData>;
+
+/**
+ * Stage records for a newly claimed assessment
+ */
+export function createPendingStages(): Record<PipelineStage, StageRecord> {
+  const stages = {} as Record<PipelineStage, StageRecord>;
+  for (const stage of PIPELINE_STAGES) {
+    stages[stage] = { status: 'pending', startedAt: null, durationMs: null, error: null };
+  }
+  return stages;
+}
+
+export function isPipelineStage(value: unknown): value is PipelineStage {
+  return PIPELINE_STAGES.includes(value as PipelineStage);
+}
+
+/**
+ * Whether a stage is 'running' but started before the function timeout - the function
+ * running it was cut off, so the stage can be retried like a failed one
+ */
+export function isStaleStage(record: StageRecord | undefined): boolean {
+  return record?.status === 'running'
+    && !!record.startedAt
+    && Date.now() - record.startedAt.toMillis() > PIPELINE_TIMEOUT_SECONDS * 1000;
+}
+
+function getUploadFiles(context: PipelineContext) {
+  if (!context.manifest) {
+    throw new Error('The uploaded recording and images are no longer available. Please record the reading again.');
+  }
+  const prefix = `uploads/${context.teacherId}/${context.assessmentId}/`;
+  return {
+    audioFile: context.bucket.file(prefix + getManifestFiles(context.manifest, 'audio')[0].name),
+    imageFiles: getManifestFiles(context.manifest, 'image').map(file => context.bucket.file(prefix + file.name)),
+  };
+}
+
+/**
+ * Whether the early pre-transcription is still running (one that started before the function
+ * timeout was cut off)
+ */
+function isPreTranscribing(data: admin.firestore.DocumentData | undefined): boolean {
+  const startedAt: admin.firestore.Timestamp | undefined = data?.preTranscribeStartedAt;
+  return data?.preTranscribeStatus === 'processing'
+    && !!startedAt
+    && Date.now() - startedAt.toMillis() <= PIPELINE_TIMEOUT_SECONDS * 1000;
+}
+
+/**
+ * Wait for a pre-transcription that is still running rather than transcribing the audio twice
+ * Returns the assessment data once pre-transcription has finished or the wait runs out
+ */
+async function waitForPreTranscript(
+  assessmentRef: admin.firestore.DocumentReference,
+  data: admin.firestore.DocumentData | undefined
+): Promise<admin.firestore.DocumentData | undefined> {
+  const deadline = Date.now() + PRE_TRANSCRIPT_WAIT_SECONDS * 1000;
+  let current = data;
+
+  while (isPreTranscribing(current) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 5000));
+    current = (await assessmentRef.get()).data();
+  }
+
+  return current;
+}
+
+/**
+ * Metrics of the stored alignment (the same numbers matching produced)
+ */
+function getAlignmentMetrics(data: admin.firestore.DocumentData): Metrics {
+  return calculateMetrics(
+    summarizeAlignment(data.words || [], data.fillerWordCount || 0),
+    data.audioDuration || 0
+  );
+}
+
+function getDownloadUrl(bucket: Bucket, storagePath: string, token: string): string {
+  return `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(storagePath)}?alt=media&token=${token}`;
+}
+
+const STAGE_RUNNERS: Record<PipelineStage, StageRunner> = {
+  async transcribe(context, data) {
+    const deadline = Date.now() + TRANSCRIBE_BUDGET_SECONDS * 1000;
+    const current = await waitForPreTranscript(context.assessmentRef, data);
+
+    // Transcribing as well could outlast the function - a retry picks up the finished pre-transcription
+    if (isPreTranscribing(current)) {
+      throw new Error('The early transcription is still running. Please retry in a minute.');
+    }
+
+    if (current?.preTranscribeStatus === 'complete' && current.preTranscriptWords) {
+      // Use pre-transcription result (saves 5-15 seconds!)
+      console.log('Using pre-transcription result...');
+      const words = current.preTranscriptWords;
+      return {
+        transcript: current.preTranscript,
+        transcriptWords: words,
+        audioDuration: words.length > 0 ? words[words.length - 1].endTime : 0,
+      };
+    }
+
+    const { audioFile } = getUploadFiles(context);
+    const [audioMetadata] = await audioFile.getMetadata();
+    const audioContentType = audioMetadata.contentType || 'audio/webm';
+    const gcsUri = `gs://${context.bucket.name}/${audioFile.name}`;
+    console.log(`Calling Speech-to-Text API for ${gcsUri} (${audioContentType})...`);
+
+    const speechProvider = await getSpeechProvider(context.db, context.teacherId);
+    const maxWaitSeconds = Math.floor((deadline - Date.now()) / 1000);
+    const transcription = await transcribeAudio(speechProvider, gcsUri, audioContentType, maxWaitSeconds);
+    console.log(`Transcription: "${transcription.transcript.substring(0, 100)}..."`);
+    return {
+      transcript: transcription.transcript,
+      transcriptWords: transcription.words,
+      audioDuration: transcription.words.length > 0
+        ? transcription.words[transcription.words.length - 1].endTime
+        : 0,
+    };
+  },
+
+  async ocr(context, data) {
+    const passageId = context.manifest?.passageId || data.passageId;
+    if (passageId) {
+      // Canonical passage text replaces OCR - images (if any) are kept for display only
+      const passage = await getLibraryPassage(context.db, context.teacherId, passageId);
+      if (!passage) {
+        throw new Error('The selected passage was not found in the library');
+      }
+      const words = passageTextToWords(passage.text);
+      console.log(`Using passage "${passage.title}" with ${words.length} words`);
+      return { ocrText: passage.text, ocrWords: words, imageWidth: null, imageHeight: null, ocrPageSizes: [] };
+    }
+
+    const { imageFiles } = getUploadFiles(context);
+    if (imageFiles.length === 0) {
+      throw new Error('An image or a library passage is required');
+    }
+
+    // Download images for OCR (it uses buffers), in reading order
+    const imageBuffers = await Promise.all(imageFiles.map(async (file) => (await file.download())[0]));
+    const ocrProvider = await getOcrProvider(context.db, context.teacherId);
+    let ocrResult = await extractTextFromImages(imageBuffers, ocrProvider);
+    console.log(`OCR extracted ${ocrResult.words.length} words from ${imageBuffers.length} page(s)`);
+
+    // Substitute clean ground truth when the photo is of a library passage
+    let matchedPassage = {};
+    try {
+      const passageMatch = identifyPassage(ocrResult.words, await getLibraryPassages(context.db, context.teacherId));
+      if (passageMatch) {
+        ocrResult = {
+          ...ocrResult,
+          fullText: passageMatch.passage.text,
+          words: mapCanonicalWords(ocrResult.words, passageMatch.passage.text),
+        };
+        matchedPassage = {
+          passageId: passageMatch.passage.id,
+          passageTitle: passageMatch.passage.title,
+          passageMatchConfidence: passageMatch.confidence,
+        };
+        console.log(`Photo matched passage "${passageMatch.passage.title}" (${passageMatch.confidence})`);
+      }
+    } catch (matchError) {
+      // Identification is an enhancement - fall back to the OCR words
+      console.error('Passage identification failed, using OCR words:', matchError);
+    }
+
+    return {
+      ocrText: ocrResult.fullText,
+      // OCR words are kept so teachers can correct the passage and re-analyze
+      ocrWords: ocrResult.words,
+      imageWidth: ocrResult.imageWidth || null,
+      imageHeight: ocrResult.imageHeight || null,
+      ocrPageSizes: (ocrResult.pages || []).map(page => ({
+        imageWidth: page.imageWidth || null,
+        imageHeight: page.imageHeight || null,
+      })),
+      ...matchedPassage,
+    };
+  },
+
+  async match(_context, data) {
+    const matchingResult = matchWords(data.ocrWords || [], data.transcriptWords || []);
+    console.log(`Matching complete: ${matchingResult.correctCount} correct, ${matchingResult.errorCount} errors`);
+    return { words: matchingResult.words, fillerWordCount: matchingResult.fillerWordCount };
+  },
+
+  async metrics(_context, data) {
+    return { metrics: toStoredMetrics(getAlignmentMetrics(data)) };
+  },
+
+  async patterns(context, data) {
+    const errorPatterns = analyzeErrorPatterns(data.words || []);
+    const patternSummary = generatePatternSummary(errorPatterns, getAlignmentMetrics(data));
+    console.log(`Pattern analysis: ${patternSummary.severity} severity, ${patternSummary.primaryIssues.length} issues`);
+
+    // Snapshot the pipeline output as revision 0
+    await revisionRef(context.assessmentRef, 0).set(buildRevisionData(0, {
+      metrics: data.metrics,
+      words: data.words,
+      errorPatterns,
+      patternSummary,
+    }, {
+      uid: null,
+      source: 'pipeline',
+      reason: 'Original analysis',
+    }));
+
+    return { errorPatterns, patternSummary, revision: 0 };
+  },
+
+  async summary(_context, data) {
+    const aiSummary = await generateAISummary(
+      data.studentName || 'Student',
+      getAlignmentMetrics(data),
+      data.words || [],
+      data.errorPatterns || [],
+      data.patternSummary
+    );
+    console.log(`AI summary generated: ${aiSummary.length} chars`);
+    return { aiSummary };
+  },
+
+  async tts(context, data) {
+    if (!data.aiSummary) {
+      throw new Error('There is no summary to read aloud');
+    }
+
+    // The name is rendered apart from the feedback, or replaced per the teacher's privacy setting
+    const studentName = data.studentName || 'Student';
+    const privacy = await getStudentPrivacy(context.db, context.teacherId, data.studentId, studentName);
+    const audioBuffer = await generateSpeechAudio(data.aiSummary, { privacy });
+
+    const summaryAudioPath = `summary-audio/${context.teacherId}/${context.assessmentId}/summary.mp3`;
+    const summaryAudioToken = uuidv4();
+    await context.bucket.file(summaryAudioPath).save(audioBuffer, {
+      metadata: {
+        contentType: 'audio/mpeg',
+        metadata: {
+          firebaseStorageDownloadTokens: summaryAudioToken,
+        },
+      },
+    });
+    console.log(`TTS audio uploaded: ${audioBuffer.length} bytes`);
+
+    return { aiSummaryAudioUrl: getDownloadUrl(context.bucket, summaryAudioPath, summaryAudioToken) };
+  },
+
+  async media(context, data) {
+    const { audioFile, imageFiles } = getUploadFiles(context);
+
+    // Copy audio to temp bucket for playback (24h TTL handled by lifecycle rule)
+    const tempAudioPath = `audio-temp/${context.teacherId}/${context.assessmentId}/audio.webm`;
+    const audioDownloadToken = uuidv4();
+    await audioFile.copy(context.bucket.file(tempAudioPath));
+    await context.bucket.file(tempAudioPath).setMetadata({
+      metadata: {
+        firebaseStorageDownloadTokens: audioDownloadToken,
+      },
+    });
+
+    // Copy images to temp bucket for display
+    const pageSizes = data.ocrPageSizes || [];
+    const pages: { imageUrl: string; imageWidth: number | null; imageHeight: number | null }[] = [];
+    for (const [index, imageFile] of imageFiles.entries()) {
+      const tempImagePath = imageFiles.length === 1
+        ? `images-temp/${context.teacherId}/${context.assessmentId}/image.jpg`
+        : `images-temp/${context.teacherId}/${context.assessmentId}/image-${index + 1}.jpg`;
+      const imageDownloadToken = uuidv4();
+
+      await imageFile.copy(context.bucket.file(tempImagePath));
+      await context.bucket.file(tempImagePath).setMetadata({
+        metadata: {
+          firebaseStorageDownloadTokens: imageDownloadToken,
+        },
+      });
+
+      pages.push({
+        imageUrl: getDownloadUrl(context.bucket, tempImagePath, imageDownloadToken),
+        imageWidth: pageSizes[index]?.imageWidth || null,
+        imageHeight: pageSizes[index]?.imageHeight || null,
+      });
+    }
+
+    return {
+      audioUrl: getDownloadUrl(context.bucket, tempAudioPath, audioDownloadToken),
+      imageUrl: pages.length > 0 ? pages[0].imageUrl : null,
+      pages,
+    };
+  },
+};
+
+/**
+ * Delete the original uploads once the assessment is complete
+ */
+async function deleteUploads(context: PipelineContext): Promise<void> {
+  if (!context.manifest) return;
+  const prefix = `uploads/${context.teacherId}/${context.assessmentId}/`;
+  const names = [...context.manifest.files.map(file => file.name), UPLOAD_MANIFEST_FILE];
+  await Promise.all(names.map(name => context.bucket.file(prefix + name).delete({ ignoreNotFound: true })));
+  console.log('Original uploads deleted');
+}
+
+/**
+ * Run fromStage, then every later stage that hasn't completed
+ * Each stage's status, duration and error are recorded as it runs
+ */
+export async function runAssessmentPipeline(
+  context: PipelineContext,
+  fromStage: PipelineStage = PIPELINE_STAGES[0]
+): Promise<PipelineOutcome> {
+  let data = (await context.assessmentRef.get()).data() || {};
+
+  for (const stage of PIPELINE_STAGES.slice(PIPELINE_STAGES.indexOf(fromStage))) {
+    if (stage !== fromStage && data.stages?.[stage]?.status === 'complete') continue;
+
+    const startedAt = admin.firestore.Timestamp.now();
+    await context.assessmentRef.update({
+      [`stages.${stage}`]: { status: 'running', startedAt, durationMs: null, error: null },
+    });
+    console.log(`[Pipeline] ${context.assessmentId}: ${stage} started`);
+
+    try {
+      const output = await STAGE_RUNNERS[stage](context, data);
+      const durationMs = Date.now() - startedAt.toMillis();
+      await context.assessmentRef.update({
+        ...output,
+        [`stages.${stage}`]: { status: 'complete', startedAt, durationMs, error: null },
+      });
+      data = { ...data, ...output };
+      console.log(`[Pipeline] ${context.assessmentId}: ${stage} complete in ${durationMs}ms`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Pipeline] ${context.assessmentId}: ${stage} failed:`, error);
+      await context.assessmentRef.update({
+        [`stages.${stage}`]: { status: 'error', startedAt, durationMs: Date.now() - startedAt.toMillis(), error: message },
+      });
+
+      if (!OPTIONAL_STAGES.includes(stage)) {
+        await context.assessmentRef.update({
+          status: 'error',
+          errorMessage: `${STAGE_LABELS[stage]} failed: ${message}`,
+          failedStage: stage,
+        });
+        return { complete: false, failedStage: stage };
+      }
+    }
+  }
+
+  await context.assessmentRef.update({
+    status: 'complete',
+    errorMessage: admin.firestore.FieldValue.delete(),
+    failedStage: admin.firestore.FieldValue.delete(),
+    ...(data.processedAt ? {} : { processedAt: admin.firestore.FieldValue.serverTimestamp() }),
+  });
+  console.log('Results saved to Firestore');
+
+  try {
+    await deleteUploads(context);
+  } catch (error) {
+    // Retention deletes leftover uploads
+    console.error('Failed to delete uploads:', error);
+  }
+
+  return { complete: true, failedStage: null };
+}
@@ -0,0 +1,284 @@
+/**
+ * Celeration Calculator
+ * Standard Celeration Chart measures for a student's assessment history:
+ * weekly celeration, bounce, frequency multipliers between phases and aim attainment
+ * Ported from the standard celeration chart dashboard (log-linear regression on daily chart)
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// One timing on the chart
+export interface ProgressAssessment {
+  id: string;
+  date: Date;
+  correctCount: number;
+  errorCount: number;
+  countingMinutes: number;
+}
+
+// Start of an instructional phase (the period before the first change is the baseline)
+export interface PhaseDefinition {
+  label: string;
+  date: Date;
+}
+
+// Aim star: target frequency to reach by a date
+export interface Aim {
+  correctPerMinute: number;
+  errorsPerMinute?: number | null;
+  date: Date;
+}
+
+export interface ChartPoint {
+  assessmentId: string;
+  date: string;             // ISO date (YYYY-MM-DD)
+  day: number;              // Successive calendar day since chartStart
+  correctPerMinute: number;
+  errorsPerMinute: number;
+}
+
+export interface CelerationLine {
+  celeration: number;       // Weekly multiplier (>1 accelerating, <1 decelerating)
+  startDate: string;        // First data day of the line
+  endDate: string;          // Last data day of the line
+  startValue: number;       // Fitted count per minute on startDate
+  endValue: number;         // Fitted count per minute on endDate
+  bounceUp: number;         // Multiplier from the line to the highest point
+  bounceDown: number;       // Multiplier from the line to the lowest point
+  bounce: number;           // Total bounce (bounceUp × bounceDown)
+}
+
+export interface PhaseProgress {
+  label: string;
+  startDate: string | null; // null for the baseline
+  assessmentCount: number;
+  correct: CelerationLine | null;
+  errors: CelerationLine | null;
+  // Jump between the previous phase's line and this phase's line at the phase change
+  frequencyMultiplier: {
+    correct: number | null;
+    errors: number | null;
+  };
+}
+
+export interface AimProgress {
+  correctPerMinute: number;
+  errorsPerMinute: number | null;
+  date: string;
+  attained: boolean;
+  attainedDate: string | null;
+  projectedDate: string | null;  // When the current correct celeration line reaches the aim
+}
+
+export interface StudentProgress {
+  chartStart: string;       // Sunday on or before the first assessment
+  assessmentCount: number;
+  points: ChartPoint[];
+  latest: ChartPoint | null;
+  overall: {
+    correct: CelerationLine | null;
+    errors: CelerationLine | null;
+  };
+  phases: PhaseProgress[];
+  aim: AimProgress | null;
+}
+
+interface Fit {
+  slope: number;            // log10 change per day
+  intercept: number;        // log10 value at day 0
+}
+
+/**
+ * Whole UTC days, so every client sees the same day numbers
+ */
+function toDayNumber(date: Date): number {
+  return Math.floor(date.getTime() / MS_PER_DAY);
+}
+
+function dayNumberToIso(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Log-linear least squares fit; zero counts cannot be logged so they are left out
+ */
+function fitLogLinear(points: { day: number; value: number }[]): Fit | null {
+  const valid = points.filter(p => p.value > 0);
+  if (valid.length < 2) return null;
+
+  const n = valid.length;
+  const sumX = valid.reduce((sum, p) => sum + p.day, 0);
+  const sumY = valid.reduce((sum, p) => sum + Math.log10(p.value), 0);
+  const sumXY = valid.reduce((sum, p) => sum + p.day * Math.log10(p.value), 0);
+  const sumX2 = valid.reduce((sum, p) => sum + p.day * p.day, 0);
+
+  const denominator = n * sumX2 - sumX * sumX;
+  if (denominator === 0) return null;  // All points on the same day
+
+  const slope = (n * sumXY - sumX * sumY) / denominator;
+  return { slope, intercept: (sumY - slope * sumX) / n };
+}
+
+function fittedValue(fit: Fit, day: number): number {
+  return Math.pow(10, fit.intercept + fit.slope * day);
+}
+
+function round(value: number, places = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Celeration line with bounce envelope for one series of points
+ */
+export function calculateCelerationLine(
+  points: { day: number; value: number }[],
+  chartStartDay: number
+): CelerationLine | null {
+  const fit = fitLogLinear(points);
+  if (!fit) return null;
+
+  const valid = points.filter(p => p.value > 0);
+  const residuals = valid.map(p => Math.log10(p.value) - (fit.intercept + fit.slope * p.day));
+  const bounceUp = Math.pow(10, Math.max(0, ...residuals));
+  const bounceDown = Math.pow(10, -Math.min(0, ...residuals));
+
+  const startDay = Math.min(...valid.map(p => p.day));
+  const endDay = Math.max(...valid.map(p => p.day));
+
+  return {
+    celeration: round(Math.pow(10, fit.slope * 7)),
+    startDate: dayNumberToIso(chartStartDay + startDay),
+    endDate: dayNumberToIso(chartStartDay + endDay),
+    startValue: round(fittedValue(fit, startDay), 3),
+    endValue: round(fittedValue(fit, endDay), 3),
+    bounceUp: round(bounceUp),
+    bounceDown: round(bounceDown),
+    bounce: round(bounceUp * bounceDown),
+  };
+}
+
+/**
+ * Frequency multiplier at a phase change: new line value / previous line projected to the change day
+ */
+function calculateFrequencyMultiplier(
+  previous: { day: number; value: number }[],
+  current: { day: number; value: number }[],
+  changeDay: number
+): number | null {
+  const previousFit = fitLogLinear(previous);
+  const currentFit = fitLogLinear(current);
+  if (!previousFit || !currentFit) return null;
+
+  return round(fittedValue(currentFit, changeDay) / fittedValue(previousFit, changeDay));
+}
+
+/**
+ * Whether and when the aim was met, or when the current trend is projected to meet it
+ */
+function calculateAimProgress(
+  aim: Aim,
+  points: ChartPoint[],
+  trendPoints: { day: number; value: number }[],
+  chartStartDay: number
+): AimProgress {
+  const errorsAim = aim.errorsPerMinute ?? null;
+  const attainedPoint = points.find(p =>
+    p.correctPerMinute >= aim.correctPerMinute &&
+    (errorsAim === null || p.errorsPerMinute <= errorsAim)
+  );
+
+  let projectedDate: string | null = null;
+  const fit = fitLogLinear(trendPoints);
+  if (!attainedPoint && fit && fit.slope > 0) {
+    const aimDay = Math.ceil((Math.log10(aim.correctPerMinute) - fit.intercept) / fit.slope);
+    projectedDate = dayNumberToIso(chartStartDay + aimDay);
+  }
+
+  return {
+    correctPerMinute: aim.correctPerMinute,
+    errorsPerMinute: errorsAim,
+    date: dayNumberToIso(toDayNumber(aim.date)),
+    attained: !!attainedPoint,
+    attainedDate: attainedPoint ? attainedPoint.date : null,
+    projectedDate,
+  };
+}
+
+/**
+ * Compute all chart measures for a student
+ */
+export function calculateProgress(
+  assessments: ProgressAssessment[],
+  phaseDefinitions: PhaseDefinition[] = [],
+  aim: Aim | null = null
+): StudentProgress {
+  const sorted = [...assessments].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Standard charts start on a Sunday
+  const firstDay = sorted.length > 0 ? toDayNumber(sorted[0].date) : toDayNumber(new Date());
+  const chartStartDay = firstDay - new Date(firstDay * MS_PER_DAY).getUTCDay();
+
+  const points: ChartPoint[] = sorted.map(assessment => {
+    const minutes = assessment.countingMinutes > 0 ? assessment.countingMinutes : 1;
+    const dayNumber = toDayNumber(assessment.date);
+    return {
+      assessmentId: assessment.id,
+      date: dayNumberToIso(dayNumber),
+      day: dayNumber - chartStartDay,
+      correctPerMinute: round(assessment.correctCount / minutes),
+      errorsPerMinute: round(assessment.errorCount / minutes),
+    };
+  });
+
+  const correctSeries = (list: ChartPoint[]) => list.map(p => ({ day: p.day, value: p.correctPerMinute }));
+  const errorSeries = (list: ChartPoint[]) => list.map(p => ({ day: p.day, value: p.errorsPerMinute }));
+
+  // Split points into phases; the baseline runs until the first phase change
+  const changes = [...phaseDefinitions]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(phase => ({ label: phase.label, day: toDayNumber(phase.date) - chartStartDay }));
+  const boundaries = [{ label: 'Baseline', day: null as number | null }, ...changes];
+
+  const phasePoints = boundaries.map((boundary, index) => {
+    const next = boundaries[index + 1];
+    return points.filter(p =>
+      (boundary.day === null || p.day >= boundary.day) &&
+      (!next || p.day < next.day!)
+    );
+  });
+
+  const phases: PhaseProgress[] = boundaries.map((boundary, index) => {
+    const current = phasePoints[index];
+    const previous = index > 0 ? phasePoints[index - 1] : [];
+    const changeDay = boundary.day;
+
+    return {
+      label: boundary.label,
+      startDate: changeDay === null ? null : dayNumberToIso(chartStartDay + changeDay),
+      assessmentCount: current.length,
+      correct: calculateCelerationLine(correctSeries(current), chartStartDay),
+      errors: calculateCelerationLine(errorSeries(current), chartStartDay),
+      frequencyMultiplier: {
+        correct: changeDay === null ? null : calculateFrequencyMultiplier(correctSeries(previous), correctSeries(current), changeDay),
+        errors: changeDay === null ? null : calculateFrequencyMultiplier(errorSeries(previous), errorSeries(current), changeDay),
+      },
+    };
+  });
+
+  // Aim projection follows the most recent phase that has a trend
+  const trendPhase = [...phasePoints].reverse().find(list => fitLogLinear(correctSeries(list)) !== null) || points;
+
+  return {
+    chartStart: dayNumberToIso(chartStartDay),
+    assessmentCount: points.length,
+    points,
+    latest: points.length > 0 ? points[points.length - 1] : null,
+    overall: {
+      correct: calculateCelerationLine(correctSeries(points), chartStartDay),
+      errors: calculateCelerationLine(errorSeries(points), chartStartDay),
+    },
+    phases,
+    aim: aim ? calculateAimProgress(aim, points, correctSeries(trendPhase), chartStartDay) : null,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Data Retention
+ * Enforces the retention periods of docs/compliance/DATA-RETENTION-POLICY.md: deletes
+ * expired student media from Storage, clears the download URLs left on assessments and
+ * records every deletion in the append-only teachers/{uid}/deletionLog collection
+ */
+
+import * as admin from 'firebase-admin';
+
+type Bucket = ReturnType<admin.storage.Storage['bucket']>;
+
+export type RetentionCategory =
+  | 'uploads'
+  | 'audio'
+  | 'images'
+  | 'videos'
+  | 'summaryAudio'
+  | 'pdfs'
+  | 'exports';
+
+export type DeletionReason = 'retention' | 'student-deletion' | 'no-consent';
+
+export interface RetentionRule {
+  category: RetentionCategory;
+  prefix: string;             // Storage folder laid out as {prefix}{teacherId}/{subjectId}/{file}
+  subject: 'assessment' | 'student';
+  retentionHours: number;
+  urlFields: string[];        // Assessment fields holding download URLs of the deleted files
+}
+
+// Retention table - keep in step with the schedule in DATA-RETENTION-POLICY.md
+export const RETENTION_RULES: RetentionRule[] = [
+  { category: 'uploads', prefix: 'uploads/', subject: 'assessment', retentionHours: 24, urlFields: [] },
+  { category: 'audio', prefix: 'audio-temp/', subject: 'assessment', retentionHours: 24, urlFields: ['audioUrl'] },
+  // pages holds a download URL for every captured page
+  { category: 'images', prefix: 'images-temp/', subject: 'assessment', retentionHours: 24, urlFields: ['imageUrl', 'pages'] },
+  { category: 'videos', prefix: 'videos/', subject: 'assessment', retentionHours: 24, urlFields: ['videoUrl'] },
+  { category: 'summaryAudio', prefix: 'summary-audio/', subject: 'assessment', retentionHours: 24, urlFields: ['aiSummaryAudioUrl'] },
+  { category: 'pdfs', prefix: 'pdfs/', subject: 'assessment', retentionHours: 24, urlFields: ['pdfUrl'] },
+  { category: 'exports', prefix: 'exports/', subject: 'student', retentionHours: 24, urlFields: [] },
+];
+
+export interface DeletedFile {
+  path: string;
+  category: RetentionCategory;
+  retentionHours: number;
+  createdAt: string;          // ISO time the file was written
+  size: number;               // Bytes
+}
+
+// One entry per assessment or student and run (teachers/{uid}/deletionLog/{id})
+export interface DeletionLogEntry {
+  reason: DeletionReason;
+  assessmentId: string | null;
+  studentId: string | null;
+  files: DeletedFile[];
+  clearedFields: string[];
+  // Student deletions only
+  assessmentIds?: string[];
+  documentsDeleted?: number;
+  requestedBy?: string;
+  deletedAt: admin.firestore.FieldValue;
+}
+
+export interface RetentionRunSummary {
+  deletedFiles: number;
+  clearedAssessments: number;
+  logEntries: number;
+}
+
+interface ExpiredGroup {
+  teacherId: string;
+  subjectId: string;
+  subject: RetentionRule['subject'];
+  files: DeletedFile[];
+  urlFields: Set<string>;
+}
+
+/**
+ * Delete every stored file older than its retention period and log the deletions
+ */
+export async function enforceRetention(
+  db: admin.firestore.Firestore,
+  bucket: Bucket,
+  now: Date = new Date(),
+  rules: RetentionRule[] = RETENTION_RULES
+): Promise<RetentionRunSummary> {
+  const groups = new Map<string, ExpiredGroup>();
+  let deletedFiles = 0;
+
+  for (const rule of rules) {
+    const cutoff = now.getTime() - rule.retentionHours * 60 * 60 * 1000;
+    const [files] = await bucket.getFiles({ prefix: rule.prefix });
+
+    for (const file of files) {
+      const createdAt = Date.parse(file.metadata.timeCreated || '');
+      if (isNaN(createdAt) || createdAt >= cutoff) continue;
+
+      // Only files in the {teacherId}/{subjectId}/ layout can be attributed and logged
+      const pathParts = file.name.split('/');
+      if (pathParts.length < 4) continue;
+      const [, teacherId, subjectId] = pathParts;
+
+      await file.delete({ ignoreNotFound: true });
+      deletedFiles++;
+
+      const key = `${teacherId}/${rule.subject}/${subjectId}`;
+      const group = groups.get(key) || {
+        teacherId,
+        subjectId,
+        subject: rule.subject,
+        files: [],
+        urlFields: new Set<string>(),
+      };
+      group.files.push({
+        path: file.name,
+        category: rule.category,
+        retentionHours: rule.retentionHours,
+        createdAt: new Date(createdAt).toISOString(),
+        size: Number(file.metadata.size || 0),
+      });
+      rule.urlFields.forEach(field => group.urlFields.add(field));
+      groups.set(key, group);
+    }
+  }
+
+  let clearedAssessments = 0;
+  for (const group of groups.values()) {
+    const teacherRef = db.collection('teachers').doc(group.teacherId);
+    let clearedFields: string[] = [];
+    let studentId: string | null = group.subject === 'student' ? group.subjectId : null;
+
+    if (group.subject === 'assessment') {
+      const assessmentRef = teacherRef.collection('assessments').doc(group.subjectId);
+      const assessmentDoc = await assessmentRef.get();
+
+      if (assessmentDoc.exists) {
+        const data = assessmentDoc.data()!;
+        studentId = data.studentId || null;
+        clearedFields = Array.from(group.urlFields).filter(field => data[field] !== undefined);
+
+        if (clearedFields.length > 0) {
+          const update: admin.firestore.UpdateData<admin.firestore.DocumentData> = {};
+          clearedFields.forEach(field => {
+            update[field] = admin.firestore.FieldValue.delete();
+          });
+          await assessmentRef.update(update);
+          clearedAssessments++;
+        }
+      }
+    }
+
+    const entry: DeletionLogEntry = {
+      reason: 'retention',
+      assessmentId: group.subject === 'assessment' ? group.subjectId : null,
+      studentId,
+      files: group.files,
+      clearedFields,
+      deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    await teacherRef.collection('deletionLog').add(entry);
+  }
+
+  return {
+    deletedFiles,
+    clearedAssessments,
+    logEntries: groups.size,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Google Cloud Vision OCR provider
+ * Text detection returns the full text as its first annotation and one annotation per word
+ */
+
+import { ImageAnnotatorClient } from '@google-cloud/vision';
+import { OcrProvider, OcrResult, OcrWord } from './visionOcr';
+
+const visionClient = new ImageAnnotatorClient();
+
+async function recognize(imageBuffer: Buffer): Promise<OcrResult> {
+  const [textResult] = await visionClient.textDetection({
+    image: { content: imageBuffer },
+  });
+
+  const textAnnotations = textResult.textAnnotations || [];
+  if (textAnnotations.length === 0) {
+    return { fullText: '', words: [], imageWidth: 0, imageHeight: 0 };
+  }
+
+  // Approximate the image size from the text bounding box (used when the image can't be decoded)
+  let imageWidth = 0;
+  let imageHeight = 0;
+  const textVertices = textAnnotations[0].boundingPoly?.vertices || [];
+  if (textVertices.length >= 4) {
+    imageWidth = Math.max(...textVertices.map(v => v.x || 0));
+    imageHeight = Math.max(...textVertices.map(v => v.y || 0));
+  }
+
+  // First annotation is the full text
+  const fullText = textAnnotations[0].description || '';
+
+  // Remaining annotations are individual words
+  const words: OcrWord[] = [];
+
+  for (let i = 1; i < textAnnotations.length; i++) {
+    const annotation = textAnnotations[i];
+    const vertices = annotation.boundingPoly?.vertices || [];
+
+    if (vertices.length < 4) continue;
+
+    const x = vertices[0].x || 0;
+    const y = vertices[0].y || 0;
+    const width = (vertices[1].x || 0) - x;
+    const height = (vertices[2].y || 0) - y;
+
+    words.push({
+      text: annotation.description || '',
+      boundingBox: { x, y, width, height },
+    });
+  }
+
+  return { fullText, words, imageWidth, imageHeight };
+}
+
+export const googleVisionOcrProvider: OcrProvider = {
+  name: 'google',
+  recognize,
+};
@@ -0,0 +1,210 @@
+/**
+ * Local speech provider
+ * Transcribes on the server with whisper.cpp run as a subprocess, so the recording is never
+ * sent to a cloud speech service. The recording is converted to 16 kHz mono WAV with FFmpeg
+ * and whisper.cpp writes one segment per word with its offsets and token probabilities
+ *
+ * LOCAL_SPEECH_BINARY - whisper.cpp command line tool (default: whisper-cli on the PATH)
+ * LOCAL_SPEECH_MODEL  - path to the ggml model file, e.g. ggml-base.en.bin (required)
+ */
+
+import * as admin from 'firebase-admin';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { SpeechAudio, SpeechProvider, TranscriptionResult, WordTiming } from './speechToText';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+const DEFAULT_BINARY = 'whisper-cli';
+
+// whisper.cpp output (-ojf): one segment per word with -ml 1 -sow
+interface WhisperToken {
+  text: string;
+  p: number;
+}
+
+interface WhisperSegment {
+  offsets: { from: number; to: number };   // Milliseconds
+  text: string;
+  tokens?: WhisperToken[];
+}
+
+/**
+ * Split gs://bucket/path into its bucket and object path
+ */
+function parseGcsUri(gcsUri: string): { bucketName: string; filePath: string } {
+  const match = /^gs:\/\/([^/]+)\/(.+)$/.exec(gcsUri);
+  if (!match) {
+    throw new Error(`Invalid Cloud Storage URI: ${gcsUri}`);
+  }
+  return { bucketName: match[1], filePath: match[2] };
+}
+
+/**
+ * Convert a recording to the 16 kHz mono 16-bit WAV whisper.cpp reads
+ */
+function convertToWav(inputPath: string, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioCodec('pcm_s16le')
+      .format('wav')
+      .on('end', () => resolve())
+      .on('error', reject)
+      .save(outputPath);
+  });
+}
+
+/**
+ * Run whisper.cpp, killing it when it outlasts the wait
+ */
+function runWhisper(args: string[], timeoutMs: number): Promise<void> {
+  const binary = process.env.LOCAL_SPEECH_BINARY || DEFAULT_BINARY;
+
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { timeout: timeoutMs, maxBuffer: 16 * 1024 * 1024 }, (error, _stdout, stderr) => {
+      if (error) {
+        if (error.killed) {
+          reject(new Error(`Speech recognition did not finish within ${Math.round(timeoutMs / 1000)} seconds`));
+        } else {
+          console.error('[Local speech] whisper.cpp failed:', stderr);
+          reject(new Error(`Local speech recognition failed: ${error.message}`));
+        }
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Fields of a JSON object; anything else reads as an object without fields
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+/**
+ * Segments of whisper.cpp's JSON output; throws with a readable message when the output
+ * doesn't have the expected shape (e.g. another whisper.cpp version)
+ */
+function parseWhisperOutput(contents: string): WhisperSegment[] {
+  let output: Record<string, unknown>;
+  try {
+    output = toRecord(JSON.parse(contents));
+  } catch {
+    throw new Error('Local speech recognition output is not valid JSON');
+  }
+
+  if (!Array.isArray(output.transcription)) {
+    throw new Error('Local speech recognition output has no transcription');
+  }
+
+  return output.transcription.map((entry: unknown, index: number) => {
+    const segment = toRecord(entry);
+    const offsets = toRecord(segment.offsets);
+    if (typeof offsets.from !== 'number' || typeof offsets.to !== 'number') {
+      throw new Error(`Local speech recognition segment ${index + 1} has no numeric offsets`);
+    }
+
+    const tokens = Array.isArray(segment.tokens) ? segment.tokens.map(toRecord) : [];
+    return {
+      offsets: { from: offsets.from, to: offsets.to },
+      text: typeof segment.text === 'string' ? segment.text : '',
+      tokens: tokens
+        .filter(token => typeof token.text === 'string' && typeof token.p === 'number')
+        .map(token => ({ text: token.text as string, p: token.p as number })),
+    };
+  });
+}
+
+/**
+ * Word timings from whisper.cpp segments
+ * A word's confidence is the mean probability of its text tokens (special tokens like
+ * [_BEG_] are skipped)
+ */
+function toWordTimings(segments: WhisperSegment[]): WordTiming[] {
+  const words: WordTiming[] = [];
+
+  for (const segment of segments) {
+    const word = segment.text.trim();
+    if (!word) continue;
+
+    const textTokens = (segment.tokens || []).filter(token => !token.text.startsWith('[_'));
+    const confidence = textTokens.length > 0
+      ? textTokens.reduce((sum, token) => sum + token.p, 0) / textTokens.length
+      : 0;
+
+    words.push({
+      word,
+      startTime: segment.offsets.from / 1000,
+      endTime: segment.offsets.to / 1000,
+      confidence,
+    });
+  }
+
+  return words;
+}
+
+/**
+ * Transcribe a recording with whisper.cpp
+ */
+async function transcribe(
+  { gcsUri }: SpeechAudio,
+  maxWaitSeconds: number
+): Promise<TranscriptionResult> {
+  const model = process.env.LOCAL_SPEECH_MODEL;
+  if (!model) {
+    throw new Error('LOCAL_SPEECH_MODEL is not set');
+  }
+
+  const deadline = Date.now() + maxWaitSeconds * 1000;
+  const { bucketName, filePath } = parseGcsUri(gcsUri);
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'speech-'));
+
+  try {
+    const audioPath = path.join(tempDir, path.basename(filePath));
+    const wavPath = path.join(tempDir, 'audio.wav');
+    const outputBase = path.join(tempDir, 'transcript');
+
+    await admin.storage().bucket(bucketName).file(filePath).download({ destination: audioPath });
+    await convertToWav(audioPath, wavPath);
+
+    console.log(`[Local speech] Starting whisper.cpp for: ${gcsUri}`);
+    await runWhisper([
+      '-m', model,
+      '-f', wavPath,
+      '-l', 'en',
+      '-ml', '1',           // One word per segment...
+      '-sow',               // ...split on word boundaries rather than tokens
+      '-ojf',               // Full JSON, including token probabilities
+      '-of', outputBase,
+      '-np',
+    ], Math.max(deadline - Date.now(), 1000));
+
+    const words = toWordTimings(parseWhisperOutput(fs.readFileSync(`${outputBase}.json`, 'utf8')));
+    console.log('[Local speech] Speech recognition completed');
+
+    return {
+      transcript: words.map(word => word.word).join(' '),
+      words,
+      confidence: words.length > 0
+        ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+        : 0,
+    };
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+export const localSpeechProvider: SpeechProvider = {
+  name: 'local',
+  transcribe,
+};
@@ -0,0 +1,367 @@
+/**
+ * Organizations
+ * Schools and districts (organizations/{orgId}) with their schools, classes and members.
+ * A member's role scopes read access to the classrooms (teachers/{uid}) of the organization:
+ * district admins see every classroom, school admins and specialists those of their schools,
+ * teachers only their own. Each member's classroom is linked to the organization through
+ * teachers/{uid}.org, which firestore.rules reads, and teachers/{uid}.orgIds lists the
+ * organizations the user belongs to. Admins invite people (teachers/{uid}/orgInvites/{orgId});
+ * only the invited user's acceptance makes them a member and links their classroom, and
+ * members can leave at any time. Only Cloud Functions write this data
+ */
+
+import * as admin from 'firebase-admin';
+
+export type OrgRole = 'teacher' | 'specialist' | 'school-admin' | 'district-admin';
+
+export const ORG_ROLES: OrgRole[] = ['teacher', 'specialist', 'school-admin', 'district-admin'];
+
+export interface OrgUser {
+  uid: string;
+  email: string;
+  displayName: string | null;
+}
+
+// organizations/{orgId}/members/{uid}
+export interface OrgMember extends OrgUser {
+  role: OrgRole;
+  schoolIds: string[];
+  addedBy: string;
+  addedAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+}
+
+// teachers/{uid}.org - the organization (and its schools) whose staff may read the classroom
+export interface ClassroomOrg {
+  orgId: string;
+  schoolIds: string[];
+}
+
+// teachers/{uid}/orgInvites/{orgId} - pending until the invited user accepts or declines
+export interface OrgInvite {
+  orgId: string;
+  orgName: string;
+  role: OrgRole;
+  schoolIds: string[];
+  invitedBy: string;
+  invitedAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+}
+
+function orgRef(db: admin.firestore.Firestore, orgId: string) {
+  return db.collection('organizations').doc(orgId);
+}
+
+/**
+ * Record the membership on the member's teacher document (teachers/{uid}.orgIds) and point
+ * their classroom at the organization, unless it already belongs to another one
+ * A classroom belongs to a single organization, the first that adds the teacher
+ */
+async function linkTeacher(
+  db: admin.firestore.Firestore,
+  uid: string,
+  classroomOrg: ClassroomOrg
+): Promise<boolean> {
+  const teacherRef = db.collection('teachers').doc(uid);
+
+  return db.runTransaction(async (transaction) => {
+    const teacherDoc = await transaction.get(teacherRef);
+    const current = teacherDoc.data()?.org as ClassroomOrg | undefined;
+    const linked = !current || current.orgId === classroomOrg.orgId;
+
+    transaction.set(teacherRef, {
+      orgIds: admin.firestore.FieldValue.arrayUnion(classroomOrg.orgId),
+      ...(linked ? { org: classroomOrg } : {}),
+      ...(teacherDoc.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+    }, { merge: true });
+    return linked;
+  });
+}
+
+/**
+ * Get a member of an organization
+ */
+export async function getMember(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  uid: string
+): Promise<OrgMember | null> {
+  const memberDoc = await orgRef(db, orgId).collection('members').doc(uid).get();
+  return memberDoc.exists ? memberDoc.data() as OrgMember : null;
+}
+
+/**
+ * School and district admins manage members; only district admins manage admins
+ */
+export function isAdminRole(role: OrgRole): boolean {
+  return role === 'school-admin' || role === 'district-admin';
+}
+
+/**
+ * Whether a member may manage the given schools (district admins manage every school)
+ */
+export function canManageSchools(member: OrgMember, schoolIds: string[]): boolean {
+  if (member.role === 'district-admin') return true;
+  return member.role === 'school-admin'
+    && schoolIds.length > 0
+    && schoolIds.every(schoolId => member.schoolIds.includes(schoolId));
+}
+
+/**
+ * Create an organization with its creator as district admin
+ */
+export async function createOrganization(
+  db: admin.firestore.Firestore,
+  name: string,
+  creator: OrgUser
+): Promise<string> {
+  const ref = db.collection('organizations').doc();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  const member: OrgMember = {
+    ...creator,
+    role: 'district-admin',
+    schoolIds: [],
+    addedBy: creator.uid,
+    addedAt: now,
+  };
+
+  const batch = db.batch();
+  batch.set(ref, { name, createdBy: creator.uid, createdAt: now });
+  batch.set(ref.collection('members').doc(creator.uid), member);
+  await batch.commit();
+
+  await linkTeacher(db, creator.uid, { orgId: ref.id, schoolIds: [] });
+  return ref.id;
+}
+
+/**
+ * Add or rename a school
+ */
+export async function saveSchool(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  schoolId: string | null,
+  name: string
+): Promise<string> {
+  const schools = orgRef(db, orgId).collection('schools');
+  const ref = schoolId ? schools.doc(schoolId) : schools.doc();
+
+  await ref.set({
+    name,
+    ...(schoolId ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+  }, { merge: true });
+  return ref.id;
+}
+
+// Why a class was not saved
+export type SaveClassRefusal = 'class-not-found' | 'teacher-not-member' | 'not-permitted';
+
+/**
+ * Add or update a class as the given manager; the class teacher joins the class's school
+ * The manager must manage the class's current and new school, and the teacher's schools
+ * unless the teacher already belongs to the class's school or has none yet. The checks and
+ * writes share a transaction, so a concurrent move can't slip between them
+ */
+export async function saveClass(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  classId: string | null,
+  input: { name: string; schoolId: string; teacherId: string },
+  manager: OrgMember
+): Promise<{ classId: string } | { refusal: SaveClassRefusal }> {
+  const org = orgRef(db, orgId);
+  const ref = classId ? org.collection('classes').doc(classId) : org.collection('classes').doc();
+  const memberRef = org.collection('members').doc(input.teacherId);
+
+  const result = await db.runTransaction<{ refusal: SaveClassRefusal } | { schoolIds: string[] }>(async (transaction) => {
+    const [classDoc, memberDoc] = await Promise.all([transaction.get(ref), transaction.get(memberRef)]);
+    if (classId && !classDoc.exists) return { refusal: 'class-not-found' };
+    if (!memberDoc.exists) return { refusal: 'teacher-not-member' };
+
+    const existingSchoolId: string | undefined = classDoc.data()?.schoolId;
+    const teacher = memberDoc.data() as OrgMember;
+    const joinsSchool = !teacher.schoolIds.includes(input.schoolId);
+    const canSave = canManageSchools(manager, existingSchoolId ? [existingSchoolId, input.schoolId] : [input.schoolId])
+      && (!joinsSchool || teacher.schoolIds.length === 0 || canManageSchools(manager, teacher.schoolIds));
+    if (!canSave) return { refusal: 'not-permitted' };
+
+    transaction.set(ref, {
+      name: input.name,
+      schoolId: input.schoolId,
+      teacherId: input.teacherId,
+      ...(classId ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() }),
+    }, { merge: true });
+    const schoolIds = joinsSchool ? [...teacher.schoolIds, input.schoolId] : teacher.schoolIds;
+    if (joinsSchool) {
+      transaction.update(memberRef, { schoolIds });
+    }
+    return { schoolIds };
+  });
+  if ('refusal' in result) return result;
+
+  await linkTeacher(db, input.teacherId, { orgId, schoolIds: result.schoolIds });
+  return { classId: ref.id };
+}
+
+/**
+ * Set the OCR provider used for every classroom of the organization (null: each teacher's choice)
+ */
+export async function setOcrProvider(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  ocrProvider: string | null
+): Promise<void> {
+  await orgRef(db, orgId).update({
+    ocrProvider: ocrProvider ?? admin.firestore.FieldValue.delete(),
+  });
+}
+
+/**
+ * Set the speech provider used for every classroom of the organization (null: each teacher's choice)
+ */
+export async function setSpeechProvider(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  speechProvider: string | null
+): Promise<void> {
+  await orgRef(db, orgId).update({
+    speechProvider: speechProvider ?? admin.firestore.FieldValue.delete(),
+  });
+}
+
+/**
+ * Schools of the list that don't exist in the organization
+ */
+export async function findMissingSchools(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  schoolIds: string[]
+): Promise<string[]> {
+  const schools = orgRef(db, orgId).collection('schools');
+  const schoolDocs = await Promise.all(schoolIds.map(schoolId => schools.doc(schoolId).get()));
+  return schoolDocs.filter(schoolDoc => !schoolDoc.exists).map(schoolDoc => schoolDoc.id);
+}
+
+/**
+ * Invite a user to the organization with a role and schools (replaces a pending invite)
+ */
+export async function inviteMember(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  uid: string,
+  role: OrgRole,
+  schoolIds: string[],
+  invitedBy: string
+): Promise<void> {
+  const orgDoc = await orgRef(db, orgId).get();
+  const invite: OrgInvite = {
+    orgId,
+    orgName: orgDoc.data()?.name || '',
+    role,
+    schoolIds,
+    invitedBy,
+    invitedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  await db.collection('teachers').doc(uid).collection('orgInvites').doc(orgId).set(invite);
+}
+
+/**
+ * Accept an invite as the invited user: they become a member and their classroom is
+ * linked to the organization, unless it already belongs to another one
+ * Returns whether the classroom is linked, or null when there is no pending invite
+ */
+export async function acceptInvite(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  user: OrgUser
+): Promise<boolean | null> {
+  const inviteRef = db.collection('teachers').doc(user.uid).collection('orgInvites').doc(orgId);
+  const memberRef = orgRef(db, orgId).collection('members').doc(user.uid);
+
+  const invite = await db.runTransaction(async (transaction) => {
+    const inviteDoc = await transaction.get(inviteRef);
+    if (!inviteDoc.exists) return null;
+
+    const pending = inviteDoc.data() as OrgInvite;
+    const member: OrgMember = {
+      ...user,
+      role: pending.role,
+      schoolIds: pending.schoolIds,
+      addedBy: pending.invitedBy,
+      addedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    transaction.set(memberRef, member);
+    transaction.delete(inviteRef);
+    return pending;
+  });
+  if (!invite) return null;
+
+  return linkTeacher(db, user.uid, { orgId, schoolIds: invite.schoolIds });
+}
+
+/**
+ * Decline (or withdraw) a pending invite
+ */
+export async function declineInvite(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  uid: string
+): Promise<void> {
+  await db.collection('teachers').doc(uid).collection('orgInvites').doc(orgId).delete();
+}
+
+/**
+ * Change an existing member's role and schools
+ * Returns whether the member's classroom is linked to this organization
+ */
+export async function setMember(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  uid: string,
+  role: OrgRole,
+  schoolIds: string[]
+): Promise<boolean> {
+  await orgRef(db, orgId).collection('members').doc(uid).update({ role, schoolIds });
+  return linkTeacher(db, uid, { orgId, schoolIds });
+}
+
+/**
+ * Whether the organization has a district admin other than the user
+ * (the last one cannot leave, or nobody could manage the organization)
+ */
+export async function hasOtherDistrictAdmin(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  uid: string
+): Promise<boolean> {
+  const adminsSnapshot = await orgRef(db, orgId).collection('members')
+    .where('role', '==', 'district-admin')
+    .get();
+  return adminsSnapshot.docs.some(adminDoc => adminDoc.id !== uid);
+}
+
+/**
+ * Remove a member, their classes and the links of their teacher document to the organization
+ */
+export async function removeMember(
+  db: admin.firestore.Firestore,
+  orgId: string,
+  uid: string
+): Promise<void> {
+  const org = orgRef(db, orgId);
+  const classesSnapshot = await org.collection('classes').where('teacherId', '==', uid).get();
+
+  const batch = db.batch();
+  batch.delete(org.collection('members').doc(uid));
+  classesSnapshot.docs.forEach(classDoc => batch.delete(classDoc.ref));
+  await batch.commit();
+
+  const teacherRef = db.collection('teachers').doc(uid);
+  await db.runTransaction(async (transaction) => {
+    const teacherDoc = await transaction.get(teacherRef);
+    if (!teacherDoc.exists) return;
+    transaction.update(teacherRef, {
+      orgIds: admin.firestore.FieldValue.arrayRemove(orgId),
+      ...(teacherDoc.data()?.org?.orgId === orgId ? { org: admin.firestore.FieldValue.delete() } : {}),
+    });
+  });
+}
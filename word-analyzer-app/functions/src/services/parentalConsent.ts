@@ -0,0 +1,126 @@
+/**
+ * Parental Consent
+ * Server-side backstop for the consent gate of the app: recordings and images of a
+ * student without granted consent are never processed - the uploads are deleted, the
+ * assessment is marked as refused and the deletion is recorded in the deletion log.
+ * Consent is only written here (students/{id}.consent), with the signed-in recorder and
+ * an entry in students/{id}/consentHistory for every change
+ */
+
+import * as admin from 'firebase-admin';
+import { RETENTION_RULES, DeletedFile, DeletionLogEntry } from './dataRetention';
+
+type Bucket = ReturnType<admin.storage.Storage['bucket']>;
+
+export const CONSENT_STATUSES = ['pending', 'granted', 'revoked'] as const;
+export type ConsentStatus = typeof CONSENT_STATUSES[number];
+
+// How consent was obtained - see docs/compliance/SCHOOL-CONSENT-FORM.md
+export const CONSENT_METHODS = ['school-authorization', 'signed-form', 'electronic'] as const;
+export type ConsentMethod = typeof CONSENT_METHODS[number];
+
+export function isConsentStatus(value: unknown): value is ConsentStatus {
+  return CONSENT_STATUSES.includes(value as ConsentStatus);
+}
+
+export function isConsentMethod(value: unknown): value is ConsentMethod {
+  return CONSENT_METHODS.includes(value as ConsentMethod);
+}
+
+export interface ConsentRecorder {
+  uid: string;
+  email: string | null;
+}
+
+export const NO_CONSENT_MESSAGE = 'Parental consent has not been granted for this student. The recording and images were deleted.';
+
+/**
+ * Whether consent has been granted for the student (students/{id}.consent.status)
+ */
+export async function hasParentalConsent(
+  db: admin.firestore.Firestore,
+  teacherId: string,
+  studentId: string | undefined
+): Promise<boolean> {
+  if (!studentId) return false;
+
+  const studentDoc = await db.collection('teachers').doc(teacherId)
+    .collection('students').doc(studentId).get();
+  return studentDoc.data()?.consent?.status === 'granted';
+}
+
+/**
+ * Record a change of a student's consent and append it to the consent history
+ * The method is kept for granted consent only
+ */
+export async function recordConsent(
+  db: admin.firestore.Firestore,
+  teacherId: string,
+  studentId: string,
+  status: ConsentStatus,
+  method: ConsentMethod | null,
+  recorder: ConsentRecorder
+): Promise<void> {
+  const studentRef = db.collection('teachers').doc(teacherId)
+    .collection('students').doc(studentId);
+  const consent = {
+    status,
+    date: admin.firestore.FieldValue.serverTimestamp(),
+    method: status === 'granted' ? method : null,
+    recordedBy: recorder.uid,
+    recordedByEmail: recorder.email,
+  };
+
+  const batch = db.batch();
+  batch.update(studentRef, { consent });
+  batch.create(studentRef.collection('consentHistory').doc(), consent);
+  await batch.commit();
+
+  console.log(`[Consent] ${status} recorded for student ${studentId} by ${recorder.uid}`);
+}
+
+/**
+ * Delete the uploads of an assessment made without consent and record the refusal
+ */
+export async function refuseWithoutConsent(
+  db: admin.firestore.Firestore,
+  bucket: Bucket,
+  teacherId: string,
+  assessmentId: string,
+  studentId: string | null
+): Promise<void> {
+  const uploadsRule = RETENTION_RULES.find(rule => rule.category === 'uploads')!;
+  const [files] = await bucket.getFiles({ prefix: `uploads/${teacherId}/${assessmentId}/` });
+
+  const deletedFiles: DeletedFile[] = [];
+  for (const file of files) {
+    await file.delete({ ignoreNotFound: true });
+    deletedFiles.push({
+      path: file.name,
+      category: uploadsRule.category,
+      retentionHours: uploadsRule.retentionHours,
+      createdAt: file.metadata.timeCreated || new Date(0).toISOString(),
+      size: Number(file.metadata.size || 0),
+    });
+  }
+
+  const teacherRef = db.collection('teachers').doc(teacherId);
+  await teacherRef.collection('assessments').doc(assessmentId).update({
+    status: 'error',
+    errorMessage: NO_CONSENT_MESSAGE,
+  });
+
+  if (deletedFiles.length > 0) {
+    const entry: DeletionLogEntry = {
+      reason: 'no-consent',
+      assessmentId,
+      studentId,
+      files: deletedFiles,
+      clearedFields: [],
+      deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    await teacherRef.collection('deletionLog').add(entry);
+  }
+
+  console.log(`[Consent] Refused assessment ${assessmentId}: deleted ${deletedFiles.length} upload(s)`);
+}
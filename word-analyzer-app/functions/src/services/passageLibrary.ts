@@ -0,0 +1,220 @@
+/**
+ * Passage Library
+ * Reading passages with known text stored in teachers/{uid}/passages, used as the
+ * expected words of an assessment instead of OCR of a photo, either when chosen by
+ * the teacher or when a photo is identified as one of them by word shingle similarity
+ */
+
+import * as admin from 'firebase-admin';
+import { OcrWordWithBox, normalizeWord, calculateWordSimilarity } from './wordMatching';
+
+// Share of the photo's word shingles that must appear in a passage to use its text
+export const PASSAGE_MATCH_THRESHOLD = 0.5;
+
+const SHINGLE_SIZE = 3;
+const MIN_SHINGLES = 5;           // Too little text on the photo to identify reliably
+const WORD_MATCH_SIMILARITY = 0.6;
+const GAP_PENALTY = -0.5;
+const MISMATCH_PENALTY = -1;
+
+export interface LibraryPassage {
+  id: string;
+  title: string;
+  text: string;
+}
+
+/**
+ * Load a passage from a teacher's library
+ */
+export async function getLibraryPassage(
+  db: admin.firestore.Firestore,
+  teacherId: string,
+  passageId: string
+): Promise<LibraryPassage | null> {
+  const passageDoc = await db.collection('teachers').doc(teacherId)
+    .collection('passages').doc(passageId).get();
+
+  if (!passageDoc.exists) return null;
+
+  const data = passageDoc.data()!;
+  return {
+    id: passageDoc.id,
+    title: data.title,
+    text: data.text || '',
+  };
+}
+
+export interface PassageMatch {
+  passage: LibraryPassage;
+  confidence: number;       // 0-1 shingle containment of the photo text in the passage
+}
+
+/**
+ * Load all passages in a teacher's library
+ */
+export async function getLibraryPassages(
+  db: admin.firestore.Firestore,
+  teacherId: string
+): Promise<LibraryPassage[]> {
+  const snapshot = await db.collection('teachers').doc(teacherId)
+    .collection('passages').get();
+
+  return snapshot.docs.map(doc => ({
+    id: doc.id,
+    title: doc.data().title,
+    text: doc.data().text || '',
+  }));
+}
+
+/**
+ * Overlapping word n-grams of normalized text
+ */
+function toShingles(words: string[]): Set<string> {
+  const normalized = words.map(normalizeWord).filter(word => word.length > 0);
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+    shingles.add(normalized.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * Identify which library passage a photo shows
+ * Confidence is containment (share of the photo's shingles found in the passage)
+ * rather than Jaccard, so a photo of one page still matches a longer passage
+ */
+export function identifyPassage(
+  ocrWords: OcrWordWithBox[],
+  passages: LibraryPassage[]
+): PassageMatch | null {
+  const ocrShingles = toShingles(ocrWords.map(word => word.text));
+  if (ocrShingles.size < MIN_SHINGLES) return null;
+
+  let best: PassageMatch | null = null;
+  for (const passage of passages) {
+    const passageShingles = toShingles(passage.text.split(/\s+/));
+    let shared = 0;
+    ocrShingles.forEach(shingle => {
+      if (passageShingles.has(shingle)) shared++;
+    });
+
+    const confidence = shared / ocrShingles.size;
+    if (!best || confidence > best.confidence) {
+      best = { passage, confidence: Math.round(confidence * 100) / 100 };
+    }
+  }
+
+  return best && best.confidence >= PASSAGE_MATCH_THRESHOLD ? best : null;
+}
+
+/**
+ * Word the OCR missed, boxed after the previous word on the same line and page
+ */
+function estimateBox(previous: OcrWordWithBox, text: string): OcrWordWithBox {
+  const charWidth = previous.boundingBox.width / Math.max(previous.text.length, 1);
+  return {
+    ...previous,
+    text,
+    boundingBox: {
+      x: previous.boundingBox.x + previous.boundingBox.width + previous.boundingBox.height * 0.3,
+      y: previous.boundingBox.y,
+      width: charWidth * text.length,
+      height: previous.boundingBox.height,
+    },
+  };
+}
+
+/**
+ * Canonical passage words carrying the bounding boxes and pages of the OCR words they align with
+ * Alignment is semi-global so passage text before and after the photographed span is free;
+ * words the OCR missed get an estimated box, words outside the photo an empty box
+ */
+export function mapCanonicalWords(ocrWords: OcrWordWithBox[], canonicalText: string): OcrWordWithBox[] {
+  const canonical = passageTextToWords(canonicalText);
+  const n = ocrWords.length;
+  const m = canonical.length;
+  if (n === 0 || m === 0) return canonical;
+
+  // score[i][j]: best alignment of the first i OCR words ending at canonical word j
+  // move: 1 = diagonal, 2 = skip OCR word, 3 = skip canonical word
+  const score: Float64Array[] = [];
+  const move: Uint8Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    score.push(new Float64Array(m + 1));
+    move.push(new Uint8Array(m + 1));
+    score[i][0] = i * GAP_PENALTY;
+    if (i > 0) move[i][0] = 2;
+  }
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const similarity = calculateWordSimilarity(ocrWords[i - 1].text, canonical[j - 1].text);
+      const diagonal = score[i - 1][j - 1] + (similarity >= WORD_MATCH_SIMILARITY ? similarity : MISMATCH_PENALTY);
+      const skipOcr = score[i - 1][j] + GAP_PENALTY;
+      const skipCanonical = score[i][j - 1] + GAP_PENALTY;
+
+      if (diagonal >= skipOcr && diagonal >= skipCanonical) {
+        score[i][j] = diagonal;
+        move[i][j] = 1;
+      } else if (skipOcr >= skipCanonical) {
+        score[i][j] = skipOcr;
+        move[i][j] = 2;
+      } else {
+        score[i][j] = skipCanonical;
+        move[i][j] = 3;
+      }
+    }
+  }
+
+  // Passage words after the photographed span are free: end on the best column
+  let j = 0;
+  for (let column = 1; column <= m; column++) {
+    if (score[n][column] > score[n][j]) j = column;
+  }
+
+  const aligned: (OcrWordWithBox | null)[] = new Array(m).fill(null);
+  let i = n;
+  let lastAligned = -1;
+  let firstAligned = m;
+  while (i > 0 && j > 0) {
+    if (move[i][j] === 1) {
+      aligned[j - 1] = ocrWords[i - 1];
+      lastAligned = Math.max(lastAligned, j - 1);
+      firstAligned = j - 1;
+      i--;
+      j--;
+    } else if (move[i][j] === 2) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  const mapped: OcrWordWithBox[] = [];
+  canonical.forEach((word, index) => {
+    const ocrWord = aligned[index];
+    if (ocrWord) {
+      mapped.push({ ...ocrWord, text: word.text });
+    } else if (index > firstAligned && index < lastAligned) {
+      mapped.push(estimateBox(mapped[index - 1], word.text));
+    } else {
+      mapped.push(word);
+    }
+  });
+
+  return mapped;
+}
+
+/**
+ * Split canonical passage text into expected words
+ * Punctuation stays attached as it does in OCR output; the words have no position on a page
+ */
+export function passageTextToWords(text: string): OcrWordWithBox[] {
+  return text
+    .split(/\s+/)
+    .filter(word => /[A-Za-z0-9\u00C0-\u024F]/.test(word))
+    .map(word => ({
+      text: word,
+      boundingBox: { x: 0, y: 0, width: 0, height: 0 },
+    }));
+}
@@ -1,4 +1,5 @@
 import PDFDocument from 'pdfkit';
+import * as admin from 'firebase-admin';
 
 // Types for pattern summary
 type SeverityLevel = 'excellent' | 'mild' | 'moderate' | 'significant';
@@ -32,6 +33,7 @@ export interface PdfReportInput {
     expected: string;
     spoken: string | null;
     status: 'correct' | 'misread' | 'substituted' | 'skipped';
+    isOverridden?: boolean;
   }>;
   errorPatterns: Array<{
     type: string;
@@ -43,6 +45,34 @@ export interface PdfReportInput {
   patternSummary?: PatternSummary;
 }
 
+/**
+ * Report input from a stored assessment document
+ */
+export function toPdfReportInput(assessmentData: admin.firestore.DocumentData): PdfReportInput {
+  return {
+    studentName: assessmentData.studentName,
+    assessmentDate: assessmentData.createdAt?.toDate() || new Date(),
+    metrics: {
+      accuracy: assessmentData.metrics?.accuracy || 0,
+      wordsPerMinute: assessmentData.metrics?.wordsPerMinute || 0,
+      prosodyScore: assessmentData.metrics?.prosodyScore || 0,
+      prosodyGrade: assessmentData.metrics?.prosodyGrade || '',
+      totalWords: assessmentData.metrics?.totalWords || 0,
+      correctCount: assessmentData.metrics?.correctCount || 0,
+      errorCount: assessmentData.metrics?.errorCount || 0,
+      skipCount: assessmentData.metrics?.skipCount || 0,
+      hesitationCount: assessmentData.metrics?.hesitationCount,
+      fillerWordCount: assessmentData.metrics?.fillerWordCount,
+      repeatCount: assessmentData.metrics?.repeatCount,
+      selfCorrectionCount: assessmentData.metrics?.selfCorrectionCount,
+    },
+    words: assessmentData.words || [],
+    errorPatterns: assessmentData.errorPatterns || [],
+    aiSummary: assessmentData.aiSummary,
+    patternSummary: assessmentData.patternSummary,
+  };
+}
+
 // Color palette
 const COLORS = {
   primary: '#1e40af',      // Deep blue
@@ -602,6 +632,17 @@ export async function generatePdfReport(input: PdfReportInput): Promise<Buffer>
 
       currentY += 30;
 
+      // Note teacher rescoring so the report is not mistaken for raw automated output
+      const overriddenCount = input.words.filter(w => w.isOverridden).length;
+      if (overriddenCount > 0) {
+        doc
+          .font('Helvetica-Oblique')
+          .fontSize(9)
+          .fillColor(COLORS.textLight)
+          .text(`${overriddenCount} word${overriddenCount === 1 ? ' was' : 's were'} rescored by the teacher.`, 50, currentY);
+        currentY += 18;
+      }
+
       // Show misread words if not too many
       const misreadWords = input.words.filter(w => w.status === 'misread' || w.status === 'substituted');
       if (misreadWords.length > 0 && misreadWords.length <= 15) {
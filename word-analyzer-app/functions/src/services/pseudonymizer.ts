@@ -0,0 +1,126 @@
+/**
+ * Pseudonymizer
+ * Keeps student names out of requests to third-party services (Gemini, Cloud TTS):
+ * names are swapped for a placeholder token before the text leaves the project and
+ * put back into the response afterwards
+ */
+
+import * as admin from 'firebase-admin';
+
+// Placeholder sent in place of the student's name
+export const NAME_TOKEN = '[[NAME]]';
+
+// Models sometimes drop a bracket or add spaces
+const TOKEN_PATTERN = /\[{1,2}\s*NAME\s*\]{1,2}/gi;
+
+// Said instead of the name when no name may be transmitted
+const NEUTRAL_ADDRESS = 'friend';
+
+export interface StudentPrivacy {
+  firstName: string;
+  names: string[];                // Full name and its parts, longest first
+  spokenName: string;             // What TTS says where the name appears
+  spokenNameIsSensitive: boolean; // True when spokenName is the real first name
+}
+
+export interface TextSegment {
+  text: string;
+  isName: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function namePattern(names: string[]): RegExp | null {
+  const parts = names.filter(name => name.length > 0).map(escapeRegExp);
+  if (parts.length === 0) return null;
+  // \b only knows ASCII letters, so names like José or Łukasz need Unicode-aware boundaries.
+  // Case-insensitive so JOSÉ in a transcript is caught too (a name like Will also matches
+  // the word "will", which errs on the side of privacy)
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${parts.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+}
+
+/**
+ * The full name and its parts, longest first, as matched in text
+ */
+export function getNameVariants(studentName: string): string[] {
+  return [studentName, ...studentName.split(/\s+/)]
+    .filter((name, index, all) => name.length > 1 && all.indexOf(name) === index)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Resolve what may be sent and spoken for a student, from the teacher's privacy
+ * setting and the teacher-approved nickname
+ */
+export async function getStudentPrivacy(
+  db: admin.firestore.Firestore,
+  teacherId: string,
+  studentId: string | undefined,
+  studentName: string
+): Promise<StudentPrivacy> {
+  const teacherRef = db.collection('teachers').doc(teacherId);
+  const [teacherDoc, studentDoc] = await Promise.all([
+    teacherRef.get(),
+    studentId ? teacherRef.collection('students').doc(studentId).get() : Promise.resolve(null),
+  ]);
+
+  const neverTransmitNames = teacherDoc.data()?.settings?.neverTransmitNames === true;
+  const nickname: string = (studentDoc?.data()?.nickname || '').trim();
+  const firstName = studentName.split(' ')[0];
+
+  let spokenName = firstName;
+  if (nickname) {
+    spokenName = nickname;
+  } else if (neverTransmitNames) {
+    spokenName = NEUTRAL_ADDRESS;
+  }
+
+  return {
+    firstName,
+    names: getNameVariants(studentName),
+    spokenName,
+    spokenNameIsSensitive: spokenName === firstName,
+  };
+}
+
+/**
+ * Replace every occurrence of the names with the placeholder token
+ */
+export function pseudonymize(text: string, names: string[]): string {
+  const pattern = namePattern(names);
+  return pattern ? text.replace(pattern, NAME_TOKEN) : text;
+}
+
+/**
+ * Put the name back where the placeholder token appears
+ */
+export function restoreNames(text: string, name: string): string {
+  return text.replace(TOKEN_PATTERN, name);
+}
+
+/**
+ * Split text into name and non-name segments, so the name can be rendered in its own request
+ */
+export function splitOnNames(text: string, names: string[]): TextSegment[] {
+  const pattern = namePattern(names);
+  if (!pattern) return [{ text, isName: false }];
+
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), isName: false });
+    }
+    segments.push({ text: match[0], isName: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), isName: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,220 @@
+/**
+ * Reading Analysis
+ * Runs word matching, metrics and error pattern analysis as one unit so the
+ * initial pipeline and teacher-driven re-analysis produce identical results
+ */
+
+import {
+  matchWords,
+  summarizeAlignment,
+  MatchingResult,
+  OcrWordWithBox,
+  AlignedWord,
+  WordOverrideStatus,
+  normalizeWord,
+} from './wordMatching';
+import { WordTiming } from './speechToText';
+import {
+  calculateMetrics,
+  analyzeErrorPatterns,
+  generatePatternSummary,
+  Metrics,
+  ErrorPattern,
+  PatternSummary,
+} from './metricsCalculator';
+
+/**
+ * Teacher correction for a single OCR word
+ * ocrIndex refers to the position in the assessment's stored ocrWords
+ */
+export interface ExpectedWordEdit {
+  ocrIndex: number;
+  text: string;
+  included: boolean;
+}
+
+/**
+ * Teacher scoring override for a single aligned word
+ * index refers to the position in the assessment's words array
+ */
+export interface WordOverride {
+  index: number;
+  status: WordOverrideStatus;
+}
+
+// A teacher override that no longer applies after re-analysis aligned the word differently
+export interface DroppedOverride {
+  expected: string;
+  status: WordOverrideStatus;
+}
+
+export interface ReadingAnalysis {
+  matchingResult: MatchingResult;
+  metrics: Metrics;
+  errorPatterns: ErrorPattern[];
+  patternSummary: PatternSummary;
+}
+
+/**
+ * Match spoken words against the expected words and derive all metrics
+ */
+export function analyzeReading(
+  expectedWords: OcrWordWithBox[],
+  spokenWords: WordTiming[],
+  audioDuration: number
+): ReadingAnalysis {
+  const matchingResult = matchWords(expectedWords, spokenWords);
+  console.log(`Matching complete: ${matchingResult.correctCount} correct, ${matchingResult.errorCount} errors`);
+
+  return analyzeMatchingResult(matchingResult, audioDuration);
+}
+
+/**
+ * Derive metrics and error patterns from an existing alignment
+ */
+export function analyzeMatchingResult(
+  matchingResult: MatchingResult,
+  audioDuration: number
+): ReadingAnalysis {
+  const metrics = calculateMetrics(matchingResult, audioDuration);
+
+  // Analyze error patterns
+  const errorPatterns = analyzeErrorPatterns(matchingResult.words);
+
+  // Generate pattern summary with severity, recommendations, and referrals
+  const patternSummary = generatePatternSummary(errorPatterns, metrics);
+  console.log(`Pattern analysis: ${patternSummary.severity} severity, ${patternSummary.primaryIssues.length} issues, ${patternSummary.recommendations.length} recommendations`);
+
+  return { matchingResult, metrics, errorPatterns, patternSummary };
+}
+
+/**
+ * Build the expected word list from stored OCR words and teacher edits
+ * Excluded words are dropped, corrected text replaces the OCR text,
+ * and bounding boxes and pages always come from the stored OCR result
+ */
+export function applyExpectedWordEdits(
+  ocrWords: OcrWordWithBox[],
+  edits: ExpectedWordEdit[]
+): OcrWordWithBox[] {
+  return edits
+    .filter(edit => edit.included && ocrWords[edit.ocrIndex])
+    .sort((a, b) => a.ocrIndex - b.ocrIndex)
+    .map(edit => ({
+      ...ocrWords[edit.ocrIndex],
+      text: edit.text.trim() || ocrWords[edit.ocrIndex].text,
+    }));
+}
+
+/**
+ * Scoring of a word as a teacher would choose it in the override picker
+ */
+export function getOverrideStatus(word: AlignedWord): WordOverrideStatus {
+  return word.status === 'correct' && word.isSelfCorrection ? 'self-corrected' : word.status;
+}
+
+/**
+ * Apply teacher scoring overrides to aligned words and recount the alignment
+ * The automated scoring is kept in originalStatus the first time a word is overridden,
+ * and setting a word back to that scoring clears the override
+ */
+export function applyWordOverrides(
+  words: AlignedWord[],
+  overrides: WordOverride[],
+  fillerWordCount: number
+): MatchingResult {
+  const updated = words.map(word => ({ ...word }));
+
+  for (const override of overrides) {
+    const word = updated[override.index];
+    if (!word) continue;
+
+    const originalStatus = word.originalStatus ?? getOverrideStatus(word);
+
+    if (override.status === 'self-corrected') {
+      word.status = 'correct';
+      word.isSelfCorrection = true;
+    } else {
+      word.status = override.status;
+      // A plain correct word was not self-corrected; error statuses keep the detected flag
+      if (override.status === 'correct') word.isSelfCorrection = false;
+    }
+
+    if (override.status === originalStatus) {
+      delete word.isOverridden;
+      delete word.originalStatus;
+    } else {
+      word.isOverridden = true;
+      word.originalStatus = originalStatus;
+    }
+  }
+
+  return summarizeAlignment(updated, fillerWordCount);
+}
+
+/**
+ * Key identifying a passage word across alignments: its place on the page and its text,
+ * plus how many identical keys came before it (library passages have no word boxes)
+ */
+function getWordKeys(words: AlignedWord[]): string[] {
+  const seen = new Map<string, number>();
+  return words.map(word => {
+    const box = word.boundingBox;
+    const key = `${word.page ?? 0}:${box ? `${box.x},${box.y}` : ''}:${normalizeWord(word.expected)}`;
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    return `${key}#${occurrence}`;
+  });
+}
+
+function getSpokenKey(word: AlignedWord): string | null {
+  return word.spoken ? normalizeWord(word.spoken) : null;
+}
+
+/**
+ * Carry teacher overrides from a previous alignment to a new one
+ * An override is kept when the same passage word was aligned with the same spoken word;
+ * otherwise the automated scoring it replaced no longer exists and it is reported as dropped
+ */
+export function remapWordOverrides(
+  previousWords: AlignedWord[],
+  words: AlignedWord[]
+): { overrides: WordOverride[]; dropped: DroppedOverride[] } {
+  const newIndexes = new Map(getWordKeys(words).map((key, index) => [key, index]));
+  const previousKeys = getWordKeys(previousWords);
+  const overrides: WordOverride[] = [];
+  const dropped: DroppedOverride[] = [];
+
+  previousWords.forEach((previous, previousIndex) => {
+    if (!previous.isOverridden) return;
+
+    const status = getOverrideStatus(previous);
+    const index = newIndexes.get(previousKeys[previousIndex]);
+    if (index !== undefined && getSpokenKey(words[index]) === getSpokenKey(previous)) {
+      overrides.push({ index, status });
+    } else {
+      dropped.push({ expected: previous.expected, status });
+    }
+  });
+
+  return { overrides, dropped };
+}
+
+/**
+ * Metrics fields persisted on the assessment document
+ */
+export function toStoredMetrics(metrics: Metrics) {
+  return {
+    accuracy: metrics.accuracy,
+    wordsPerMinute: metrics.wordsPerMinute,
+    prosodyScore: metrics.prosodyScore,
+    prosodyGrade: metrics.prosodyGrade,
+    totalWords: metrics.totalWords,
+    correctCount: metrics.correctCount,
+    errorCount: metrics.errorCount,
+    skipCount: metrics.skipCount,
+    hesitationCount: metrics.hesitationCount,
+    fillerWordCount: metrics.fillerWordCount,
+    repeatCount: metrics.repeatCount,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Assessment Revision History
+ * Snapshots analysis results into teachers/{uid}/assessments/{id}/revisions
+ * so the original pipeline output and every later change stay auditable
+ */
+
+import * as admin from 'firebase-admin';
+import { AlignedWord } from './wordMatching';
+import { ErrorPattern, PatternSummary } from './metricsCalculator';
+import { ExpectedWordEdit, toStoredMetrics } from './readingAnalysis';
+
+export type RevisionSource = 'pipeline' | 'reanalysis' | 'restore' | 'override';
+
+/**
+ * Result fields captured in every revision
+ */
+export interface RevisionResults {
+  metrics: ReturnType<typeof toStoredMetrics>;
+  words: AlignedWord[];
+  errorPatterns: ErrorPattern[];
+  patternSummary: PatternSummary | null;
+  expectedWordEdits?: ExpectedWordEdit[] | null;
+}
+
+export interface RevisionEditor {
+  uid: string | null;   // null for the automated pipeline
+  source: RevisionSource;
+  reason: string;
+  restoredFrom?: number;
+}
+
+type DocumentReference = admin.firestore.DocumentReference;
+
+/**
+ * Reference to a single revision document (doc id is the revision number)
+ */
+export function revisionRef(assessmentRef: DocumentReference, revision: number): DocumentReference {
+  return assessmentRef.collection('revisions').doc(String(revision));
+}
+
+/**
+ * Build the Firestore payload for a revision snapshot
+ */
+export function buildRevisionData(
+  revision: number,
+  results: RevisionResults,
+  editor: RevisionEditor
+): Record<string, unknown> {
+  return {
+    revision,
+    metrics: results.metrics,
+    words: results.words,
+    errorPatterns: results.errorPatterns,
+    patternSummary: results.patternSummary ?? null,
+    expectedWordEdits: results.expectedWordEdits ?? null,
+    editorUid: editor.uid,
+    source: editor.source,
+    reason: editor.reason,
+    restoredFrom: editor.restoredFrom ?? null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Atomically write new results to an assessment and record them as the next revision
+ * Assessments processed before revision history existed get their current results
+ * snapshotted as revision 0 first, so the original output is never lost
+ * Returns the new revision number
+ */
+export async function commitRevision(
+  db: admin.firestore.Firestore,
+  assessmentRef: DocumentReference,
+  results: RevisionResults,
+  editor: RevisionEditor,
+  extraUpdates: Record<string, unknown> = {}
+): Promise<number> {
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(assessmentRef);
+    if (!doc.exists) {
+      throw new Error('Assessment not found');
+    }
+
+    const data = doc.data()!;
+    const hasHistory = typeof data.revision === 'number';
+
+    if (!hasHistory) {
+      transaction.set(revisionRef(assessmentRef, 0), buildRevisionData(0, {
+        metrics: data.metrics,
+        words: data.words || [],
+        errorPatterns: data.errorPatterns || [],
+        patternSummary: data.patternSummary || null,
+        expectedWordEdits: data.expectedWordEdits || null,
+      }, {
+        uid: null,
+        source: 'pipeline',
+        reason: 'Original analysis',
+      }));
+    }
+
+    const nextRevision = hasHistory ? data.revision + 1 : 1;
+
+    transaction.set(revisionRef(assessmentRef, nextRevision), buildRevisionData(nextRevision, results, editor));
+    transaction.update(assessmentRef, {
+      ...extraUpdates,
+      metrics: results.metrics,
+      words: results.words,
+      errorPatterns: results.errorPatterns,
+      patternSummary: results.patternSummary ?? null,
+      expectedWordEdits: results.expectedWordEdits ?? admin.firestore.FieldValue.delete(),
+      revision: nextRevision,
+    });
+
+    return nextRevision;
+  });
+}
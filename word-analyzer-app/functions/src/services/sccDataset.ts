@@ -0,0 +1,338 @@
+/**
+ * Standard Celeration Chart Datasets
+ * Converts between assessment history and the JSON export format of Word Analyzer V2
+ * (student-data-*.json) read by the standard celeration chart dashboard
+ */
+
+export const SCC_EXPORT_VERSION = '1.0';
+export const SCC_IMPORT_SOURCE = 'scc-import';
+
+export interface SccAssessment {
+  assessmentIndex: number;
+  assessmentId: string;
+  celeration: {
+    date: string;              // YYYY-MM-DD
+    timestamp: number;
+    calendarDay: number;       // Day of the year, 1-based
+    countingTimeSec: number;
+    countingTimeMin: number;
+    correctCount: number;
+    errorCount: number;
+    correctPerMinute: number;
+    errorsPerMinute: number;
+  };
+  performance: {
+    totalWords: number;
+    correctCount: number;
+    accuracy: number;
+    wpm: number;
+    readingTimeSeconds: number;
+  };
+  prosody: {
+    score: number;
+    grade: string;
+  };
+  errors: {
+    total: number;
+    skipped: number;
+    misread: number;
+    substituted: number;
+    hesitations: number;
+    repeated: number;
+  };
+  patterns?: {
+    severity: string;
+    primaryIssues: string[];
+  } | null;
+  wordList?: string[];
+}
+
+export interface SccDataset {
+  meta: {
+    exportVersion: string;
+    exportDate: string;
+    exportTimestamp: number;
+    source: string;
+  };
+  subject: {
+    category: string;
+    subcategory: string;
+  };
+  student: {
+    name: string;
+    grade: string;
+    id: string;
+  };
+  summary: {
+    totalAssessments: number;
+    dateRange: {
+      first: string;
+      last: string;
+      daySpan: number;
+    };
+    averages: {
+      accuracy: string;
+      wpm: number;
+      prosody: string;
+    };
+  };
+  assessments: SccAssessment[];
+}
+
+// Assessment history entry as stored on teachers/{uid}/assessments
+export interface SccSourceAssessment {
+  id: string;
+  createdAt: Date;
+  audioDuration?: number;
+  metrics: {
+    accuracy: number;
+    wordsPerMinute: number;
+    prosodyScore: number;
+    prosodyGrade: string;
+    totalWords: number;
+    correctCount: number;
+    errorCount: number;
+    skipCount: number;
+    hesitationCount?: number;
+    repeatCount?: number;
+  };
+  words?: Array<{ expected: string; status: string }>;
+  patternSummary?: { severity: string; primaryIssues: string[] } | null;
+}
+
+// Historical record parsed from a dataset, ready to store as a metrics-only assessment
+export interface ImportedAssessment {
+  sourceAssessmentId: string;
+  date: Date;
+  countingTimeSec: number;
+  metrics: {
+    accuracy: number;
+    wordsPerMinute: number;
+    prosodyScore: number;
+    prosodyGrade: string;
+    totalWords: number;
+    correctCount: number;
+    errorCount: number;
+    skipCount: number;
+    hesitationCount: number;
+    fillerWordCount: number;
+    repeatCount: number;
+  };
+}
+
+export interface ParsedSccDataset {
+  student: {
+    externalId: string | null;
+    name: string;
+    grade: string | null;
+  };
+  source: string;
+  assessments: ImportedAssessment[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function round(value: number, places = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Fields of a JSON object; anything else reads as an object without fields
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+function toNumber(value: unknown, fallback = 0): number {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && isFinite(num) ? num : fallback;
+}
+
+function dayOfYear(date: Date): number {
+  return Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / MS_PER_DAY) + 1;
+}
+
+/**
+ * Safe file name in the same pattern as the legacy tool's exports
+ */
+export function getSccFileName(studentName: string, assessmentCount: number, date = new Date()): string {
+  const safeName = studentName.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase();
+  return `student-data-${safeName}-${assessmentCount}assessments-${date.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Build an export dataset from a student's completed assessments
+ */
+export function buildSccDataset(
+  student: { id: string; name: string; grade?: string | null },
+  assessments: SccSourceAssessment[]
+): SccDataset {
+  const sorted = [...assessments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const sccAssessments: SccAssessment[] = sorted.map((assessment, index) => {
+    const metrics = assessment.metrics;
+    const countingTimeSec = assessment.audioDuration && assessment.audioDuration > 0 ? assessment.audioDuration : 60;
+    const countingTimeMin = countingTimeSec / 60;
+    const words = assessment.words || [];
+    const misread = words.filter(w => w.status === 'misread').length;
+    const substituted = words.filter(w => w.status === 'substituted').length;
+
+    return {
+      assessmentIndex: index + 1,
+      assessmentId: assessment.id,
+      celeration: {
+        date: assessment.createdAt.toISOString().slice(0, 10),
+        timestamp: assessment.createdAt.getTime(),
+        calendarDay: dayOfYear(assessment.createdAt),
+        countingTimeSec: round(countingTimeSec),
+        countingTimeMin: round(countingTimeMin),
+        correctCount: metrics.correctCount,
+        errorCount: metrics.errorCount,
+        correctPerMinute: round(metrics.correctCount / countingTimeMin),
+        errorsPerMinute: round(metrics.errorCount / countingTimeMin),
+      },
+      performance: {
+        totalWords: metrics.totalWords,
+        correctCount: metrics.correctCount,
+        accuracy: metrics.accuracy,
+        wpm: metrics.wordsPerMinute,
+        readingTimeSeconds: round(countingTimeSec),
+      },
+      prosody: {
+        score: metrics.prosodyScore || 0,
+        grade: metrics.prosodyGrade || 'N/A',
+      },
+      errors: {
+        total: metrics.errorCount,
+        skipped: metrics.skipCount,
+        misread,
+        substituted,
+        hesitations: metrics.hesitationCount || 0,
+        repeated: metrics.repeatCount || 0,
+      },
+      patterns: assessment.patternSummary
+        ? {
+          severity: assessment.patternSummary.severity,
+          primaryIssues: assessment.patternSummary.primaryIssues || [],
+        }
+        : null,
+      wordList: words.map(w => w.expected),
+    };
+  });
+
+  const count = sccAssessments.length;
+  const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const first = sorted[0]?.createdAt;
+  const last = sorted[count - 1]?.createdAt;
+  const now = new Date();
+
+  return {
+    meta: {
+      exportVersion: SCC_EXPORT_VERSION,
+      exportDate: now.toISOString(),
+      exportTimestamp: now.getTime(),
+      source: 'Word Analyzer iPad App',
+    },
+    subject: {
+      category: 'Reading',
+      subcategory: 'Oral Reading Fluency',
+    },
+    student: {
+      name: student.name,
+      grade: student.grade || 'Not set',
+      id: student.id,
+    },
+    summary: {
+      totalAssessments: count,
+      dateRange: {
+        first: first ? first.toISOString().slice(0, 10) : '',
+        last: last ? last.toISOString().slice(0, 10) : '',
+        daySpan: first && last ? Math.ceil((last.getTime() - first.getTime()) / MS_PER_DAY) + 1 : 0,
+      },
+      averages: {
+        accuracy: average(sorted.map(a => a.metrics.accuracy)).toFixed(1),
+        wpm: Math.round(average(sorted.map(a => a.metrics.wordsPerMinute))),
+        prosody: average(sorted.map(a => a.metrics.prosodyScore || 0)).toFixed(1),
+      },
+    },
+    assessments: sccAssessments,
+  };
+}
+
+/**
+ * Validate a dataset and map it to metrics-only assessment records
+ * Throws with a user-facing message when the file is not a celeration chart export
+ */
+export function parseSccDataset(input: unknown): ParsedSccDataset {
+  const data = toRecord(input);
+  if (!data.student || !Array.isArray(data.assessments)) {
+    throw new Error('Invalid data format. Expected a student data export with student and assessments.');
+  }
+
+  const student = toRecord(data.student);
+  const name = typeof student.name === 'string' ? student.name.trim() : '';
+  if (!name) {
+    throw new Error('The dataset has no student name.');
+  }
+
+  const grade = student.grade && student.grade !== 'Not set' ? String(student.grade) : null;
+
+  const assessments: ImportedAssessment[] = data.assessments
+    .map(toRecord)
+    .filter(entry => entry.celeration)
+    .map((entry, index) => {
+      const celeration = toRecord(entry.celeration);
+      const performance = toRecord(entry.performance);
+      const errors = toRecord(entry.errors);
+      const prosody = toRecord(entry.prosody);
+
+      const date = typeof celeration.timestamp === 'number'
+        ? new Date(celeration.timestamp)
+        : new Date(`${celeration.date}T12:00:00Z`);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Assessment ${index + 1} has no valid date.`);
+      }
+
+      const countingTimeSec = toNumber(celeration.countingTimeSec, toNumber(celeration.countingTimeMin, 1) * 60) || 60;
+      const correctCount = toNumber(celeration.correctCount, toNumber(performance.correctCount));
+      const errorCount = toNumber(celeration.errorCount, toNumber(errors.total));
+      const totalWords = toNumber(performance.totalWords, correctCount + errorCount);
+
+      return {
+        sourceAssessmentId: String(entry.assessmentId || `${name}-${index + 1}`),
+        date,
+        countingTimeSec,
+        metrics: {
+          accuracy: toNumber(performance.accuracy, totalWords > 0 ? round((correctCount / totalWords) * 100) : 0),
+          wordsPerMinute: toNumber(performance.wpm, Math.round(correctCount / (countingTimeSec / 60))),
+          prosodyScore: toNumber(prosody.score),
+          prosodyGrade: typeof prosody.grade === 'string' ? prosody.grade : 'N/A',
+          totalWords,
+          correctCount,
+          errorCount,
+          skipCount: toNumber(errors.skipped),
+          hesitationCount: toNumber(errors.hesitations),
+          fillerWordCount: 0,
+          repeatCount: toNumber(errors.repeated),
+        },
+      };
+    });
+
+  if (assessments.length === 0) {
+    throw new Error('The dataset contains no assessments.');
+  }
+
+  const meta = toRecord(data.meta);
+  return {
+    student: {
+      externalId: student.id ? String(student.id) : null,
+      name,
+      grade,
+    },
+    source: typeof meta.source === 'string' ? meta.source : 'Unknown',
+    assessments,
+  };
+}
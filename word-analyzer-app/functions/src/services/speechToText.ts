@@ -1,7 +1,21 @@
-import { SpeechClient, protos } from '@google-cloud/speech';
+/**
+ * Speech-to-Text
+ * Transcribes a recording with the classroom's provider, chosen by its organization, the
+ * teacher's settings or SPEECH_PROVIDER, in that order:
+ * 'google' (default) - Google Cloud Speech-to-Text
+ * 'local'  - an on-box engine run as a subprocess, so the audio never leaves the server
+ *            (schools that don't allow cloud audio processing, offline testing)
+ * Every provider returns the same word timings, so the rest of the pipeline doesn't
+ * depend on which one transcribed the recording
+ */
 
-// Speech-to-Text service - uses longRunningRecognize for longer audio
-const speechClient = new SpeechClient();
+import * as admin from 'firebase-admin';
+import { googleSpeechProvider } from './googleSpeech';
+import { localSpeechProvider } from './localSpeech';
+
+// Recognition of a 5 minute untimed reading can take several minutes;
+// stop waiting before the calling function's own timeout so the failure is recorded
+const DEFAULT_MAX_WAIT_SECONDS = 420;
 
 export interface WordTiming {
   word: string;
@@ -16,102 +30,65 @@ export interface TranscriptionResult {
   confidence: number;
 }
 
-/**
- * Transcribe audio using Google Cloud Speech-to-Text
- * Uses longRunningRecognize with GCS URI to handle longer audio files
- */
-export async function transcribeAudio(
-  gcsUri: string,
-  mimeType: string
-): Promise<TranscriptionResult> {
-  // Determine encoding from mime type
-  let encoding: protos.google.cloud.speech.v1.RecognitionConfig.AudioEncoding;
-
-  if (mimeType.includes('webm')) {
-    encoding = protos.google.cloud.speech.v1.RecognitionConfig.AudioEncoding.WEBM_OPUS;
-  } else if (mimeType.includes('mp4') || mimeType.includes('m4a')) {
-    encoding = protos.google.cloud.speech.v1.RecognitionConfig.AudioEncoding.MP3;
-  } else {
-    encoding = protos.google.cloud.speech.v1.RecognitionConfig.AudioEncoding.LINEAR16;
-  }
-
-  // Config for speech recognition
-  // enableWordConfidence provides per-word confidence scores for better analysis
-  const config: protos.google.cloud.speech.v1.IRecognitionConfig = {
-    encoding,
-    languageCode: 'en-US',
-    enableWordTimeOffsets: true,
-    enableWordConfidence: true,  // Enable per-word confidence scores
-    enableAutomaticPunctuation: true,
-    model: 'latest_long',
-  };
-
-  // Only set sample rate for non-WEBM formats (WEBM_OPUS auto-detects)
-  if (encoding !== protos.google.cloud.speech.v1.RecognitionConfig.AudioEncoding.WEBM_OPUS) {
-    config.sampleRateHertz = 16000;
-  }
-
-  const request: protos.google.cloud.speech.v1.ILongRunningRecognizeRequest = {
-    audio: {
-      uri: gcsUri,
-    },
-    config,
-  };
-
-  console.log(`Starting longRunningRecognize for: ${gcsUri}`);
-
-  // Start the long-running operation
-  const [operation] = await speechClient.longRunningRecognize(request);
-
-  // Wait for the operation to complete
-  const [response] = await operation.promise();
-
-  console.log('Speech recognition completed');
+// The recording to transcribe, as stored in Cloud Storage
+export interface SpeechAudio {
+  gcsUri: string;     // gs://bucket/path
+  mimeType: string;
+}
 
-  const words: WordTiming[] = [];
-  let fullTranscript = '';
-  let totalConfidence = 0;
-  let confidenceCount = 0;
+export const SPEECH_PROVIDER_NAMES = ['google', 'local'] as const;
+export type SpeechProviderName = typeof SPEECH_PROVIDER_NAMES[number];
 
-  for (const result of response.results || []) {
-    const alternative = result.alternatives?.[0];
-    if (!alternative) continue;
+export interface SpeechProvider {
+  name: SpeechProviderName;
+  transcribe(audio: SpeechAudio, maxWaitSeconds: number): Promise<TranscriptionResult>;
+}
 
-    fullTranscript += (fullTranscript ? ' ' : '') + alternative.transcript;
+const SPEECH_PROVIDERS: Record<SpeechProviderName, SpeechProvider> = {
+  google: googleSpeechProvider,
+  local: localSpeechProvider,
+};
 
-    if (alternative.confidence) {
-      totalConfidence += alternative.confidence;
-      confidenceCount++;
-    }
+export function isSpeechProviderName(value: unknown): value is SpeechProviderName {
+  return SPEECH_PROVIDER_NAMES.includes(value as SpeechProviderName);
+}
 
-    for (const wordInfo of alternative.words || []) {
-      const startTime = wordInfo.startTime
-        ? Number(wordInfo.startTime.seconds || 0) +
-          Number(wordInfo.startTime.nanos || 0) / 1e9
-        : 0;
-      const endTime = wordInfo.endTime
-        ? Number(wordInfo.endTime.seconds || 0) +
-          Number(wordInfo.endTime.nanos || 0) / 1e9
-        : 0;
+/**
+ * The speech provider for a teacher's classroom: its organization's, the teacher's own,
+ * or the SPEECH_PROVIDER default ('google' only when none of them is set)
+ * An unknown provider is an error rather than a silent fallback to the cloud
+ */
+export async function getSpeechProvider(
+  db: admin.firestore.Firestore,
+  teacherId: string
+): Promise<SpeechProvider> {
+  const defaultName = process.env.SPEECH_PROVIDER || 'google';
+  if (!isSpeechProviderName(defaultName)) {
+    throw new Error(`Unknown speech provider: ${defaultName}`);
+  }
 
-      // Use per-word confidence if available, otherwise fall back to transcript confidence
-      // Per-word confidence helps identify uncertain transcriptions
-      const wordConfidence = wordInfo.confidence !== undefined && wordInfo.confidence !== null
-        ? wordInfo.confidence
-        : alternative.confidence || 0;
+  const teacherData = (await db.collection('teachers').doc(teacherId).get()).data();
+  const orgId: string | undefined = teacherData?.org?.orgId;
+  const orgProvider = orgId
+    ? (await db.collection('organizations').doc(orgId).get()).data()?.speechProvider
+    : null;
 
-      words.push({
-        word: wordInfo.word || '',
-        startTime,
-        endTime,
-        confidence: wordConfidence,
-      });
-    }
+  const name: unknown = [orgProvider, teacherData?.settings?.speechProvider].find(value => value != null) ?? defaultName;
+  if (!isSpeechProviderName(name)) {
+    throw new Error(`Unknown speech provider: ${name}`);
   }
+  return SPEECH_PROVIDERS[name];
+}
 
-  return {
-    transcript: fullTranscript,
-    words,
-    confidence: confidenceCount > 0 ? totalConfidence / confidenceCount : 0,
-  };
+/**
+ * Transcribe a recording with word timings using the given provider
+ */
+export async function transcribeAudio(
+  provider: SpeechProvider,
+  gcsUri: string,
+  mimeType: string,
+  maxWaitSeconds: number = DEFAULT_MAX_WAIT_SECONDS
+): Promise<TranscriptionResult> {
+  console.log(`Transcribing with the ${provider.name} speech provider`);
+  return provider.transcribe({ gcsUri, mimeType }, maxWaitSeconds);
 }
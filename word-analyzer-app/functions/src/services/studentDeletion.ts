@@ -0,0 +1,113 @@
+/**
+ * Student Deletion
+ * Permanently deletes a student and everything derived from them - the student document
+ * with its progress, every assessment with its subcollections, and all Storage files keyed
+ * by those assessments - to honor COPPA/FERPA deletion requests. The deletion is recorded
+ * in the deletion log, and that entry serves as the deletion certificate
+ */
+
+import * as admin from 'firebase-admin';
+import { RETENTION_RULES, DeletedFile, DeletionLogEntry } from './dataRetention';
+import { unshareStudentWithAll } from './studentSharing';
+
+type Bucket = ReturnType<admin.storage.Storage['bucket']>;
+
+export interface StudentDeletionCertificate {
+  certificateId: string;      // Id of the deletionLog entry
+  studentId: string;
+  assessmentIds: string[];
+  documentsDeleted: number;
+  filesDeleted: number;
+  deletedAt: string;          // ISO time of the deletion
+}
+
+/**
+ * Delete every file under a Storage prefix, recording each one
+ */
+async function deletePrefix(
+  bucket: Bucket,
+  prefix: string,
+  rule: typeof RETENTION_RULES[number],
+  deleted: DeletedFile[]
+): Promise<void> {
+  const [files] = await bucket.getFiles({ prefix });
+
+  for (const file of files) {
+    await file.delete({ ignoreNotFound: true });
+    deleted.push({
+      path: file.name,
+      category: rule.category,
+      retentionHours: rule.retentionHours,
+      createdAt: file.metadata.timeCreated || new Date(0).toISOString(),
+      size: Number(file.metadata.size || 0),
+    });
+  }
+}
+
+/**
+ * Delete a student with all assessments and media, and log the deletion certificate
+ */
+export async function deleteStudentCascade(
+  db: admin.firestore.Firestore,
+  bucket: Bucket,
+  teacherId: string,
+  studentId: string,
+  requestedBy: string,
+  now: Date = new Date()
+): Promise<StudentDeletionCertificate> {
+  const teacherRef = db.collection('teachers').doc(teacherId);
+  const studentRef = teacherRef.collection('students').doc(studentId);
+
+  const assessmentsSnapshot = await teacherRef.collection('assessments')
+    .where('studentId', '==', studentId)
+    .get();
+  const assessmentIds = assessmentsSnapshot.docs.map(doc => doc.id);
+
+  // Storage first, so a failure part way leaves the documents that locate the remaining files
+  const deletedFiles: DeletedFile[] = [];
+  for (const rule of RETENTION_RULES) {
+    if (rule.subject === 'student') {
+      await deletePrefix(bucket, `${rule.prefix}${teacherId}/${studentId}/`, rule, deletedFiles);
+      continue;
+    }
+    for (const assessmentId of assessmentIds) {
+      await deletePrefix(bucket, `${rule.prefix}${teacherId}/${assessmentId}/`, rule, deletedFiles);
+    }
+  }
+
+  await unshareStudentWithAll(db, teacherId, studentId);
+
+  // recursiveDelete also removes subcollections (revisions, progress, consent history)
+  let documentsDeleted = 0;
+  const bulkWriter = db.bulkWriter();
+  bulkWriter.onWriteResult(() => {
+    documentsDeleted++;
+  });
+  for (const assessmentDoc of assessmentsSnapshot.docs) {
+    await db.recursiveDelete(assessmentDoc.ref, bulkWriter);
+  }
+  await db.recursiveDelete(studentRef, bulkWriter);
+  await bulkWriter.close();
+
+  const entry: DeletionLogEntry = {
+    reason: 'student-deletion',
+    assessmentId: null,
+    studentId,
+    files: deletedFiles,
+    clearedFields: [],
+    assessmentIds,
+    documentsDeleted,
+    requestedBy,
+    deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  const logRef = await teacherRef.collection('deletionLog').add(entry);
+
+  return {
+    certificateId: logRef.id,
+    studentId,
+    assessmentIds,
+    documentsDeleted,
+    filesDeleted: deletedFiles.length,
+    deletedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Student Progress
+ * Recomputes celeration measures from a student's completed assessments and stores
+ * them in teachers/{uid}/students/{id}/progress/current for every client to read
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  calculateProgress,
+  ProgressAssessment,
+  PhaseDefinition,
+  Aim,
+  StudentProgress,
+} from './celerationCalculator';
+
+/**
+ * Reference to the stored progress document of a student
+ */
+export function progressRef(
+  db: admin.firestore.Firestore,
+  teacherId: string,
+  studentId: string
+): admin.firestore.DocumentReference {
+  return db.collection('teachers').doc(teacherId)
+    .collection('students').doc(studentId)
+    .collection('progress').doc('current');
+}
+
+/**
+ * Counting time of an assessment in minutes (recorded reading time, else a 1 minute timing)
+ */
+export function getCountingMinutes(data: admin.firestore.DocumentData): number {
+  return data.audioDuration > 0 ? data.audioDuration / 60 : 1;
+}
+
+/**
+ * Fields of a stored object; anything else reads as an object without fields
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+/**
+ * A stored phase change line, or null when its date or label is missing or invalid
+ */
+function toPhaseDefinition(value: unknown): PhaseDefinition | null {
+  const phase = toRecord(value);
+  if (!(phase.date instanceof admin.firestore.Timestamp) || typeof phase.label !== 'string' || !phase.label) {
+    return null;
+  }
+  return { label: phase.label, date: phase.date.toDate() };
+}
+
+/**
+ * Recompute and persist a student's progress
+ */
+export async function refreshStudentProgress(
+  db: admin.firestore.Firestore,
+  teacherId: string,
+  studentId: string
+): Promise<StudentProgress> {
+  const teacherRef = db.collection('teachers').doc(teacherId);
+  const [studentDoc, assessmentsSnapshot] = await Promise.all([
+    teacherRef.collection('students').doc(studentId).get(),
+    teacherRef.collection('assessments')
+      .where('studentId', '==', studentId)
+      .where('status', '==', 'complete')
+      .get(),
+  ]);
+
+  const assessments: ProgressAssessment[] = assessmentsSnapshot.docs
+    .filter(doc => doc.data().metrics)
+    .map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        date: data.createdAt?.toDate() || new Date(),
+        correctCount: data.metrics.correctCount || 0,
+        errorCount: data.metrics.errorCount || 0,
+        countingMinutes: getCountingMinutes(data),
+      };
+    });
+
+  const studentData = studentDoc.data() || {};
+  const phases: PhaseDefinition[] = Array.isArray(studentData.phaseChanges)
+    ? studentData.phaseChanges.flatMap((phase: unknown) => {
+      const definition = toPhaseDefinition(phase);
+      return definition ? [definition] : [];
+    })
+    : [];
+  const aim: Aim | null = studentData.aim?.correctPerMinute
+    ? {
+      correctPerMinute: studentData.aim.correctPerMinute,
+      errorsPerMinute: studentData.aim.errorsPerMinute ?? null,
+      date: studentData.aim.date?.toDate() || new Date(),
+    }
+    : null;
+
+  const progress = calculateProgress(assessments, phases, aim);
+
+  await progressRef(db, teacherId, studentId).set({
+    ...progress,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  console.log(`Progress updated for student ${studentId}: ${progress.assessmentCount} assessments`);
+  return progress;
+}
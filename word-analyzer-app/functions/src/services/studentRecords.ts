@@ -0,0 +1,202 @@
+/**
+ * Student Records Export
+ * Gathers everything stored about one student - profile, celeration progress, every
+ * assessment with its revisions, PDF reports, AI summaries and any media still within
+ * the retention period - into a ZIP with a manifest, so a parent can inspect the
+ * education record as described in PARENT-RIGHTS-NOTICE.md
+ */
+
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { createZip, ZipEntry } from './zipArchive';
+import { generatePdfReport, toPdfReportInput } from './pdfGenerator';
+import { RETENTION_RULES, RetentionCategory } from './dataRetention';
+
+type Bucket = ReturnType<admin.storage.Storage['bucket']>;
+
+// Media kept per assessment until the retention job deletes it
+const MEDIA_CATEGORIES: RetentionCategory[] = ['audio', 'images', 'videos', 'summaryAudio'];
+
+const MEDIA_DESCRIPTIONS: Partial<Record<RetentionCategory, string>> = {
+  audio: 'Reading audio recording',
+  images: 'Photo of the reading passage',
+  videos: 'Word highlighting video',
+  summaryAudio: 'Spoken AI feedback',
+};
+
+export interface RecordsManifestFile {
+  path: string;
+  description: string;
+  bytes: number;
+  assessmentId?: string;
+}
+
+export interface RecordsManifest {
+  generatedAt: string;
+  generatedBy: string;        // Uid of the teacher who requested the export
+  student: {
+    id: string;
+    name: string;
+    grade: string | null;
+    externalId: string | null;
+  };
+  assessmentCount: number;
+  files: RecordsManifestFile[];
+  notIncluded: Array<{ assessmentId: string; item: string; reason: string }>;
+}
+
+export interface StudentRecordsBundle {
+  zip: Buffer;
+  manifest: RecordsManifest;
+}
+
+/**
+ * File name of a student's records export
+ */
+export function getRecordsFileName(studentName: string, date = new Date()): string {
+  const safeName = studentName.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase();
+  return `student-records-${safeName}-${date.toISOString().slice(0, 10)}.zip`;
+}
+
+/**
+ * Firestore data as plain JSON (timestamps become ISO strings)
+ */
+function toExportValue(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toExportValue);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+      result[key] = toExportValue(entry);
+    });
+    return result;
+  }
+  return value;
+}
+
+function jsonBuffer(value: unknown): Buffer {
+  return Buffer.from(JSON.stringify(toExportValue(value), null, 2), 'utf8');
+}
+
+/**
+ * Build the records ZIP of one student
+ */
+export async function buildStudentRecords(
+  db: admin.firestore.Firestore,
+  bucket: Bucket,
+  teacherId: string,
+  studentId: string,
+  now: Date = new Date()
+): Promise<StudentRecordsBundle> {
+  const teacherRef = db.collection('teachers').doc(teacherId);
+  const studentRef = teacherRef.collection('students').doc(studentId);
+  const studentDoc = await studentRef.get();
+  if (!studentDoc.exists) {
+    throw new Error('Student not found');
+  }
+  const studentData = studentDoc.data()!;
+
+  const entries: ZipEntry[] = [];
+  const manifest: RecordsManifest = {
+    generatedAt: now.toISOString(),
+    generatedBy: teacherId,
+    student: {
+      id: studentId,
+      name: studentData.name,
+      grade: studentData.grade || null,
+      externalId: studentData.externalId || null,
+    },
+    assessmentCount: 0,
+    files: [],
+    notIncluded: [],
+  };
+
+  const addFile = (filePath: string, data: Buffer, description: string, assessmentId?: string) => {
+    entries.push({ name: filePath, data, modifiedAt: now });
+    manifest.files.push({
+      path: filePath,
+      description,
+      bytes: data.length,
+      ...(assessmentId && { assessmentId }),
+    });
+  };
+
+  const [progressDoc, consentHistorySnapshot] = await Promise.all([
+    studentRef.collection('progress').doc('current').get(),
+    studentRef.collection('consentHistory').orderBy('date').get(),
+  ]);
+  addFile('student.json', jsonBuffer({
+    id: studentId,
+    ...studentData,
+    progress: progressDoc.exists ? progressDoc.data() : null,
+    consentHistory: consentHistorySnapshot.docs.map(doc => doc.data()),
+  }), 'Student profile, consent history, phase changes, aim and celeration progress');
+
+  const assessmentsSnapshot = await teacherRef.collection('assessments')
+    .where('studentId', '==', studentId)
+    .get();
+  const assessmentDocs = [...assessmentsSnapshot.docs].sort((a, b) =>
+    (a.data().createdAt?.toMillis() || 0) - (b.data().createdAt?.toMillis() || 0)
+  );
+  manifest.assessmentCount = assessmentDocs.length;
+
+  for (const assessmentDoc of assessmentDocs) {
+    const assessmentId = assessmentDoc.id;
+    const data = assessmentDoc.data();
+    const date = data.createdAt?.toDate().toISOString().slice(0, 10) || 'undated';
+    const folder = `assessments/${date}_${assessmentId}`;
+
+    addFile(`${folder}/assessment.json`, jsonBuffer({ id: assessmentId, ...data }),
+      'Assessment record: transcript, scored words, metrics and error patterns', assessmentId);
+
+    const revisionsSnapshot = await assessmentDoc.ref.collection('revisions').orderBy('revision').get();
+    if (!revisionsSnapshot.empty) {
+      addFile(`${folder}/revisions.json`, jsonBuffer(revisionsSnapshot.docs.map(doc => doc.data())),
+        'Revision history of the results', assessmentId);
+    }
+
+    if (data.status === 'complete' && data.metrics) {
+      addFile(`${folder}/report.pdf`, await generatePdfReport(toPdfReportInput(data)),
+        'Assessment report', assessmentId);
+    }
+
+    if (data.aiSummary) {
+      addFile(`${folder}/ai-summary.txt`, Buffer.from(data.aiSummary, 'utf8'),
+        'AI-generated feedback for the student', assessmentId);
+    }
+
+    // Imported chart data never had media
+    if (data.importedFrom) continue;
+
+    for (const rule of RETENTION_RULES.filter(r => MEDIA_CATEGORIES.includes(r.category))) {
+      const [files] = await bucket.getFiles({ prefix: `${rule.prefix}${teacherId}/${assessmentId}/` });
+      const description = MEDIA_DESCRIPTIONS[rule.category] || rule.category;
+
+      if (files.length === 0) {
+        manifest.notIncluded.push({
+          assessmentId,
+          item: description,
+          reason: `Not created, or deleted ${rule.retentionHours} hours after creation under the data retention policy`,
+        });
+        continue;
+      }
+
+      for (const file of files) {
+        const [content] = await file.download();
+        addFile(`${folder}/media/${path.basename(file.name)}`, content, description, assessmentId);
+      }
+    }
+  }
+
+  // Manifest goes first so it is easy to find when the archive is opened
+  const manifestEntry: ZipEntry = { name: 'manifest.json', data: jsonBuffer(manifest), modifiedAt: now };
+
+  return {
+    zip: createZip([manifestEntry, ...entries]),
+    manifest,
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Student Sharing
+ * Lets co-teachers (e.g. a classroom teacher and an interventionist) work with the same
+ * student: the owning teacher grants another teacher read or read-write access. Grants live
+ * with the student (students/{id}/shares/{uid}), where firestore.rules and storage.rules
+ * check them, and are listed for the co-teacher in teachers/{uid}/sharedStudents.
+ * Only these functions write them
+ */
+
+import * as admin from 'firebase-admin';
+
+export type ShareAccess = 'read' | 'write';
+
+export const SHARE_ACCESS: ShareAccess[] = ['read', 'write'];
+
+export interface ShareUser {
+  uid: string;
+  email: string;
+}
+
+/**
+ * Id of the co-teacher's sharedStudents entry for a student
+ */
+function sharedStudentId(ownerId: string, studentId: string): string {
+  return `${ownerId}_${studentId}`;
+}
+
+/**
+ * Whether the user is a co-teacher with write access to a student
+ */
+export async function hasStudentWriteAccess(
+  db: admin.firestore.Firestore,
+  ownerId: string,
+  userId: string,
+  studentId: string
+): Promise<boolean> {
+  const shareDoc = await db.collection('teachers').doc(ownerId)
+    .collection('students').doc(studentId)
+    .collection('shares').doc(userId).get();
+  return shareDoc.data()?.access === 'write';
+}
+
+/**
+ * Whether the user is a co-teacher with write access to the student of an assessment,
+ * allowing them the same assessment actions as the owner
+ */
+export async function hasSharedWriteAccess(
+  db: admin.firestore.Firestore,
+  ownerId: string,
+  userId: string,
+  assessmentId: unknown
+): Promise<boolean> {
+  if (typeof ownerId !== 'string' || !ownerId || typeof assessmentId !== 'string' || !assessmentId) {
+    return false;
+  }
+
+  const assessmentDoc = await db.collection('teachers').doc(ownerId)
+    .collection('assessments').doc(assessmentId).get();
+  const studentId = assessmentDoc.data()?.studentId;
+  if (!studentId) return false;
+
+  return hasStudentWriteAccess(db, ownerId, userId, studentId);
+}
+
+/**
+ * Grant a co-teacher access to a student, or change their access
+ */
+export async function shareStudent(
+  db: admin.firestore.Firestore,
+  owner: ShareUser,
+  studentId: string,
+  grantee: ShareUser,
+  access: ShareAccess
+): Promise<void> {
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const studentRef = db.collection('teachers').doc(owner.uid).collection('students').doc(studentId);
+
+  const batch = db.batch();
+  batch.set(studentRef.collection('shares').doc(grantee.uid), {
+    uid: grantee.uid,
+    email: grantee.email,
+    access,
+    sharedAt: now,
+  });
+  batch.set(
+    db.collection('teachers').doc(grantee.uid)
+      .collection('sharedStudents').doc(sharedStudentId(owner.uid, studentId)),
+    {
+      ownerId: owner.uid,
+      ownerEmail: owner.email,
+      studentId,
+      access,
+      sharedAt: now,
+    }
+  );
+  await batch.commit();
+}
+
+/**
+ * Revoke a co-teacher's access to a student
+ */
+export async function unshareStudent(
+  db: admin.firestore.Firestore,
+  ownerId: string,
+  studentId: string,
+  granteeUid: string
+): Promise<void> {
+  const batch = db.batch();
+  batch.delete(db.collection('teachers').doc(ownerId)
+    .collection('students').doc(studentId)
+    .collection('shares').doc(granteeUid));
+  batch.delete(db.collection('teachers').doc(granteeUid)
+    .collection('sharedStudents').doc(sharedStudentId(ownerId, studentId)));
+  await batch.commit();
+}
+
+/**
+ * Revoke every share of a student, so co-teachers are not left listing a deleted student
+ */
+export async function unshareStudentWithAll(
+  db: admin.firestore.Firestore,
+  ownerId: string,
+  studentId: string
+): Promise<void> {
+  const sharesSnapshot = await db.collection('teachers').doc(ownerId)
+    .collection('students').doc(studentId)
+    .collection('shares').get();
+
+  for (const shareDoc of sharesSnapshot.docs) {
+    await unshareStudent(db, ownerId, studentId, shareDoc.id);
+  }
+}
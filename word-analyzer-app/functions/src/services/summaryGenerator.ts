@@ -1,11 +1,14 @@
 /**
  * AI Summary Generator
  * Uses Google AI Gemini to generate personalized student feedback
+ * The student's name is never sent: the prompt uses a placeholder token that is
+ * replaced with the first name in the returned text
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { AlignedWord } from './wordMatching';
 import { Metrics, ErrorPattern, PatternSummary } from './metricsCalculator';
+import { NAME_TOKEN, getNameVariants, pseudonymize, restoreNames } from './pseudonymizer';
 
 // Create Gemini client fresh each call to ensure latest API key is used
 // (Firebase keeps containers warm, so cached clients may have stale keys)
@@ -179,12 +182,18 @@ function getRandomGreeting(firstName: string): string {
 
 /**
  * Build the prompt for Gemini - UNIQUE AND CREATIVE EVERY TIME
+ * Refers to the student only by NAME_TOKEN
  */
 function buildPrompt(input: SummaryInput): string {
-  const firstName = input.studentName.split(' ')[0];
+  const name = NAME_TOKEN;
+  // A passage word can match the name too
+  const names = getNameVariants(input.studentName);
+  const safe = (text: string) => pseudonymize(text, names);
   const randomSeed = Math.floor(Math.random() * 1000); // Add randomness
 
-  let prompt = `You are an encouraging, enthusiastic reading coach giving spoken feedback to ${firstName}, a middle school student (6th-7th grade). Create a UNIQUE personalized audio summary of their reading assessment.
+  let prompt = `You are an encouraging, enthusiastic reading coach giving spoken feedback to a middle school student (6th-7th grade). Create a UNIQUE personalized audio summary of their reading assessment.
+
+For privacy, the student's name is replaced by the placeholder ${name}. Write ${name} exactly like that, 2-3 times, wherever you would say their name. Never guess or invent a name.
 
 CRITICAL RULES:
 - Write EXACTLY what will be spoken aloud - conversational and natural
@@ -193,15 +202,15 @@ CRITICAL RULES:
 - Be specific - mention actual words from the data provided
 - Warm, encouraging tone - celebrate wins, normalize struggles
 - Include 2-3 Gen Z slang terms naturally (no cap, fire, lowkey, W, goated, slay, valid, bussin, bet, hits different, understood the assignment, main character, era, ate that, served, period, based)
-- IMPORTANT: Create a UNIQUE ending each time - use creative wordplay with their name "${firstName}" like rhymes, puns, alliteration, or playful nicknames. Be creative and funny! Never use generic endings.
+- IMPORTANT: Create a UNIQUE ending each time that addresses ${name} - use creative wordplay on their reading like puns, alliteration, or playful titles. Be creative and funny! Never use generic endings.
 
 VARIETY SEED: ${randomSeed} (use this to inspire different phrasing)
 
-CREATIVE SIGN-OFF IDEAS for ${firstName}:
-- Rhyme with their name if possible
-- Alliteration (${firstName[0]}-words)
+CREATIVE SIGN-OFF IDEAS for ${name}:
+- Puns on the words they read well
+- Alliteration around their performance
 - Playful nickname based on performance
-- Pop culture reference with their name
+- Pop culture reference
 - Made-up superlative title
 
 STRUCTURE TO FOLLOW:
@@ -210,9 +219,9 @@ STRUCTURE TO FOLLOW:
 3. Acknowledge 1-2 tricky words gently - normalize that these are hard for everyone
 4. If there's a pattern, explain it simply and give ONE concrete practice tip
 5. Encouraging statement about their progress and potential
-6. Fun, UNIQUE creative sign-off with their name - BE ORIGINAL AND FUNNY
+6. Fun, UNIQUE creative sign-off with ${name} - BE ORIGINAL AND FUNNY
 
-ASSESSMENT DATA FOR ${firstName.toUpperCase()}:
+ASSESSMENT DATA:
 - Overall accuracy: ${input.metrics.accuracy}%
 - Total words attempted: ${input.metrics.totalWords}
 - Words read correctly: ${input.metrics.correctCount}
@@ -221,18 +230,18 @@ ASSESSMENT DATA FOR ${firstName.toUpperCase()}:
 - Hesitations/pauses: ${input.metrics.hesitationCount}`;
 
   if (input.strengths.length > 0) {
-    prompt += `\n\nIMPRESSIVE WORDS THEY NAILED:\n${input.strengths.map(w => `- "${w}"`).join('\n')}`;
+    prompt += `\n\nIMPRESSIVE WORDS THEY NAILED:\n${input.strengths.map(w => `- "${safe(w)}"`).join('\n')}`;
   }
 
   if (input.struggles.length > 0) {
-    prompt += `\n\nWORDS THAT WERE TRICKY:\n${input.struggles.map(s => `- Said "${s.spoken}" instead of "${s.expected}"`).join('\n')}`;
+    prompt += `\n\nWORDS THAT WERE TRICKY:\n${input.struggles.map(s => `- Said "${safe(s.spoken)}" instead of "${safe(s.expected)}"`).join('\n')}`;
   }
 
   if (input.primaryPattern) {
-    prompt += `\n\nPATTERN NOTICED:\n- ${input.primaryPattern.description}\n- Examples: ${input.primaryPattern.examples.join(', ')}`;
+    prompt += `\n\nPATTERN NOTICED:\n- ${safe(input.primaryPattern.description)}\n- Examples: ${safe(input.primaryPattern.examples.join(', '))}`;
   }
 
-  prompt += `\n\nNow write the encouraging spoken feedback for ${firstName}. Remember: natural speech, 8-10 sentences, specific word mentions, Gen Z slang, and most importantly a CREATIVE UNIQUE sign-off that is different every time:`;
+  prompt += `\n\nNow write the encouraging spoken feedback for ${name}. Remember: natural speech, 8-10 sentences, specific word mentions, Gen Z slang, and most importantly a CREATIVE UNIQUE sign-off that is different every time:`;
 
   return prompt;
 }
@@ -386,7 +395,7 @@ export async function generateAISummary(
       .trim();
 
     console.log(`Gemini AI summary generated: ${cleanedText.length} chars`);
-    return cleanedText;
+    return restoreNames(cleanedText, studentName.split(' ')[0]);
 
   } catch (error) {
     console.error('Error generating AI summary with Gemini:', error);
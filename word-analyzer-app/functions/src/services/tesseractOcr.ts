@@ -0,0 +1,101 @@
+/**
+ * Tesseract OCR provider
+ * Runs the tesseract command line tool on the server, so passage photos are never sent to a
+ * cloud OCR service. Words and their boxes come from its TSV output (one row per word)
+ *
+ * TESSERACT_BINARY - tesseract command line tool (default: tesseract on the PATH)
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OcrProvider, OcrResult, OcrWord } from './visionOcr';
+
+const DEFAULT_BINARY = 'tesseract';
+const TIMEOUT_MS = 120000;
+
+// TSV row levels: 1 page, 2 block, 3 paragraph, 4 line, 5 word
+const PAGE_LEVEL = 1;
+const WORD_LEVEL = 5;
+
+/**
+ * Run tesseract on an image file and return its TSV output
+ */
+function runTesseract(imagePath: string): Promise<string> {
+  const binary = process.env.TESSERACT_BINARY || DEFAULT_BINARY;
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      binary,
+      [imagePath, 'stdout', '-l', 'eng', 'tsv'],
+      { timeout: TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          console.error('[Tesseract] OCR failed:', stderr);
+          reject(new Error(`Tesseract OCR failed: ${error.message}`));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Words, line-by-line text and page size from tesseract TSV output
+ */
+function parseTsv(tsv: string): OcrResult {
+  const words: OcrWord[] = [];
+  const lines = new Map<string, string[]>();
+  let imageWidth = 0;
+  let imageHeight = 0;
+
+  // Skip the header row
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    if (columns.length < 12) continue;
+
+    const [level, , block, paragraph, line, , left, top, width, height, confidence] = columns.map(Number);
+    if (level === PAGE_LEVEL) {
+      imageWidth = width;
+      imageHeight = height;
+      continue;
+    }
+
+    const text = columns.slice(11).join('\t').trim();
+    if (level !== WORD_LEVEL || !text || confidence < 0) continue;
+
+    words.push({
+      text,
+      boundingBox: { x: left, y: top, width, height },
+    });
+
+    const lineKey = `${block}-${paragraph}-${line}`;
+    lines.set(lineKey, [...(lines.get(lineKey) || []), text]);
+  }
+
+  return {
+    fullText: Array.from(lines.values()).map(lineWords => lineWords.join(' ')).join('\n'),
+    words,
+    imageWidth,
+    imageHeight,
+  };
+}
+
+async function recognize(imageBuffer: Buffer): Promise<OcrResult> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-'));
+
+  try {
+    const imagePath = path.join(tempDir, 'page');
+    fs.writeFileSync(imagePath, imageBuffer);
+    return parseTsv(await runTesseract(imagePath));
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+export const tesseractOcrProvider: OcrProvider = {
+  name: 'tesseract',
+  recognize,
+};
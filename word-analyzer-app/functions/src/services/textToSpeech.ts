@@ -4,9 +4,12 @@
  *
  * Privacy Note: Student data is sent to Google Cloud for TTS processing.
  * Schools should have a Google Cloud DPA in place for FERPA compliance.
+ * When privacy options are given, the student's first name is never sent in the same
+ * request as the feedback text - it is rendered on its own, or replaced by a nickname
  */
 
 import { TextToSpeechClient, protos } from '@google-cloud/text-to-speech';
+import { StudentPrivacy, splitOnNames } from './pseudonymizer';
 
 // Initialize Google TTS client
 const googleTtsClient = new TextToSpeechClient();
@@ -48,18 +51,83 @@ const GOOGLE_VOICES = {
 
 export interface TTSOptions {
   speakingRate?: number;
+  privacy?: StudentPrivacy;   // Names to keep out of the feedback request
+}
+
+type VoiceKey = keyof typeof GOOGLE_VOICES;
+
+/**
+ * Split text into the pieces synthesized in separate requests
+ * The real first name becomes a piece of its own; a nickname or neutral address stays inline
+ */
+function buildSpeechParts(text: string, privacy?: StudentPrivacy): string[] {
+  if (!privacy) return [text];
+
+  const parts: string[] = [];
+  let pending = '';
+  const flush = () => {
+    // Punctuation left between two names has nothing to say
+    if (/[a-z0-9]/i.test(pending)) parts.push(pending.trim());
+    pending = '';
+  };
+
+  for (const segment of splitOnNames(text, privacy.names)) {
+    if (!segment.isName) {
+      pending += segment.text;
+    } else if (!privacy.spokenNameIsSensitive) {
+      pending += privacy.spokenName;
+    } else {
+      flush();
+      parts.push(privacy.spokenName);
+    }
+  }
+  flush();
+
+  return parts;
+}
+
+/**
+ * Synthesize one request with the given voice
+ */
+async function synthesize(text: string, voiceKey: VoiceKey, speakingRate: number): Promise<Buffer> {
+  const voice = GOOGLE_VOICES[voiceKey];
+
+  const request: protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest = {
+    input: { text },
+    voice: {
+      languageCode: voice.languageCode,
+      name: voice.name,
+      ssmlGender: voice.ssmlGender,
+    },
+    audioConfig: {
+      audioEncoding: 'MP3',
+      speakingRate,
+      pitch: 0,
+      // Audio profile optimized for speakers
+      effectsProfileId: ['small-bluetooth-speaker-class-device'],
+    },
+  };
+
+  const [response] = await googleTtsClient.synthesizeSpeech(request);
+
+  if (!response.audioContent) {
+    throw new Error('No audio content in Google TTS response');
+  }
+
+  return Buffer.from(response.audioContent as Uint8Array);
 }
 
 /**
  * Generate speech audio using Google Cloud TTS
  * Tries highest quality voices first, falls back to lower quality if unavailable
- * Returns MP3 audio buffer
+ * Returns MP3 audio buffer (MP3 frames of separately rendered pieces are concatenated)
  */
 export async function generateSpeechAudio(
   text: string,
   options: TTSOptions = {}
 ): Promise<Buffer> {
-  const { speakingRate = 1.0 } = options;
+  const { speakingRate = 1.0, privacy } = options;
+  const parts = buildSpeechParts(text, privacy);
 
   // Try voices in order of quality (best first)
   const voicesToTry = [
@@ -73,32 +141,24 @@ export async function generateSpeechAudio(
   for (const voiceKey of voicesToTry) {
     const voice = GOOGLE_VOICES[voiceKey];
 
-    const request: protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest = {
-      input: { text },
-      voice: {
-        languageCode: voice.languageCode,
-        name: voice.name,
-        ssmlGender: voice.ssmlGender,
-      },
-      audioConfig: {
-        audioEncoding: 'MP3',
-        speakingRate,
-        pitch: 0,
-        // Audio profile optimized for speakers
-        effectsProfileId: ['small-bluetooth-speaker-class-device'],
-      },
-    };
-
     try {
-      console.log(`Trying Google TTS voice: ${voiceKey} (${voice.name})...`);
-      const [response] = await googleTtsClient.synthesizeSpeech(request);
+      console.log(`Trying Google TTS voice: ${voiceKey} (${voice.name}), ${parts.length} request(s)...`);
 
-      if (!response.audioContent) {
-        throw new Error('No audio content in Google TTS response');
+      // Every piece uses the same voice; a repeated name is rendered once
+      const rendered = new Map<string, Buffer>();
+      const buffers: Buffer[] = [];
+      for (const part of parts) {
+        let audio = rendered.get(part);
+        if (!audio) {
+          audio = await synthesize(part, voiceKey, speakingRate);
+          rendered.set(part, audio);
+        }
+        buffers.push(audio);
       }
 
-      console.log(`Google TTS success with ${voiceKey}: ${(response.audioContent as Uint8Array).length} bytes`);
-      return Buffer.from(response.audioContent as Uint8Array);
+      const audioBuffer = Buffer.concat(buffers);
+      console.log(`Google TTS success with ${voiceKey}: ${audioBuffer.length} bytes`);
+      return audioBuffer;
     } catch (error) {
       console.warn(`Google TTS voice ${voiceKey} failed:`, error);
       // Continue to next voice
@@ -0,0 +1,57 @@
+/**
+ * Upload Integrity
+ * The app stores a SHA-256 of every uploaded recording and page image in the file's
+ * custom metadata (sha256) and in the upload manifest; processing recomputes it from
+ * the stored bytes so a truncated or corrupted upload is reported instead of analyzed.
+ * Every file this app version uploads carries a hash, so a file without one fails too
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+type StorageFile = ReturnType<ReturnType<admin.storage.Storage['bucket']>['file']>;
+
+export const HASH_CHECK_FAILED_MESSAGE = 'The upload could not be verified (its checksum is missing or does not match the recording on the device). Please record the reading again.';
+
+/**
+ * SHA-256 (hex) of a stored file, streamed so long recordings aren't held in memory
+ */
+function hashStoredFile(file: StorageFile): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    file.createReadStream()
+      .on('error', reject)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Names of the files whose contents don't match the hash recorded by the app, or that have no hash
+ * expectedHashes (by file name, from the manifest) take precedence over the file metadata
+ */
+export async function findCorruptUploads(
+  files: StorageFile[],
+  expectedHashes: Record<string, string> = {}
+): Promise<string[]> {
+  const corrupt: string[] = [];
+
+  for (const file of files) {
+    const [metadata] = await file.getMetadata();
+    const expectedHash = expectedHashes[path.basename(file.name)] || metadata.metadata?.sha256;
+    if (!expectedHash) {
+      console.error(`[Integrity] ${file.name} has no sha256, it cannot be verified`);
+      corrupt.push(path.basename(file.name));
+      continue;
+    }
+
+    const actualHash = await hashStoredFile(file);
+    if (actualHash !== String(expectedHash).toLowerCase()) {
+      console.error(`[Integrity] ${file.name} hash mismatch: expected ${expectedHash}, got ${actualHash}`);
+      corrupt.push(path.basename(file.name));
+    }
+  }
+
+  return corrupt;
+}
@@ -0,0 +1,122 @@
+/**
+ * Upload Manifest
+ * The app uploads the files of an assessment first and then writes
+ * uploads/{teacherId}/{assessmentId}/manifest.json listing them (name, kind, size, hash)
+ * with the passage and recording options. Processing starts from the manifest alone, so
+ * readiness never depends on file names or on which upload happened to arrive last
+ */
+
+import * as admin from 'firebase-admin';
+import * as path from 'path';
+
+type StorageFile = ReturnType<ReturnType<admin.storage.Storage['bucket']>['file']>;
+
+export const UPLOAD_MANIFEST_FILE = 'manifest.json';
+export const UPLOAD_MANIFEST_VERSION = 1;
+
+const FILE_KINDS = ['audio', 'image'] as const;
+export type UploadFileKind = typeof FILE_KINDS[number];
+
+export interface UploadManifestFile {
+  name: string;           // File name within the assessment's upload folder
+  kind: UploadFileKind;   // Images are listed in reading order
+  size: number;           // Bytes
+  sha256: string;         // Hex
+  contentType: string;
+}
+
+export interface UploadManifest {
+  version: number;
+  files: UploadManifestFile[];
+  passageId: string | null;       // Library passage read (its text replaces OCR)
+  options: {
+    recordingDuration: number | 'untimed' | null;
+  };
+}
+
+/**
+ * Fields of a JSON object; anything else reads as an object without fields
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+function isUploadFileKind(kind: unknown): kind is UploadFileKind {
+  return FILE_KINDS.some(fileKind => fileKind === kind);
+}
+
+/**
+ * Parse and validate manifest.json; throws with a readable message when it is unusable
+ */
+export function parseUploadManifest(contents: Buffer): UploadManifest {
+  let raw: Record<string, unknown>;
+  try {
+    raw = toRecord(JSON.parse(contents.toString('utf8')));
+  } catch {
+    throw new Error('The upload manifest is not valid JSON');
+  }
+
+  if (raw.version !== UPLOAD_MANIFEST_VERSION) {
+    throw new Error(`Unsupported upload manifest version: ${raw.version}`);
+  }
+  if (!Array.isArray(raw.files)) {
+    throw new Error('The upload manifest lists no files');
+  }
+
+  const files: UploadManifestFile[] = raw.files.map((entry: unknown, index: number) => {
+    const file = toRecord(entry);
+    const name = typeof file.name === 'string' ? file.name : '';
+    // Names are plain file names inside the upload folder
+    if (!name || name !== path.basename(name) || name === UPLOAD_MANIFEST_FILE) {
+      throw new Error(`Upload manifest file ${index + 1} has an invalid name`);
+    }
+    if (!isUploadFileKind(file.kind)) {
+      throw new Error(`Upload manifest file ${name} has an unknown kind: ${file.kind}`);
+    }
+    if (typeof file.size !== 'number' || file.size <= 0) {
+      throw new Error(`Upload manifest file ${name} has an invalid size`);
+    }
+    return {
+      name,
+      kind: file.kind,
+      size: file.size,
+      sha256: typeof file.sha256 === 'string' ? file.sha256.toLowerCase() : '',
+      contentType: typeof file.contentType === 'string' ? file.contentType : '',
+    };
+  });
+
+  if (files.filter(file => file.kind === 'audio').length !== 1) {
+    throw new Error('The upload manifest must list exactly one recording');
+  }
+
+  const recordingDuration = toRecord(raw.options).recordingDuration;
+  return {
+    version: UPLOAD_MANIFEST_VERSION,
+    files,
+    passageId: typeof raw.passageId === 'string' && raw.passageId ? raw.passageId : null,
+    options: {
+      recordingDuration: typeof recordingDuration === 'number' || recordingDuration === 'untimed'
+        ? recordingDuration
+        : null,
+    },
+  };
+}
+
+/**
+ * Manifest files of a kind, in manifest (reading) order
+ */
+export function getManifestFiles(manifest: UploadManifest, kind: UploadFileKind): UploadManifestFile[] {
+  return manifest.files.filter(file => file.kind === kind);
+}
+
+/**
+ * Manifest files that are missing from the upload folder or differ in size
+ */
+export function findMissingUploads(uploaded: StorageFile[], manifest: UploadManifest): string[] {
+  const sizes = new Map(uploaded.map(file => [path.basename(file.name), Number(file.metadata.size)]));
+  return manifest.files
+    .filter(file => sizes.get(file.name) !== file.size)
+    .map(file => file.name);
+}
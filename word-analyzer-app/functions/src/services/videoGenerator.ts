@@ -12,6 +12,10 @@ ffmpeg.setFfmpegPath(ffmpegInstaller.path);
 type NodeCanvasContext = CanvasRenderingContext2D;
 type NodeCanvas = Canvas;
 
+// Keyframe budget so 2 minute and untimed readings render within the function timeout
+const MAX_KEYFRAMES = 1200;
+const MIN_KEYFRAME_INTERVAL = 0.033;  // One frame at 30fps
+
 export interface WordLayout {
   word: string;
   x: number;
@@ -23,6 +27,7 @@ export interface WordLayout {
   hesitation?: boolean;
   pauseDuration?: number;
   isRepeat?: boolean;
+  screen: number;       // Words that don't fit on one frame continue on the next screen
 }
 
 export interface VideoGeneratorInput {
@@ -70,8 +75,8 @@ export async function generateVideo(
   const canvas = createCanvas(width, height);
   const ctx = canvas.getContext('2d');
 
-  // Prepare word layouts
-  const wordLayouts = prepareWordLayouts(words, ctx, width, padding, lineHeight, fontSize);
+  // Prepare word layouts (text area ends above the progress bar)
+  const wordLayouts = prepareWordLayouts(words, ctx, width, height - 110, padding, lineHeight, fontSize);
 
   // Create temporary directory for keyframes
   const tempDir = path.join(os.tmpdir(), `video-${Date.now()}`);
@@ -89,9 +94,6 @@ export async function generateVideo(
     const nextTime = transitionTimes[i + 1] ?? audioDuration;
     const duration = nextTime - currentTime;
 
-    // Skip very short durations (less than 1 frame at 30fps)
-    if (duration < 0.033) continue;
-
     renderFrame(ctx, canvas, wordLayouts, currentTime, padding, fontSize, studentName, wpm);
 
     // Save keyframe as JPEG (much faster than PNG, minimal quality loss)
@@ -166,6 +168,7 @@ export async function generateVideo(
 /**
  * Find all times when the visual state of the video changes
  * This includes: start of video, each word start, each word end, end of video
+ * Transitions closer together than one frame (or than the keyframe budget allows) are merged
  */
 function findTransitionTimes(wordLayouts: WordLayout[], audioDuration: number): number[] {
   const times = new Set<number>();
@@ -188,8 +191,24 @@ function findTransitionTimes(wordLayouts: WordLayout[], audioDuration: number):
   // Add end of audio
   times.add(audioDuration);
 
-  // Sort and return
-  return Array.from(times).sort((a, b) => a - b);
+  // Sort, then drop transitions too close to the previous keyframe
+  // The kept keyframe stays on screen until the next one, so video and audio stay in sync
+  const sorted = Array.from(times)
+    .filter(time => time <= audioDuration)
+    .sort((a, b) => a - b);
+  const minInterval = Math.max(MIN_KEYFRAME_INTERVAL, audioDuration / MAX_KEYFRAMES);
+
+  const kept: number[] = [];
+  sorted.forEach(time => {
+    if (kept.length === 0 || time - kept[kept.length - 1] >= minInterval) {
+      kept.push(time);
+    }
+  });
+  // The last keyframe must start before the end of the audio
+  if (kept.length > 1 && audioDuration - kept[kept.length - 1] < MIN_KEYFRAME_INTERVAL) {
+    kept.pop();
+  }
+  return kept;
 }
 
 /**
@@ -199,13 +218,16 @@ function prepareWordLayouts(
   words: VideoGeneratorInput['words'],
   ctx: NodeCanvasContext,
   canvasWidth: number,
+  textBottom: number,
   padding: number,
   lineHeight: number,
   fontSize: number
 ): WordLayout[] {
   const wordLayouts: WordLayout[] = [];
+  const textTop = padding + fontSize + 50; // Leave room for header
   let xPos = padding;
-  let yPos = padding + fontSize + 50; // Leave room for header
+  let yPos = textTop;
+  let screen = 0;
 
   ctx.font = `${fontSize}px Arial`;
 
@@ -213,10 +235,14 @@ function prepareWordLayouts(
     const word = item.expected;
     const wordWidth = ctx.measureText(word + ' ').width;
 
-    // Wrap to next line if needed
+    // Wrap to next line if needed, and to a new screen when the text area is full
     if (xPos + wordWidth > canvasWidth - padding) {
       xPos = padding;
       yPos += lineHeight;
+      if (yPos > textBottom) {
+        yPos = textTop;
+        screen++;
+      }
     }
 
     wordLayouts.push({
@@ -230,6 +256,7 @@ function prepareWordLayouts(
       hesitation: item.hesitation,
       pauseDuration: item.pauseDuration,
       isRepeat: item.isRepeat,
+      screen,
     });
 
     xPos += wordWidth;
@@ -265,8 +292,16 @@ function renderFrame(
   ctx.fillStyle = '#666666';
   ctx.fillText(`Student: ${studentName}  |  WPM: ${wpm}`, padding, 65);
 
-  // Draw each word with appropriate highlighting
+  // Show the screen holding the most recently started word
+  let currentScreen = 0;
   wordLayouts.forEach((layout) => {
+    if (layout.startTime !== undefined && layout.startTime <= currentTime && layout.endTime) {
+      currentScreen = layout.screen;
+    }
+  });
+
+  // Draw each word with appropriate highlighting
+  wordLayouts.filter(layout => layout.screen === currentScreen).forEach((layout) => {
     const { color, isCurrentWord } = getWordColor(layout, currentTime);
 
     ctx.font = `${fontSize}px Arial`;
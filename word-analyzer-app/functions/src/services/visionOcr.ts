@@ -1,7 +1,18 @@
-import { ImageAnnotatorClient } from '@google-cloud/vision';
-import { loadImage } from 'canvas';
+/**
+ * OCR
+ * Recognizes the words of passage photos with an OCR provider and cleans them up
+ * (punctuation, hyphenated compounds, em-dashes, line-break hyphens) the same way for
+ * every provider:
+ * 'google'    - Google Cloud Vision (default)
+ * 'tesseract' - Tesseract run on the server, so the photos never leave it
+ * An organization's choice (organizations/{orgId}.ocrProvider) applies to every classroom
+ * linked to it; otherwise the teacher's (teachers/{uid}.settings.ocrProvider), then OCR_PROVIDER
+ */
 
-const visionClient = new ImageAnnotatorClient();
+import * as admin from 'firebase-admin';
+import { loadImage } from 'canvas';
+import { googleVisionOcrProvider } from './googleVisionOcr';
+import { tesseractOcrProvider } from './tesseractOcr';
 
 export interface OcrWord {
   text: string;
@@ -11,6 +22,12 @@ export interface OcrWord {
     width: number;
     height: number;
   };
+  page?: number;  // Index of the image the word is on (multi-page captures)
+}
+
+export interface OcrPage {
+  imageWidth: number;
+  imageHeight: number;
 }
 
 export interface OcrResult {
@@ -18,6 +35,52 @@ export interface OcrResult {
   words: OcrWord[];
   imageWidth: number;
   imageHeight: number;
+  pages?: OcrPage[];
+}
+
+export const OCR_PROVIDER_NAMES = ['google', 'tesseract'] as const;
+export type OcrProviderName = typeof OCR_PROVIDER_NAMES[number];
+
+// Providers return the words as recognized; extractTextFromImage post-processes them
+export interface OcrProvider {
+  name: OcrProviderName;
+  recognize(imageBuffer: Buffer): Promise<OcrResult>;
+}
+
+const OCR_PROVIDERS: Record<OcrProviderName, OcrProvider> = {
+  google: googleVisionOcrProvider,
+  tesseract: tesseractOcrProvider,
+};
+
+export function isOcrProviderName(value: unknown): value is OcrProviderName {
+  return OCR_PROVIDER_NAMES.includes(value as OcrProviderName);
+}
+
+/**
+ * The OCR provider for a teacher's classroom: its organization's, the teacher's own,
+ * or the OCR_PROVIDER default ('google' only when none of them is set)
+ * An unknown provider is an error rather than a silent fallback to the cloud
+ */
+export async function getOcrProvider(
+  db: admin.firestore.Firestore,
+  teacherId: string
+): Promise<OcrProvider> {
+  const defaultName = process.env.OCR_PROVIDER || 'google';
+  if (!isOcrProviderName(defaultName)) {
+    throw new Error(`Unknown OCR provider: ${defaultName}`);
+  }
+
+  const teacherData = (await db.collection('teachers').doc(teacherId).get()).data();
+  const orgId: string | undefined = teacherData?.org?.orgId;
+  const orgProvider = orgId
+    ? (await db.collection('organizations').doc(orgId).get()).data()?.ocrProvider
+    : null;
+
+  const name: unknown = [orgProvider, teacherData?.settings?.ocrProvider].find(value => value != null) ?? defaultName;
+  if (!isOcrProviderName(name)) {
+    throw new Error(`Unknown OCR provider: ${name}`);
+  }
+  return OCR_PROVIDERS[name];
 }
 
 /**
@@ -312,8 +375,11 @@ function postProcessOcrWords(words: OcrWord[]): OcrWord[] {
   return result;
 }
 
-export async function extractTextFromImage(imageBuffer: Buffer): Promise<OcrResult> {
-  // Get actual image dimensions using canvas
+/**
+ * OCR one image with a provider, then clean up its words the same way whichever provider ran
+ * The decoded image size takes precedence over the provider's estimate
+ */
+export async function extractTextFromImage(imageBuffer: Buffer, provider: OcrProvider): Promise<OcrResult> {
   let imageWidth = 0;
   let imageHeight = 0;
 
@@ -326,57 +392,40 @@ export async function extractTextFromImage(imageBuffer: Buffer): Promise<OcrResu
     console.warn('Could not get image dimensions from buffer:', err);
   }
 
-  // Get text detection
-  const [textResult] = await visionClient.textDetection({
-    image: { content: imageBuffer },
-  });
-
-  const result = textResult;
-  const textAnnotations = result.textAnnotations || [];
-
-  // Fallback: if we couldn't get dimensions from image, use text bounding box
+  const result = await provider.recognize(imageBuffer);
   if (imageWidth === 0 || imageHeight === 0) {
-    if (textAnnotations.length > 0) {
-      const vertices = textAnnotations[0].boundingPoly?.vertices || [];
-      if (vertices.length >= 4) {
-        // Get max x and y from all vertices to approximate image size
-        imageWidth = Math.max(...vertices.map(v => v.x || 0));
-        imageHeight = Math.max(...vertices.map(v => v.y || 0));
-        console.log(`Fallback to text bounding box dimensions: ${imageWidth}x${imageHeight}`);
-      }
-    }
+    imageWidth = result.imageWidth;
+    imageHeight = result.imageHeight;
+    console.log(`Fallback to ${provider.name} OCR dimensions: ${imageWidth}x${imageHeight}`);
   }
 
-  if (textAnnotations.length === 0) {
-    return { fullText: '', words: [], imageWidth, imageHeight };
-  }
-
-  // First annotation is the full text
-  const fullText = textAnnotations[0].description || '';
-
-  // Remaining annotations are individual words
-  const words: OcrWord[] = [];
-
-  for (let i = 1; i < textAnnotations.length; i++) {
-    const annotation = textAnnotations[i];
-    const vertices = annotation.boundingPoly?.vertices || [];
-
-    if (vertices.length < 4) continue;
+  // Post-process words to fix em-dash merging and hyphenated line breaks
+  const processedWords = postProcessOcrWords(result.words);
+  console.log(`OCR post-processing: ${result.words.length} words → ${processedWords.length} words`);
 
-    const x = vertices[0].x || 0;
-    const y = vertices[0].y || 0;
-    const width = (vertices[1].x || 0) - x;
-    const height = (vertices[2].y || 0) - y;
+  return { fullText: result.fullText, words: processedWords, imageWidth, imageHeight };
+}
 
-    words.push({
-      text: annotation.description || '',
-      boundingBox: { x, y, width, height },
-    });
+/**
+ * OCR several images in reading order (e.g. the two pages of a spread)
+ * Words are concatenated with the index of the page they are on;
+ * imageWidth/imageHeight describe the first page
+ */
+export async function extractTextFromImages(imageBuffers: Buffer[], provider: OcrProvider): Promise<OcrResult> {
+  console.log(`Recognizing text with the ${provider.name} OCR provider`);
+  const results: OcrResult[] = [];
+  for (const imageBuffer of imageBuffers) {
+    results.push(await extractTextFromImage(imageBuffer, provider));
   }
 
-  // Post-process words to fix em-dash merging and hyphenated line breaks
-  const processedWords = postProcessOcrWords(words);
-  console.log(`OCR post-processing: ${words.length} words → ${processedWords.length} words`);
-
-  return { fullText, words: processedWords, imageWidth, imageHeight };
+  return {
+    fullText: results.map(result => result.fullText).filter(text => text.length > 0).join('\n'),
+    words: results.reduce<OcrWord[]>(
+      (words, result, page) => words.concat(result.words.map(word => ({ ...word, page }))),
+      []
+    ),
+    imageWidth: results[0]?.imageWidth || 0,
+    imageHeight: results[0]?.imageHeight || 0,
+    pages: results.map(result => ({ imageWidth: result.imageWidth, imageHeight: result.imageHeight })),
+  };
 }
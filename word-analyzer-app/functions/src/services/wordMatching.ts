@@ -11,6 +11,9 @@ import { WordTiming } from './speechToText';
 
 export type WordStatus = 'correct' | 'misread' | 'substituted' | 'skipped';
 
+// Statuses a teacher can assign to a word (self-corrected is a correct word flagged isSelfCorrection)
+export type WordOverrideStatus = WordStatus | 'self-corrected';
+
 // Bounding box for word position on the image
 export interface BoundingBox {
   x: number;
@@ -23,6 +26,7 @@ export interface BoundingBox {
 export interface OcrWordWithBox {
   text: string;
   boundingBox: BoundingBox;
+  page?: number;              // Image the word is on (multi-page captures)
 }
 
 export interface AlignedWord {
@@ -38,6 +42,9 @@ export interface AlignedWord {
   isSelfCorrection?: boolean; // True if student self-corrected (said wrong word, then fixed it)
   isFillerWord?: boolean;     // True if a filler word was detected near this position
   boundingBox?: BoundingBox;  // Position of word on the image
+  page?: number;              // Image the box refers to (multi-page captures)
+  isOverridden?: boolean;     // True if a teacher manually changed the scoring
+  originalStatus?: WordOverrideStatus; // Automated scoring before the teacher override
 }
 
 export interface MatchingResult {
@@ -100,7 +107,7 @@ function normalizeOcrConfusions(word: string): string {
  * - Remove punctuation
  * - Expand contractions
  */
-function normalizeWord(word: string): string {
+export function normalizeWord(word: string): string {
   let normalized = word.toLowerCase().replace(/[^a-z0-9']/g, '');
 
   // Expand contractions
@@ -154,7 +161,7 @@ function levenshteinDistance(s1: string, s2: string): number {
  * - Number equivalence (fifteen = 15)
  * - Phonetic equivalence (homophones)
  */
-function calculateWordSimilarity(word1: string, word2: string): number {
+export function calculateWordSimilarity(word1: string, word2: string): number {
   const w1 = normalizeWord(word1);
   const w2 = normalizeWord(word2);
 
@@ -631,6 +638,7 @@ export function matchWords(
         isRepeat,
         isSelfCorrection,
         boundingBox: expectedWords[pi].boundingBox,
+        ...(expectedWords[pi].page !== undefined && { page: expectedWords[pi].page }),
       });
       i = pi;
       j = pj;
@@ -646,6 +654,7 @@ export function matchWords(
         pauseDuration: 0,
         isRepeat: false,
         boundingBox: expectedWords[pi].boundingBox,
+        ...(expectedWords[pi].page !== undefined && { page: expectedWords[pi].page }),
       });
       i = pi;
     } else if (status === 'extra') {
@@ -656,6 +665,14 @@ export function matchWords(
     }
   }
 
+  return summarizeAlignment(alignment, fillerWordCount);
+}
+
+/**
+ * Count statuses and fluency flags across an aligned word list
+ * Filler words are not part of the alignment, so their count is passed in
+ */
+export function summarizeAlignment(alignment: AlignedWord[], fillerWordCount: number): MatchingResult {
   // Count results
   let correctCount = 0;
   let skipCount = 0;
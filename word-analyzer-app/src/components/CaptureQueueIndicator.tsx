@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  subscribeToCaptureQueue,
+  retryCaptureQueue,
+  discardFailedCaptures,
+  CaptureQueueStatus,
+} from '../services/captureQueue';
+
+interface Props {
+  disabled?: boolean;   // Show the count only (kiosk mode - students can't discard recordings)
+}
+
+/**
+ * Header badge for readings waiting to upload; hidden while the queue is empty
+ */
+export default function CaptureQueueIndicator({ disabled = false }: Props) {
+  const [queue, setQueue] = useState<CaptureQueueStatus>({ captures: [], isSyncing: false });
+
+  useEffect(() => subscribeToCaptureQueue(setQueue), []);
+
+  if (queue.captures.length === 0) return null;
+
+  const failedCount = queue.captures.filter(capture => capture.status === 'failed').length;
+  const count = queue.captures.length;
+  const lastError = queue.captures.find(capture => capture.lastError)?.lastError;
+
+  const handlePress = () => {
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [
+      { text: 'Close', style: 'cancel' },
+      { text: 'Retry Now', onPress: () => retryCaptureQueue() },
+    ];
+    if (failedCount > 0) {
+      buttons.push({
+        text: 'Discard Failed',
+        style: 'destructive',
+        onPress: () => {
+          Alert.alert(
+            'Discard Recordings',
+            `Delete ${failedCount} recording${failedCount === 1 ? '' : 's'} that could not be uploaded? This cannot be undone.`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Discard', style: 'destructive', onPress: discardFailedCaptures },
+            ]
+          );
+        },
+      });
+    }
+
+    Alert.alert(
+      'Waiting to Upload',
+      `${count} recording${count === 1 ? ' is' : 's are'} saved on this device and will upload automatically when the connection returns.` +
+        (failedCount > 0 ? `\n\n${failedCount} stopped retrying and need${failedCount === 1 ? 's' : ''} a manual retry.` : '') +
+        (lastError ? `\n\nLast error: ${lastError}` : ''),
+      buttons
+    );
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.badge, failedCount > 0 && styles.badgeFailed]}
+      onPress={handlePress}
+      disabled={disabled}
+    >
+      {queue.isSyncing ? (
+        <ActivityIndicator size="small" color="#DD6B20" />
+      ) : (
+        <MaterialIcons
+          name={failedCount > 0 ? 'cloud-off' : 'cloud-queue'}
+          size={18}
+          color={failedCount > 0 ? '#E53E3E' : '#DD6B20'}
+        />
+      )}
+      <Text style={[styles.badgeText, failedCount > 0 && styles.badgeTextFailed]}>
+        {queue.isSyncing ? `Uploading ${count}` : `${count} waiting to upload`}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFFAF0',
+    borderWidth: 1,
+    borderColor: '#DD6B20',
+  },
+  badgeFailed: {
+    backgroundColor: '#FFF5F5',
+    borderColor: '#E53E3E',
+  },
+  badgeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#DD6B20',
+  },
+  badgeTextFailed: {
+    color: '#E53E3E',
+  },
+});
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+
+const MIN_PIN_LENGTH = 4;
+
+interface Props {
+  visible: boolean;
+  mode: 'set' | 'change' | 'verify';  // Choose a PIN (to start the kiosk, or a new one), or enter the existing one
+  onSubmit: (pin: string) => Promise<string | null>;  // Resolves to an error message, or null on success
+  onClose: () => void;
+  onForgotPin?: () => void;   // Offered when entering the existing PIN
+}
+
+const TITLES = { set: 'Set Teacher PIN', change: 'Change Teacher PIN', verify: 'Teacher PIN' };
+const SUBTITLES = {
+  set: 'Students will need this PIN to leave kiosk mode',
+  change: 'Students will need the new PIN to leave kiosk mode',
+  verify: 'Enter your PIN to leave kiosk mode',
+};
+const SUBMIT_LABELS = { set: 'Start Kiosk', change: 'Save PIN', verify: 'Unlock' };
+
+/**
+ * Teacher PIN entry for starting (first time) and exiting kiosk mode, and changing the PIN
+ */
+export default function KioskPinModal({ visible, mode, onSubmit, onClose, onForgotPin }: Props) {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setPin('');
+    setConfirmPin('');
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (pin.length < MIN_PIN_LENGTH) {
+      setError(`The PIN needs at least ${MIN_PIN_LENGTH} digits`);
+      return;
+    }
+    if (mode !== 'verify' && pin !== confirmPin) {
+      setError('The PINs do not match');
+      return;
+    }
+
+    setSubmitting(true);
+    const submitError = await onSubmit(pin);
+    setSubmitting(false);
+
+    if (submitError) {
+      setError(submitError);
+      setPin('');
+      setConfirmPin('');
+    } else {
+      handleClose();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>{TITLES[mode]}</Text>
+          <Text style={styles.modalSubtitle}>{SUBTITLES[mode]}</Text>
+
+          <TextInput
+            style={styles.input}
+            value={pin}
+            onChangeText={(text) => {
+              setPin(text.replace(/\D/g, ''));
+              setError(null);
+            }}
+            placeholder="PIN"
+            keyboardType="number-pad"
+            secureTextEntry={true}
+            maxLength={8}
+            autoFocus={true}
+            onSubmitEditing={mode === 'verify' ? handleSubmit : undefined}
+          />
+
+          {mode !== 'verify' && (
+            <TextInput
+              style={styles.input}
+              value={confirmPin}
+              onChangeText={(text) => {
+                setConfirmPin(text.replace(/\D/g, ''));
+                setError(null);
+              }}
+              placeholder="Confirm PIN"
+              keyboardType="number-pad"
+              secureTextEntry={true}
+              maxLength={8}
+              onSubmitEditing={handleSubmit}
+            />
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {mode === 'verify' && onForgotPin && (
+            <TouchableOpacity style={styles.forgotButton} onPress={onForgotPin}>
+              <Text style={styles.forgotButtonText}>Forgot PIN?</Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.confirmButton, !pin && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={!pin || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.confirmButtonText}>{SUBMIT_LABELS[mode]}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: 320,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+    textAlign: 'center',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 20,
+    letterSpacing: 8,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#E53E3E',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  forgotButton: {
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  forgotButtonText: {
+    fontSize: 14,
+    color: '#4299E1',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#718096',
+  },
+  confirmButton: {
+    backgroundColor: '#4299E1',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
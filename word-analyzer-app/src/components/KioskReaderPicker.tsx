@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Student } from '../types';
+import { getStudents, hasParentalConsent, canEditStudent } from '../services/studentService';
+
+interface Props {
+  teacherId: string;
+  onSelectReader: (student: Student) => void;
+}
+
+/**
+ * Kiosk roster: each reader taps their own name before reading
+ * Only names are shown (no scores or history), and only students who may be recorded
+ */
+export default function KioskReaderPicker({ teacherId, onSelectReader }: Props) {
+  const [readers, setReaders] = useState<Student[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!teacherId) return;
+
+    getStudents(teacherId)
+      .then(students => setReaders(students
+        .filter(student => hasParentalConsent(student) && canEditStudent(student))
+        .sort((a, b) => a.name.localeCompare(b.name))))
+      .catch(error => console.error('Failed to load kiosk roster:', error))
+      .finally(() => setLoading(false));
+  }, [teacherId]);
+
+  if (loading) {
+    return <ActivityIndicator size="small" color="#4299E1" />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.prompt}>Tap your name</Text>
+      {readers.length === 0 ? (
+        <Text style={styles.emptyText}>Ask your teacher to add you to the class</Text>
+      ) : (
+        <ScrollView horizontal={true} contentContainerStyle={styles.nameRow}>
+          {readers.map(student => (
+            <TouchableOpacity
+              key={`${student.teacherId}-${student.id}`}
+              style={styles.nameButton}
+              onPress={() => onSelectReader(student)}
+            >
+              <Text style={styles.nameText}>{student.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexShrink: 1,
+    gap: 8,
+  },
+  prompt: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#A0AEC0',
+  },
+  nameRow: {
+    gap: 8,
+  },
+  nameButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#4299E1',
+    backgroundColor: '#EBF8FF',
+  },
+  nameText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#2D3748',
+  },
+});
@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { OrgInvite, OrgMembership } from '../types';
+import { getTeacherSettings, updateTeacherSettings } from '../services/teacherService';
+import {
+  getMemberships,
+  getOrgInvites,
+  acceptInvite,
+  declineInvite,
+  leaveOrganization,
+  createOrganization,
+  ORG_ROLE_LABELS,
+} from '../services/organizationService';
+
+interface Props {
+  teacherId: string;
+  activeMembership: OrgMembership | null;
+  onChangeMembership: (membership: OrgMembership | null) => void;
+}
+
+/**
+ * Switches between the teacher's own classroom and the organizations they belong to
+ * The choice is saved in the teacher's settings (activeOrgId)
+ * Invitations are answered and organizations left from here
+ */
+export default function OrganizationSwitcher({ teacherId, activeMembership, onChangeMembership }: Props) {
+  const [memberships, setMemberships] = useState<OrgMembership[]>([]);
+  const [invites, setInvites] = useState<OrgInvite[]>([]);
+  const [answering, setAnswering] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [newOrgName, setNewOrgName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadMemberships = async (activeOrgId: string | null) => {
+    const [list, pending] = await Promise.all([getMemberships(teacherId), getOrgInvites(teacherId)]);
+    setMemberships(list);
+    setInvites(pending);
+    onChangeMembership(list.find(m => m.organization.id === activeOrgId) || null);
+  };
+
+  useEffect(() => {
+    if (!teacherId) return;
+
+    getTeacherSettings(teacherId)
+      .then(settings => loadMemberships(settings.activeOrgId))
+      .catch(error => console.error('Failed to load organizations:', error));
+  }, [teacherId]);
+
+  const handleSelect = async (membership: OrgMembership | null) => {
+    setOpen(false);
+    onChangeMembership(membership);
+    try {
+      await updateTeacherSettings(teacherId, { activeOrgId: membership?.organization.id ?? null });
+    } catch (error) {
+      console.error('Failed to save organization choice:', error);
+    }
+  };
+
+  const handleAnswerInvite = async (invite: OrgInvite, accept: boolean) => {
+    setAnswering(true);
+    try {
+      if (accept) {
+        const classroomLinked = await acceptInvite(invite.orgId);
+        if (!classroomLinked) {
+          Alert.alert(
+            'Classroom Not Shared',
+            'Your classroom already belongs to another organization, so its staff keep access instead.'
+          );
+        }
+      } else {
+        await declineInvite(invite.orgId);
+      }
+      await loadMemberships(activeMembership?.organization.id ?? null);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to answer invitation');
+    } finally {
+      setAnswering(false);
+    }
+  };
+
+  const handleLeave = (membership: OrgMembership) => {
+    Alert.alert(
+      'Leave Organization',
+      `Leave ${membership.organization.name}? Your classes there are removed and its staff lose access to your classroom.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await leaveOrganization(membership.organization.id);
+              const isActive = activeMembership?.organization.id === membership.organization.id;
+              if (isActive) {
+                await updateTeacherSettings(teacherId, { activeOrgId: null });
+              }
+              await loadMemberships(isActive ? null : activeMembership?.organization.id ?? null);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to leave organization');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCreate = async () => {
+    const name = newOrgName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    try {
+      const orgId = await createOrganization(name);
+      await updateTeacherSettings(teacherId, { activeOrgId: orgId });
+      await loadMemberships(orgId);
+      setNewOrgName('');
+      setOpen(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to create organization');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <View>
+      <TouchableOpacity style={styles.switcher} onPress={() => setOpen(true)}>
+        <MaterialIcons
+          name={activeMembership ? 'apartment' : 'person'}
+          size={20}
+          color="#718096"
+        />
+        <Text style={styles.switcherText} numberOfLines={1}>
+          {activeMembership ? activeMembership.organization.name : 'My Classroom'}
+        </Text>
+        {invites.length > 0 && <View style={styles.inviteDot} />}
+        <MaterialIcons name="arrow-drop-down" size={20} color="#718096" />
+      </TouchableOpacity>
+
+      <Modal
+        visible={open}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setOpen(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setOpen(false)}
+        >
+          <View style={styles.dropdownContainer}>
+            <FlatList
+              data={memberships}
+              keyExtractor={(item) => item.organization.id}
+              ListHeaderComponent={
+                <>
+                  {invites.map(invite => (
+                    <View key={invite.orgId} style={[styles.dropdownItem, styles.inviteItem]}>
+                      <Text style={styles.dropdownItemText}>{invite.orgName}</Text>
+                      <Text style={styles.dropdownItemRole}>
+                        Invited as {ORG_ROLE_LABELS[invite.role]} - its staff will be able to see your classroom
+                      </Text>
+                      <View style={styles.inviteButtons}>
+                        <TouchableOpacity
+                          style={[styles.inviteButton, styles.acceptButton, answering && styles.buttonDisabled]}
+                          onPress={() => handleAnswerInvite(invite, true)}
+                          disabled={answering}
+                        >
+                          <Text style={styles.inviteButtonText}>Accept</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.inviteButton, answering && styles.buttonDisabled]}
+                          onPress={() => handleAnswerInvite(invite, false)}
+                          disabled={answering}
+                        >
+                          <Text style={[styles.inviteButtonText, styles.declineButtonText]}>Decline</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  ))}
+                  <TouchableOpacity
+                    style={[styles.dropdownItem, !activeMembership && styles.dropdownItemSelected]}
+                    onPress={() => handleSelect(null)}
+                  >
+                    <Text style={styles.dropdownItemText}>My Classroom</Text>
+                    <Text style={styles.dropdownItemRole}>Only your own students</Text>
+                  </TouchableOpacity>
+                </>
+              }
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={[
+                    styles.dropdownItem,
+                    styles.membershipItem,
+                    activeMembership?.organization.id === item.organization.id && styles.dropdownItemSelected,
+                  ]}
+                  onPress={() => handleSelect(item)}
+                >
+                  <View style={styles.membershipInfo}>
+                    <Text style={styles.dropdownItemText}>{item.organization.name}</Text>
+                    <Text style={styles.dropdownItemRole}>{ORG_ROLE_LABELS[item.member.role]}</Text>
+                  </View>
+                  <TouchableOpacity style={styles.leaveButton} onPress={() => handleLeave(item)}>
+                    <MaterialIcons name="logout" size={20} color="#A0AEC0" />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              )}
+              ListFooterComponent={
+                <View style={styles.createRow}>
+                  <TextInput
+                    style={styles.input}
+                    value={newOrgName}
+                    onChangeText={setNewOrgName}
+                    placeholder="New school or district"
+                  />
+                  <TouchableOpacity
+                    style={[styles.createButton, !newOrgName.trim() && styles.buttonDisabled]}
+                    onPress={handleCreate}
+                    disabled={!newOrgName.trim() || creating}
+                  >
+                    {creating ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <MaterialIcons name="add" size={20} color="#FFFFFF" />
+                    )}
+                  </TouchableOpacity>
+                </View>
+              }
+            />
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  switcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: 240,
+  },
+  switcherText: {
+    fontSize: 14,
+    color: '#718096',
+    flexShrink: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dropdownContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    width: 320,
+    maxHeight: 420,
+    overflow: 'hidden',
+  },
+  dropdownItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  dropdownItemSelected: {
+    backgroundColor: '#EBF8FF',
+  },
+  inviteDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#4299E1',
+  },
+  inviteItem: {
+    backgroundColor: '#F7FAFC',
+  },
+  inviteButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  inviteButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  acceptButton: {
+    backgroundColor: '#4299E1',
+    borderColor: '#4299E1',
+  },
+  inviteButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+  declineButtonText: {
+    color: '#4A5568',
+  },
+  membershipItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  membershipInfo: {
+    flex: 1,
+  },
+  leaveButton: {
+    padding: 4,
+  },
+  dropdownItemText: {
+    fontSize: 16,
+    color: '#2D3748',
+  },
+  dropdownItemRole: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 2,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  createButton: {
+    backgroundColor: '#4299E1',
+    borderRadius: 8,
+    padding: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
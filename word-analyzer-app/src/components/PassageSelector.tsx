@@ -0,0 +1,488 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  TextInput,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Passage } from '../types';
+import {
+  getPassages,
+  addPassage,
+  updatePassage,
+  deletePassage,
+  countPassageWords,
+} from '../services/passageService';
+
+interface Props {
+  teacherId: string;
+  selectedPassage: Passage | null;
+  onSelectPassage: (passage: Passage | null) => void;
+}
+
+export default function PassageSelector({ teacherId, selectedPassage, onSelectPassage }: Props) {
+  const [passages, setPassages] = useState<Passage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dropdownOpen, setDropdownOpen] = useState(false);
+  const [editModalOpen, setEditModalOpen] = useState(false);
+  const [editingPassage, setEditingPassage] = useState<Passage | null>(null);
+  const [title, setTitle] = useState('');
+  const [gradeLevel, setGradeLevel] = useState('');
+  const [lexile, setLexile] = useState('');
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (teacherId) {
+      loadPassages();
+    }
+  }, [teacherId]);
+
+  const loadPassages = async () => {
+    setLoading(true);
+    try {
+      const data = await getPassages(teacherId);
+      setPassages(data);
+    } catch (error) {
+      console.error('Failed to load passages:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (passage: Passage | null) => {
+    setEditingPassage(passage);
+    setTitle(passage?.title || '');
+    setGradeLevel(passage?.gradeLevel || '');
+    setLexile(passage?.lexile !== undefined ? String(passage.lexile) : '');
+    setText(passage?.text || '');
+    setDropdownOpen(false);
+    setEditModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!title.trim() || !text.trim()) return;
+
+    const lexileValue = parseInt(lexile, 10);
+    const input = {
+      title,
+      gradeLevel,
+      lexile: isFinite(lexileValue) ? lexileValue : null,
+      text,
+    };
+
+    setSaving(true);
+    try {
+      if (editingPassage) {
+        await updatePassage(teacherId, editingPassage.id, input);
+        await loadPassages();
+        if (selectedPassage?.id === editingPassage.id) {
+          onSelectPassage({
+            ...editingPassage,
+            title: title.trim(),
+            gradeLevel: gradeLevel.trim() || undefined,
+            lexile: input.lexile ?? undefined,
+            text: text.trim(),
+            wordCount: countPassageWords(text),
+          });
+        }
+      } else {
+        const passage = await addPassage(teacherId, input);
+        setPassages(prev => [...prev, passage].sort((a, b) => a.title.localeCompare(b.title)));
+        onSelectPassage(passage);
+      }
+      setEditModalOpen(false);
+    } catch (error: any) {
+      console.error('Failed to save passage:', error);
+      Alert.alert('Error', error?.message || 'Failed to save passage. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (passage: Passage) => {
+    Alert.alert(
+      'Delete Passage',
+      `Remove "${passage.title}" from your library? Past assessments are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePassage(teacherId, passage.id);
+              setPassages(prev => prev.filter(p => p.id !== passage.id));
+              if (selectedPassage?.id === passage.id) {
+                onSelectPassage(null);
+              }
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to delete passage');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSelectPassage = (passage: Passage | null) => {
+    onSelectPassage(passage);
+    setDropdownOpen(false);
+  };
+
+  const formatDetails = (passage: Passage) =>
+    [
+      passage.gradeLevel ? `Grade ${passage.gradeLevel}` : null,
+      passage.lexile !== undefined ? `${passage.lexile}L` : null,
+      `${passage.wordCount} words`,
+    ].filter(Boolean).join(' · ');
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="small" color="#4299E1" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Passage</Text>
+
+      <TouchableOpacity
+        style={styles.selector}
+        onPress={() => setDropdownOpen(true)}
+      >
+        <Text style={selectedPassage ? styles.selectedText : styles.placeholderText} numberOfLines={1}>
+          {selectedPassage ? selectedPassage.title : 'Scan from image'}
+        </Text>
+        <MaterialIcons name="arrow-drop-down" size={24} color="#718096" />
+      </TouchableOpacity>
+
+      {/* Dropdown Modal */}
+      <Modal
+        visible={dropdownOpen}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setDropdownOpen(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setDropdownOpen(false)}
+        >
+          <View style={styles.dropdownContainer}>
+            <FlatList
+              data={passages}
+              keyExtractor={(item) => item.id}
+              ListHeaderComponent={
+                <TouchableOpacity
+                  style={[styles.dropdownItem, !selectedPassage && styles.dropdownItemSelected]}
+                  onPress={() => handleSelectPassage(null)}
+                >
+                  <Text style={styles.dropdownItemText}>Scan from image</Text>
+                  <Text style={styles.dropdownItemDetails}>Read the passage text from the photo</Text>
+                </TouchableOpacity>
+              }
+              renderItem={({ item }) => (
+                <View
+                  style={[
+                    styles.dropdownRow,
+                    selectedPassage?.id === item.id && styles.dropdownItemSelected,
+                  ]}
+                >
+                  <TouchableOpacity
+                    style={styles.dropdownRowContent}
+                    onPress={() => handleSelectPassage(item)}
+                  >
+                    <Text style={styles.dropdownItemText}>{item.title}</Text>
+                    <Text style={styles.dropdownItemDetails}>{formatDetails(item)}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.rowAction} onPress={() => openEditor(item)}>
+                    <MaterialIcons name="edit" size={20} color="#718096" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.rowAction} onPress={() => handleDelete(item)}>
+                    <MaterialIcons name="delete-outline" size={20} color="#E53E3E" />
+                  </TouchableOpacity>
+                </View>
+              )}
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>No passages in your library yet</Text>
+              }
+              ListFooterComponent={
+                <TouchableOpacity
+                  style={styles.addButton}
+                  onPress={() => openEditor(null)}
+                >
+                  <MaterialIcons name="add" size={20} color="#4299E1" />
+                  <Text style={styles.addButtonText}>Add New Passage</Text>
+                </TouchableOpacity>
+              }
+            />
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      {/* Add/Edit Passage Modal */}
+      <Modal
+        visible={editModalOpen}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setEditModalOpen(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.editModalContainer}>
+            <Text style={styles.editModalTitle}>
+              {editingPassage ? 'Edit Passage' : 'Add New Passage'}
+            </Text>
+
+            <Text style={styles.inputLabel}>Title *</Text>
+            <TextInput
+              style={styles.input}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="e.g., The Lost Kitten"
+              autoFocus={!editingPassage}
+            />
+
+            <View style={styles.inputRow}>
+              <View style={styles.inputColumn}>
+                <Text style={styles.inputLabel}>Grade level</Text>
+                <TextInput
+                  style={styles.input}
+                  value={gradeLevel}
+                  onChangeText={setGradeLevel}
+                  placeholder="e.g., 3"
+                />
+              </View>
+              <View style={styles.inputColumn}>
+                <Text style={styles.inputLabel}>Lexile</Text>
+                <TextInput
+                  style={styles.input}
+                  value={lexile}
+                  onChangeText={setLexile}
+                  placeholder="e.g., 650"
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+
+            <Text style={styles.inputLabel}>Passage text *</Text>
+            <TextInput
+              style={[styles.input, styles.textInput]}
+              value={text}
+              onChangeText={setText}
+              placeholder="Type or paste the exact passage text"
+              multiline
+            />
+            <Text style={styles.wordCount}>{countPassageWords(text)} words</Text>
+
+            <View style={styles.editModalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setEditModalOpen(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.confirmButton, (!title.trim() || !text.trim()) && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={!title.trim() || !text.trim() || saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.confirmButtonText}>
+                    {editingPassage ? 'Save Passage' : 'Add Passage'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4A5568',
+    marginBottom: 8,
+  },
+  selector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minWidth: 250,
+    maxWidth: 400,
+  },
+  placeholderText: {
+    fontSize: 16,
+    color: '#A0AEC0',
+  },
+  selectedText: {
+    flexShrink: 1,
+    fontSize: 16,
+    color: '#2D3748',
+    fontWeight: '500',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dropdownContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    width: 380,
+    maxHeight: 480,
+    overflow: 'hidden',
+  },
+  dropdownItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  dropdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  dropdownRowContent: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  rowAction: {
+    padding: 12,
+  },
+  dropdownItemSelected: {
+    backgroundColor: '#EBF8FF',
+  },
+  dropdownItemText: {
+    fontSize: 16,
+    color: '#2D3748',
+  },
+  dropdownItemDetails: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 2,
+  },
+  emptyText: {
+    padding: 16,
+    textAlign: 'center',
+    color: '#718096',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+    gap: 8,
+  },
+  addButtonText: {
+    fontSize: 16,
+    color: '#4299E1',
+    fontWeight: '500',
+  },
+  editModalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: 480,
+    maxWidth: '90%',
+  },
+  editModalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4A5568',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  textInput: {
+    height: 180,
+    textAlignVertical: 'top',
+    marginBottom: 4,
+  },
+  wordCount: {
+    fontSize: 12,
+    color: '#718096',
+    textAlign: 'right',
+    marginBottom: 16,
+  },
+  editModalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#718096',
+  },
+  confirmButton: {
+    backgroundColor: '#4299E1',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
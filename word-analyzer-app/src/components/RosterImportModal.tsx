@@ -0,0 +1,404 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  FlatList,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Student, RosterAction } from '../types';
+import { parseRoster, planRosterImport, RosterFile } from '../services/rosterImport';
+import { importRoster } from '../services/studentService';
+
+const ACTION_STYLES: Record<RosterAction, { label: string; color: string }> = {
+  create: { label: 'New', color: '#48BB78' },
+  update: { label: 'Update', color: '#4299E1' },
+  unchanged: { label: 'Unchanged', color: '#A0AEC0' },
+  conflict: { label: 'Conflict', color: '#E53E3E' },
+};
+
+interface Props {
+  teacherId: string;
+  visible: boolean;
+  students: Student[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function RosterImportModal({ teacherId, visible, students, onClose, onImported }: Props) {
+  const [files, setFiles] = useState<RosterFile[]>([]);
+  const [classId, setClassId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const preview = useMemo(() => {
+    if (files.length === 0 || !files.some(file => file.text.trim())) return null;
+    try {
+      const roster = parseRoster(files, classId);
+      return { roster, items: planRosterImport(roster.entries, students), error: null };
+    } catch (error: any) {
+      return { roster: null, items: [], error: error.message as string };
+    }
+  }, [files, classId, students]);
+
+  const countOf = (action: RosterAction) =>
+    preview ? preview.items.filter(item => item.action === action).length : 0;
+  const writeCount = countOf('create') + countOf('update');
+
+  // New students start without consent, and recording stays disabled until it is granted
+  const pendingConsentCount = preview
+    ? preview.items.filter(item => {
+      if (item.action === 'create') return true;
+      if (item.action === 'conflict' || !item.studentId) return false;
+      return students.find(student => student.id === item.studentId)?.consent?.status !== 'granted';
+    }).length
+    : 0;
+  const pendingConsentNotice = `${pendingConsentCount} student${pendingConsentCount === 1 ? '' : 's'} ` +
+    'need parental consent before their readings can be recorded.';
+  // Pasted text has no file name
+  const chosenFromDisk = files.length > 0 && !!files[0].name;
+
+  const handleClose = () => {
+    setFiles([]);
+    setClassId(null);
+    onClose();
+  };
+
+  const handleChooseFiles = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,text/csv';
+    input.multiple = true;
+    input.onchange = async () => {
+      const chosen = Array.from(input.files || []);
+      if (chosen.length === 0) return;
+      setFiles(await Promise.all(chosen.map(async file => ({ name: file.name, text: await file.text() }))));
+      setClassId(null);
+    };
+    input.click();
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importRoster(teacherId, preview.items);
+      Alert.alert(
+        'Roster Imported',
+        `${result.created} student${result.created === 1 ? '' : 's'} added, ${result.updated} updated` +
+          (countOf('conflict') > 0 ? `. ${countOf('conflict')} conflicts were skipped.` : '.') +
+          (pendingConsentCount > 0 ? `\n\n${pendingConsentNotice} Tap a student's consent badge to record it.` : '')
+      );
+      onImported();
+      handleClose();
+    } catch (error: any) {
+      console.error('Roster import failed:', error);
+      Alert.alert('Error', error.message || 'Failed to import roster');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Import Roster</Text>
+          <Text style={styles.subtitle}>
+            A CSV with name, grade and student id columns, or users.csv and enrollments.csv from a OneRoster export
+          </Text>
+
+          {Platform.OS === 'web' && (
+            <TouchableOpacity style={styles.fileButton} onPress={handleChooseFiles}>
+              <MaterialIcons name="upload-file" size={20} color="#4299E1" />
+              <Text style={styles.fileButtonText}>
+                {chosenFromDisk ? files.map(file => file.name).join(', ') : 'Choose Files'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {!chosenFromDisk && (
+            <TextInput
+              style={styles.csvInput}
+              value={files.length === 1 ? files[0].text : ''}
+              onChangeText={(text) => {
+                setFiles([{ name: '', text }]);
+                setClassId(null);
+              }}
+              placeholder={'Or paste the CSV here\nname,grade,student id'}
+              placeholderTextColor="#A0AEC0"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+
+          {preview?.error && <Text style={styles.errorText}>{preview.error}</Text>}
+
+          {preview?.roster && (
+            <>
+              {preview.roster.classIds.length > 1 && (
+                <View style={styles.chipRow}>
+                  {[null, ...preview.roster.classIds].map(id => (
+                    <TouchableOpacity
+                      key={id || 'all'}
+                      style={[styles.chip, classId === id && styles.chipSelected]}
+                      onPress={() => setClassId(id)}
+                    >
+                      <Text style={styles.chipText}>{id ? `Class ${id}` : 'All classes'}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              <View style={styles.summaryRow}>
+                {(Object.keys(ACTION_STYLES) as RosterAction[]).map(action => (
+                  <Text key={action} style={[styles.summaryText, { color: ACTION_STYLES[action].color }]}>
+                    {countOf(action)} {ACTION_STYLES[action].label.toLowerCase()}
+                  </Text>
+                ))}
+              </View>
+
+              {pendingConsentCount > 0 && (
+                <View style={styles.consentNotice}>
+                  <MaterialIcons name="pending" size={18} color="#DD6B20" />
+                  <Text style={styles.consentNoticeText}>{pendingConsentNotice}</Text>
+                </View>
+              )}
+
+              <FlatList
+                style={styles.previewList}
+                data={preview.items}
+                keyExtractor={(item) => String(item.entry.line)}
+                renderItem={({ item }) => (
+                  <View style={styles.previewItem}>
+                    <View style={[styles.actionBadge, { backgroundColor: ACTION_STYLES[item.action].color }]}>
+                      <Text style={styles.actionBadgeText}>{ACTION_STYLES[item.action].label}</Text>
+                    </View>
+                    <View style={styles.previewInfo}>
+                      <Text style={styles.previewName}>
+                        {item.entry.name || `Line ${item.entry.line}`}
+                        {item.entry.grade ? `  ·  Grade ${item.entry.grade}` : ''}
+                      </Text>
+                      {item.reason && <Text style={styles.previewReason}>{item.reason}</Text>}
+                    </View>
+                  </View>
+                )}
+                ListEmptyComponent={<Text style={styles.emptyText}>No students found in the file</Text>}
+              />
+            </>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.importButton, (writeCount === 0 || isImporting) && styles.importButtonDisabled]}
+              onPress={handleImport}
+              disabled={writeCount === 0 || isImporting}
+            >
+              {isImporting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.importButtonText}>Import {writeCount > 0 ? writeCount : ''}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: 520,
+    maxWidth: '90%',
+    maxHeight: '90%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#4299E1',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  fileButtonText: {
+    fontSize: 16,
+    color: '#4299E1',
+  },
+  consentNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFAF0',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  consentNoticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#DD6B20',
+  },
+  csvInput: {
+    height: 160,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#2D3748',
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#E53E3E',
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    borderColor: '#4299E1',
+    backgroundColor: '#EBF8FF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#2D3748',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  previewList: {
+    maxHeight: 320,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+  },
+  previewItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  actionBadge: {
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    minWidth: 76,
+    alignItems: 'center',
+  },
+  actionBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewName: {
+    fontSize: 15,
+    color: '#2D3748',
+  },
+  previewReason: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 2,
+  },
+  emptyText: {
+    padding: 16,
+    fontSize: 14,
+    color: '#A0AEC0',
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#718096',
+  },
+  importButton: {
+    backgroundColor: '#4299E1',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  importButtonDisabled: {
+    backgroundColor: '#A0AEC0',
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
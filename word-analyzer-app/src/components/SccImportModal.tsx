@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+
+interface Props {
+  teacherId: string;
+  visible: boolean;
+  onClose: () => void;
+  onImported?: (result: SccImportResult) => void;
+}
+
+export interface SccImportResult {
+  studentId: string;
+  studentName: string;
+  createdStudent: boolean;
+  imported: number;
+  skipped: number;
+}
+
+export default function SccImportModal({ teacherId, visible, onClose, onImported }: Props) {
+  const [jsonText, setJsonText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleClose = () => {
+    setJsonText('');
+    setFileName(null);
+    onClose();
+  };
+
+  const handleChooseFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      setJsonText(await file.text());
+      setFileName(file.name);
+    };
+    input.click();
+  };
+
+  const handleImport = async () => {
+    let dataset: unknown;
+    try {
+      dataset = JSON.parse(jsonText);
+    } catch {
+      Alert.alert('Error', 'The file is not valid JSON');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const functions = getFunctions();
+      const importSccDataset = httpsCallable(functions, 'importSccDataset');
+      const result = await importSccDataset({ teacherId, dataset });
+      const data = result.data as SccImportResult;
+
+      Alert.alert(
+        'Import Complete',
+        `Imported ${data.imported} assessment${data.imported === 1 ? '' : 's'} for ${data.studentName}` +
+          (data.skipped > 0 ? ` (${data.skipped} already imported)` : '') +
+          (data.createdStudent ? '. A new student was added.' : '.')
+      );
+      onImported?.(data);
+      handleClose();
+    } catch (error: any) {
+      console.error('Chart data import failed:', error);
+      Alert.alert('Error', error.message || 'Failed to import chart data');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Import Chart Data</Text>
+          <Text style={styles.subtitle}>
+            Student data exported from Word Analyzer or the celeration chart dashboard (.json)
+          </Text>
+
+          {Platform.OS === 'web' && (
+            <TouchableOpacity style={styles.fileButton} onPress={handleChooseFile}>
+              <MaterialIcons name="upload-file" size={20} color="#4299E1" />
+              <Text style={styles.fileButtonText}>{fileName || 'Choose File'}</Text>
+            </TouchableOpacity>
+          )}
+
+          <TextInput
+            style={styles.jsonInput}
+            value={jsonText}
+            onChangeText={(text) => {
+              setJsonText(text);
+              setFileName(null);
+            }}
+            placeholder="Or paste the JSON here"
+            placeholderTextColor="#A0AEC0"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.importButton, (!jsonText.trim() || isImporting) && styles.importButtonDisabled]}
+              onPress={handleImport}
+              disabled={!jsonText.trim() || isImporting}
+            >
+              {isImporting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.importButtonText}>Import</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: 480,
+    maxWidth: '90%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: '#4299E1',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  fileButtonText: {
+    fontSize: 16,
+    color: '#4299E1',
+  },
+  jsonInput: {
+    height: 160,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#2D3748',
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#718096',
+  },
+  importButton: {
+    backgroundColor: '#4299E1',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  importButtonDisabled: {
+    backgroundColor: '#A0AEC0',
+  },
+  importButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
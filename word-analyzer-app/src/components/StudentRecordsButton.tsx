@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import {
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Linking,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+
+interface Props {
+  teacherId: string;
+  studentId: string;
+  studentName: string;
+}
+
+interface ExportStudentRecordsResult {
+  fileName: string;
+  url: string;
+  expiresAt: string;
+  assessmentCount: number;
+  fileCount: number;
+}
+
+/**
+ * Requests the full records bundle of a student (FERPA inspection) and opens its download link
+ */
+export default function StudentRecordsButton({ teacherId, studentId, studentName }: Props) {
+  const [exporting, setExporting] = useState(false);
+
+  const exportRecords = async () => {
+    setExporting(true);
+    try {
+      const functions = getFunctions();
+      const exportStudentRecords = httpsCallable(functions, 'exportStudentRecords', {
+        timeout: 540000,
+      });
+      const result = await exportStudentRecords({ teacherId, studentId });
+      const data = result.data as ExportStudentRecordsResult;
+
+      if (Platform.OS === 'web') {
+        window.open(data.url, '_blank');
+      } else {
+        await Linking.openURL(data.url);
+      }
+    } catch (error: any) {
+      console.error('Student records export failed:', error);
+      Alert.alert('Error', error.message || 'Failed to export student records');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePress = () => {
+    Alert.alert(
+      'Export Student Records',
+      `Download every record held about ${studentName}? The ZIP includes assessments, reports, ` +
+      'AI summaries and any audio or images not yet deleted. The link expires after 15 minutes.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Export', onPress: exportRecords },
+      ]
+    );
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.button}
+      onPress={handlePress}
+      disabled={exporting}
+    >
+      {exporting ? (
+        <ActivityIndicator size="small" color="#718096" />
+      ) : (
+        <MaterialIcons name="folder-zip" size={20} color="#718096" />
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 8,
+  },
+});
@@ -11,8 +11,28 @@ import {
   Alert,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { Student } from '../types';
-import { getStudents, addStudent } from '../services/studentService';
+import { Student, ConsentStatus, ConsentMethod } from '../types';
+import { getStudents, addStudent, setStudentConsent, canEditStudent } from '../services/studentService';
+import StudentRecordsButton from './StudentRecordsButton';
+import StudentShareModal from './StudentShareModal';
+import RosterImportModal from './RosterImportModal';
+
+const CONSENT_OPTIONS: { status: ConsentStatus; label: string; color: string; icon: string }[] = [
+  { status: 'granted', label: 'Consent granted', color: '#48BB78', icon: 'verified-user' },
+  { status: 'pending', label: 'Consent pending', color: '#DD6B20', icon: 'pending' },
+  { status: 'revoked', label: 'Consent revoked', color: '#E53E3E', icon: 'block' },
+];
+
+const METHOD_OPTIONS: { method: ConsentMethod; label: string }[] = [
+  { method: 'school-authorization', label: 'School consent form' },
+  { method: 'signed-form', label: 'Signed parent form' },
+  { method: 'electronic', label: 'Parent email / e-signature' },
+];
+
+function getConsentOption(student: Student) {
+  const status = student.consent?.status || 'pending';
+  return CONSENT_OPTIONS.find(option => option.status === status)!;
+}
 
 interface Props {
   teacherId: string;
@@ -28,6 +48,12 @@ export default function StudentSelector({ teacherId, selectedStudent, onSelectSt
   const [newStudentName, setNewStudentName] = useState('');
   const [newStudentGrade, setNewStudentGrade] = useState('');
   const [adding, setAdding] = useState(false);
+  const [consentStudent, setConsentStudent] = useState<Student | null>(null);
+  const [consentStatus, setConsentStatus] = useState<ConsentStatus>('pending');
+  const [consentMethod, setConsentMethod] = useState<ConsentMethod | null>(null);
+  const [savingConsent, setSavingConsent] = useState(false);
+  const [shareStudent, setShareStudent] = useState<Student | null>(null);
+  const [rosterModalOpen, setRosterModalOpen] = useState(false);
 
   useEffect(() => {
     loadStudents();
@@ -64,6 +90,35 @@ export default function StudentSelector({ teacherId, selectedStudent, onSelectSt
     }
   };
 
+  const openConsent = (student: Student) => {
+    setDropdownOpen(false);
+    setConsentStudent(student);
+    setConsentStatus(student.consent?.status || 'pending');
+    setConsentMethod(student.consent?.method ?? null);
+  };
+
+  const handleSaveConsent = async () => {
+    if (!consentStudent) return;
+
+    setSavingConsent(true);
+    try {
+      const method = consentStatus === 'granted' ? consentMethod : null;
+      const consent = await setStudentConsent(consentStudent.teacherId, consentStudent.id, consentStatus, method);
+
+      const updated: Student = { ...consentStudent, consent };
+      setStudents(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+      if (selectedStudent?.id === updated.id) {
+        onSelectStudent(updated);
+      }
+      setConsentStudent(null);
+    } catch (error: any) {
+      console.error('Failed to save consent:', error);
+      Alert.alert('Error', error?.message || 'Failed to save consent. Please try again.');
+    } finally {
+      setSavingConsent(false);
+    }
+  };
+
   const handleSelectStudent = (student: Student) => {
     onSelectStudent(student);
     setDropdownOpen(false);
@@ -91,6 +146,28 @@ export default function StudentSelector({ teacherId, selectedStudent, onSelectSt
         <MaterialIcons name="arrow-drop-down" size={24} color="#718096" />
       </TouchableOpacity>
 
+      {selectedStudent && !canEditStudent(selectedStudent) && (
+        <View style={styles.consentWarning}>
+          <MaterialIcons name="visibility" size={16} color="#718096" />
+          <Text style={[styles.consentWarningText, { color: '#718096' }]}>
+            Shared by {selectedStudent.sharedBy?.ownerEmail} - view only, recording is disabled
+          </Text>
+        </View>
+      )}
+
+      {selectedStudent && canEditStudent(selectedStudent) && selectedStudent.consent?.status !== 'granted' && (
+        <TouchableOpacity style={styles.consentWarning} onPress={() => openConsent(selectedStudent)}>
+          <MaterialIcons
+            name={getConsentOption(selectedStudent).icon as any}
+            size={16}
+            color={getConsentOption(selectedStudent).color}
+          />
+          <Text style={[styles.consentWarningText, { color: getConsentOption(selectedStudent).color }]}>
+            {getConsentOption(selectedStudent).label} - recording is disabled
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Dropdown Modal */}
       <Modal
         visible={dropdownOpen}
@@ -108,33 +185,83 @@ export default function StudentSelector({ teacherId, selectedStudent, onSelectSt
               data={students}
               keyExtractor={(item) => item.id}
               renderItem={({ item }) => (
-                <TouchableOpacity
+                <View
                   style={[
                     styles.dropdownItem,
                     selectedStudent?.id === item.id && styles.dropdownItemSelected,
                   ]}
-                  onPress={() => handleSelectStudent(item)}
                 >
-                  <Text style={styles.dropdownItemText}>{item.name}</Text>
-                  {item.grade && (
-                    <Text style={styles.dropdownItemGrade}>Grade {item.grade}</Text>
+                  <TouchableOpacity
+                    style={styles.dropdownItemInfo}
+                    onPress={() => handleSelectStudent(item)}
+                  >
+                    <Text style={styles.dropdownItemText}>{item.name}</Text>
+                    {item.grade && (
+                      <Text style={styles.dropdownItemGrade}>Grade {item.grade}</Text>
+                    )}
+                    {item.sharedBy && (
+                      <Text style={styles.dropdownItemGrade}>
+                        Shared by {item.sharedBy.ownerEmail}{item.sharedBy.access === 'read' ? ' · view only' : ''}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.consentButton}
+                    onPress={() => openConsent(item)}
+                    disabled={!canEditStudent(item)}
+                  >
+                    <MaterialIcons
+                      name={getConsentOption(item).icon as any}
+                      size={20}
+                      color={getConsentOption(item).color}
+                    />
+                  </TouchableOpacity>
+                  {!item.sharedBy && (
+                    <>
+                      <TouchableOpacity
+                        style={styles.consentButton}
+                        onPress={() => {
+                          setDropdownOpen(false);
+                          setShareStudent(item);
+                        }}
+                      >
+                        <MaterialIcons name="person-add-alt" size={20} color="#718096" />
+                      </TouchableOpacity>
+                      <StudentRecordsButton
+                        teacherId={teacherId}
+                        studentId={item.id}
+                        studentName={item.name}
+                      />
+                    </>
                   )}
-                </TouchableOpacity>
+                </View>
               )}
               ListEmptyComponent={
                 <Text style={styles.emptyText}>No students yet</Text>
               }
               ListFooterComponent={
-                <TouchableOpacity
-                  style={styles.addButton}
-                  onPress={() => {
-                    setDropdownOpen(false);
-                    setAddModalOpen(true);
-                  }}
-                >
-                  <MaterialIcons name="add" size={20} color="#4299E1" />
-                  <Text style={styles.addButtonText}>Add New Student</Text>
-                </TouchableOpacity>
+                <View style={styles.footerButtons}>
+                  <TouchableOpacity
+                    style={styles.addButton}
+                    onPress={() => {
+                      setDropdownOpen(false);
+                      setAddModalOpen(true);
+                    }}
+                  >
+                    <MaterialIcons name="add" size={20} color="#4299E1" />
+                    <Text style={styles.addButtonText}>Add New Student</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.addButton}
+                    onPress={() => {
+                      setDropdownOpen(false);
+                      setRosterModalOpen(true);
+                    }}
+                  >
+                    <MaterialIcons name="group-add" size={20} color="#4299E1" />
+                    <Text style={styles.addButtonText}>Import Roster</Text>
+                  </TouchableOpacity>
+                </View>
               }
             />
           </View>
@@ -193,6 +320,102 @@ export default function StudentSelector({ teacherId, selectedStudent, onSelectSt
           </View>
         </View>
       </Modal>
+
+      {/* Parental Consent Modal */}
+      <Modal
+        visible={consentStudent !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setConsentStudent(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.addModalContainer}>
+            <Text style={styles.addModalTitle}>Parental Consent</Text>
+            <Text style={styles.consentStudentName}>{consentStudent?.name}</Text>
+
+            <Text style={styles.inputLabel}>Status</Text>
+            <View style={styles.optionList}>
+              {CONSENT_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.status}
+                  style={[
+                    styles.optionButton,
+                    consentStatus === option.status && { borderColor: option.color },
+                  ]}
+                  onPress={() => setConsentStatus(option.status)}
+                >
+                  <MaterialIcons name={option.icon as any} size={18} color={option.color} />
+                  <Text style={styles.optionText}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {consentStatus === 'granted' && (
+              <>
+                <Text style={styles.inputLabel}>Method</Text>
+                <View style={styles.optionList}>
+                  {METHOD_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.method}
+                      style={[
+                        styles.optionButton,
+                        consentMethod === option.method && styles.optionButtonSelected,
+                      ]}
+                      onPress={() => setConsentMethod(option.method)}
+                    >
+                      <Text style={styles.optionText}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {consentStudent?.consent && (
+              <Text style={styles.consentHistory}>
+                Last recorded {consentStudent.consent.date.toLocaleDateString()} by {consentStudent.consent.recordedByEmail || consentStudent.consent.recordedBy}
+              </Text>
+            )}
+
+            <View style={styles.addModalButtons}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setConsentStudent(null)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[
+                  styles.confirmButton,
+                  consentStatus === 'granted' && !consentMethod && styles.buttonDisabled,
+                ]}
+                onPress={handleSaveConsent}
+                disabled={(consentStatus === 'granted' && !consentMethod) || savingConsent}
+              >
+                {savingConsent ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.confirmButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <RosterImportModal
+        teacherId={teacherId}
+        visible={rosterModalOpen}
+        students={students}
+        onClose={() => setRosterModalOpen(false)}
+        onImported={loadStudents}
+      />
+
+      <StudentShareModal
+        teacherId={teacherId}
+        student={shareStudent}
+        onClose={() => setShareStudent(null)}
+      />
     </View>
   );
 }
@@ -243,11 +466,17 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
   },
   dropdownItem: {
-    paddingHorizontal: 16,
-    paddingVertical: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+    paddingRight: 8,
     borderBottomWidth: 1,
     borderBottomColor: '#E2E8F0',
   },
+  dropdownItemInfo: {
+    flex: 1,
+    paddingVertical: 14,
+  },
   dropdownItemSelected: {
     backgroundColor: '#EBF8FF',
   },
@@ -265,13 +494,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     color: '#718096',
   },
+  footerButtons: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+  },
   addButton: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     paddingVertical: 14,
-    borderTopWidth: 1,
-    borderTopColor: '#E2E8F0',
     gap: 8,
   },
   addButtonText: {
@@ -335,4 +568,50 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.5,
   },
+  consentWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  consentWarningText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  consentButton: {
+    padding: 8,
+  },
+  consentStudentName: {
+    fontSize: 16,
+    color: '#4A5568',
+    textAlign: 'center',
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  optionList: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  optionButtonSelected: {
+    borderColor: '#4299E1',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#2D3748',
+  },
+  consentHistory: {
+    fontSize: 12,
+    color: '#A0AEC0',
+    marginBottom: 8,
+  },
 });
@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Student, StudentShare, ShareAccess } from '../types';
+import { getStudentShares, shareStudent, unshareStudent } from '../services/studentService';
+
+const ACCESS_OPTIONS: { access: ShareAccess; label: string; description: string }[] = [
+  { access: 'read', label: 'View only', description: 'Sees assessments and progress' },
+  { access: 'write', label: 'Can record', description: 'Also records and rescores assessments' },
+];
+
+interface Props {
+  teacherId: string;
+  student: Student | null;    // Modal is visible while set
+  onClose: () => void;
+}
+
+/**
+ * Shares a student with co-teachers (e.g. an interventionist) by email
+ */
+export default function StudentShareModal({ teacherId, student, onClose }: Props) {
+  const [shares, setShares] = useState<StudentShare[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [access, setAccess] = useState<ShareAccess>('read');
+  const [saving, setSaving] = useState(false);
+
+  const loadShares = async (studentId: string) => {
+    setLoading(true);
+    try {
+      setShares(await getStudentShares(teacherId, studentId));
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to load sharing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (student) {
+      setEmail('');
+      setAccess('read');
+      loadShares(student.id);
+    }
+  }, [student?.id]);
+
+  const handleShare = async () => {
+    if (!student || !email.trim()) return;
+
+    setSaving(true);
+    try {
+      await shareStudent(teacherId, student.id, email.trim(), access);
+      setEmail('');
+      await loadShares(student.id);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to share student');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnshare = (share: StudentShare) => {
+    if (!student) return;
+
+    Alert.alert(
+      'Stop Sharing',
+      `${share.email} will no longer see ${student.name} or their assessments.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop Sharing',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await unshareStudent(teacherId, student.id, share.uid);
+              setShares(prev => prev.filter(s => s.uid !== share.uid));
+            } catch (error: any) {
+              Alert.alert('Error', error?.message || 'Failed to stop sharing');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={student !== null}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>Share Student</Text>
+          <Text style={styles.studentName}>{student?.name}</Text>
+
+          {loading ? (
+            <ActivityIndicator size="small" color="#4299E1" />
+          ) : shares.length === 0 ? (
+            <Text style={styles.emptyText}>Not shared with anyone</Text>
+          ) : (
+            shares.map(share => (
+              <View key={share.uid} style={styles.shareRow}>
+                <View style={styles.shareInfo}>
+                  <Text style={styles.shareEmail}>{share.email}</Text>
+                  <Text style={styles.shareAccess}>
+                    {ACCESS_OPTIONS.find(option => option.access === share.access)?.label}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.removeButton} onPress={() => handleUnshare(share)}>
+                  <MaterialIcons name="close" size={20} color="#E53E3E" />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.inputLabel}>Co-teacher email</Text>
+          <TextInput
+            style={styles.input}
+            value={email}
+            onChangeText={setEmail}
+            placeholder="teacher@school.org"
+            autoCapitalize="none"
+            keyboardType="email-address"
+          />
+
+          <View style={styles.optionList}>
+            {ACCESS_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.access}
+                style={[styles.optionButton, access === option.access && styles.optionButtonSelected]}
+                onPress={() => setAccess(option.access)}
+              >
+                <Text style={styles.optionText}>{option.label}</Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Done</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.confirmButton, !email.trim() && styles.buttonDisabled]}
+              onPress={handleShare}
+              disabled={!email.trim() || saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.confirmButtonText}>Share</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: 360,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  studentName: {
+    fontSize: 16,
+    color: '#4A5568',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#A0AEC0',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+    paddingVertical: 8,
+  },
+  shareInfo: {
+    flex: 1,
+  },
+  shareEmail: {
+    fontSize: 15,
+    color: '#2D3748',
+  },
+  shareAccess: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: 8,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4A5568',
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  optionList: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionButton: {
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  optionButtonSelected: {
+    borderColor: '#4299E1',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#2D3748',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#718096',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#718096',
+  },
+  confirmButton: {
+    backgroundColor: '#4299E1',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { AlignedWord, WordOverrideStatus } from '../types';
+
+interface Props {
+  teacherId: string;
+  assessmentId: string;
+  word: AlignedWord | null;
+  wordIndex: number | null;
+  onClose: () => void;
+}
+
+const STATUS_OPTIONS: { status: WordOverrideStatus; label: string; color: string }[] = [
+  { status: 'correct', label: 'Correct', color: '#C6F6D5' },
+  { status: 'misread', label: 'Misread', color: '#FEEBC8' },
+  { status: 'substituted', label: 'Substituted', color: '#FED7D7' },
+  { status: 'skipped', label: 'Skipped', color: '#E2E8F0' },
+  { status: 'self-corrected', label: 'Self-corrected', color: '#C6F6D5' },
+];
+
+function getOverrideStatus(word: AlignedWord): WordOverrideStatus {
+  return word.status === 'correct' && word.isSelfCorrection ? 'self-corrected' : word.status;
+}
+
+export default function WordScoreOverride({ teacherId, assessmentId, word, wordIndex, onClose }: Props) {
+  const [savingStatus, setSavingStatus] = useState<WordOverrideStatus | null>(null);
+
+  if (!word || wordIndex === null) return null;
+
+  const currentStatus = getOverrideStatus(word);
+  const originalLabel = STATUS_OPTIONS.find(o => o.status === word.originalStatus)?.label;
+
+  const handleSelect = async (status: WordOverrideStatus) => {
+    if (status === currentStatus) {
+      onClose();
+      return;
+    }
+
+    setSavingStatus(status);
+    try {
+      const functions = getFunctions();
+      const overrideWordScores = httpsCallable(functions, 'overrideWordScores');
+      await overrideWordScores({
+        teacherId,
+        assessmentId,
+        overrides: [{ index: wordIndex, status }],
+      });
+      onClose();
+    } catch (error: any) {
+      console.error('Word override failed:', error);
+      Alert.alert('Error', error.message || 'Failed to update word scoring');
+    } finally {
+      setSavingStatus(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={true}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <View style={styles.container} onStartShouldSetResponder={() => true}>
+          <Text style={styles.title}>Score "{word.expected}"</Text>
+          <Text style={styles.subtitle}>
+            {word.spoken ? `Heard: "${word.spoken}"` : 'Not heard in the recording'}
+          </Text>
+          {word.isOverridden && originalLabel && (
+            <View style={styles.originalRow}>
+              <MaterialIcons name="edit" size={14} color="#805AD5" />
+              <Text style={styles.originalText}>Automatically scored as {originalLabel}</Text>
+            </View>
+          )}
+
+          {STATUS_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.status}
+              style={[styles.option, option.status === currentStatus && styles.optionSelected]}
+              onPress={() => handleSelect(option.status)}
+              disabled={savingStatus !== null}
+            >
+              <View style={[styles.optionColor, { backgroundColor: option.color }]} />
+              <Text style={styles.optionText}>{option.label}</Text>
+              {savingStatus === option.status ? (
+                <ActivityIndicator size="small" color="#4299E1" />
+              ) : option.status === currentStatus ? (
+                <MaterialIcons name="check" size={20} color="#4299E1" />
+              ) : null}
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    width: 320,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  originalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  originalText: {
+    fontSize: 12,
+    color: '#805AD5',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    gap: 12,
+  },
+  optionSelected: {
+    backgroundColor: '#EBF8FF',
+  },
+  optionColor: {
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#2D3748',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#718096',
+  },
+});
@@ -0,0 +1,31 @@
+/**
+ * Recording Configuration
+ * Reading lengths offered when recording a passage
+ */
+
+import { RecordingDuration } from '../types';
+
+// Untimed readings stop automatically at this length so transcription and video stay within function limits
+export const MAX_UNTIMED_RECORDING_SECONDS = 300;
+
+export const RECORDING_DURATION_OPTIONS: { value: RecordingDuration; label: string }[] = [
+  { value: 30, label: '30s' },
+  { value: 60, label: '1 min' },
+  { value: 120, label: '2 min' },
+  { value: 'untimed', label: 'Untimed' },
+];
+
+/**
+ * Seconds after which a recording stops automatically
+ */
+export function getRecordingLimitSeconds(duration: RecordingDuration): number {
+  return duration === 'untimed' ? MAX_UNTIMED_RECORDING_SECONDS : duration;
+}
+
+/**
+ * Short description of a reading length, e.g. "2 min timed reading"
+ */
+export function formatRecordingDuration(duration: RecordingDuration): string {
+  if (duration === 'untimed') return 'Untimed reading';
+  return duration < 60 ? `${duration}s timed reading` : `${duration / 60} min timed reading`;
+}
@@ -0,0 +1,196 @@
+/**
+ * Kiosk Mode Hook & Context
+ * Locks the app to the record → capture → analysis loop while students self-administer;
+ * the teacher PIN exits it. On native the kiosk session is saved to app storage, so
+ * relaunching the app stays locked; signing out (or in as someone else) ends it.
+ * Wrong PINs lock the exit for longer and longer, so students can't try every PIN
+ */
+
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { File, Directory, Paths } from 'expo-file-system';
+import { KioskPin, Passage, RecordingDuration } from '../types';
+import { verifyKioskPin } from '../services/teacherService';
+import { useAuth } from './useAuth';
+
+// Without a touch for this long, the kiosk returns to the start for the next student
+export const KIOSK_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+const PERSISTENT = Platform.OS !== 'web';
+
+// Wrong PINs allowed before the exit locks, then the lock doubles with each wrong PIN
+const FREE_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 30 * 1000;
+const MAX_PIN_LOCKOUT_MS = 60 * 60 * 1000;
+
+// The teacher who started the kiosk, and the reading every student takes
+export interface KioskSession {
+  teacherId: string;
+  kioskPin: KioskPin;         // Kept for exiting without a network round trip
+  passage: Passage | null;
+  recordingDuration: RecordingDuration;
+  failedPinAttempts: number;  // Wrong PINs since the kiosk started
+  pinLockedUntil: number | null;  // Epoch ms before which no PIN is checked
+}
+
+// What the teacher chooses when starting the kiosk
+export type KioskStart = Omit<KioskSession, 'failedPinAttempts' | 'pinLockedUntil'>;
+
+interface KioskContextType {
+  isKioskActive: boolean;
+  session: KioskSession | null;
+  idleTimeouts: number;       // Increments each time the kiosk goes idle
+  enterKiosk: (start: KioskStart) => void;
+  exitKiosk: (pin: string) => Promise<string | null>;  // Resolves to an error message, or null once exited
+}
+
+const KioskContext = createContext<KioskContextType | undefined>(undefined);
+
+function sessionFile(): File {
+  return new File(new Directory(Paths.document, 'kiosk'), 'session.json');
+}
+
+/**
+ * Read the saved kiosk session (read synchronously, so the first render is already locked)
+ */
+function loadSession(): KioskSession | null {
+  if (!PERSISTENT) return null;
+  try {
+    const file = sessionFile();
+    if (!file.exists) return null;
+    const session = JSON.parse(file.textSync()) as KioskSession;
+    return {
+      ...session,
+      // Sessions saved before the PIN lockout
+      failedPinAttempts: session.failedPinAttempts || 0,
+      pinLockedUntil: session.pinLockedUntil ?? null,
+      passage: session.passage ? { ...session.passage, createdAt: new Date(session.passage.createdAt) } : null,
+    };
+  } catch (error) {
+    console.error('Failed to load kiosk session:', error);
+    return null;
+  }
+}
+
+/**
+ * Write the kiosk session to app storage, or delete it when the kiosk ends
+ */
+function saveSession(session: KioskSession | null): void {
+  if (!PERSISTENT) return;
+  try {
+    const file = sessionFile();
+    if (!session) {
+      if (file.exists) file.delete();
+      return;
+    }
+    const directory = new Directory(Paths.document, 'kiosk');
+    if (!directory.exists) directory.create({ intermediates: true });
+    if (!file.exists) file.create();
+    file.write(JSON.stringify(session));
+  } catch (error) {
+    console.error('Failed to save kiosk session:', error);
+  }
+}
+
+/**
+ * How long the exit stays locked after this many wrong PINs
+ */
+function pinLockoutMs(failedPinAttempts: number): number {
+  if (failedPinAttempts < FREE_PIN_ATTEMPTS) return 0;
+  return Math.min(PIN_LOCKOUT_MS * 2 ** (failedPinAttempts - FREE_PIN_ATTEMPTS), MAX_PIN_LOCKOUT_MS);
+}
+
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+interface KioskProviderProps {
+  children: ReactNode;
+}
+
+export function KioskProvider({ children }: KioskProviderProps) {
+  const { teacher, isLoading } = useAuth();
+  const [session, setSession] = useState<KioskSession | null>(loadSession);
+  const [idleTimeouts, setIdleTimeouts] = useState(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const isKioskActive = session !== null;
+
+  const updateSession = (next: KioskSession | null) => {
+    saveSession(next);
+    setSession(next);
+  };
+
+  // The kiosk belongs to the teacher who started it - signing out is how a forgotten PIN is reset
+  useEffect(() => {
+    if (!isLoading && session && teacher?.uid !== session.teacherId) {
+      updateSession(null);
+    }
+  }, [isLoading, teacher?.uid]);
+
+  const restartIdleTimer = () => {
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(() => {
+      setIdleTimeouts(count => count + 1);
+      restartIdleTimer();
+    }, KIOSK_IDLE_TIMEOUT_MS);
+  };
+
+  useEffect(() => {
+    if (isKioskActive) {
+      restartIdleTimer();
+    }
+    return () => {
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    };
+  }, [isKioskActive]);
+
+  const enterKiosk = (start: KioskStart) => {
+    updateSession({ ...start, failedPinAttempts: 0, pinLockedUntil: null });
+  };
+
+  const exitKiosk = async (pin: string): Promise<string | null> => {
+    if (!session) return null;
+
+    const now = Date.now();
+    if (session.pinLockedUntil && session.pinLockedUntil > now) {
+      return `Too many incorrect PINs. Try again in ${formatWait(session.pinLockedUntil - now)}`;
+    }
+
+    if (await verifyKioskPin(session.kioskPin, pin)) {
+      updateSession(null);
+      return null;
+    }
+
+    const failedPinAttempts = session.failedPinAttempts + 1;
+    const lockoutMs = pinLockoutMs(failedPinAttempts);
+    updateSession({ ...session, failedPinAttempts, pinLockedUntil: lockoutMs ? now + lockoutMs : null });
+    return lockoutMs ? `Incorrect PIN. Try again in ${formatWait(lockoutMs)}` : 'Incorrect PIN';
+  };
+
+  return (
+    <KioskContext.Provider value={{ isKioskActive, session, idleTimeouts, enterKiosk, exitKiosk }}>
+      {/* Any touch counts as activity */}
+      <View style={styles.container} onTouchStart={isKioskActive ? restartIdleTimer : undefined}>
+        {children}
+      </View>
+    </KioskContext.Provider>
+  );
+}
+
+export function useKiosk() {
+  const context = useContext(KioskContext);
+  if (context === undefined) {
+    throw new Error('useKiosk must be used within a KioskProvider');
+  }
+  return context;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -1,19 +1,27 @@
 /**
  * App Navigation
  * Handles routing between screens based on auth state
+ * In kiosk mode only the record → capture → analysis loop is reachable
  */
 
 import React from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { useAuth } from '../hooks/useAuth';
+import { useKiosk } from '../hooks/useKiosk';
 import {
   LoginScreen,
   HomeScreen,
   AnalysisScreen,
   HistoryScreen,
   AssessmentDetailScreen,
+  CelerationChartScreen,
+  DeletionLogScreen,
+  SettingsScreen,
+  OrganizationScreen,
+  ClassroomsScreen,
 } from '../screens';
+import { RecordingDuration } from '../types';
 
 export type RootStackParamList = {
   Login: undefined;
@@ -21,14 +29,33 @@ export type RootStackParamList = {
   Analysis: {
     nameAudioUri: string | null;
     readingAudioUri: string | null;
-    imageUri: string | null;
+    imageUris: string[];  // Captured pages in reading order
     studentId: string;
     studentName: string;
+    teacherId?: string;   // Owner of a shared student (the assessment is stored in their classroom)
     earlyUploadAssessmentId?: string | null;  // If audio was pre-uploaded, this is the assessment ID
+    passageId?: string | null;     // Library passage read (image is optional when set)
+    passageTitle?: string | null;
+    recordingDuration: RecordingDuration;
   };
   History: undefined;
   AssessmentDetail: {
     assessmentId: string;
+    teacherId?: string;   // Owner of the assessment when viewing another classroom (read-only)
+  };
+  CelerationChart: {
+    studentId: string;
+    studentName: string;
+  };
+  DeletionLog: undefined;
+  Settings: undefined;
+  Organization: {
+    orgId: string;
+    orgName: string;
+  };
+  Classrooms: {
+    orgId: string;
+    orgName: string;
   };
 };
 
@@ -36,6 +63,7 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function AppNavigator() {
   const { isAuthenticated, isLoading } = useAuth();
+  const { isKioskActive } = useKiosk();
 
   if (isLoading) {
     return null;
@@ -48,12 +76,22 @@ export default function AppNavigator() {
           headerShown: false,
         }}
       >
-        {isAuthenticated ? (
+        {isAuthenticated && isKioskActive ? (
+          <>
+            <Stack.Screen name="Home" component={HomeScreen} />
+            <Stack.Screen name="Analysis" component={AnalysisScreen} />
+          </>
+        ) : isAuthenticated ? (
           <>
             <Stack.Screen name="Home" component={HomeScreen} />
             <Stack.Screen name="Analysis" component={AnalysisScreen} />
             <Stack.Screen name="History" component={HistoryScreen} />
             <Stack.Screen name="AssessmentDetail" component={AssessmentDetailScreen} />
+            <Stack.Screen name="CelerationChart" component={CelerationChartScreen} />
+            <Stack.Screen name="DeletionLog" component={DeletionLogScreen} />
+            <Stack.Screen name="Settings" component={SettingsScreen} />
+            <Stack.Screen name="Organization" component={OrganizationScreen} />
+            <Stack.Screen name="Classrooms" component={ClassroomsScreen} />
           </>
         ) : (
           <Stack.Screen name="Login" component={LoginScreen} />
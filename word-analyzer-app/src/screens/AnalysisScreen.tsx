@@ -16,6 +16,7 @@ import {
   Platform,
   Image,
   Animated,
+  Alert,
 } from 'react-native';
 import { DashboardErrorPattern } from '../types';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
@@ -25,8 +26,24 @@ import { Audio } from 'expo-av';
 import * as Speech from 'expo-speech';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { useAuth } from '../hooks/useAuth';
-import { DashboardAssessment as Assessment, AlignedWord, AssessmentMetrics, PatternSummary, SeverityLevel } from '../types';
-import { createAssessment, subscribeToAssessment, completeAssessmentWithImage } from '../services/assessmentService';
+import { useKiosk } from '../hooks/useKiosk';
+import {
+  DashboardAssessment as Assessment,
+  AlignedWord,
+  AssessmentMetrics,
+  AssessmentStageName,
+  AssessmentStageStatus,
+  PatternSummary,
+  SeverityLevel,
+} from '../types';
+import {
+  createAssessment,
+  subscribeToAssessment,
+  completeAssessmentWithImages,
+  retryAssessmentStage,
+} from '../services/assessmentService';
+import { enqueueCapture } from '../services/captureQueue';
+import WordScoreOverride from '../components/WordScoreOverride';
 
 import type { RootStackParamList } from '../navigation/AppNavigator';
 
@@ -73,21 +90,40 @@ function calculateWordSimilarity(expected: string, spoken: string | null): numbe
 
 type Tab = 'summary' | 'video' | 'export' | 'image' | 'patterns';
 
+// Processing stages in pipeline order, as recorded on the assessment
+const PROCESSING_STAGES: { name: AssessmentStageName; label: string }[] = [
+  { name: 'transcribe', label: 'Transcribing speech' },
+  { name: 'ocr', label: 'Extracting text' },
+  { name: 'match', label: 'Matching words' },
+  { name: 'metrics', label: 'Calculating metrics' },
+  { name: 'patterns', label: 'Analyzing patterns' },
+  { name: 'summary', label: 'Writing summary' },
+  { name: 'tts', label: 'Recording summary audio' },
+  { name: 'media', label: 'Preparing playback' },
+];
+
 export default function AnalysisScreen() {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const route = useRoute<AnalysisScreenRouteProp>();
-  const { nameAudioUri, readingAudioUri, imageUri, studentId, studentName, earlyUploadAssessmentId } = route.params;
+  const { nameAudioUri, readingAudioUri, imageUris, studentId, studentName, earlyUploadAssessmentId, passageId, passageTitle, recordingDuration } = route.params;
   const { teacher } = useAuth();
+  const { isKioskActive, idleTimeouts } = useKiosk();
+
+  // Shared students' assessments are stored in their owner's classroom
+  const ownerId = route.params.teacherId || teacher?.uid || '';
 
   // Upload/processing state
   const [uploadStage, setUploadStage] = useState<string>('Starting...');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [assessmentId, setAssessmentId] = useState<string | null>(null);
   const [assessment, setAssessment] = useState<Assessment | null>(null);
+  const [isQueued, setIsQueued] = useState(false);  // Upload failed, saved on the device to retry
+  const [isRetryingStage, setIsRetryingStage] = useState(false);
 
   // UI state
   const [activeTab, setActiveTab] = useState<Tab>('summary');
   const [selectedWord, setSelectedWord] = useState<AlignedWord | null>(null);
+  const [overrideWordIndex, setOverrideWordIndex] = useState<number | null>(null);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const [showProsodyPopup, setShowProsodyPopup] = useState(false);
   const [highlightedWordIndices, setHighlightedWordIndices] = useState<number[]>([]);
@@ -111,6 +147,13 @@ export default function AnalysisScreen() {
     scrollViewRef.current?.scrollTo({ y: 0, animated: false });
   };
 
+  // Kiosk mode: once the results are in, an idle screen returns to the start for the next reader
+  useEffect(() => {
+    if (isKioskActive && (isQueued || assessment?.status === 'complete' || assessment?.status === 'error')) {
+      navigation.navigate('Home');
+    }
+  }, [idleTimeouts]);
+
   // Sync video/pdf URLs from assessment
   useEffect(() => {
     if (assessment?.videoUrl && videoStatus !== 'generating') {
@@ -126,18 +169,19 @@ export default function AnalysisScreen() {
   // Start upload on mount
   useEffect(() => {
     console.log('AnalysisScreen mounted with params:', {
-      teacherId: teacher?.uid,
+      teacherId: ownerId,
       studentId,
       studentName,
       readingAudioUri: readingAudioUri?.slice(0, 100),
-      imageUri: imageUri?.slice(0, 100),
+      imageCount: imageUris.length,
       earlyUploadAssessmentId,
+      passageId,
     });
 
-    if (teacher && imageUri) {
-      // If we have an early upload assessment ID, just upload the image
-      if (earlyUploadAssessmentId) {
-        completeWithImage();
+    if (teacher && (imageUris.length > 0 || passageId)) {
+      // If we have an early upload assessment ID, just upload the images
+      if (earlyUploadAssessmentId && imageUris.length > 0) {
+        completeWithImages();
       } else if (readingAudioUri) {
         // Standard flow - upload both files
         startUpload();
@@ -145,7 +189,7 @@ export default function AnalysisScreen() {
         console.error('Missing required data:', {
           hasTeacher: !!teacher,
           hasAudioUri: !!readingAudioUri,
-          hasImageUri: !!imageUri,
+          imageCount: imageUris.length,
           hasEarlyUploadId: !!earlyUploadAssessmentId,
         });
         setUploadStage('Error: Missing audio or image');
@@ -154,7 +198,7 @@ export default function AnalysisScreen() {
       console.error('Missing required data:', {
         hasTeacher: !!teacher,
         hasAudioUri: !!readingAudioUri,
-        hasImageUri: !!imageUri,
+        imageCount: imageUris.length,
       });
       setUploadStage('Error: Missing audio or image');
     }
@@ -165,18 +209,18 @@ export default function AnalysisScreen() {
     };
   }, []);
 
-  // Complete assessment with just image (audio was pre-uploaded)
-  const completeWithImage = async () => {
-    if (!teacher || !imageUri || !earlyUploadAssessmentId) return;
+  // Complete assessment with just the images (audio was pre-uploaded)
+  const completeWithImages = async () => {
+    if (!teacher || imageUris.length === 0 || !earlyUploadAssessmentId) return;
 
     try {
-      setUploadStage('Audio already uploaded, uploading image...');
+      setUploadStage('Audio already uploaded, uploading images...');
       setUploadProgress(50);
 
-      const id = await completeAssessmentWithImage(
-        teacher.uid,
+      const id = await completeAssessmentWithImages(
+        ownerId,
         earlyUploadAssessmentId,
-        imageUri,
+        imageUris,
         (stage, progress) => {
           setUploadStage(stage);
           setUploadProgress(progress);
@@ -187,7 +231,7 @@ export default function AnalysisScreen() {
 
       // Subscribe to assessment updates
       unsubscribeRef.current = subscribeToAssessment(
-        teacher.uid,
+        ownerId,
         id,
         (updated) => {
           setAssessment(updated);
@@ -195,25 +239,29 @@ export default function AnalysisScreen() {
       );
     } catch (error) {
       console.error('Image upload failed:', error);
-      setUploadStage('Upload failed - trying full upload');
-      // Fall back to full upload if early upload failed
+      // The audio is already uploaded - the queue finishes the early assessment
+      // (or uploads everything again if it is gone)
       if (readingAudioUri) {
-        startUpload();
+        queueCapture(earlyUploadAssessmentId);
+      } else {
+        setUploadStage('Upload failed');
       }
     }
   };
 
-  // Standard upload - both audio and image
+  // Standard upload - both audio and images
   const startUpload = async () => {
-    if (!teacher || !readingAudioUri || !imageUri) return;
+    if (!teacher || !readingAudioUri || !(imageUris.length > 0 || passageId)) return;
 
     try {
       const id = await createAssessment(
-        teacher.uid,
+        ownerId,
         studentId,
         studentName,
         readingAudioUri,
-        imageUri,
+        imageUris,
+        passageId ? { id: passageId, title: passageTitle || '' } : null,
+        recordingDuration,
         (stage, progress) => {
           setUploadStage(stage);
           setUploadProgress(progress);
@@ -224,7 +272,7 @@ export default function AnalysisScreen() {
 
       // Subscribe to assessment updates
       unsubscribeRef.current = subscribeToAssessment(
-        teacher.uid,
+        ownerId,
         id,
         (updated) => {
           setAssessment(updated);
@@ -232,6 +280,29 @@ export default function AnalysisScreen() {
       );
     } catch (error) {
       console.error('Upload failed:', error);
+      queueCapture(null);
+    }
+  };
+
+  // Keep the capture on the device so the recording isn't lost; it uploads when back online
+  const queueCapture = (earlyAssessmentId: string | null) => {
+    if (!readingAudioUri) return;
+
+    try {
+      enqueueCapture({
+        teacherId: ownerId,
+        studentId,
+        studentName,
+        audioUri: readingAudioUri,
+        imageUris,
+        passageId: passageId || null,
+        passageTitle: passageTitle || null,
+        recordingDuration,
+        earlyUploadAssessmentId: earlyAssessmentId,
+      });
+      setIsQueued(true);
+    } catch (error) {
+      console.error('Failed to queue capture:', error);
       setUploadStage('Upload failed');
     }
   };
@@ -359,6 +430,44 @@ export default function AnalysisScreen() {
     }
   };
 
+  // Run the failed processing stage again - the subscription picks up its progress
+  const handleRetryStage = async () => {
+    if (!assessment?.failedStage) return;
+
+    setIsRetryingStage(true);
+    try {
+      await retryAssessmentStage(ownerId, assessment.id, assessment.failedStage);
+    } catch (error: any) {
+      console.error('Stage retry failed:', error);
+      Alert.alert('Error', error.message || 'Failed to retry processing');
+    } finally {
+      setIsRetryingStage(false);
+    }
+  };
+
+  // RENDER: Saved for a later upload
+  if (isQueued) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="cloud-queue" size={64} color="#DD6B20" />
+          <Text style={styles.errorTitle}>Saved on this device</Text>
+          <Text style={styles.errorMessage}>
+            The upload didn't go through. {studentName}'s reading will upload automatically when the connection returns, and the results will appear in History.
+          </Text>
+          <View style={styles.errorButtons}>
+            <TouchableOpacity
+              style={styles.retryButton}
+              onPress={() => navigation.navigate('Home')}
+            >
+              <Text style={styles.retryButtonText}>Next Reading</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   // RENDER: Uploading/Processing state
   if (!assessment || assessment.status === 'uploading' || assessment.status === 'processing') {
     return (
@@ -377,11 +486,21 @@ export default function AnalysisScreen() {
 
           {assessment && (
             <View style={styles.processingSteps}>
-              <ProcessingStep label="Audio uploaded" done />
-              <ProcessingStep label="Image uploaded" done />
-              <ProcessingStep label="Transcribing speech" active />
-              <ProcessingStep label="Extracting text" />
-              <ProcessingStep label="Matching words" />
+              <ProcessingStep label="Audio uploaded" status="complete" />
+              {imageUris.length > 0 && (
+                <ProcessingStep
+                  label={imageUris.length > 1 ? 'Images uploaded' : 'Image uploaded'}
+                  status="complete"
+                />
+              )}
+              {PROCESSING_STAGES.map(({ name, label }) => (
+                <ProcessingStep
+                  key={name}
+                  label={label}
+                  status={assessment.stages?.[name]?.status || 'pending'}
+                  durationMs={assessment.stages?.[name]?.durationMs}
+                />
+              ))}
             </View>
           )}
         </View>
@@ -398,8 +517,23 @@ export default function AnalysisScreen() {
           <Text style={styles.errorTitle}>Something went wrong</Text>
           <Text style={styles.errorMessage}>{assessment.errorMessage}</Text>
           <View style={styles.errorButtons}>
+            {assessment.failedStage && !isKioskActive && (
+              <TouchableOpacity
+                style={styles.retryButton}
+                onPress={handleRetryStage}
+                disabled={isRetryingStage}
+              >
+                {isRetryingStage ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.retryButtonText}>
+                    Retry {PROCESSING_STAGES.find(stage => stage.name === assessment.failedStage)?.label.toLowerCase()}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
-              style={styles.retryButton}
+              style={[styles.retryButton, assessment.failedStage && !isKioskActive && styles.goBackButton]}
               onPress={() => navigation.goBack()}
             >
               <Text style={styles.retryButtonText}>Go Back</Text>
@@ -462,25 +596,30 @@ export default function AnalysisScreen() {
             onPress={() => handleTabChange('video')}
             ready={videoStatus === 'ready'}
           />
-          <SidebarTab
-            icon="picture-as-pdf"
-            label="Export"
-            active={activeTab === 'export'}
-            onPress={() => handleTabChange('export')}
-            ready={pdfStatus === 'ready'}
-          />
+          {/* Export and error patterns are for the teacher, not the kiosk reader */}
+          {!isKioskActive && (
+            <SidebarTab
+              icon="picture-as-pdf"
+              label="Export"
+              active={activeTab === 'export'}
+              onPress={() => handleTabChange('export')}
+              ready={pdfStatus === 'ready'}
+            />
+          )}
           <SidebarTab
             icon="image"
             label="Image"
             active={activeTab === 'image'}
             onPress={() => handleTabChange('image')}
           />
-          <SidebarTab
-            icon="pattern"
-            label="Patterns"
-            active={activeTab === 'patterns'}
-            onPress={() => handleTabChange('patterns')}
-          />
+          {!isKioskActive && (
+            <SidebarTab
+              icon="pattern"
+              label="Patterns"
+              active={activeTab === 'patterns'}
+              onPress={() => handleTabChange('patterns')}
+            />
+          )}
         </View>
 
         {/* Results Area */}
@@ -489,6 +628,7 @@ export default function AnalysisScreen() {
             <SummaryTab
               assessment={assessment}
               onWordPress={(word) => setSelectedWord(word)}
+              onWordLongPress={isKioskActive ? () => {} : setOverrideWordIndex}
               getWordStyle={getWordStyle}
               onShowProsody={() => setShowProsodyPopup(true)}
               onErrorPatternClick={handleErrorPatternClick}
@@ -498,7 +638,7 @@ export default function AnalysisScreen() {
           {activeTab === 'video' && (
             <VideoTab
               assessment={assessment}
-              teacherId={teacher?.uid || ''}
+              teacherId={ownerId}
               assessmentId={assessmentId || ''}
               videoStatus={videoStatus}
               videoUrl={videoUrl}
@@ -511,7 +651,7 @@ export default function AnalysisScreen() {
           {activeTab === 'export' && (
             <ExportTab
               assessment={assessment}
-              teacherId={teacher?.uid || ''}
+              teacherId={ownerId}
               assessmentId={assessmentId || ''}
               pdfStatus={pdfStatus}
               pdfUrl={pdfUrl}
@@ -536,6 +676,17 @@ export default function AnalysisScreen() {
         />
       )}
 
+      {/* Word Scoring Override */}
+      {teacher && assessmentId && overrideWordIndex !== null && (
+        <WordScoreOverride
+          teacherId={ownerId}
+          assessmentId={assessmentId}
+          word={assessment.words?.[overrideWordIndex] || null}
+          wordIndex={overrideWordIndex}
+          onClose={() => setOverrideWordIndex(null)}
+        />
+      )}
+
       {/* Prosody Explanation Popup */}
       {showProsodyPopup && (
         <ProsodyPopup
@@ -560,16 +711,28 @@ export default function AnalysisScreen() {
 
 // Sub-components
 
-function ProcessingStep({ label, done, active }: { label: string; done?: boolean; active?: boolean }) {
+const STEP_ICONS: Record<AssessmentStageStatus, { name: string; color: string }> = {
+  complete: { name: 'check-circle', color: '#48BB78' },
+  running: { name: 'autorenew', color: '#4299E1' },
+  error: { name: 'error-outline', color: '#E53E3E' },
+  pending: { name: 'radio-button-unchecked', color: '#A0AEC0' },
+};
+
+function ProcessingStep({ label, status, durationMs }: {
+  label: string;
+  status: AssessmentStageStatus;
+  durationMs?: number | null;
+}) {
   return (
     <View style={styles.processingStep}>
-      <MaterialIcons
-        name={done ? 'check-circle' : active ? 'autorenew' : 'radio-button-unchecked'}
-        size={20}
-        color={done ? '#48BB78' : active ? '#4299E1' : '#A0AEC0'}
-      />
-      <Text style={[styles.processingStepText, active && styles.processingStepActive]}>
+      <MaterialIcons name={STEP_ICONS[status].name as any} size={20} color={STEP_ICONS[status].color} />
+      <Text style={[
+        styles.processingStepText,
+        status === 'running' && styles.processingStepActive,
+        status === 'error' && styles.processingStepError,
+      ]}>
         {label}
+        {status === 'complete' && durationMs != null ? ` (${(durationMs / 1000).toFixed(1)}s)` : ''}
       </Text>
     </View>
   );
@@ -610,9 +773,10 @@ function SidebarTab({ icon, label, active, onPress, ready }: {
   );
 }
 
-function SummaryTab({ assessment, onWordPress, getWordStyle, onShowProsody, onErrorPatternClick, highlightedWordIndices }: {
+function SummaryTab({ assessment, onWordPress, onWordLongPress, getWordStyle, onShowProsody, onErrorPatternClick, highlightedWordIndices }: {
   assessment: Assessment;
   onWordPress: (word: AlignedWord) => void;
+  onWordLongPress: (index: number) => void;
   getWordStyle: (status: string) => any;
   onShowProsody: () => void;
   onErrorPatternClick: (pattern: DashboardErrorPattern) => void;
@@ -833,6 +997,7 @@ function SummaryTab({ assessment, onWordPress, getWordStyle, onShowProsody, onEr
 
       {/* Word Highlighting */}
       <Text style={styles.sectionTitle}>Text with Error Highlighting</Text>
+      <Text style={styles.errorBreakdownHint}>Long-press a word to change its scoring</Text>
       <View style={styles.wordsContainer}>
         {assessment.words?.map((word, index) => (
           <PulsingWord
@@ -841,6 +1006,7 @@ function SummaryTab({ assessment, onWordPress, getWordStyle, onShowProsody, onEr
             index={index}
             isHighlighted={highlightedWordIndices.includes(index)}
             onPress={() => onWordPress(word)}
+            onLongPress={() => onWordLongPress(index)}
             getWordStyle={getWordStyle}
           />
         ))}
@@ -858,6 +1024,10 @@ function SummaryTab({ assessment, onWordPress, getWordStyle, onShowProsody, onEr
           </View>
           <Text style={styles.legendText}>Hesitation</Text>
         </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendColor, styles.wordOverridden]} />
+          <Text style={styles.legendText}>Teacher scored</Text>
+        </View>
       </View>
 
       {/* Error Breakdown - Clickable */}
@@ -905,11 +1075,12 @@ function LegendItem({ color, label }: { color: string; label: string }) {
 }
 
 // PulsingWord component with animation for highlighted errors
-function PulsingWord({ word, index, isHighlighted, onPress, getWordStyle }: {
+function PulsingWord({ word, index, isHighlighted, onPress, onLongPress, getWordStyle }: {
   word: AlignedWord;
   index: number;
   isHighlighted: boolean;
   onPress: () => void;
+  onLongPress: () => void;
   getWordStyle: (status: string) => any;
 }) {
   const pulseAnim = useRef(new Animated.Value(0)).current;
@@ -945,7 +1116,7 @@ function PulsingWord({ word, index, isHighlighted, onPress, getWordStyle }: {
   });
 
   return (
-    <TouchableOpacity onPress={onPress}>
+    <TouchableOpacity onPress={onPress} onLongPress={onLongPress}>
       <Animated.View
         style={[
           styles.word,
@@ -954,6 +1125,7 @@ function PulsingWord({ word, index, isHighlighted, onPress, getWordStyle }: {
           word.hesitation && word.status === 'correct' && styles.wordWithHesitation,
           // Always have border space reserved to prevent movement
           styles.wordWithPulseBorder,
+          word.isOverridden && styles.wordOverridden,
           isHighlighted && { borderColor },
         ]}
       >
@@ -1252,10 +1424,19 @@ function ImageTab({ assessment }: { assessment: Assessment }) {
   const metrics = assessment.metrics;
   const [containerWidth, setContainerWidth] = useState(0);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [pageIndex, setPageIndex] = useState(0);
+
+  // Captured pages in reading order (single-image assessments have no pages array)
+  const pages = assessment.pages?.length
+    ? assessment.pages
+    : assessment.imageUrl
+    ? [{ imageUrl: assessment.imageUrl, imageWidth: assessment.imageWidth, imageHeight: assessment.imageHeight }]
+    : [];
+  const page = pages[Math.min(pageIndex, pages.length - 1)];
 
   // Original image dimensions from OCR (coordinate space for bounding boxes)
-  const originalWidth = assessment.imageWidth || 0;
-  const originalHeight = assessment.imageHeight || 0;
+  const originalWidth = page?.imageWidth || 0;
+  const originalHeight = page?.imageHeight || 0;
 
   // Calculate aspect ratio for sizing (default to 4:3 if no dimensions)
   const aspectRatio = originalWidth > 0 && originalHeight > 0
@@ -1277,8 +1458,13 @@ function ImageTab({ assessment }: { assessment: Assessment }) {
   // Scale factor: displayed width / original width
   const scale = containerWidth > 0 && originalWidth > 0 ? containerWidth / originalWidth : 0;
 
+  const changePage = (index: number) => {
+    setImageLoaded(false);
+    setPageIndex(index);
+  };
+
   // No image available
-  if (!assessment.imageUrl) {
+  if (!page) {
     return (
       <View style={styles.tabPlaceholder}>
         <MaterialIcons name="image" size={64} color="#CBD5E0" />
@@ -1293,6 +1479,7 @@ function ImageTab({ assessment }: { assessment: Assessment }) {
     key: string
   ) => {
     if (!word?.boundingBox || scale === 0) return null;
+    if ((word.page ?? 0) !== pageIndex) return null;
 
     const box = word.boundingBox;
     return (
@@ -1346,6 +1533,27 @@ function ImageTab({ assessment }: { assessment: Assessment }) {
         </View>
       </View>
 
+      {/* Page controls for multi-page passages */}
+      {pages.length > 1 && (
+        <View style={styles.imagePager}>
+          <TouchableOpacity
+            style={styles.imagePagerButton}
+            onPress={() => changePage(pageIndex - 1)}
+            disabled={pageIndex === 0}
+          >
+            <MaterialIcons name="chevron-left" size={28} color={pageIndex === 0 ? '#CBD5E0' : '#4299E1'} />
+          </TouchableOpacity>
+          <Text style={styles.imagePagerText}>Page {pageIndex + 1} of {pages.length}</Text>
+          <TouchableOpacity
+            style={styles.imagePagerButton}
+            onPress={() => changePage(pageIndex + 1)}
+            disabled={pageIndex === pages.length - 1}
+          >
+            <MaterialIcons name="chevron-right" size={28} color={pageIndex === pages.length - 1 ? '#CBD5E0' : '#4299E1'} />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Image container with explicit height based on aspect ratio */}
       <View
         style={[styles.imageDisplayContainer, { height: containerHeight }]}
@@ -1356,7 +1564,8 @@ function ImageTab({ assessment }: { assessment: Assessment }) {
       >
         {/* The captured image - fills container completely */}
         <Image
-          source={{ uri: assessment.imageUrl }}
+          key={page.imageUrl}
+          source={{ uri: page.imageUrl }}
           style={styles.imageFill}
           resizeMode="stretch"
           onLoad={() => setImageLoaded(true)}
@@ -1809,6 +2018,9 @@ const styles = StyleSheet.create({
     color: '#4299E1',
     fontWeight: '500',
   },
+  processingStepError: {
+    color: '#E53E3E',
+  },
   // Error styles
   errorContainer: {
     flex: 1,
@@ -1830,6 +2042,7 @@ const styles = StyleSheet.create({
   },
   errorButtons: {
     marginTop: 24,
+    gap: 12,
   },
   retryButton: {
     backgroundColor: '#4299E1',
@@ -1841,6 +2054,10 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontSize: 16,
     fontWeight: '600',
+    textAlign: 'center',
+  },
+  goBackButton: {
+    backgroundColor: '#718096',
   },
   // Background generating banner
   generatingBanner: {
@@ -2159,6 +2376,11 @@ const styles = StyleSheet.create({
     borderColor: 'transparent',
     borderRadius: 4,
   },
+  wordOverridden: {
+    borderWidth: 2,
+    borderColor: '#805AD5',
+    borderStyle: 'dashed',
+  },
   hesitationIndicator: {
     position: 'absolute',
     top: -6,
@@ -2843,6 +3065,21 @@ const styles = StyleSheet.create({
     height: 40,
     backgroundColor: '#E2E8F0',
   },
+  imagePager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  imagePagerButton: {
+    padding: 4,
+  },
+  imagePagerText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
   imageDisplayContainer: {
     width: '100%',
     backgroundColor: '#1A202C',
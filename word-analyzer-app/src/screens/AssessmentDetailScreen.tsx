@@ -14,6 +14,9 @@ import {
   ActivityIndicator,
   Linking,
   Platform,
+  Image,
+  TextInput,
+  Alert,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -21,14 +24,74 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { Audio } from 'expo-av';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { useAuth } from '../hooks/useAuth';
-import { DashboardAssessment as Assessment, AlignedWord } from '../types';
-import { subscribeToAssessment } from '../services/assessmentService';
+import {
+  DashboardAssessment as Assessment,
+  AlignedWord,
+  ExpectedWordEdit,
+  AssessmentRevision,
+  RevisionSource,
+} from '../types';
+import { subscribeToAssessment, subscribeToRevisions } from '../services/assessmentService';
+import WordScoreOverride from '../components/WordScoreOverride';
+import { formatRecordingDuration } from '../config/recording';
 
 import type { RootStackParamList } from '../navigation/AppNavigator';
 
 type AssessmentDetailScreenRouteProp = RouteProp<RootStackParamList, 'AssessmentDetail'>;
 
-type Tab = 'summary' | 'video' | 'image' | 'patterns';
+type Tab = 'summary' | 'video' | 'image' | 'patterns' | 'history';
+
+type WordDiffType = 'same' | 'changed' | 'added' | 'removed';
+
+interface WordDiff {
+  type: WordDiffType;
+  from?: AlignedWord;
+  to?: AlignedWord;
+}
+
+/**
+ * Word-by-word diff between two revisions
+ * Aligns words on their expected text (longest common subsequence), then
+ * flags aligned words whose status or spoken word changed
+ */
+function diffRevisionWords(fromWords: AlignedWord[], toWords: AlignedWord[]): WordDiff[] {
+  const normalize = (w: AlignedWord) => w.expected.toLowerCase().replace(/[^a-z0-9']/g, '');
+  const m = fromWords.length;
+  const n = toWords.length;
+  const lcs: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = normalize(fromWords[i]) === normalize(toWords[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: WordDiff[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < m && j < n) {
+    if (normalize(fromWords[i]) === normalize(toWords[j])) {
+      const changed = fromWords[i].status !== toWords[j].status ||
+        fromWords[i].spoken !== toWords[j].spoken;
+      diff.push({ type: changed ? 'changed' : 'same', from: fromWords[i], to: toWords[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: 'removed', from: fromWords[i] });
+      i++;
+    } else {
+      diff.push({ type: 'added', to: toWords[j] });
+      j++;
+    }
+  }
+  while (i < m) diff.push({ type: 'removed', from: fromWords[i++] });
+  while (j < n) diff.push({ type: 'added', to: toWords[j++] });
+
+  return diff;
+}
 
 export default function AssessmentDetailScreen() {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
@@ -36,19 +99,24 @@ export default function AssessmentDetailScreen() {
   const { assessmentId } = route.params;
   const { teacher } = useAuth();
 
+  // Assessments of another classroom (viewed through an organization) are read-only
+  const ownerId = route.params.teacherId ?? teacher?.uid;
+  const readOnly = ownerId !== teacher?.uid;
+
   const [assessment, setAssessment] = useState<Assessment | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<Tab>('summary');
   const [selectedWord, setSelectedWord] = useState<AlignedWord | null>(null);
+  const [overrideWordIndex, setOverrideWordIndex] = useState<number | null>(null);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
 
   const soundRef = useRef<Audio.Sound | null>(null);
   const unsubscribeRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
-    if (teacher?.uid && assessmentId) {
+    if (ownerId && assessmentId) {
       unsubscribeRef.current = subscribeToAssessment(
-        teacher.uid,
+        ownerId,
         assessmentId,
         (data) => {
           setAssessment(data);
@@ -61,7 +129,7 @@ export default function AssessmentDetailScreen() {
       unsubscribeRef.current?.();
       soundRef.current?.unloadAsync();
     };
-  }, [teacher?.uid, assessmentId]);
+  }, [ownerId, assessmentId]);
 
   const playWordAudio = async (word: AlignedWord) => {
     if (!assessment?.audioUrl || word.startTime === 0) return;
@@ -157,7 +225,7 @@ export default function AssessmentDetailScreen() {
       <View style={styles.mainContent}>
         {/* Sidebar */}
         <View style={styles.sidebar}>
-          {(['summary', 'video', 'image', 'patterns'] as Tab[]).map((tab) => (
+          {(['summary', 'video', 'image', 'patterns', 'history'] as Tab[]).map((tab) => (
             <TouchableOpacity
               key={tab}
               style={[styles.sidebarItem, activeTab === tab && styles.sidebarItemActive]}
@@ -171,7 +239,9 @@ export default function AssessmentDetailScreen() {
                     ? 'videocam'
                     : tab === 'image'
                     ? 'image'
-                    : 'pattern'
+                    : tab === 'patterns'
+                    ? 'pattern'
+                    : 'history'
                 }
                 size={24}
                 color={activeTab === tab ? '#4299E1' : '#718096'}
@@ -192,18 +262,36 @@ export default function AssessmentDetailScreen() {
               assessment={assessment}
               selectedWord={selectedWord}
               onSelectWord={setSelectedWord}
+              onOverrideWord={readOnly ? undefined : setOverrideWordIndex}
               getWordStyle={getWordStyle}
             />
           )}
-          {activeTab === 'video' && teacher && (
+          {activeTab === 'video' && ownerId && (
             <VideoTab
               assessment={assessment}
-              teacherId={teacher.uid}
+              teacherId={ownerId}
               assessmentId={assessmentId}
+              readOnly={readOnly}
+            />
+          )}
+          {activeTab === 'image' && ownerId && (
+            <ImageTab
+              assessment={assessment}
+              teacherId={ownerId}
+              assessmentId={assessmentId}
+              readOnly={readOnly}
             />
           )}
-          {activeTab === 'image' && <ImageTab assessment={assessment} />}
           {activeTab === 'patterns' && <PatternsTab assessment={assessment} />}
+          {activeTab === 'history' && ownerId && (
+            <HistoryTab
+              assessment={assessment}
+              teacherId={ownerId}
+              assessmentId={assessmentId}
+              readOnly={readOnly}
+              getWordStyle={getWordStyle}
+            />
+          )}
         </ScrollView>
       </View>
 
@@ -216,6 +304,17 @@ export default function AssessmentDetailScreen() {
           isPlaying={isPlayingAudio}
         />
       )}
+
+      {/* Word Scoring Override */}
+      {teacher && !readOnly && overrideWordIndex !== null && (
+        <WordScoreOverride
+          teacherId={teacher.uid}
+          assessmentId={assessmentId}
+          word={assessment.words?.[overrideWordIndex] || null}
+          wordIndex={overrideWordIndex}
+          onClose={() => setOverrideWordIndex(null)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -224,11 +323,13 @@ function SummaryTab({
   assessment,
   selectedWord,
   onSelectWord,
+  onOverrideWord,
   getWordStyle,
 }: {
   assessment: Assessment;
   selectedWord: AlignedWord | null;
   onSelectWord: (word: AlignedWord | null) => void;
+  onOverrideWord?: (index: number) => void;  // Omitted when read-only
   getWordStyle: (status: AlignedWord['status']) => object;
 }) {
   const metrics = assessment.metrics;
@@ -254,17 +355,31 @@ function SummaryTab({
             {metrics.wordsPerMinute} words per minute with {metrics.accuracy}% accuracy.
             {metrics.prosodyGrade && ` Prosody: ${metrics.prosodyGrade}`}
           </Text>
+          {assessment.passageTitle && (
+            <Text style={styles.passageText}>
+              Passage: {assessment.passageTitle}
+              {assessment.passageMatchConfidence !== undefined &&
+                ` (identified from photo, ${Math.round(assessment.passageMatchConfidence * 100)}% match)`}
+            </Text>
+          )}
+          {assessment.recordingDuration && (
+            <Text style={styles.passageText}>{formatRecordingDuration(assessment.recordingDuration)}</Text>
+          )}
         </View>
       )}
 
       {/* Words */}
       <Text style={styles.sectionTitle}>Word Analysis</Text>
+      {onOverrideWord && (
+        <Text style={styles.overrideHint}>Long-press a word to change its scoring</Text>
+      )}
       <View style={styles.wordsContainer}>
         {words.map((word, index) => (
           <TouchableOpacity
             key={index}
-            style={[styles.word, getWordStyle(word.status)]}
+            style={[styles.word, getWordStyle(word.status), word.isOverridden && styles.wordOverridden]}
             onPress={() => onSelectWord(word)}
+            onLongPress={onOverrideWord ? () => onOverrideWord(index) : undefined}
           >
             <Text style={styles.wordText}>{word.expected}</Text>
           </TouchableOpacity>
@@ -277,6 +392,10 @@ function SummaryTab({
         <LegendItem color="#FEEBC8" label="Misread" />
         <LegendItem color="#FED7D7" label="Substituted" />
         <LegendItem color="#E2E8F0" label="Skipped" />
+        <View style={styles.legendItem}>
+          <View style={[styles.legendColor, styles.wordOverridden]} />
+          <Text style={styles.legendText}>Teacher scored</Text>
+        </View>
       </View>
     </View>
   );
@@ -300,10 +419,11 @@ function LegendItem({ color, label }: { color: string; label: string }) {
   );
 }
 
-function VideoTab({ assessment, teacherId, assessmentId }: {
+function VideoTab({ assessment, teacherId, assessmentId, readOnly }: {
   assessment: Assessment;
   teacherId: string;
   assessmentId: string;
+  readOnly: boolean;
 }) {
   const [videoStatus, setVideoStatus] = useState<'idle' | 'generating' | 'ready' | 'error'>(
     assessment.videoUrl ? 'ready' : 'idle'
@@ -379,6 +499,15 @@ function VideoTab({ assessment, teacherId, assessmentId }: {
     );
   }
 
+  if (readOnly) {
+    return (
+      <View style={styles.tabPlaceholder}>
+        <MaterialIcons name="videocam-off" size={64} color="#A0AEC0" />
+        <Text style={styles.videoSubtext}>The classroom teacher has not generated a video yet</Text>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.videoContainer}>
       <View style={styles.videoPreviewBox}>
@@ -393,16 +522,277 @@ function VideoTab({ assessment, teacherId, assessmentId }: {
   );
 }
 
-function ImageTab({ assessment }: { assessment: Assessment }) {
+/**
+ * Build the editable passage word list for an assessment
+ * Uses saved teacher edits if present, otherwise marks the OCR words that
+ * ended up in the aligned passage as included
+ */
+function buildExpectedWordEdits(assessment: Assessment): ExpectedWordEdit[] {
+  const ocrWords = assessment.ocrWords || [];
+
+  if (assessment.expectedWordEdits && assessment.expectedWordEdits.length === ocrWords.length) {
+    return assessment.expectedWordEdits.map(edit => ({ ...edit }));
+  }
+
+  const alignedBoxes = new Set(
+    (assessment.words || [])
+      .filter(w => w.boundingBox)
+      .map(w => `${w.boundingBox!.x},${w.boundingBox!.y}`)
+  );
+
+  return ocrWords.map((word, index) => ({
+    ocrIndex: index,
+    text: word.text,
+    included: alignedBoxes.has(`${word.boundingBox.x},${word.boundingBox.y}`),
+  }));
+}
+
+function ImageTab({ assessment, teacherId, assessmentId, readOnly }: {
+  assessment: Assessment;
+  teacherId: string;
+  assessmentId: string;
+  readOnly: boolean;
+}) {
+  const ocrWords = assessment.ocrWords || [];
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [imageLoaded, setImageLoaded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [edits, setEdits] = useState<ExpectedWordEdit[]>(() => buildExpectedWordEdits(assessment));
+  const [correctionIndex, setCorrectionIndex] = useState<number | null>(null);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+
+  // Keep the word list in sync with the latest results while not editing
+  useEffect(() => {
+    if (!isEditing) {
+      setEdits(buildExpectedWordEdits(assessment));
+    }
+  }, [assessment.expectedWordEdits, assessment.words, isEditing]);
+
+  // Captured pages in reading order (single-image assessments have no pages array)
+  const pages = assessment.pages?.length
+    ? assessment.pages
+    : assessment.imageUrl
+    ? [{ imageUrl: assessment.imageUrl, imageWidth: assessment.imageWidth, imageHeight: assessment.imageHeight }]
+    : [];
+  const page = pages[Math.min(pageIndex, pages.length - 1)];
+
+  // Original image dimensions from OCR (coordinate space for bounding boxes)
+  const originalWidth = page?.imageWidth || 0;
+  const originalHeight = page?.imageHeight || 0;
+  const aspectRatio = originalWidth > 0 && originalHeight > 0
+    ? originalWidth / originalHeight
+    : 4 / 3;
+  const containerHeight = containerWidth > 0 ? containerWidth / aspectRatio : 500;
+  const scale = containerWidth > 0 && originalWidth > 0 ? containerWidth / originalWidth : 0;
+
+  const includedCount = edits.filter(e => e.included).length;
+
+  if (ocrWords.length === 0) {
+    return (
+      <View style={styles.tabPlaceholder}>
+        <MaterialIcons name="image" size={64} color="#CBD5E0" />
+        <Text style={styles.placeholderText}>
+          {assessment.ocrText
+            ? `Detected ${assessment.ocrText.split(/\s+/).length} words`
+            : 'No image data'
+          }
+        </Text>
+      </View>
+    );
+  }
+
+  const toggleWord = (index: number) => {
+    if (!isEditing) return;
+    setEdits(prev => prev.map((edit, i) => (
+      i === index ? { ...edit, included: !edit.included } : edit
+    )));
+  };
+
+  const updateWordText = (index: number, text: string) => {
+    setEdits(prev => prev.map((edit, i) => (i === index ? { ...edit, text } : edit)));
+  };
+
+  const cancelEditing = () => {
+    setIsEditing(false);
+    setCorrectionIndex(null);
+    setErrorMessage(null);
+    setEdits(buildExpectedWordEdits(assessment));
+  };
+
+  const reanalyze = async () => {
+    setIsReanalyzing(true);
+    setErrorMessage(null);
+
+    try {
+      const functions = getFunctions();
+      const reanalyzeAssessment = httpsCallable(functions, 'reanalyzeAssessment');
+      const result = await reanalyzeAssessment({ teacherId, assessmentId, expectedWords: edits });
+      const { droppedOverrides } = result.data as { droppedOverrides?: Array<{ expected: string }> };
+
+      setIsEditing(false);
+      setCorrectionIndex(null);
+
+      if (droppedOverrides && droppedOverrides.length > 0) {
+        Alert.alert(
+          'Rescoring Not Kept',
+          `The corrected passage changed how ${droppedOverrides.length === 1 ? 'this word was' : 'these words were'} ` +
+          `matched, so your scoring was replaced by the automatic scoring: ` +
+          `${droppedOverrides.map(override => `"${override.expected}"`).join(', ')}. ` +
+          'Earlier revisions still have it.'
+        );
+      }
+    } catch (error: any) {
+      console.error('Re-analysis failed:', error);
+      setErrorMessage(error.message || 'Failed to re-analyze assessment');
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  const changePage = (index: number) => {
+    setImageLoaded(false);
+    setPageIndex(index);
+  };
+
+  const correction = correctionIndex !== null ? edits[correctionIndex] : null;
+
   return (
-    <View style={styles.tabPlaceholder}>
-      <MaterialIcons name="image" size={64} color="#CBD5E0" />
-      <Text style={styles.placeholderText}>
-        {assessment.ocrText
-          ? `Detected ${assessment.ocrText.split(/\s+/).length} words`
-          : 'No image data'
-        }
-      </Text>
+    <View style={styles.imageTabContainer}>
+      {/* Edit toolbar */}
+      <View style={styles.imageToolbar}>
+        <Text style={styles.imageToolbarText}>
+          {includedCount} of {ocrWords.length} words in passage
+          {assessment.revision ? ` · Revision ${assessment.revision}` : ''}
+        </Text>
+        {isEditing ? (
+          <View style={styles.imageToolbarButtons}>
+            <TouchableOpacity style={styles.cancelEditButton} onPress={cancelEditing} disabled={isReanalyzing}>
+              <Text style={styles.cancelEditButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.reanalyzeButton, (isReanalyzing || includedCount === 0) && styles.buttonDisabled]}
+              onPress={reanalyze}
+              disabled={isReanalyzing || includedCount === 0}
+            >
+              {isReanalyzing ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <MaterialIcons name="refresh" size={20} color="#FFFFFF" />
+                  <Text style={styles.reanalyzeButtonText}>Re-analyze</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : readOnly ? null : (
+          <TouchableOpacity style={styles.editPassageButton} onPress={() => setIsEditing(true)}>
+            <MaterialIcons name="edit" size={20} color="#4299E1" />
+            <Text style={styles.editPassageButtonText}>Edit Passage</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {isEditing && (
+        <Text style={styles.imageEditHint}>
+          Tap a word to include or exclude it. Long-press a word to correct its text.
+        </Text>
+      )}
+
+      {errorMessage && <Text style={styles.imageEditError}>{errorMessage}</Text>}
+
+      {/* Text correction panel */}
+      {isEditing && correction && correctionIndex !== null && (
+        <View style={styles.correctionPanel}>
+          <Text style={styles.correctionLabel}>
+            OCR read: "{ocrWords[correctionIndex].text}"
+          </Text>
+          <TextInput
+            style={styles.correctionInput}
+            value={correction.text}
+            onChangeText={(text) => updateWordText(correctionIndex, text)}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus={true}
+          />
+          <TouchableOpacity style={styles.correctionDoneButton} onPress={() => setCorrectionIndex(null)}>
+            <Text style={styles.correctionDoneText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {page && originalWidth > 0 && pages.length > 1 && (
+        <View style={styles.imagePager}>
+          <TouchableOpacity onPress={() => changePage(pageIndex - 1)} disabled={pageIndex === 0}>
+            <MaterialIcons name="chevron-left" size={28} color={pageIndex === 0 ? '#CBD5E0' : '#4299E1'} />
+          </TouchableOpacity>
+          <Text style={styles.imagePagerText}>Page {pageIndex + 1} of {pages.length}</Text>
+          <TouchableOpacity onPress={() => changePage(pageIndex + 1)} disabled={pageIndex === pages.length - 1}>
+            <MaterialIcons name="chevron-right" size={28} color={pageIndex === pages.length - 1 ? '#CBD5E0' : '#4299E1'} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {page && originalWidth > 0 ? (
+        <View
+          style={[styles.imageDisplayContainer, { height: containerHeight }]}
+          onLayout={(e) => setContainerWidth(e.nativeEvent.layout.width)}
+        >
+          <Image
+            key={page.imageUrl}
+            source={{ uri: page.imageUrl }}
+            style={styles.imageFill}
+            resizeMode="stretch"
+            onLoad={() => setImageLoaded(true)}
+          />
+
+          {/* Word overlays - tap to toggle, long-press to correct */}
+          {imageLoaded && scale > 0 && ocrWords.map((word, index) => {
+            if ((word.page ?? 0) !== pageIndex) return null;
+            const edit = edits[index];
+            const box = word.boundingBox;
+            return (
+              <TouchableOpacity
+                key={index}
+                style={[
+                  styles.wordOverlay,
+                  edit?.included ? styles.wordOverlayIncluded : styles.wordOverlayExcluded,
+                  correctionIndex === index && styles.wordOverlaySelected,
+                  {
+                    left: box.x * scale,
+                    top: box.y * scale,
+                    width: box.width * scale,
+                    height: box.height * scale,
+                  },
+                ]}
+                onPress={() => toggleWord(index)}
+                onLongPress={() => isEditing && setCorrectionIndex(index)}
+                disabled={!isEditing}
+              />
+            );
+          })}
+        </View>
+      ) : (
+        // Image has expired or a chosen library passage has no word positions - edit as a word list
+        <View style={styles.wordsContainer}>
+          {edits.map((edit, index) => (
+            <TouchableOpacity
+              key={index}
+              style={[
+                styles.word,
+                edit.included ? styles.wordCorrect : styles.wordSkipped,
+                !edit.included && styles.wordExcluded,
+              ]}
+              onPress={() => toggleWord(index)}
+              onLongPress={() => isEditing && setCorrectionIndex(index)}
+              disabled={!isEditing}
+            >
+              <Text style={styles.wordText}>{edit.text}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
     </View>
   );
 }
@@ -441,6 +831,203 @@ function PatternsTab({ assessment }: { assessment: Assessment }) {
   );
 }
 
+const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  pipeline: 'Original analysis',
+  reanalysis: 'Re-analysis',
+  restore: 'Restored',
+  override: 'Rescored',
+};
+
+function HistoryTab({ assessment, teacherId, assessmentId, readOnly, getWordStyle }: {
+  assessment: Assessment;
+  teacherId: string;
+  assessmentId: string;
+  readOnly: boolean;
+  getWordStyle: (status: AlignedWord['status']) => object;
+}) {
+  const [revisions, setRevisions] = useState<AssessmentRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToRevisions(teacherId, assessmentId, (data) => {
+      setRevisions(data);
+      setIsLoading(false);
+    });
+    return () => unsubscribe();
+  }, [teacherId, assessmentId]);
+
+  // Default comparison: latest revision against the one before it
+  useEffect(() => {
+    if (selected.length === 0 && revisions.length >= 2) {
+      setSelected([revisions[1].revision, revisions[0].revision]);
+    }
+  }, [revisions]);
+
+  const toggleSelected = (revision: number) => {
+    setSelected(prev => {
+      if (prev.includes(revision)) return prev.filter(r => r !== revision);
+      return [...prev, revision].slice(-2);
+    });
+  };
+
+  const restoreRevision = (revision: AssessmentRevision) => {
+    Alert.alert(
+      'Restore Revision',
+      `Restore revision ${revision.revision}? The current results will stay in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setRestoringRevision(revision.revision);
+            try {
+              const functions = getFunctions();
+              const restoreAssessmentRevision = httpsCallable(functions, 'restoreAssessmentRevision');
+              await restoreAssessmentRevision({ teacherId, assessmentId, revision: revision.revision });
+            } catch (error: any) {
+              console.error('Revision restore failed:', error);
+              Alert.alert('Error', error.message || 'Failed to restore revision');
+            } finally {
+              setRestoringRevision(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.tabPlaceholder}>
+        <ActivityIndicator size="large" color="#4299E1" />
+      </View>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <View style={styles.tabPlaceholder}>
+        <MaterialIcons name="history" size={64} color="#CBD5E0" />
+        <Text style={styles.placeholderText}>No revisions recorded yet</Text>
+      </View>
+    );
+  }
+
+  const [fromNumber, toNumber] = [...selected].sort((a, b) => a - b);
+  const fromRevision = revisions.find(r => r.revision === fromNumber);
+  const toRevision = revisions.find(r => r.revision === toNumber);
+  const diff = fromRevision && toRevision
+    ? diffRevisionWords(fromRevision.words, toRevision.words)
+    : [];
+  const changeCount = diff.filter(d => d.type !== 'same').length;
+
+  const formatDelta = (from?: number, to?: number, suffix = '') => {
+    const delta = (to || 0) - (from || 0);
+    return `${to || 0}${suffix} (${delta >= 0 ? '+' : ''}${delta})`;
+  };
+
+  return (
+    <View style={styles.historyContainer}>
+      <Text style={styles.sectionTitle}>Revisions</Text>
+      <Text style={styles.historyHint}>Select two revisions to compare them word by word</Text>
+
+      {revisions.map((revision) => {
+        const isCurrent = revision.revision === (assessment.revision ?? 0);
+        const isSelected = selected.includes(revision.revision);
+        return (
+          <TouchableOpacity
+            key={revision.revision}
+            style={[styles.revisionCard, isSelected && styles.revisionCardSelected]}
+            onPress={() => toggleSelected(revision.revision)}
+          >
+            <View style={styles.revisionHeader}>
+              <Text style={styles.revisionTitle}>
+                Revision {revision.revision} · {REVISION_SOURCE_LABELS[revision.source] || revision.source}
+              </Text>
+              {isCurrent ? (
+                <View style={styles.currentBadge}>
+                  <Text style={styles.currentBadgeText}>Current</Text>
+                </View>
+              ) : readOnly ? null : (
+                <TouchableOpacity
+                  style={styles.restoreButton}
+                  onPress={() => restoreRevision(revision)}
+                  disabled={restoringRevision !== null}
+                >
+                  {restoringRevision === revision.revision ? (
+                    <ActivityIndicator size="small" color="#4299E1" />
+                  ) : (
+                    <Text style={styles.restoreButtonText}>Restore</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.revisionReason}>{revision.reason}</Text>
+            <Text style={styles.revisionMeta}>
+              {revision.createdAt.toLocaleString()}
+              {revision.editorUid ? (revision.editorUid === teacherId ? (readOnly ? ' · by the teacher' : ' · by you') : ` · by ${revision.editorUid}`) : ' · automated'}
+              {revision.metrics ? ` · ${revision.metrics.accuracy}% accuracy, ${revision.metrics.wordsPerMinute} WPM` : ''}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {fromRevision && toRevision && (
+        <View style={styles.diffContainer}>
+          <Text style={styles.sectionTitle}>
+            Revision {fromRevision.revision} → {toRevision.revision}
+          </Text>
+
+          <View style={styles.diffMetricsRow}>
+            <Text style={styles.diffMetric}>
+              Accuracy: {formatDelta(fromRevision.metrics?.accuracy, toRevision.metrics?.accuracy, '%')}
+            </Text>
+            <Text style={styles.diffMetric}>
+              WPM: {formatDelta(fromRevision.metrics?.wordsPerMinute, toRevision.metrics?.wordsPerMinute)}
+            </Text>
+            <Text style={styles.diffMetric}>
+              Errors: {formatDelta(fromRevision.metrics?.errorCount, toRevision.metrics?.errorCount)}
+            </Text>
+          </View>
+
+          <Text style={styles.historyHint}>
+            {changeCount === 0 ? 'No word changes' : `${changeCount} word${changeCount === 1 ? '' : 's'} changed`}
+          </Text>
+
+          <View style={styles.wordsContainer}>
+            {diff.map((entry, index) => {
+              const word = entry.to || entry.from!;
+              return (
+                <View
+                  key={index}
+                  style={[
+                    styles.word,
+                    getWordStyle(word.status),
+                    entry.type === 'changed' && styles.diffChanged,
+                    entry.type === 'added' && styles.diffAdded,
+                    entry.type === 'removed' && styles.diffRemoved,
+                  ]}
+                >
+                  <Text style={[styles.wordText, entry.type === 'removed' && styles.diffRemovedText]}>
+                    {word.expected}
+                  </Text>
+                  {entry.type === 'changed' && entry.from && entry.to && (
+                    <Text style={styles.diffStatusText}>
+                      {entry.from.status} → {entry.to.status}
+                    </Text>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
 function WordPopup({ word, onClose, onPlayAudio, isPlaying }: {
   word: AlignedWord;
   onClose: () => void;
@@ -620,6 +1207,11 @@ const styles = StyleSheet.create({
     color: '#2C5282',
     lineHeight: 24,
   },
+  passageText: {
+    fontSize: 14,
+    color: '#4A5568',
+    marginTop: 8,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -655,6 +1247,17 @@ const styles = StyleSheet.create({
   wordSkipped: {
     backgroundColor: '#E2E8F0',
   },
+  wordOverridden: {
+    borderWidth: 2,
+    borderColor: '#805AD5',
+    borderStyle: 'dashed',
+  },
+  overrideHint: {
+    fontSize: 13,
+    color: '#A0AEC0',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   legend: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -779,6 +1382,249 @@ const styles = StyleSheet.create({
     color: '#718096',
     textAlign: 'center',
   },
+  // Image tab styles
+  imageTabContainer: {
+    gap: 16,
+  },
+  imageToolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 12,
+  },
+  imageToolbarText: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  imageToolbarButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  editPassageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  editPassageButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#4299E1',
+  },
+  cancelEditButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  cancelEditButtonText: {
+    fontSize: 15,
+    color: '#718096',
+  },
+  reanalyzeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#4299E1',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    minWidth: 120,
+    justifyContent: 'center',
+  },
+  reanalyzeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  imageEditHint: {
+    fontSize: 14,
+    color: '#718096',
+    textAlign: 'center',
+  },
+  imageEditError: {
+    fontSize: 14,
+    color: '#E53E3E',
+    textAlign: 'center',
+  },
+  correctionPanel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#4299E1',
+  },
+  correctionLabel: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  correctionInput: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  correctionDoneButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  correctionDoneText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4299E1',
+  },
+  imagePager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  imagePagerText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  imageDisplayContainer: {
+    width: '100%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  imageFill: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: '100%',
+    height: '100%',
+  },
+  wordOverlay: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: 4,
+    zIndex: 10,
+  },
+  wordOverlayIncluded: {
+    borderColor: '#22C55E',
+    backgroundColor: 'rgba(34, 197, 94, 0.2)',
+  },
+  wordOverlayExcluded: {
+    borderColor: 'rgba(160, 174, 192, 0.8)',
+    backgroundColor: 'rgba(160, 174, 192, 0.15)',
+  },
+  wordOverlaySelected: {
+    borderColor: '#4299E1',
+    borderWidth: 3,
+  },
+  wordExcluded: {
+    opacity: 0.5,
+  },
+  // History tab styles
+  historyContainer: {
+    gap: 12,
+  },
+  historyHint: {
+    fontSize: 14,
+    color: '#718096',
+  },
+  revisionCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  revisionCardSelected: {
+    borderColor: '#4299E1',
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  revisionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  revisionReason: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  revisionMeta: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 4,
+  },
+  currentBadge: {
+    backgroundColor: '#48BB78',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  currentBadgeText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+  restoreButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4299E1',
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4299E1',
+  },
+  diffContainer: {
+    gap: 12,
+    marginTop: 12,
+  },
+  diffMetricsRow: {
+    flexDirection: 'row',
+    gap: 24,
+  },
+  diffMetric: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2D3748',
+  },
+  diffChanged: {
+    borderWidth: 2,
+    borderColor: '#4299E1',
+  },
+  diffAdded: {
+    borderWidth: 2,
+    borderColor: '#48BB78',
+    borderStyle: 'dashed',
+  },
+  diffRemoved: {
+    opacity: 0.5,
+  },
+  diffRemovedText: {
+    textDecorationLine: 'line-through',
+  },
+  diffStatusText: {
+    fontSize: 10,
+    color: '#4A5568',
+    textAlign: 'center',
+  },
   // Video tab styles
   videoSubtext: {
     fontSize: 14,
@@ -0,0 +1,956 @@
+/**
+ * Celeration Chart Screen
+ * Standard Celeration Chart (semi-log, daily) of a student's correct and error
+ * rates with per-phase celeration lines, computed by the getStudentProgress function
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+  Linking,
+  Platform,
+  LayoutChangeEvent,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { useAuth } from '../hooks/useAuth';
+import { StudentProgress, CelerationLine } from '../types';
+import { addPhaseChange, setStudentAim, subscribeToStudentProgress, deleteStudent } from '../services/studentService';
+
+import type { RootStackParamList } from '../navigation/AppNavigator';
+
+type CelerationChartRouteProp = RouteProp<RootStackParamList, 'CelerationChart'>;
+
+// Standard daily chart: 0.001 to 1000 counts per minute over 140 calendar days
+const Y_MIN = 0.001;
+const Y_MAX = 1000;
+const CHART_DAYS = 140;
+const CHART_HEIGHT = 420;
+const AXIS_WIDTH = 56;
+const LABEL_SPACE = 40;  // Room right of the plot for celeration labels
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const CORRECT_COLOR = '#48BB78';
+const ERROR_COLOR = '#E53E3E';
+const PHASE_COLOR = '#805AD5';
+const AIM_COLOR = '#D69E2E';
+
+function formatMultiplier(value: number | null | undefined): string {
+  if (!value || !isFinite(value)) return 'N/A';
+  return value >= 1 ? `×${value.toFixed(2)}` : `÷${(1 / value).toFixed(2)}`;
+}
+
+function formatRate(value: number): string {
+  return value >= 10 ? Math.round(value).toString() : value.toFixed(1);
+}
+
+function formatIsoDate(isoDate: string): string {
+  return new Date(`${isoDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function valueToY(value: number): number {
+  const clamped = Math.max(Y_MIN, Math.min(Y_MAX, value));
+  const logMin = Math.log10(Y_MIN);
+  const logMax = Math.log10(Y_MAX);
+  return CHART_HEIGHT * (1 - (Math.log10(clamped) - logMin) / (logMax - logMin));
+}
+
+export default function CelerationChartScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<CelerationChartRouteProp>();
+  const { studentId, studentName } = route.params;
+  const { teacher } = useAuth();
+
+  const [progress, setProgress] = useState<StudentProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [plotWidth, setPlotWidth] = useState(0);
+  const [page, setPage] = useState<number | null>(null);
+  const [activeForm, setActiveForm] = useState<'phase' | 'aim' | null>(null);
+  const [phaseLabel, setPhaseLabel] = useState('');
+  const [aimCorrect, setAimCorrect] = useState('');
+  const [aimErrors, setAimErrors] = useState('');
+  const [aimWeeks, setAimWeeks] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (teacher?.uid) {
+      unsubscribeRef.current = subscribeToStudentProgress(
+        teacher.uid,
+        studentId,
+        (data) => {
+          setProgress(data);
+          if (data) setIsLoading(false);
+        }
+      );
+      // Recompute on open so students charted before progress was stored get a document
+      refreshProgress().finally(() => setIsLoading(false));
+    }
+
+    return () => {
+      unsubscribeRef.current?.();
+    };
+  }, [teacher?.uid, studentId]);
+
+  const refreshProgress = async () => {
+    try {
+      const functions = getFunctions();
+      const getStudentProgress = httpsCallable(functions, 'getStudentProgress');
+      await getStudentProgress({ teacherId: teacher?.uid, studentId });
+    } catch (error) {
+      console.error('Failed to refresh progress:', error);
+    }
+  };
+
+  const handleSavePhase = async () => {
+    if (!teacher?.uid || !phaseLabel.trim()) return;
+    setIsSaving(true);
+    try {
+      await addPhaseChange(teacher.uid, studentId, { date: new Date(), label: phaseLabel.trim() });
+      await refreshProgress();
+      setPhaseLabel('');
+      setActiveForm(null);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add phase change');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAim = async () => {
+    const correctPerMinute = parseFloat(aimCorrect);
+    const weeks = parseInt(aimWeeks, 10);
+    if (!teacher?.uid || !(correctPerMinute > 0) || !(weeks > 0)) return;
+
+    setIsSaving(true);
+    try {
+      const errorsPerMinute = aimErrors.trim() ? parseFloat(aimErrors) : null;
+      await setStudentAim(teacher.uid, studentId, {
+        correctPerMinute,
+        errorsPerMinute: errorsPerMinute !== null && isFinite(errorsPerMinute) ? errorsPerMinute : null,
+        date: new Date(Date.now() + weeks * 7 * MS_PER_DAY),
+      });
+      await refreshProgress();
+      setActiveForm(null);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to set aim');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!teacher?.uid) return;
+    setIsExporting(true);
+    try {
+      const functions = getFunctions();
+      const exportSccDataset = httpsCallable(functions, 'exportSccDataset');
+      const result = await exportSccDataset({ teacherId: teacher.uid, studentId });
+      const data = result.data as { fileName: string; url: string; assessmentCount: number };
+
+      if (Platform.OS === 'web') {
+        window.open(data.url, '_blank');
+      } else {
+        await Linking.openURL(data.url);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export chart data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDeleteStudent = () => {
+    Alert.alert(
+      'Delete Student',
+      `Permanently delete ${studentName} with every assessment, recording, image and report? ` +
+      'This cannot be undone. A deletion certificate is added to the deletion log.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (!teacher?.uid) return;
+            setIsDeleting(true);
+            try {
+              unsubscribeRef.current?.();
+              const certificate = await deleteStudent(teacher.uid, studentId);
+              Alert.alert(
+                'Student Deleted',
+                `${certificate.assessmentIds.length} assessment(s) and ${certificate.filesDeleted} file(s) ` +
+                `were deleted. Certificate ${certificate.certificateId}`
+              );
+              navigation.replace('DeletionLog');
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete student');
+              setIsDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleChartLayout = (event: LayoutChangeEvent) => {
+    setPlotWidth(event.nativeEvent.layout.width - AXIS_WIDTH - LABEL_SPACE);
+  };
+
+  const points = progress?.points || [];
+  const phases = progress?.phases || [];
+  const chartStart = progress ? Date.parse(`${progress.chartStart}T00:00:00Z`) : Date.now();
+  const isoToDay = (isoDate: string) => Math.round((Date.parse(`${isoDate}T00:00:00Z`) - chartStart) / MS_PER_DAY);
+
+  const lastDay = points.length > 0 ? points[points.length - 1].day : 0;
+  const pageCount = Math.floor(lastDay / CHART_DAYS) + 1;
+  const currentPage = Math.min(page ?? pageCount - 1, pageCount - 1);
+  const pageStartDay = currentPage * CHART_DAYS;
+  const pageEndDay = pageStartDay + CHART_DAYS;
+
+  const dayToX = (day: number) => ((day - pageStartDay) / CHART_DAYS) * plotWidth;
+  const pagePoints = points.filter(p => p.day >= pageStartDay && p.day <= pageEndDay);
+  const aimDay = progress?.aim ? isoToDay(progress.aim.date) : null;
+
+  const formatDay = (day: number) =>
+    new Date(chartStart + day * MS_PER_DAY).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  const renderCelerationLine = (line: CelerationLine | null, color: string, key: string) => {
+    if (!line) return null;
+    const lineStart = isoToDay(line.startDate);
+    const lineEnd = isoToDay(line.endDate);
+    const startDay = Math.max(lineStart, pageStartDay);
+    const endDay = Math.min(lineEnd, pageEndDay);
+    if (endDay <= startDay) return null;
+
+    // Interpolate in log space so lines crossing a page edge stay on the fitted trend
+    const valueAt = (day: number) => {
+      const fraction = (day - lineStart) / (lineEnd - lineStart);
+      return Math.pow(10, Math.log10(line.startValue) + fraction * (Math.log10(line.endValue) - Math.log10(line.startValue)));
+    };
+
+    const x2 = dayToX(endDay);
+    const y2 = valueToY(valueAt(endDay));
+
+    return (
+      <React.Fragment key={key}>
+        <ChartSegment x1={dayToX(startDay)} y1={valueToY(valueAt(startDay))} x2={x2} y2={y2} color={color} />
+        <Text style={[styles.celerationLabel, { left: x2 + 4, top: y2 - 8, color }]}>
+          {formatMultiplier(line.celeration)}
+        </Text>
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#4A5568" />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{studentName}'s Progress</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.phaseButton}
+            onPress={() => setActiveForm(activeForm === 'aim' ? null : 'aim')}
+          >
+            <MaterialIcons name="star-outline" size={20} color={AIM_COLOR} />
+            <Text style={[styles.phaseButtonText, { color: AIM_COLOR }]}>Aim</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.phaseButton}
+            onPress={() => setActiveForm(activeForm === 'phase' ? null : 'phase')}
+          >
+            <MaterialIcons name="vertical-split" size={20} color={PHASE_COLOR} />
+            <Text style={styles.phaseButtonText}>Phase Change</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.phaseButton}
+            onPress={handleExport}
+            disabled={isExporting || !progress?.assessmentCount}
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color="#4299E1" />
+            ) : (
+              <MaterialIcons name="file-download" size={20} color="#4299E1" />
+            )}
+            <Text style={[styles.phaseButtonText, { color: '#4299E1' }]}>Export</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.phaseButton}
+            onPress={handleDeleteStudent}
+            disabled={isDeleting}
+          >
+            {isDeleting ? (
+              <ActivityIndicator size="small" color="#E53E3E" />
+            ) : (
+              <MaterialIcons name="delete-forever" size={20} color="#E53E3E" />
+            )}
+            <Text style={[styles.phaseButtonText, { color: '#E53E3E' }]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4299E1" />
+          <Text style={styles.loadingText}>Loading chart...</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Add Phase Change */}
+          {activeForm === 'phase' && (
+            <View style={styles.phaseForm}>
+              <Text style={styles.phaseFormLabel}>New phase starting today</Text>
+              <TextInput
+                style={styles.phaseInput}
+                value={phaseLabel}
+                onChangeText={setPhaseLabel}
+                placeholder="e.g., Repeated reading"
+                autoFocus={true}
+              />
+              <TouchableOpacity
+                style={[styles.phaseSaveButton, !phaseLabel.trim() && styles.buttonDisabled]}
+                onPress={handleSavePhase}
+                disabled={!phaseLabel.trim() || isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.phaseSaveButtonText}>Add</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Set Aim */}
+          {activeForm === 'aim' && (
+            <View style={styles.phaseForm}>
+              <TextInput
+                style={styles.aimInput}
+                value={aimCorrect}
+                onChangeText={setAimCorrect}
+                placeholder="Correct/min"
+                keyboardType="decimal-pad"
+                autoFocus={true}
+              />
+              <TextInput
+                style={styles.aimInput}
+                value={aimErrors}
+                onChangeText={setAimErrors}
+                placeholder="Errors/min (optional)"
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={styles.aimInput}
+                value={aimWeeks}
+                onChangeText={setAimWeeks}
+                placeholder="In how many weeks"
+                keyboardType="number-pad"
+              />
+              <TouchableOpacity
+                style={[styles.phaseSaveButton, { backgroundColor: AIM_COLOR }, (!aimCorrect || !aimWeeks) && styles.buttonDisabled]}
+                onPress={handleSaveAim}
+                disabled={!aimCorrect || !aimWeeks || isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.phaseSaveButtonText}>Set Aim</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {points.length === 0 ? (
+            <View style={styles.emptyState}>
+              <MaterialIcons name="show-chart" size={80} color="#CBD5E0" />
+              <Text style={styles.emptyTitle}>No Completed Assessments</Text>
+              <Text style={styles.emptySubtitle}>
+                Completed assessments for {studentName} will be charted here
+              </Text>
+            </View>
+          ) : (
+            <>
+              {/* Page Navigation */}
+              <View style={styles.chartToolbar}>
+                <TouchableOpacity
+                  onPress={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                >
+                  <MaterialIcons name="chevron-left" size={28} color={currentPage === 0 ? '#CBD5E0' : '#4A5568'} />
+                </TouchableOpacity>
+                <Text style={styles.chartRange}>
+                  {formatDay(pageStartDay)} – {formatDay(pageEndDay)} · Successive calendar days
+                </Text>
+                <TouchableOpacity
+                  onPress={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= pageCount - 1}
+                >
+                  <MaterialIcons name="chevron-right" size={28} color={currentPage >= pageCount - 1 ? '#CBD5E0' : '#4A5568'} />
+                </TouchableOpacity>
+              </View>
+
+              {/* Chart */}
+              <View style={styles.chartCard} onLayout={handleChartLayout}>
+                <View style={styles.chartRow}>
+                  {/* Y Axis */}
+                  <View style={styles.yAxis}>
+                    {[1000, 100, 10, 1, 0.1, 0.01, 0.001].map(value => (
+                      <Text key={value} style={[styles.yAxisLabel, { top: valueToY(value) - 7 }]}>
+                        {value}
+                      </Text>
+                    ))}
+                  </View>
+
+                  {/* Plot Area */}
+                  {plotWidth > 0 && (
+                    <View style={[styles.plotArea, { width: plotWidth }]}>
+                      {/* Horizontal grid (log cycles) */}
+                      {[-3, -2, -1, 0, 1, 2].map(exponent =>
+                        [1, 2, 3, 4, 5, 6, 7, 8, 9].map(multiple => (
+                          <View
+                            key={`h-${exponent}-${multiple}`}
+                            style={[
+                              styles.gridLineHorizontal,
+                              multiple === 1 && styles.gridLineMajor,
+                              { top: valueToY(multiple * Math.pow(10, exponent)) },
+                            ]}
+                          />
+                        ))
+                      )}
+
+                      {/* Vertical grid (days, Sundays bold) */}
+                      {Array.from({ length: CHART_DAYS + 1 }, (_, i) => (
+                        <View
+                          key={`v-${i}`}
+                          style={[
+                            styles.gridLineVertical,
+                            i % 7 === 0 && styles.gridLineMajor,
+                            { left: (i / CHART_DAYS) * plotWidth },
+                          ]}
+                        />
+                      ))}
+
+                      {/* Phase change lines */}
+                      {phases.map((phase, index) => {
+                        if (!phase.startDate) return null;
+                        const day = isoToDay(phase.startDate);
+                        if (day < pageStartDay || day > pageEndDay) return null;
+                        return (
+                          <View key={`phase-${index}`} style={[styles.phaseLine, { left: dayToX(day) - 0.5 }]}>
+                            <Text style={styles.phaseLineLabel} numberOfLines={1}>{phase.label}</Text>
+                          </View>
+                        );
+                      })}
+
+                      {/* Celeration lines */}
+                      {phases.map((phase, index) => [
+                        renderCelerationLine(phase.correct, CORRECT_COLOR, `c-${index}`),
+                        renderCelerationLine(phase.errors, ERROR_COLOR, `e-${index}`),
+                      ])}
+
+                      {/* Aim star */}
+                      {progress?.aim && aimDay !== null && aimDay >= pageStartDay && aimDay <= pageEndDay && (
+                        <Text style={[styles.aimStar, { left: dayToX(aimDay) - 10, top: valueToY(progress.aim.correctPerMinute) - 12 }]}>
+                          ★
+                        </Text>
+                      )}
+
+                      {/* Data points - tap to open the assessment */}
+                      {pagePoints.map(point => (
+                        <React.Fragment key={point.assessmentId}>
+                          <TouchableOpacity
+                            style={[styles.marker, { left: dayToX(point.day) - 8, top: valueToY(point.correctPerMinute) - 8 }]}
+                            onPress={() => navigation.navigate('AssessmentDetail', { assessmentId: point.assessmentId })}
+                            hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                          >
+                            <View style={styles.correctDot} />
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={[styles.marker, { left: dayToX(point.day) - 8, top: valueToY(point.errorsPerMinute) - 8 }]}
+                            onPress={() => navigation.navigate('AssessmentDetail', { assessmentId: point.assessmentId })}
+                            hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                          >
+                            <Text style={styles.errorMark}>×</Text>
+                          </TouchableOpacity>
+                        </React.Fragment>
+                      ))}
+                    </View>
+                  )}
+                </View>
+
+                {/* X Axis */}
+                {plotWidth > 0 && (
+                  <View style={[styles.xAxis, { marginLeft: AXIS_WIDTH, width: plotWidth }]}>
+                    {Array.from({ length: CHART_DAYS / 14 + 1 }, (_, i) => i * 14).map(day => (
+                      <Text key={day} style={[styles.xAxisLabel, { left: (day / CHART_DAYS) * plotWidth - 12 }]}>
+                        {pageStartDay + day}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+                <Text style={styles.axisTitle}>Count per minute (y) · Successive calendar days (x)</Text>
+              </View>
+
+              {/* Legend */}
+              <View style={styles.legend}>
+                <View style={styles.legendItem}>
+                  <View style={styles.correctDot} />
+                  <Text style={styles.legendText}>Correct per minute</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <Text style={styles.errorMark}>×</Text>
+                  <Text style={styles.legendText}>Errors per minute</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendLine, { borderTopColor: CORRECT_COLOR }]} />
+                  <Text style={styles.legendText}>Celeration (per week)</Text>
+                </View>
+                <Text style={styles.legendHint}>Tap a point to open the assessment</Text>
+              </View>
+
+              {/* Aim */}
+              {progress?.aim && (
+                <View style={styles.phaseCard}>
+                  <View style={styles.phaseCardHeader}>
+                    <Text style={styles.phaseCardTitle}>
+                      <Text style={{ color: AIM_COLOR }}>★ </Text>
+                      Aim: {formatRate(progress.aim.correctPerMinute)} correct/min
+                      {progress.aim.errorsPerMinute !== null ? `, ≤${formatRate(progress.aim.errorsPerMinute)} errors/min` : ''}
+                    </Text>
+                    <Text style={styles.phaseCardMeta}>by {formatIsoDate(progress.aim.date)}</Text>
+                  </View>
+                  <Text style={styles.aimStatus}>
+                    {progress.aim.attained && progress.aim.attainedDate
+                      ? `Attained on ${formatIsoDate(progress.aim.attainedDate)}`
+                      : progress.aim.projectedDate
+                      ? `Not yet attained · current celeration reaches it around ${formatIsoDate(progress.aim.projectedDate)}`
+                      : 'Not yet attained · current trend does not reach the aim'}
+                  </Text>
+                </View>
+              )}
+
+              {/* Phase Summary */}
+              <Text style={styles.sectionTitle}>Celeration by Phase</Text>
+              {phases.filter(phase => phase.assessmentCount > 0).map((phase, index) => (
+                <View key={`${phase.label}-${index}`} style={styles.phaseCard}>
+                  <View style={styles.phaseCardHeader}>
+                    <Text style={styles.phaseCardTitle}>{phase.label}</Text>
+                    <Text style={styles.phaseCardMeta}>
+                      {phase.assessmentCount} assessment{phase.assessmentCount === 1 ? '' : 's'}
+                      {phase.startDate ? ` · from ${formatIsoDate(phase.startDate)}` : ''}
+                    </Text>
+                  </View>
+                  <View style={styles.phaseMetricsRow}>
+                    <View style={styles.phaseMetric}>
+                      <Text style={[styles.phaseMetricValue, { color: CORRECT_COLOR }]}>
+                        {formatMultiplier(phase.correct?.celeration)}
+                      </Text>
+                      <Text style={styles.phaseMetricLabel}>Correct celeration</Text>
+                    </View>
+                    <View style={styles.phaseMetric}>
+                      <Text style={[styles.phaseMetricValue, { color: ERROR_COLOR }]}>
+                        {formatMultiplier(phase.errors?.celeration)}
+                      </Text>
+                      <Text style={styles.phaseMetricLabel}>Error celeration</Text>
+                    </View>
+                    <View style={styles.phaseMetric}>
+                      <Text style={styles.phaseMetricValue}>{formatMultiplier(phase.correct?.bounce)}</Text>
+                      <Text style={styles.phaseMetricLabel}>Correct bounce</Text>
+                    </View>
+                    {phase.startDate && (
+                      <View style={styles.phaseMetric}>
+                        <Text style={styles.phaseMetricValue}>
+                          {formatMultiplier(phase.frequencyMultiplier.correct)}
+                        </Text>
+                        <Text style={styles.phaseMetricLabel}>Frequency jump</Text>
+                      </View>
+                    )}
+                  </View>
+                </View>
+              ))}
+
+              {progress?.latest && (
+                <Text style={styles.legendHint}>
+                  Latest: {formatRate(progress.latest.correctPerMinute)} correct/min,{' '}
+                  {formatRate(progress.latest.errorsPerMinute)} errors/min on {formatIsoDate(progress.latest.date)}
+                </Text>
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Straight line between two chart coordinates, drawn as a rotated view
+function ChartSegment({ x1, y1, x2, y2, color }: {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+}) {
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+
+  return (
+    <View
+      style={[
+        styles.segment,
+        {
+          left: (x1 + x2) / 2 - length / 2,
+          top: (y1 + y2) / 2 - 1,
+          width: length,
+          borderTopColor: color,
+          transform: [{ rotate: `${angle}rad` }],
+        },
+      ]}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4A5568',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 20,
+  },
+  phaseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  phaseButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#805AD5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#718096',
+  },
+  content: {
+    padding: 24,
+    gap: 16,
+  },
+  phaseForm: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+  },
+  phaseFormLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4A5568',
+  },
+  phaseInput: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  aimInput: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  phaseSaveButton: {
+    backgroundColor: '#805AD5',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  phaseSaveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 80,
+  },
+  emptyTitle: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#2D3748',
+    marginTop: 16,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#718096',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  chartToolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  chartRange: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4A5568',
+  },
+  chartCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingRight: LABEL_SPACE,
+  },
+  chartRow: {
+    flexDirection: 'row',
+  },
+  yAxis: {
+    width: AXIS_WIDTH,
+    height: CHART_HEIGHT,
+  },
+  yAxisLabel: {
+    position: 'absolute',
+    right: 8,
+    fontSize: 11,
+    color: '#718096',
+  },
+  plotArea: {
+    height: CHART_HEIGHT,
+    borderWidth: 1,
+    borderColor: '#A0AEC0',
+    backgroundColor: '#F0F7FF',
+  },
+  gridLineHorizontal: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 0,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#BEE3F8',
+  },
+  gridLineVertical: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 0,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+    borderLeftColor: '#BEE3F8',
+  },
+  gridLineMajor: {
+    borderTopColor: '#63B3ED',
+    borderLeftColor: '#63B3ED',
+  },
+  phaseLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 0,
+    borderLeftWidth: 2,
+    borderLeftColor: PHASE_COLOR,
+    borderStyle: 'dashed',
+  },
+  phaseLineLabel: {
+    position: 'absolute',
+    top: 4,
+    left: 4,
+    width: 120,
+    fontSize: 11,
+    fontWeight: '600',
+    color: PHASE_COLOR,
+  },
+  segment: {
+    position: 'absolute',
+    height: 0,
+    borderTopWidth: 2,
+    borderStyle: 'dashed',
+  },
+  celerationLabel: {
+    position: 'absolute',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  aimStar: {
+    position: 'absolute',
+    fontSize: 22,
+    color: AIM_COLOR,
+  },
+  marker: {
+    position: 'absolute',
+    width: 16,
+    height: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  correctDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: CORRECT_COLOR,
+  },
+  errorMark: {
+    fontSize: 18,
+    lineHeight: 18,
+    fontWeight: '700',
+    color: ERROR_COLOR,
+  },
+  xAxis: {
+    height: 20,
+    marginTop: 4,
+  },
+  xAxisLabel: {
+    position: 'absolute',
+    width: 24,
+    textAlign: 'center',
+    fontSize: 11,
+    color: '#718096',
+  },
+  axisTitle: {
+    fontSize: 12,
+    color: '#A0AEC0',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 24,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  legendLine: {
+    width: 24,
+    height: 0,
+    borderTopWidth: 2,
+    borderStyle: 'dashed',
+  },
+  legendText: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  legendHint: {
+    fontSize: 12,
+    color: '#A0AEC0',
+    fontStyle: 'italic',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3748',
+    marginTop: 8,
+  },
+  phaseCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+  },
+  phaseCardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  phaseCardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  phaseCardMeta: {
+    fontSize: 13,
+    color: '#718096',
+  },
+  aimStatus: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  phaseMetricsRow: {
+    flexDirection: 'row',
+    gap: 32,
+  },
+  phaseMetric: {
+    alignItems: 'flex-start',
+  },
+  phaseMetricValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#2D3748',
+  },
+  phaseMetricLabel: {
+    fontSize: 12,
+    color: '#718096',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,285 @@
+/**
+ * Classrooms Screen
+ * Read-only view of the classrooms an organization member can see: district admins
+ * every classroom, school admins and specialists those of their schools
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../hooks/useAuth';
+import { DashboardAssessment, OrgMember, Student } from '../types';
+import {
+  getOrganizationDirectory,
+  canViewClassroom,
+  OrganizationDirectory,
+  ORG_ROLE_LABELS,
+} from '../services/organizationService';
+import { getStudents } from '../services/studentService';
+import { getAssessments } from '../services/assessmentService';
+
+import type { RootStackParamList } from '../navigation/AppNavigator';
+
+type ClassroomsScreenRouteProp = RouteProp<RootStackParamList, 'Classrooms'>;
+
+export default function ClassroomsScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<ClassroomsScreenRouteProp>();
+  const { orgId, orgName } = route.params;
+  const { teacher } = useAuth();
+
+  const [directory, setDirectory] = useState<OrganizationDirectory | null>(null);
+  const [selectedMember, setSelectedMember] = useState<OrgMember | null>(null);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [assessments, setAssessments] = useState<DashboardAssessment[]>([]);
+  const [isLoadingClassroom, setIsLoadingClassroom] = useState(false);
+
+  useEffect(() => {
+    getOrganizationDirectory(orgId)
+      .then(setDirectory)
+      .catch((error) => Alert.alert('Error', error.message || 'Failed to load organization'));
+  }, [orgId]);
+
+  const viewer = directory?.members.find(member => member.uid === teacher?.uid) || null;
+  const classrooms = viewer
+    ? (directory?.members || []).filter(member => member.uid !== viewer.uid && canViewClassroom(viewer, member))
+    : [];
+
+  const getClassNames = (uid: string) =>
+    (directory?.classes || []).filter(orgClass => orgClass.teacherId === uid).map(orgClass => orgClass.name);
+
+  const selectClassroom = async (member: OrgMember) => {
+    setSelectedMember(member);
+    setIsLoadingClassroom(true);
+    try {
+      const [studentList, assessmentList] = await Promise.all([
+        getStudents(member.uid, false),
+        getAssessments(member.uid, 50),
+      ]);
+      setStudents(studentList);
+      setAssessments(assessmentList);
+    } catch (error: any) {
+      setStudents([]);
+      setAssessments([]);
+      Alert.alert(
+        'Classroom Unavailable',
+        'This classroom is not shared with your role. It may belong to another organization.'
+      );
+    } finally {
+      setIsLoadingClassroom(false);
+    }
+  };
+
+  const getStudentAssessments = (studentId: string) =>
+    assessments.filter(assessment => assessment.studentId === studentId);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#4A5568" />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{orgName} Classrooms</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {!directory ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#4299E1" />
+        </View>
+      ) : (
+        <View style={styles.mainContent}>
+          {/* Classroom list */}
+          <ScrollView style={styles.sidebar}>
+            {classrooms.length === 0 ? (
+              <Text style={styles.emptyText}>No classrooms are shared with your role</Text>
+            ) : (
+              classrooms.map(member => (
+                <TouchableOpacity
+                  key={member.uid}
+                  style={[styles.classroomItem, selectedMember?.uid === member.uid && styles.classroomItemSelected]}
+                  onPress={() => selectClassroom(member)}
+                >
+                  <Text style={styles.classroomName}>{member.displayName || member.email}</Text>
+                  <Text style={styles.classroomMeta}>
+                    {[ORG_ROLE_LABELS[member.role], ...getClassNames(member.uid)].join(' · ')}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+
+          {/* Students and assessments of the selected classroom */}
+          <ScrollView style={styles.detailArea} contentContainerStyle={styles.detailContent}>
+            {!selectedMember ? (
+              <Text style={styles.emptyText}>Choose a classroom to see its students and assessments</Text>
+            ) : isLoadingClassroom ? (
+              <ActivityIndicator size="large" color="#4299E1" />
+            ) : students.length === 0 ? (
+              <Text style={styles.emptyText}>No students in this classroom</Text>
+            ) : (
+              students.map(student => (
+                <View key={student.id} style={styles.studentCard}>
+                  <Text style={styles.studentName}>
+                    {student.name}
+                    {student.grade ? <Text style={styles.classroomMeta}>  Grade {student.grade}</Text> : null}
+                  </Text>
+                  {getStudentAssessments(student.id).length === 0 ? (
+                    <Text style={styles.classroomMeta}>No recent assessments</Text>
+                  ) : (
+                    getStudentAssessments(student.id).map(assessment => (
+                      <TouchableOpacity
+                        key={assessment.id}
+                        style={styles.assessmentRow}
+                        onPress={() => navigation.navigate('AssessmentDetail', {
+                          assessmentId: assessment.id,
+                          teacherId: selectedMember.uid,
+                        })}
+                        disabled={assessment.status !== 'complete'}
+                      >
+                        <Text style={styles.assessmentDate}>{assessment.createdAt.toLocaleDateString()}</Text>
+                        <Text style={styles.assessmentMetrics}>
+                          {assessment.metrics
+                            ? `${assessment.metrics.accuracy}% accuracy · ${assessment.metrics.wordsPerMinute} WPM`
+                            : assessment.status}
+                        </Text>
+                        {assessment.status === 'complete' && (
+                          <MaterialIcons name="chevron-right" size={20} color="#A0AEC0" />
+                        )}
+                      </TouchableOpacity>
+                    ))
+                  )}
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4A5568',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  headerSpacer: {
+    width: 80,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mainContent: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  sidebar: {
+    width: 280,
+    flexGrow: 0,
+    backgroundColor: '#FFFFFF',
+    borderRightWidth: 1,
+    borderRightColor: '#E2E8F0',
+  },
+  classroomItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  classroomItemSelected: {
+    backgroundColor: '#EBF8FF',
+  },
+  classroomName: {
+    fontSize: 16,
+    color: '#2D3748',
+  },
+  classroomMeta: {
+    fontSize: 13,
+    color: '#718096',
+    marginTop: 2,
+  },
+  detailArea: {
+    flex: 1,
+  },
+  detailContent: {
+    padding: 24,
+    gap: 12,
+  },
+  emptyText: {
+    padding: 16,
+    fontSize: 14,
+    color: '#A0AEC0',
+    textAlign: 'center',
+  },
+  studentCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    gap: 8,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  assessmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  assessmentDate: {
+    fontSize: 14,
+    color: '#4A5568',
+    width: 100,
+  },
+  assessmentMetrics: {
+    flex: 1,
+    fontSize: 14,
+    color: '#718096',
+  },
+});
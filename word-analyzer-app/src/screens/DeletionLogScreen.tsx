@@ -0,0 +1,251 @@
+/**
+ * Deletion Log Screen
+ * Read-only record of student data deleted under the retention policy,
+ * kept as compliance evidence (written by the enforceDataRetention function)
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../hooks/useAuth';
+import { DeletionLogEntry, RetentionCategory } from '../types';
+import { getDeletionLog } from '../services/complianceService';
+import { getStudents } from '../services/studentService';
+
+import type { RootStackParamList } from '../navigation/AppNavigator';
+
+const CATEGORY_LABELS: Record<RetentionCategory, string> = {
+  uploads: 'Original upload',
+  audio: 'Audio recording',
+  images: 'Captured image',
+  videos: 'Video',
+  summaryAudio: 'Summary audio',
+  pdfs: 'PDF report',
+  exports: 'Data export',
+};
+
+const REASON_LABELS: Record<DeletionLogEntry['reason'], string> = {
+  retention: 'Retention period expired',
+  'student-deletion': 'Student deleted on request',
+  'no-consent': 'Recorded without parental consent',
+};
+
+export default function DeletionLogScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { teacher } = useAuth();
+  const [entries, setEntries] = useState<DeletionLogEntry[]>([]);
+  const [studentNames, setStudentNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!teacher?.uid) return;
+
+    Promise.all([getDeletionLog(teacher.uid), getStudents(teacher.uid)])
+      .then(([logEntries, students]) => {
+        setEntries(logEntries);
+        setStudentNames(Object.fromEntries(students.map(student => [student.id, student.name])));
+      })
+      .catch((err) => setError(err.message || 'Failed to load deletion log'))
+      .finally(() => setIsLoading(false));
+  }, [teacher?.uid]);
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const renderEntry = ({ item }: { item: DeletionLogEntry }) => {
+    const studentName = item.studentId
+      ? studentNames[item.studentId] || 'Deleted student'
+      : 'Unknown student';
+
+    return (
+      <View style={styles.entryCard}>
+        <View style={styles.entryHeader}>
+          <Text style={styles.entryTitle}>
+            {item.assessmentId ? `Assessment for ${studentName}` : `Student record of ${studentName}`}
+          </Text>
+          <Text style={styles.entryDate}>{formatDate(item.deletedAt)}</Text>
+        </View>
+        <Text style={styles.entryReason}>{REASON_LABELS[item.reason] || item.reason}</Text>
+        {item.files.map((file) => (
+          <View key={file.path} style={styles.fileRow}>
+            <MaterialIcons name="delete-forever" size={16} color="#E53E3E" />
+            <Text style={styles.fileText}>
+              {CATEGORY_LABELS[file.category] || file.category} · stored {formatDate(new Date(file.createdAt))}
+              {item.reason === 'retention' && ` · ${file.retentionHours}h retention`}
+            </Text>
+          </View>
+        ))}
+        {item.reason === 'student-deletion' && (
+          <Text style={styles.clearedText}>
+            {item.assessmentIds?.length ?? 0} assessment(s) and {item.documentsDeleted ?? 0} record(s) deleted
+            {' '}· Certificate {item.id}
+          </Text>
+        )}
+        {item.clearedFields.length > 0 && (
+          <Text style={styles.clearedText}>Links removed: {item.clearedFields.join(', ')}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#4A5568" />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Deletion Log</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#4299E1" />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#E53E3E" />
+          <Text style={styles.emptyText}>{error}</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <Text style={styles.intro}>
+              Audio, images, videos and reports are deleted automatically once their retention
+              period ends, and everything about a student is deleted when the student is removed.
+              Each deletion is recorded here and cannot be edited.
+            </Text>
+          }
+          ListEmptyComponent={
+            <View style={styles.centerContainer}>
+              <MaterialIcons name="fact-check" size={64} color="#CBD5E0" />
+              <Text style={styles.emptyText}>No deletions recorded yet</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4A5568',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  headerSpacer: {
+    width: 80,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#718096',
+  },
+  listContent: {
+    padding: 24,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#718096',
+    marginBottom: 16,
+  },
+  entryCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  entryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  entryDate: {
+    fontSize: 13,
+    color: '#718096',
+  },
+  entryReason: {
+    fontSize: 13,
+    color: '#A0AEC0',
+    marginBottom: 8,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 2,
+  },
+  fileText: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  clearedText: {
+    fontSize: 12,
+    color: '#A0AEC0',
+    marginTop: 6,
+  },
+});
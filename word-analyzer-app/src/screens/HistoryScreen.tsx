@@ -20,6 +20,8 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useAuth } from '../hooks/useAuth';
 import { DashboardAssessment } from '../types';
 import { subscribeToAssessments, deleteAssessment } from '../services/assessmentService';
+import SccImportModal from '../components/SccImportModal';
+import StudentRecordsButton from '../components/StudentRecordsButton';
 
 import type { RootStackParamList } from '../navigation/AppNavigator';
 
@@ -28,6 +30,7 @@ export default function HistoryScreen() {
   const { teacher } = useAuth();
   const [assessments, setAssessments] = useState<DashboardAssessment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [showImport, setShowImport] = useState(false);
   const unsubscribeRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
@@ -48,7 +51,11 @@ export default function HistoryScreen() {
 
   const handleViewAssessment = (assessment: DashboardAssessment) => {
     if (assessment.status === 'complete') {
-      navigation.navigate('AssessmentDetail', { assessmentId: assessment.id });
+      navigation.navigate('AssessmentDetail', {
+        assessmentId: assessment.id,
+        // Shared students' assessments live in their owner's classroom
+        ...(assessment.teacherId !== teacher?.uid && { teacherId: assessment.teacherId }),
+      });
     }
   };
 
@@ -129,7 +136,12 @@ export default function HistoryScreen() {
       </View>
 
       <View style={styles.cardBody}>
-        <Text style={styles.dateText}>{formatDate(item.createdAt)}</Text>
+        <Text style={styles.dateText}>
+          {formatDate(item.createdAt)}
+          {item.importedFrom && ' · Imported chart data'}
+          {item.teacherId !== teacher?.uid && ' · Shared student'}
+          {item.recordedBy && item.recordedBy.uid !== teacher?.uid && ` · Recorded by ${item.recordedBy.email || 'a co-teacher'}`}
+        </Text>
 
         {item.status === 'complete' && item.metrics && (
           <View style={styles.metricsRow}>
@@ -167,12 +179,31 @@ export default function HistoryScreen() {
             <MaterialIcons name="chevron-right" size={20} color="#4299E1" />
           </TouchableOpacity>
         )}
-        <TouchableOpacity
-          style={styles.deleteButton}
-          onPress={() => handleDeleteAssessment(item)}
-        >
-          <MaterialIcons name="delete-outline" size={20} color="#E53E3E" />
-        </TouchableOpacity>
+        {teacher && item.teacherId === teacher.uid && (
+          <>
+            <TouchableOpacity
+              style={styles.chartButton}
+              onPress={() => navigation.navigate('CelerationChart', {
+                studentId: item.studentId,
+                studentName: item.studentName,
+              })}
+            >
+              <MaterialIcons name="show-chart" size={20} color="#805AD5" />
+              <Text style={styles.chartButtonText}>Progress Chart</Text>
+            </TouchableOpacity>
+            <StudentRecordsButton
+              teacherId={teacher.uid}
+              studentId={item.studentId}
+              studentName={item.studentName}
+            />
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={() => handleDeleteAssessment(item)}
+            >
+              <MaterialIcons name="delete-outline" size={20} color="#E53E3E" />
+            </TouchableOpacity>
+          </>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -206,7 +237,21 @@ export default function HistoryScreen() {
           <Text style={styles.backButtonText}>Back</Text>
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Assessment History</Text>
-        <View style={styles.headerSpacer} />
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.logButton}
+            onPress={() => navigation.navigate('DeletionLog')}
+          >
+            <MaterialIcons name="fact-check" size={20} color="#718096" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.importButton}
+            onPress={() => setShowImport(true)}
+          >
+            <MaterialIcons name="upload-file" size={20} color="#4299E1" />
+            <Text style={styles.importButtonText}>Import</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Content */}
@@ -225,6 +270,18 @@ export default function HistoryScreen() {
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      {teacher && (
+        <SccImportModal
+          teacherId={teacher.uid}
+          visible={showImport}
+          onClose={() => setShowImport(false)}
+          onImported={(result) => navigation.navigate('CelerationChart', {
+            studentId: result.studentId,
+            studentName: result.studentName,
+          })}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -257,8 +314,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#2D3748',
   },
-  headerSpacer: {
-    width: 80,
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  logButton: {
+    padding: 4,
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  importButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4299E1',
   },
   loadingContainer: {
     flex: 1,
@@ -374,6 +446,18 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#4299E1',
   },
+  chartButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+    marginRight: 8,
+  },
+  chartButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#805AD5',
+  },
   deleteButton: {
     padding: 8,
   },
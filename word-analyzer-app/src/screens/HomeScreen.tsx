@@ -14,6 +14,7 @@ import {
   Platform,
   Image,
   Animated,
+  Alert,
 } from 'react-native';
 import { Audio, AVPlaybackStatus } from 'expo-av';
 import { CameraView, useCameraPermissions } from 'expo-camera';
@@ -26,9 +27,20 @@ const beginReadingAudio = require('../assets/audio/begin-reading.mp3');
 const recordingCompleteAudio = require('../assets/audio/recording-complete.mp3');
 import { MaterialIcons } from '@expo/vector-icons';
 import { useAuth } from '../hooks/useAuth';
-import { RecordingDuration, Student } from '../types';
+import { useKiosk } from '../hooks/useKiosk';
+import { RecordingDuration, Student, Passage, OrgMembership, KioskPin } from '../types';
 import StudentSelector from '../components/StudentSelector';
+import OrganizationSwitcher from '../components/OrganizationSwitcher';
+import PassageSelector from '../components/PassageSelector';
+import KioskPinModal from '../components/KioskPinModal';
+import KioskReaderPicker from '../components/KioskReaderPicker';
+import CaptureQueueIndicator from '../components/CaptureQueueIndicator';
 import { startEarlyAudioUpload, EarlyUploadResult } from '../services/assessmentService';
+import { hasParentalConsent, canEditStudent } from '../services/studentService';
+import { isOrgAdmin } from '../services/organizationService';
+import { getKioskPin, setKioskPin } from '../services/teacherService';
+import { startCaptureQueue } from '../services/captureQueue';
+import { RECORDING_DURATION_OPTIONS, getRecordingLimitSeconds } from '../config/recording';
 
 import type { RootStackParamList } from '../navigation/AppNavigator';
 
@@ -52,9 +64,13 @@ const CAMERA_FOCUS_MS = 2000; // Time to focus after camera is ready
 
 export default function HomeScreen() {
   const { teacher, signOut } = useAuth();
+  const { isKioskActive, session: kioskSession, idleTimeouts, enterKiosk, exitKiosk } = useKiosk();
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const [selectedDuration, setSelectedDuration] = useState<RecordingDuration>(60);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+  const [selectedPassage, setSelectedPassage] = useState<Passage | null>(null);
+  const [activeMembership, setActiveMembership] = useState<OrgMembership | null>(null);
+  const [kioskPinMode, setKioskPinMode] = useState<'set' | 'verify' | null>(null);
 
   // Recording state (simplified - only reading recording)
   const [recordingPhase, setRecordingPhase] = useState<RecordingPhase>('idle');
@@ -65,6 +81,7 @@ export default function HomeScreen() {
   // Camera state
   const [cameraPhase, setCameraPhase] = useState<CameraPhase>('idle');
   const [capturedImageUri, setCapturedImageUri] = useState<string | null>(null);
+  const [capturedImageUris, setCapturedImageUris] = useState<string[]>([]);  // Pages in reading order
   const [cameraPermission, requestCameraPermission] = useCameraPermissions();
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [showCameraCheckmark, setShowCameraCheckmark] = useState(false);
@@ -100,6 +117,13 @@ export default function HomeScreen() {
     };
   }, []);
 
+  // Upload any readings saved on the device while offline
+  useEffect(() => {
+    if (teacher?.uid) {
+      startCaptureQueue(teacher.uid);
+    }
+  }, [teacher?.uid]);
+
   const cleanup = async () => {
     if (timerRef.current) clearInterval(timerRef.current);
     if (focusTimerRef.current) clearTimeout(focusTimerRef.current);
@@ -271,6 +295,7 @@ export default function HomeScreen() {
   const startReadingRecording = async () => {
     setRecordingPhase('reading_recording');
     setElapsedTime(0);
+    const limitSeconds = getRecordingLimitSeconds(selectedDuration);
 
     // Web: Use MediaRecorder API
     if (Platform.OS === 'web') {
@@ -292,7 +317,7 @@ export default function HomeScreen() {
 
         timerRef.current = setInterval(() => {
           setElapsedTime((prev) => {
-            if (prev >= selectedDuration - 1) {
+            if (prev >= limitSeconds - 1) {
               stopReadingRecording();
               return prev;
             }
@@ -303,7 +328,7 @@ export default function HomeScreen() {
         console.error('Web MediaRecorder error:', err);
         timerRef.current = setInterval(() => {
           setElapsedTime((prev) => {
-            if (prev >= selectedDuration - 1) {
+            if (prev >= limitSeconds - 1) {
               stopReadingRecording();
               return prev;
             }
@@ -322,7 +347,7 @@ export default function HomeScreen() {
 
       timerRef.current = setInterval(() => {
         setElapsedTime((prev) => {
-          if (prev >= selectedDuration - 1) {
+          if (prev >= limitSeconds - 1) {
             stopReadingRecording(recording);
             return prev;
           }
@@ -334,7 +359,7 @@ export default function HomeScreen() {
       // Fallback to timer-only mode
       timerRef.current = setInterval(() => {
         setElapsedTime((prev) => {
-          if (prev >= selectedDuration - 1) {
+          if (prev >= limitSeconds - 1) {
             stopReadingRecording();
             return prev;
           }
@@ -392,8 +417,8 @@ export default function HomeScreen() {
 
   // Start early audio upload in background after recording completes
   const startEarlyUpload = async (audioUri: string) => {
-    if (!teacher?.uid || !selectedStudent) {
-      console.log('Cannot start early upload - missing teacher or student');
+    if (!teacher?.uid || !selectedStudent || !hasParentalConsent(selectedStudent) || !canEditStudent(selectedStudent)) {
+      console.log('Cannot start early upload - missing teacher, student, consent or access');
       return;
     }
 
@@ -403,10 +428,12 @@ export default function HomeScreen() {
     try {
       console.log('Starting early audio upload...');
       const result = await startEarlyAudioUpload(
-        teacher.uid,
+        selectedStudent.teacherId,
         selectedStudent.id,
         selectedStudent.name,
-        audioUri
+        audioUri,
+        selectedPassage ? { id: selectedPassage.id, title: selectedPassage.title } : null,
+        selectedDuration
       );
       setEarlyUploadResult(result);
       console.log('Early audio upload complete, assessmentId:', result.assessmentId);
@@ -420,8 +447,10 @@ export default function HomeScreen() {
   };
 
   // Effect to trigger early upload when audio is recorded
+  // Passage-only assessments upload from the analysis screen, since audio alone starts processing
   useEffect(() => {
-    if (readingAudioUri && audioRecorded && !earlyUploadResult && !isUploadingAudio) {
+    if (readingAudioUri && audioRecorded && !earlyUploadResult && !isUploadingAudio &&
+        (!selectedPassage || imageCaptured)) {
       startEarlyUpload(readingAudioUri);
     }
   }, [readingAudioUri, audioRecorded]);
@@ -567,6 +596,7 @@ export default function HomeScreen() {
 
         if (photo?.uri) {
           setCapturedImageUri(photo.uri);
+          setCapturedImageUris(prev => [...prev, photo.uri]);
           setImageCaptured(true);
           setCameraPhase('captured');
           console.log('Image captured successfully:', photo.uri);
@@ -599,6 +629,7 @@ export default function HomeScreen() {
               if (blob) {
                 const imageUrl = URL.createObjectURL(blob);
                 setCapturedImageUri(imageUrl);
+                setCapturedImageUris(prev => [...prev, imageUrl]);
                 setImageCaptured(true);
                 setCameraPhase('captured');
                 console.log('Web image captured:', imageUrl, 'size:', blob.size);
@@ -626,11 +657,19 @@ export default function HomeScreen() {
     }
   };
 
+  const handleRemovePage = (index: number) => {
+    const remaining = capturedImageUris.filter((_, i) => i !== index);
+    setCapturedImageUris(remaining);
+    setCapturedImageUri(remaining[remaining.length - 1] || null);
+    setImageCaptured(remaining.length > 0);
+  };
+
   const handleStartNew = () => {
     setAudioRecorded(false);
     setImageCaptured(false);
     setReadingAudioUri(null);
     setCapturedImageUri(null);
+    setCapturedImageUris([]);
     // Reset early upload state
     setEarlyUploadResult(null);
     setIsUploadingAudio(false);
@@ -646,6 +685,97 @@ export default function HomeScreen() {
   const isRecordingActive = recordingPhase !== 'idle';
   const isCameraActive = cameraPhase !== 'idle';
   const isAnyActive = isRecordingActive || isCameraActive;
+  // Recording needs a student with granted parental consent
+  const canRecordStudent = hasParentalConsent(selectedStudent) && canEditStudent(selectedStudent);
+
+  // ============ KIOSK MODE ============
+
+  // The kiosk is locked to the selected passage and reading length; each reader picks their name
+  const startKiosk = (kioskPin: KioskPin) => {
+    if (!teacher?.uid) return;
+    handleStartNew();
+    setSelectedStudent(null);
+    enterKiosk({
+      teacherId: teacher.uid,
+      kioskPin,
+      passage: selectedPassage,
+      recordingDuration: selectedDuration,
+    });
+  };
+
+  const handleStartKiosk = async () => {
+    if (!teacher?.uid) return;
+
+    try {
+      const kioskPin = await getKioskPin(teacher.uid);
+      if (kioskPin) {
+        startKiosk(kioskPin);
+      } else {
+        setKioskPinMode('set');
+      }
+    } catch (error) {
+      console.error('Failed to start kiosk mode:', error);
+      alert('Could not start kiosk mode. Please try again.');
+    }
+  };
+
+  const handleKioskPin = async (pin: string): Promise<string | null> => {
+    if (kioskPinMode === 'verify') {
+      return exitKiosk(pin);
+    }
+
+    try {
+      startKiosk(await setKioskPin(teacher?.uid || '', pin));
+      return null;
+    } catch (error: any) {
+      return error?.message || 'Failed to save the PIN';
+    }
+  };
+
+  // Signing out ends the kiosk on this device; the teacher then chooses a new PIN in Settings
+  const handleForgotKioskPin = () => {
+    Alert.alert(
+      'Reset Teacher PIN',
+      'Sign out to unlock this device. Signing back in needs your Google account; you can then choose a new PIN in Settings.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: () => {
+            setKioskPinMode(null);
+            signOut();
+          },
+        },
+      ]
+    );
+  };
+
+  // A kiosk restored after a relaunch keeps its passage and reading length
+  useEffect(() => {
+    if (!kioskSession) return;
+    setSelectedPassage(kioskSession.passage);
+    setSelectedDuration(kioskSession.recordingDuration);
+  }, [kioskSession]);
+
+  // The next reader starts from the roster, with nothing of the last reader left on screen
+  const handleNextReader = () => {
+    handleStartNew();
+    setSelectedStudent(null);
+  };
+
+  // Each return from the analysis starts a fresh attempt for the next reader
+  useEffect(() => {
+    if (!isKioskActive) return;
+    return navigation.addListener('focus', handleNextReader);
+  }, [navigation, isKioskActive]);
+
+  // A half-finished attempt or a chosen name left idle is cleared for the next reader
+  useEffect(() => {
+    if (isKioskActive && !isAnyActive && !isUploadingAudio && (audioRecorded || imageCaptured || selectedStudent)) {
+      handleNextReader();
+    }
+  }, [idleTimeouts]);
 
   // Get status text for below the red button
   const getRecordingStatusText = () => {
@@ -678,7 +808,7 @@ export default function HomeScreen() {
 
   const getProgress = () => {
     if (recordingPhase === 'reading_recording') {
-      return (elapsedTime + 1) / selectedDuration;
+      return (elapsedTime + 1) / getRecordingLimitSeconds(selectedDuration);
     }
     return 0;
   };
@@ -689,33 +819,115 @@ export default function HomeScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
-      {/* Header */}
-      <View style={styles.header}>
-        <View style={styles.teacherInfo}>
-          <MaterialIcons name="person" size={20} color="#718096" />
-          <Text style={styles.teacherEmail}>{teacher?.email}</Text>
+      {/* Header - kiosk mode hides everything but the teacher unlock */}
+      {isKioskActive ? (
+        <View style={styles.header}>
+          <View style={styles.teacherInfo}>
+            <MaterialIcons name="lock" size={20} color="#718096" />
+            <Text style={styles.teacherEmail}>Kiosk mode</Text>
+          </View>
+          <View style={styles.headerActions}>
+            <CaptureQueueIndicator disabled={true} />
+            <TouchableOpacity style={styles.historyButton} onPress={() => setKioskPinMode('verify')}>
+              <MaterialIcons name="lock-open" size={20} color="#4299E1" />
+              <Text style={styles.historyButtonText}>Teacher</Text>
+            </TouchableOpacity>
+          </View>
         </View>
-        <View style={styles.headerActions}>
-          <TouchableOpacity
-            style={styles.historyButton}
-            onPress={() => navigation.navigate('History')}
-          >
-            <MaterialIcons name="history" size={20} color="#4299E1" />
-            <Text style={styles.historyButtonText}>History</Text>
-          </TouchableOpacity>
-          <TouchableOpacity style={styles.signOutButton} onPress={signOut}>
-            <Text style={styles.signOutText}>Sign Out</Text>
-          </TouchableOpacity>
+      ) : (
+        <View style={styles.header}>
+          <View style={styles.teacherInfo}>
+            <MaterialIcons name="person" size={20} color="#718096" />
+            <Text style={styles.teacherEmail}>{teacher?.email}</Text>
+            <View style={styles.orgSwitcher}>
+              <OrganizationSwitcher
+                teacherId={teacher?.uid || ''}
+                activeMembership={activeMembership}
+                onChangeMembership={setActiveMembership}
+              />
+            </View>
+          </View>
+          <View style={styles.headerActions}>
+            <CaptureQueueIndicator />
+            {activeMembership && activeMembership.member.role !== 'teacher' && (
+              <TouchableOpacity
+                style={styles.historyButton}
+                onPress={() => navigation.navigate('Classrooms', {
+                  orgId: activeMembership.organization.id,
+                  orgName: activeMembership.organization.name,
+                })}
+              >
+                <MaterialIcons name="groups" size={20} color="#4299E1" />
+                <Text style={styles.historyButtonText}>Classrooms</Text>
+              </TouchableOpacity>
+            )}
+            {activeMembership && isOrgAdmin(activeMembership.member.role) && (
+              <TouchableOpacity
+                style={styles.settingsButton}
+                onPress={() => navigation.navigate('Organization', {
+                  orgId: activeMembership.organization.id,
+                  orgName: activeMembership.organization.name,
+                })}
+              >
+                <MaterialIcons name="admin-panel-settings" size={20} color="#718096" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.historyButton} onPress={handleStartKiosk}>
+              <MaterialIcons name="lock" size={20} color="#4299E1" />
+              <Text style={styles.historyButtonText}>Kiosk</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={() => navigation.navigate('History')}
+            >
+              <MaterialIcons name="history" size={20} color="#4299E1" />
+              <Text style={styles.historyButtonText}>History</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.settingsButton}
+              onPress={() => navigation.navigate('Settings')}
+            >
+              <MaterialIcons name="settings" size={20} color="#718096" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.signOutButton} onPress={signOut}>
+              <Text style={styles.signOutText}>Sign Out</Text>
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      )}
 
-      {/* Student Selector */}
+      {/* Student Selector - kiosk mode shows only the roster names, then the reader and passage */}
       <View style={styles.studentSelectorContainer}>
-        <StudentSelector
-          teacherId={teacher?.uid || ''}
-          selectedStudent={selectedStudent}
-          onSelectStudent={setSelectedStudent}
-        />
+        {isKioskActive && !selectedStudent ? (
+          <KioskReaderPicker
+            teacherId={kioskSession?.teacherId || ''}
+            onSelectReader={setSelectedStudent}
+          />
+        ) : isKioskActive ? (
+          <View style={styles.kioskReader}>
+            <Text style={styles.kioskStudentText}>
+              {selectedStudent?.name}{selectedPassage ? ` · ${selectedPassage.title}` : ''}
+            </Text>
+            {!isAnyActive && !audioRecorded && !imageCaptured && (
+              <TouchableOpacity onPress={() => setSelectedStudent(null)}>
+                <Text style={styles.kioskNotYouText}>Not you?</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <>
+            <StudentSelector
+              teacherId={teacher?.uid || ''}
+              selectedStudent={selectedStudent}
+              onSelectStudent={setSelectedStudent}
+            />
+            <PassageSelector
+              teacherId={teacher?.uid || ''}
+              selectedPassage={selectedPassage}
+              onSelectPassage={setSelectedPassage}
+            />
+          </>
+        )}
       </View>
 
       {/* Main Content */}
@@ -730,7 +942,7 @@ export default function HomeScreen() {
             ]}
             onPress={handleRecordAudio}
             activeOpacity={0.8}
-            disabled={isAnyActive || !selectedStudent}
+            disabled={isAnyActive || !canRecordStudent}
           >
             <View style={styles.buttonIconContainer}>
               <MaterialIcons name="mic" size={80} color="#FFFFFF" />
@@ -742,41 +954,27 @@ export default function HomeScreen() {
             </View>
             <Text style={styles.buttonTitle}>Record Audio</Text>
 
-            {!isRecordingActive && !audioRecorded && (
+            {!isRecordingActive && !audioRecorded && !isKioskActive && (
               <View style={styles.durationSelector}>
-                <TouchableOpacity
-                  style={[
-                    styles.durationOption,
-                    selectedDuration === 30 && styles.durationOptionSelected,
-                  ]}
-                  onPress={() => setSelectedDuration(30)}
-                >
-                  <Text
-                    style={[
-                      styles.durationText,
-                      selectedDuration === 30 && styles.durationTextSelected,
-                    ]}
-                  >
-                    30s
-                  </Text>
-                </TouchableOpacity>
-
-                <TouchableOpacity
-                  style={[
-                    styles.durationOption,
-                    selectedDuration === 60 && styles.durationOptionSelected,
-                  ]}
-                  onPress={() => setSelectedDuration(60)}
-                >
-                  <Text
+                {RECORDING_DURATION_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
                     style={[
-                      styles.durationText,
-                      selectedDuration === 60 && styles.durationTextSelected,
+                      styles.durationOption,
+                      selectedDuration === option.value && styles.durationOptionSelected,
                     ]}
+                    onPress={() => setSelectedDuration(option.value)}
                   >
-                    60s
-                  </Text>
-                </TouchableOpacity>
+                    <Text
+                      style={[
+                        styles.durationText,
+                        selectedDuration === option.value && styles.durationTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
             )}
           </TouchableOpacity>
@@ -789,9 +987,12 @@ export default function HomeScreen() {
                 <Text style={styles.statusLabel}>{recordingStatusText}</Text>
                 {recordingPhase === 'reading_recording' && (
                   <>
-                    <View style={styles.progressBarInline}>
-                      <View style={[styles.progressFillInline, { width: `${progress * 100}%` }]} />
-                    </View>
+                    {/* Untimed readings run until stopped - no progress toward an end */}
+                    {selectedDuration !== 'untimed' && (
+                      <View style={styles.progressBarInline}>
+                        <View style={[styles.progressFillInline, { width: `${progress * 100}%` }]} />
+                      </View>
+                    )}
                     <Text style={styles.timerText}>{formatTime(elapsedTime + 1)}</Text>
                     <TouchableOpacity style={styles.stopButton} onPress={handleStopEarly}>
                       <Text style={styles.stopButtonText}>Stop</Text>
@@ -845,7 +1046,7 @@ export default function HomeScreen() {
             ]}
             onPress={handleCaptureImage}
             activeOpacity={0.8}
-            disabled={isAnyActive || !selectedStudent}
+            disabled={isAnyActive || !canRecordStudent}
           >
             <View style={styles.buttonIconContainer}>
               <MaterialIcons name="photo-camera" size={80} color="#FFFFFF" />
@@ -855,7 +1056,14 @@ export default function HomeScreen() {
                 </View>
               )}
             </View>
-            <Text style={styles.buttonTitle}>Capture Image</Text>
+            <Text style={styles.buttonTitle}>{imageCaptured ? 'Add Page' : 'Capture Image'}</Text>
+            {imageCaptured ? (
+              <Text style={styles.buttonSubtitle}>
+                {capturedImageUris.length} {capturedImageUris.length === 1 ? 'page' : 'pages'} captured
+              </Text>
+            ) : selectedPassage && (
+              <Text style={styles.buttonSubtitle}>Optional with a library passage</Text>
+            )}
           </TouchableOpacity>
 
           {/* Camera preview and checkmark - positioned BELOW button */}
@@ -893,6 +1101,25 @@ export default function HomeScreen() {
               </Animated.View>
             )}
 
+            {/* Captured pages in reading order - tap x to remove a page */}
+            {!isCameraActive && !showCameraCheckmark && capturedImageUris.length > 0 && (
+              <View style={styles.pageThumbnails}>
+                {capturedImageUris.map((uri, index) => (
+                  <View key={uri} style={styles.pageThumbnail}>
+                    <Image source={{ uri }} style={styles.pageThumbnailImage} />
+                    <Text style={styles.pageThumbnailLabel}>{index + 1}</Text>
+                    <TouchableOpacity
+                      style={styles.pageThumbnailRemove}
+                      onPress={() => handleRemovePage(index)}
+                      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    >
+                      <MaterialIcons name="close" size={14} color="#FFFFFF" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {/* Animated checkmark that appears after capture */}
             {showCameraCheckmark && (
               <Animated.View
@@ -913,8 +1140,8 @@ export default function HomeScreen() {
         </View>
       </View>
 
-      {/* View Analysis button - appears ABOVE footer when both are complete */}
-      {audioRecorded && imageCaptured && (
+      {/* View Analysis button - appears ABOVE footer when audio and image (or a passage) are ready */}
+      {audioRecorded && (imageCaptured || selectedPassage) && (
         <View style={styles.viewAnalysisContainer}>
           <TouchableOpacity
             style={[
@@ -925,10 +1152,14 @@ export default function HomeScreen() {
             onPress={() => navigation.navigate('Analysis', {
               nameAudioUri: null,
               readingAudioUri,
-              imageUri: capturedImageUri,
+              imageUris: capturedImageUris,
               studentId: selectedStudent?.id || '',
               studentName: selectedStudent?.name || '',
-              earlyUploadAssessmentId: earlyUploadResult?.assessmentId || null,
+              teacherId: selectedStudent?.teacherId,
+              passageId: selectedPassage?.id || null,
+              passageTitle: selectedPassage?.title || null,
+              recordingDuration: selectedDuration,
+              earlyUploadAssessmentId: imageCaptured ? earlyUploadResult?.assessmentId || null : null,
             })}
           >
             <MaterialIcons name="analytics" size={36} color="#FFFFFF" />
@@ -963,16 +1194,32 @@ export default function HomeScreen() {
                 size={24}
                 color={imageCaptured ? '#48BB78' : '#A0AEC0'}
               />
-              <Text style={styles.footerStatusText}>Image</Text>
+              <Text style={styles.footerStatusText}>
+                {capturedImageUris.length > 1 ? `Images (${capturedImageUris.length})` : 'Image'}
+              </Text>
             </View>
+            {selectedPassage && (
+              <View style={styles.footerStatusItem}>
+                <MaterialIcons name="menu-book" size={24} color="#48BB78" />
+                <Text style={styles.footerStatusText}>{selectedPassage.title}</Text>
+              </View>
+            )}
           </View>
         )}
 
-        <TouchableOpacity style={styles.startNewButton} onPress={handleStartNew}>
+        <TouchableOpacity style={styles.startNewButton} onPress={isKioskActive ? handleNextReader : handleStartNew}>
           <MaterialIcons name="refresh" size={20} color="#4A5568" />
           <Text style={styles.startNewText}>Start New Assessment</Text>
         </TouchableOpacity>
       </View>
+
+      <KioskPinModal
+        visible={kioskPinMode !== null}
+        mode={kioskPinMode || 'verify'}
+        onSubmit={handleKioskPin}
+        onClose={() => setKioskPinMode(null)}
+        onForgotPin={handleForgotKioskPin}
+      />
     </SafeAreaView>
   );
 }
@@ -1000,6 +1247,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#718096',
   },
+  orgSwitcher: {
+    marginLeft: 16,
+    paddingLeft: 16,
+    borderLeftWidth: 1,
+    borderLeftColor: '#E2E8F0',
+  },
   headerActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1019,6 +1272,9 @@ const styles = StyleSheet.create({
     color: '#4299E1',
     fontWeight: '500',
   },
+  settingsButton: {
+    padding: 8,
+  },
   signOutButton: {
     paddingVertical: 8,
     paddingHorizontal: 16,
@@ -1029,11 +1285,28 @@ const styles = StyleSheet.create({
     fontWeight: '500',
   },
   studentSelectorContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 32,
     paddingHorizontal: 24,
     paddingVertical: 16,
     borderBottomWidth: 1,
     borderBottomColor: '#E2E8F0',
   },
+  kioskReader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  kioskStudentText: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  kioskNotYouText: {
+    fontSize: 14,
+    color: '#4299E1',
+  },
   mainContent: {
     flex: 1,
     flexDirection: 'row',
@@ -1091,6 +1364,11 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginBottom: 20,
   },
+  buttonSubtitle: {
+    fontSize: 16,
+    color: 'rgba(255, 255, 255, 0.85)',
+    marginTop: -12,
+  },
   durationSelector: {
     flexDirection: 'row',
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
@@ -1099,7 +1377,7 @@ const styles = StyleSheet.create({
   },
   durationOption: {
     paddingVertical: 10,
-    paddingHorizontal: 24,
+    paddingHorizontal: 14,
     borderRadius: 8,
   },
   durationOptionSelected: {
@@ -1183,6 +1461,46 @@ const styles = StyleSheet.create({
     elevation: 6,
   },
   // Camera preview
+  pageThumbnails: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  pageThumbnail: {
+    width: 44,
+    height: 56,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    overflow: 'hidden',
+    backgroundColor: '#F7FAFC',
+  },
+  pageThumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  pageThumbnailLabel: {
+    position: 'absolute',
+    bottom: 2,
+    left: 4,
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textShadowColor: 'rgba(0, 0, 0, 0.6)',
+    textShadowRadius: 2,
+  },
+  pageThumbnailRemove: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#E53E3E',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   cameraPreviewContainer: {
     width: 280,
     height: 180,
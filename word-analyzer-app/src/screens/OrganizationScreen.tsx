@@ -0,0 +1,564 @@
+/**
+ * Organization Screen
+ * Admin view of a school or district: schools, classes and members with their roles,
+ * and the OCR provider of its classrooms
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../hooks/useAuth';
+import { OcrProviderName, OrgMember, OrgRole, SpeechProviderName } from '../types';
+import {
+  getOrganizationDirectory,
+  saveSchool,
+  saveClass,
+  setMember,
+  removeMember,
+  setOcrProvider,
+  setSpeechProvider,
+  isOrgAdmin,
+  OrganizationDirectory,
+  ORG_ROLE_LABELS,
+} from '../services/organizationService';
+import { OCR_PROVIDER_LABELS, SPEECH_PROVIDER_LABELS } from '../services/teacherService';
+
+import type { RootStackParamList } from '../navigation/AppNavigator';
+
+type OrganizationScreenRouteProp = RouteProp<RootStackParamList, 'Organization'>;
+
+const ROLES: OrgRole[] = ['teacher', 'specialist', 'school-admin', 'district-admin'];
+
+export default function OrganizationScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<OrganizationScreenRouteProp>();
+  const { orgId, orgName } = route.params;
+  const { teacher } = useAuth();
+
+  const [directory, setDirectory] = useState<OrganizationDirectory | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [schoolName, setSchoolName] = useState('');
+  const [className, setClassName] = useState('');
+  const [classSchoolId, setClassSchoolId] = useState<string | null>(null);
+  const [classTeacherId, setClassTeacherId] = useState<string | null>(null);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<OrgRole>('teacher');
+  const [memberSchoolIds, setMemberSchoolIds] = useState<string[]>([]);
+
+  const loadDirectory = async () => {
+    try {
+      setDirectory(await getOrganizationDirectory(orgId));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load organization');
+    }
+  };
+
+  useEffect(() => {
+    loadDirectory();
+  }, [orgId]);
+
+  const viewer = directory?.members.find(member => member.uid === teacher?.uid) || null;
+  const isDistrictAdmin = viewer?.role === 'district-admin';
+
+  // School admins manage their own schools only, and cannot grant admin roles
+  const manageableSchools = (directory?.schools || []).filter(
+    school => isDistrictAdmin || viewer?.schoolIds.includes(school.id)
+  );
+  const grantableRoles = isDistrictAdmin ? ROLES : ROLES.filter(role => !isOrgAdmin(role));
+
+  const getSchoolNames = (schoolIds: string[]) =>
+    schoolIds.map(id => directory?.schools.find(school => school.id === id)?.name || 'Unknown school').join(', ');
+
+  const getMemberName = (uid: string) => {
+    const member = directory?.members.find(m => m.uid === uid);
+    return member ? member.displayName || member.email : 'Former member';
+  };
+
+  const canManageMember = (member: OrgMember) => {
+    if (!viewer || member.uid === viewer.uid) return false;
+    if (isDistrictAdmin) return true;
+    return !isOrgAdmin(member.role)
+      && member.schoolIds.length > 0
+      && member.schoolIds.every(id => viewer.schoolIds.includes(id));
+  };
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await loadDirectory();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || failureMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddSchool = () => runAction(async () => {
+    await saveSchool(orgId, null, schoolName.trim());
+    setSchoolName('');
+  }, 'Failed to add school');
+
+  const handleAddClass = () => runAction(async () => {
+    await saveClass(orgId, null, {
+      name: className.trim(),
+      schoolId: classSchoolId!,
+      teacherId: classTeacherId!,
+    });
+    setClassName('');
+  }, 'Failed to add class');
+
+  const handleSaveMember = () => runAction(async () => {
+    const { invited, classroomLinked } = await setMember(orgId, memberEmail.trim(), memberRole, memberSchoolIds);
+    if (invited) {
+      Alert.alert(
+        'Invitation Sent',
+        'They join the organization, and share their classroom, once they accept the invitation in the app.'
+      );
+    } else if (!classroomLinked) {
+      Alert.alert(
+        'Classroom Not Shared',
+        'This member\'s classroom already belongs to another organization, so its students are not visible here.'
+      );
+    }
+    setMemberEmail('');
+    setMemberSchoolIds([]);
+  }, 'Failed to save member');
+
+  const handleSelectOcrProvider = (ocrProvider: OcrProviderName | null) =>
+    runAction(() => setOcrProvider(orgId, ocrProvider), 'Failed to save OCR provider');
+
+  const handleSelectSpeechProvider = (speechProvider: SpeechProviderName | null) =>
+    runAction(() => setSpeechProvider(orgId, speechProvider), 'Failed to save speech provider');
+
+  const handleRemoveMember = (member: OrgMember) => {
+    Alert.alert(
+      'Remove Member',
+      `Remove ${member.displayName || member.email} from ${orgName}? Their classes are removed and ` +
+      'staff of the organization lose access to their classroom.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => runAction(() => removeMember(orgId, member.uid), 'Failed to remove member'),
+        },
+      ]
+    );
+  };
+
+  const toggleMemberSchool = (schoolId: string) => {
+    setMemberSchoolIds(prev =>
+      prev.includes(schoolId) ? prev.filter(id => id !== schoolId) : [...prev, schoolId]
+    );
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#4A5568" />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{orgName}</Text>
+        <View style={styles.headerSpacer}>
+          {isSaving && <ActivityIndicator size="small" color="#4299E1" />}
+        </View>
+      </View>
+
+      {!directory ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#4299E1" />
+        </View>
+      ) : !viewer || !isOrgAdmin(viewer.role) ? (
+        <View style={styles.centerContainer}>
+          <MaterialIcons name="lock" size={48} color="#A0AEC0" />
+          <Text style={styles.emptyText}>Only school and district admins can manage the organization</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Schools */}
+          <Text style={styles.sectionTitle}>Schools</Text>
+          <View style={styles.card}>
+            {directory.schools.length === 0 ? (
+              <Text style={styles.emptyText}>No schools yet</Text>
+            ) : (
+              directory.schools.map(school => (
+                <View key={school.id} style={styles.row}>
+                  <MaterialIcons name="school" size={20} color="#718096" />
+                  <Text style={styles.rowTitle}>{school.name}</Text>
+                </View>
+              ))
+            )}
+            {isDistrictAdmin && (
+              <View style={styles.formRow}>
+                <TextInput
+                  style={styles.input}
+                  value={schoolName}
+                  onChangeText={setSchoolName}
+                  placeholder="School name"
+                />
+                <TouchableOpacity
+                  style={[styles.addButton, (!schoolName.trim() || isSaving) && styles.buttonDisabled]}
+                  onPress={handleAddSchool}
+                  disabled={!schoolName.trim() || isSaving}
+                >
+                  <Text style={styles.addButtonText}>Add School</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          {/* Classes */}
+          <Text style={styles.sectionTitle}>Classes</Text>
+          <View style={styles.card}>
+            {directory.classes.length === 0 ? (
+              <Text style={styles.emptyText}>No classes yet</Text>
+            ) : (
+              directory.classes.map(orgClass => (
+                <View key={orgClass.id} style={styles.row}>
+                  <MaterialIcons name="class" size={20} color="#718096" />
+                  <Text style={styles.rowTitle}>{orgClass.name}</Text>
+                  <Text style={styles.rowMeta}>
+                    {getSchoolNames([orgClass.schoolId])} · {getMemberName(orgClass.teacherId)}
+                  </Text>
+                </View>
+              ))
+            )}
+            {manageableSchools.length > 0 && (
+              <View style={styles.form}>
+                <TextInput
+                  style={styles.input}
+                  value={className}
+                  onChangeText={setClassName}
+                  placeholder="Class name, e.g. Grade 3 - Room 12"
+                />
+                <Text style={styles.formLabel}>School</Text>
+                <View style={styles.chipRow}>
+                  {manageableSchools.map(school => renderChip(
+                    school.id,
+                    school.name,
+                    classSchoolId === school.id,
+                    () => setClassSchoolId(school.id)
+                  ))}
+                </View>
+                <Text style={styles.formLabel}>Teacher</Text>
+                <View style={styles.chipRow}>
+                  {directory.members.map(member => renderChip(
+                    member.uid,
+                    member.displayName || member.email,
+                    classTeacherId === member.uid,
+                    () => setClassTeacherId(member.uid)
+                  ))}
+                </View>
+                <TouchableOpacity
+                  style={[
+                    styles.addButton,
+                    (!className.trim() || !classSchoolId || !classTeacherId || isSaving) && styles.buttonDisabled,
+                  ]}
+                  onPress={handleAddClass}
+                  disabled={!className.trim() || !classSchoolId || !classTeacherId || isSaving}
+                >
+                  <Text style={styles.addButtonText}>Add Class</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          {/* OCR */}
+          {isDistrictAdmin && (
+            <>
+              <Text style={styles.sectionTitle}>Passage Photos</Text>
+              <View style={styles.card}>
+                <Text style={styles.settingDescription}>
+                  The service that reads the words of passage photos in every classroom of the
+                  organization. Tesseract runs on our own server, so photos are not sent to a cloud
+                  service. Teacher's choice leaves it to each teacher's settings.
+                </Text>
+                <View style={styles.chipRow}>
+                  {renderChip('teacher', 'Teacher\'s choice', directory.ocrProvider === null, () => handleSelectOcrProvider(null))}
+                  {(Object.keys(OCR_PROVIDER_LABELS) as OcrProviderName[]).map(provider => renderChip(
+                    provider,
+                    OCR_PROVIDER_LABELS[provider],
+                    directory.ocrProvider === provider,
+                    () => handleSelectOcrProvider(provider)
+                  ))}
+                </View>
+              </View>
+
+              <Text style={styles.sectionTitle}>Speech Recognition</Text>
+              <View style={styles.card}>
+                <Text style={styles.settingDescription}>
+                  The service that transcribes recordings in every classroom of the organization.
+                  Whisper runs on our own server, so recordings are not sent to a cloud service.
+                  Teacher's choice leaves it to each teacher's settings.
+                </Text>
+                <View style={styles.chipRow}>
+                  {renderChip('teacher', 'Teacher\'s choice', directory.speechProvider === null, () => handleSelectSpeechProvider(null))}
+                  {(Object.keys(SPEECH_PROVIDER_LABELS) as SpeechProviderName[]).map(provider => renderChip(
+                    provider,
+                    SPEECH_PROVIDER_LABELS[provider],
+                    directory.speechProvider === provider,
+                    () => handleSelectSpeechProvider(provider)
+                  ))}
+                </View>
+              </View>
+            </>
+          )}
+
+          {/* Members */}
+          <Text style={styles.sectionTitle}>Members</Text>
+          <View style={styles.card}>
+            {directory.members.map(member => (
+              <View key={member.uid} style={styles.row}>
+                <MaterialIcons name="person" size={20} color="#718096" />
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{member.displayName || member.email}</Text>
+                  <Text style={styles.rowMeta}>
+                    {ORG_ROLE_LABELS[member.role]}
+                    {member.role === 'district-admin' ? ' · All schools' : ` · ${getSchoolNames(member.schoolIds)}`}
+                  </Text>
+                </View>
+                {canManageMember(member) && (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => handleRemoveMember(member)}
+                    disabled={isSaving}
+                  >
+                    <MaterialIcons name="person-remove" size={20} color="#E53E3E" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+
+            <View style={styles.form}>
+              <Text style={styles.settingDescription}>
+                Invite someone by the email they sign in with, or enter a member's email to change their
+                role and schools. Specialists and school admins can view the classrooms of their schools.
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={memberEmail}
+                onChangeText={setMemberEmail}
+                placeholder="Email"
+                autoCapitalize="none"
+                keyboardType="email-address"
+              />
+              <Text style={styles.formLabel}>Role</Text>
+              <View style={styles.chipRow}>
+                {grantableRoles.map(role => renderChip(
+                  role,
+                  ORG_ROLE_LABELS[role],
+                  memberRole === role,
+                  () => setMemberRole(role)
+                ))}
+              </View>
+              {memberRole !== 'district-admin' && (
+                <>
+                  <Text style={styles.formLabel}>Schools</Text>
+                  <View style={styles.chipRow}>
+                    {manageableSchools.map(school => renderChip(
+                      school.id,
+                      school.name,
+                      memberSchoolIds.includes(school.id),
+                      () => toggleMemberSchool(school.id)
+                    ))}
+                  </View>
+                </>
+              )}
+              <TouchableOpacity
+                style={[
+                  styles.addButton,
+                  (!memberEmail.trim() || (memberRole !== 'district-admin' && memberSchoolIds.length === 0) || isSaving)
+                    && styles.buttonDisabled,
+                ]}
+                onPress={handleSaveMember}
+                disabled={!memberEmail.trim() || (memberRole !== 'district-admin' && memberSchoolIds.length === 0) || isSaving}
+              >
+                <Text style={styles.addButtonText}>Save Member</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4A5568',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  headerSpacer: {
+    width: 80,
+    alignItems: 'flex-end',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+  },
+  content: {
+    padding: 24,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4A5568',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#2D3748',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#718096',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#A0AEC0',
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: '#718096',
+  },
+  form: {
+    gap: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+  },
+  formRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  formLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4A5568',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    borderColor: '#4299E1',
+    backgroundColor: '#EBF8FF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  chipTextSelected: {
+    color: '#4299E1',
+    fontWeight: '500',
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#4299E1',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  removeButton: {
+    padding: 8,
+  },
+});
@@ -2,7 +2,7 @@
  * Recording Screen
  * Two-phase recording:
  * 1. Name capture (4 seconds) - Voice prompt "Please state your name" + beep
- * 2. Reading recording (30/60 seconds) - Beep then record
+ * 2. Reading recording (30s/1/2 minutes, or untimed until stopped) - Beep then record
  */
 
 import React, { useState, useEffect, useRef } from 'react';
@@ -20,6 +20,7 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Audio, AVPlaybackStatus } from 'expo-av';
 import { MaterialIcons } from '@expo/vector-icons';
 import { RecordingDuration } from '../types';
+import { getRecordingLimitSeconds } from '../config/recording';
 
 type RootStackParamList = {
   Home: undefined;
@@ -39,7 +40,7 @@ type Phase =
   | 'name_recording'    // Recording name (4 seconds)
   | 'name_complete'     // Name recorded, waiting to start reading
   | 'reading_beep'      // Beeping before reading recording
-  | 'reading_recording' // Recording reading (30/60 seconds)
+  | 'reading_recording' // Recording reading (timed or until stopped)
   | 'complete';         // All done
 
 const NAME_RECORDING_DURATION = 4; // seconds
@@ -54,6 +55,7 @@ export default function RecordingScreen() {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<RecordingRouteProp>();
   const { duration } = route.params;
+  const limitSeconds = getRecordingLimitSeconds(duration);
 
   const [phase, setPhase] = useState<Phase>('initial');
   const [elapsedTime, setElapsedTime] = useState(0);
@@ -352,7 +354,7 @@ export default function RecordingScreen() {
 
       timerRef.current = setInterval(() => {
         setElapsedTime((prev) => {
-          if (prev >= duration - 1) {
+          if (prev >= limitSeconds - 1) {
             stopReadingRecording();
             return prev;
           }
@@ -486,7 +488,8 @@ export default function RecordingScreen() {
           <MaterialIcons name="check-circle" size={80} color="#48BB78" />
           <Text style={styles.phaseTitle}>Name Recorded!</Text>
           <Text style={styles.phaseSubtitle}>
-            Now tap the button below to start{'\n'}your {duration}-second reading
+            Now tap the button below to start{'\n'}
+            {duration === 'untimed' ? 'your reading' : `your ${duration}-second reading`}
           </Text>
 
           <TouchableOpacity style={styles.startReadingButton} onPress={handleStartReading}>
@@ -503,7 +506,7 @@ export default function RecordingScreen() {
 
   // RENDER: Reading recording phase
   if (phase === 'reading_recording') {
-    const progress = elapsedTime / duration;
+    const progress = elapsedTime / limitSeconds;
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.centerContainer}>
@@ -520,18 +523,22 @@ export default function RecordingScreen() {
 
           <View style={styles.timerContainer}>
             <Text style={styles.timerTextLarge}>{formatTime(elapsedTime + 1)}</Text>
-            <Text style={styles.timerDuration}>/ {formatTime(duration)}</Text>
+            {duration !== 'untimed' && (
+              <Text style={styles.timerDuration}>/ {formatTime(duration)}</Text>
+            )}
           </View>
 
-          <View style={styles.progressBarContainer}>
-            <View style={[styles.progressBar, { width: `${progress * 100}%` }]} />
-          </View>
+          {duration !== 'untimed' && (
+            <View style={styles.progressBarContainer}>
+              <View style={[styles.progressBar, { width: `${progress * 100}%` }]} />
+            </View>
+          )}
         </View>
 
         <View style={styles.controls}>
           <TouchableOpacity style={styles.stopButton} onPress={stopReadingRecording}>
             <MaterialIcons name="stop" size={32} color="#FFFFFF" />
-            <Text style={styles.stopButtonText}>Stop Early</Text>
+            <Text style={styles.stopButtonText}>{duration === 'untimed' ? 'Stop' : 'Stop Early'}</Text>
           </TouchableOpacity>
           <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
             <Text style={styles.cancelText}>Cancel</Text>
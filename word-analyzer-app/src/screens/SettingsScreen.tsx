@@ -0,0 +1,388 @@
+/**
+ * Settings Screen
+ * Teacher preferences: what student information may be sent to AI and speech
+ * services, the nicknames spoken in audio feedback, which services read passage photos
+ * and transcribe recordings, and the teacher PIN that exits kiosk mode
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useAuth } from '../hooks/useAuth';
+import { OcrProviderName, SpeechProviderName, Student, TeacherSettings } from '../types';
+import {
+  getTeacherSettings,
+  updateTeacherSettings,
+  getKioskPin,
+  setKioskPin,
+  OCR_PROVIDER_LABELS,
+  SPEECH_PROVIDER_LABELS,
+} from '../services/teacherService';
+import { getStudents, setStudentNickname } from '../services/studentService';
+import KioskPinModal from '../components/KioskPinModal';
+
+import type { RootStackParamList } from '../navigation/AppNavigator';
+
+export default function SettingsScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { teacher } = useAuth();
+  const [settings, setSettings] = useState<TeacherSettings | null>(null);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [nicknames, setNicknames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChangingPin, setIsChangingPin] = useState(false);
+  const [hasKioskPin, setHasKioskPin] = useState(false);
+
+  useEffect(() => {
+    if (!teacher?.uid) return;
+
+    Promise.all([getTeacherSettings(teacher.uid), getKioskPin(teacher.uid), getStudents(teacher.uid)])
+      .then(([teacherSettings, kioskPin, studentList]) => {
+        setSettings(teacherSettings);
+        setHasKioskPin(kioskPin !== null);
+        // Nicknames are set by the student's owner
+        studentList = studentList.filter(student => !student.sharedBy);
+        setStudents(studentList);
+        setNicknames(Object.fromEntries(studentList.map(student => [student.id, student.nickname || ''])));
+      })
+      .catch((error) => Alert.alert('Error', error.message || 'Failed to load settings'))
+      .finally(() => setIsLoading(false));
+  }, [teacher?.uid]);
+
+  const handleToggleNames = async (neverTransmitNames: boolean) => {
+    if (!teacher?.uid || !settings) return;
+    const previous = settings;
+    setSettings({ ...settings, neverTransmitNames });
+    try {
+      await updateTeacherSettings(teacher.uid, { neverTransmitNames });
+    } catch (error: any) {
+      setSettings(previous);
+      Alert.alert('Error', error.message || 'Failed to save setting');
+    }
+  };
+
+  const handleSelectOcrProvider = async (ocrProvider: OcrProviderName | null) => {
+    if (!teacher?.uid || !settings) return;
+    const previous = settings;
+    setSettings({ ...settings, ocrProvider });
+    try {
+      await updateTeacherSettings(teacher.uid, { ocrProvider });
+    } catch (error: any) {
+      setSettings(previous);
+      Alert.alert('Error', error.message || 'Failed to save setting');
+    }
+  };
+
+  const handleSelectSpeechProvider = async (speechProvider: SpeechProviderName | null) => {
+    if (!teacher?.uid || !settings) return;
+    const previous = settings;
+    setSettings({ ...settings, speechProvider });
+    try {
+      await updateTeacherSettings(teacher.uid, { speechProvider });
+    } catch (error: any) {
+      setSettings(previous);
+      Alert.alert('Error', error.message || 'Failed to save setting');
+    }
+  };
+
+  const handleChangeKioskPin = async (pin: string): Promise<string | null> => {
+    if (!teacher?.uid) return null;
+    try {
+      await setKioskPin(teacher.uid, pin);
+      setHasKioskPin(true);
+      return null;
+    } catch (error: any) {
+      return error?.message || 'Failed to save the PIN';
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const handleSaveNickname = async (student: Student) => {
+    const nickname = (nicknames[student.id] || '').trim();
+    if (!teacher?.uid || nickname === (student.nickname || '')) return;
+    try {
+      await setStudentNickname(teacher.uid, student.id, nickname);
+      setStudents(prev => prev.map(s => (s.id === student.id ? { ...s, nickname: nickname || undefined } : s)));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save nickname');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <MaterialIcons name="arrow-back" size={24} color="#4A5568" />
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Settings</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading || !settings ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#4299E1" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {/* Privacy */}
+          <Text style={styles.sectionTitle}>Student Privacy</Text>
+          <View style={styles.card}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Never send student names</Text>
+                <Text style={styles.settingDescription}>
+                  AI feedback is always written without the student's name. By default the first
+                  name is spoken in the feedback audio, sent to the speech service on its own. Turn
+                  this on to leave the name out of the audio too, unless you set a nickname below.
+                </Text>
+              </View>
+              <Switch
+                value={settings.neverTransmitNames}
+                onValueChange={handleToggleNames}
+                trackColor={{ true: '#4299E1', false: '#E2E8F0' }}
+              />
+            </View>
+          </View>
+
+          {/* OCR */}
+          <Text style={styles.sectionTitle}>Passage Photos</Text>
+          <View style={styles.card}>
+            <Text style={styles.settingDescription}>
+              The service that reads the words of passage photos. Tesseract runs on our own server,
+              so photos are not sent to a cloud service. If your school or district has chosen one,
+              their choice is used instead.
+            </Text>
+            <View style={styles.chipRow}>
+              {renderChip('default', 'Default', settings.ocrProvider === null, () => handleSelectOcrProvider(null))}
+              {(Object.keys(OCR_PROVIDER_LABELS) as OcrProviderName[]).map(provider => renderChip(
+                provider,
+                OCR_PROVIDER_LABELS[provider],
+                settings.ocrProvider === provider,
+                () => handleSelectOcrProvider(provider)
+              ))}
+            </View>
+          </View>
+
+          {/* Speech */}
+          <Text style={styles.sectionTitle}>Speech Recognition</Text>
+          <View style={styles.card}>
+            <Text style={styles.settingDescription}>
+              The service that transcribes recordings. Whisper runs on our own server, so
+              recordings are not sent to a cloud service. If your school or district has chosen
+              one, their choice is used instead.
+            </Text>
+            <View style={styles.chipRow}>
+              {renderChip('default', 'Default', settings.speechProvider === null, () => handleSelectSpeechProvider(null))}
+              {(Object.keys(SPEECH_PROVIDER_LABELS) as SpeechProviderName[]).map(provider => renderChip(
+                provider,
+                SPEECH_PROVIDER_LABELS[provider],
+                settings.speechProvider === provider,
+                () => handleSelectSpeechProvider(provider)
+              ))}
+            </View>
+          </View>
+
+          {/* Kiosk */}
+          <Text style={styles.sectionTitle}>Kiosk Mode</Text>
+          <View style={styles.card}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Teacher PIN</Text>
+                <Text style={styles.settingDescription}>
+                  {hasKioskPin
+                    ? 'Needed to leave kiosk mode. If you forget it, sign out from the kiosk and choose a new one here.'
+                    : 'You will choose a PIN the first time you start kiosk mode.'}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.chip} onPress={() => setIsChangingPin(true)}>
+                <Text style={styles.chipText}>{hasKioskPin ? 'Change PIN' : 'Set PIN'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Nicknames */}
+          <Text style={styles.sectionTitle}>Spoken Nicknames</Text>
+          <View style={styles.card}>
+            <Text style={styles.settingDescription}>
+              A nickname you approve is spoken in the feedback audio instead of the student's name.
+            </Text>
+            {students.length === 0 ? (
+              <Text style={styles.emptyText}>No students yet</Text>
+            ) : (
+              students.map((student) => (
+                <View key={student.id} style={styles.nicknameRow}>
+                  <Text style={styles.studentName}>{student.name}</Text>
+                  <TextInput
+                    style={styles.nicknameInput}
+                    value={nicknames[student.id] || ''}
+                    onChangeText={(text) => setNicknames(prev => ({ ...prev, [student.id]: text }))}
+                    onBlur={() => handleSaveNickname(student)}
+                    placeholder="No nickname"
+                  />
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      <KioskPinModal
+        visible={isChangingPin}
+        mode="change"
+        onSubmit={handleChangeKioskPin}
+        onClose={() => setIsChangingPin(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#4A5568',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#2D3748',
+  },
+  headerSpacer: {
+    width: 80,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 24,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4A5568',
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    gap: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  settingInfo: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#2D3748',
+    marginBottom: 4,
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: '#718096',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#A0AEC0',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    borderColor: '#4299E1',
+    backgroundColor: '#EBF8FF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#4A5568',
+  },
+  chipTextSelected: {
+    color: '#4299E1',
+    fontWeight: '500',
+  },
+  nicknameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 16,
+  },
+  studentName: {
+    fontSize: 16,
+    color: '#2D3748',
+    flex: 1,
+  },
+  nicknameInput: {
+    backgroundColor: '#F7FAFC',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    width: 200,
+  },
+});
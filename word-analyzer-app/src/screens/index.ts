@@ -7,3 +7,8 @@ export { default as HomeScreen } from './HomeScreen';
 export { default as AnalysisScreen } from './AnalysisScreen';
 export { default as HistoryScreen } from './HistoryScreen';
 export { default as AssessmentDetailScreen } from './AssessmentDetailScreen';
+export { default as CelerationChartScreen } from './CelerationChartScreen';
+export { default as DeletionLogScreen } from './DeletionLogScreen';
+export { default as SettingsScreen } from './SettingsScreen';
+export { default as OrganizationScreen } from './OrganizationScreen';
+export { default as ClassroomsScreen } from './ClassroomsScreen';
@@ -2,22 +2,130 @@ import {
   collection,
   doc,
   setDoc,
-  updateDoc,
+  getDoc,
   onSnapshot,
   serverTimestamp,
   Unsubscribe,
   query,
+  where,
   orderBy,
   limit,
   getDocs,
   deleteDoc,
+  DocumentData,
 } from 'firebase/firestore';
-import { ref, uploadBytes, getStorage } from 'firebase/storage';
-import { db } from '../config/firebase';
-import { DashboardAssessment } from '../types';
+import { ref, uploadBytesResumable, uploadString, getMetadata, getStorage, UploadMetadata } from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import * as Crypto from 'expo-crypto';
+import { auth, db } from '../config/firebase';
+import {
+  DashboardAssessment,
+  AssessmentRecorder,
+  AssessmentRevision,
+  AssessmentStage,
+  AssessmentStageName,
+  RecordingDuration,
+  UploadManifest,
+  UploadManifestFile,
+} from '../types';
 
 const storage = getStorage();
 
+// Processing functions time out after 540 s - a stage still running after that was cut off
+const STAGE_TIMEOUT_MS = 540 * 1000;
+
+/**
+ * Map stored stage records, converting their start times
+ */
+function toStages(data: DocumentData | undefined): Partial<Record<AssessmentStageName, AssessmentStage>> | undefined {
+  if (!data) return undefined;
+  const stages: Partial<Record<AssessmentStageName, AssessmentStage>> = {};
+  for (const [name, stage] of Object.entries(data)) {
+    stages[name as AssessmentStageName] = {
+      status: stage.status,
+      startedAt: stage.startedAt?.toDate(),
+      durationMs: stage.durationMs ?? null,
+      error: stage.error ?? null,
+    };
+  }
+  return stages;
+}
+
+/**
+ * The stage whose processing function timed out while it ran, if any
+ * (it can be retried like a failed stage)
+ */
+function findStaleStage(
+  stages: Partial<Record<AssessmentStageName, AssessmentStage>> | undefined
+): AssessmentStageName | undefined {
+  const stale = Object.entries(stages || {}).find(([, stage]) => stage.status === 'running'
+    && !!stage.startedAt
+    && Date.now() - stage.startedAt.getTime() > STAGE_TIMEOUT_MS);
+  return stale?.[0] as AssessmentStageName | undefined;
+}
+
+/**
+ * Map a Firestore assessment document to a DashboardAssessment
+ */
+function toDashboardAssessment(id: string, data: DocumentData, teacherId: string): DashboardAssessment {
+  const stages = toStages(data.stages);
+  const staleStage = data.status === 'processing' ? findStaleStage(stages) : undefined;
+
+  return {
+    id,
+    teacherId,
+    studentId: data.studentId,
+    studentName: data.studentName,
+    recordedBy: data.recordedBy ?? undefined,
+    ...(staleStage ? {
+      status: 'error',
+      errorMessage: 'Processing stopped before it finished. Please retry.',
+      failedStage: staleStage,
+    } : {
+      status: data.status,
+      errorMessage: data.errorMessage,
+      failedStage: data.failedStage,
+    }),
+    stages,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    processedAt: data.processedAt?.toDate(),
+    audioUrl: data.audioUrl,
+    imageUrl: data.imageUrl,
+    videoUrl: data.videoUrl,
+    pdfUrl: data.pdfUrl,
+    audioDuration: data.audioDuration,
+    recordingDuration: data.recordingDuration,
+    imageWidth: data.imageWidth,
+    imageHeight: data.imageHeight,
+    pages: data.pages,
+    passageId: data.passageId,
+    passageTitle: data.passageTitle,
+    passageMatchConfidence: data.passageMatchConfidence,
+    ocrText: data.ocrText,
+    ocrWords: data.ocrWords,
+    expectedWordEdits: data.expectedWordEdits,
+    transcript: data.transcript,
+    metrics: data.metrics,
+    words: data.words,
+    errorPatterns: data.errorPatterns,
+    patternSummary: data.patternSummary,
+    aiSummary: data.aiSummary,
+    aiSummaryAudioUrl: data.aiSummaryAudioUrl,
+    revision: data.revision,
+    reanalyzedAt: data.reanalyzedAt?.toDate(),
+    importedFrom: data.importedFrom,
+  };
+}
+
+/**
+ * Library passage attached to a new assessment
+ */
+export interface AssessmentPassage {
+  id: string;
+  title: string;
+}
+
 /**
  * Early upload result - contains IDs needed to complete the upload later
  */
@@ -26,69 +134,261 @@ export interface EarlyUploadResult {
   audioUploaded: boolean;
 }
 
+/**
+ * Passage fields stored on an assessment read from the library
+ */
+function toPassageFields(passage: AssessmentPassage | null): DocumentData {
+  return passage
+    ? { passageId: passage.id, passageTitle: passage.title }
+    : {};
+}
+
+/**
+ * A local recording or photo ready to upload, with the SHA-256 (hex) of its bytes
+ */
+interface UploadFile {
+  blob: Blob;
+  sha256: string;
+}
+
+function readBlobBytes(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Read a local file and hash it, so processing can verify the upload arrived intact
+ */
+async function readUploadFile(uri: string): Promise<UploadFile> {
+  console.log('Fetching file from:', uri?.slice(0, 100));
+  const response = await fetch(uri);
+  const blob = await response.blob();
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, await readBlobBytes(blob));
+  const sha256 = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  console.log('File size:', blob.size, 'type:', blob.type, 'sha256:', sha256);
+  return { blob, sha256 };
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
+
+/**
+ * Resumable upload with the file's hash in its custom metadata (sha256)
+ * Progress is reported across [startProgress, endProgress] as the bytes are sent
+ */
+function uploadFile(
+  path: string,
+  file: UploadFile,
+  label: string,
+  onProgress: ((stage: string, progress: number) => void) | undefined,
+  startProgress: number,
+  endProgress: number,
+  metadata: UploadMetadata = {}
+): Promise<void> {
+  console.log('Uploading to:', path);
+  return new Promise((resolve, reject) => {
+    const task = uploadBytesResumable(ref(storage, path), file.blob, {
+      ...metadata,
+      customMetadata: { ...metadata.customMetadata, sha256: file.sha256 },
+    });
+    task.on(
+      'state_changed',
+      (snapshot) => {
+        const fraction = snapshot.totalBytes > 0 ? snapshot.bytesTransferred / snapshot.totalBytes : 0;
+        onProgress?.(
+          `${label} (${formatMegabytes(snapshot.bytesTransferred)} of ${formatMegabytes(snapshot.totalBytes)} MB)`,
+          Math.round(startProgress + (endProgress - startProgress) * fraction)
+        );
+      },
+      reject,
+      () => resolve()
+    );
+  });
+}
+
+function toManifestFile(name: string, kind: UploadManifestFile['kind'], file: UploadFile): UploadManifestFile {
+  return { name, kind, size: file.blob.size, sha256: file.sha256, contentType: file.blob.type };
+}
+
+/**
+ * Write manifest.json once every file it lists is uploaded - this starts processing
+ */
+async function writeUploadManifest(
+  teacherId: string,
+  assessmentId: string,
+  files: UploadManifestFile[],
+  passageId: string | null,
+  recordingDuration: RecordingDuration | null
+): Promise<void> {
+  const manifest: UploadManifest = {
+    version: 1,
+    files,
+    passageId,
+    options: { recordingDuration },
+  };
+  await uploadString(
+    ref(storage, `uploads/${teacherId}/${assessmentId}/manifest.json`),
+    JSON.stringify(manifest),
+    'raw',
+    { contentType: 'application/json' }
+  );
+  console.log('Upload manifest written:', files.map(file => file.name));
+}
+
+/**
+ * Upload captured page images in reading order as image-1..n
+ * Returns their manifest entries, in the same order
+ */
+async function uploadPageImages(
+  teacherId: string,
+  assessmentId: string,
+  imageUris: string[],
+  onProgress?: (stage: string, progress: number) => void,
+  startProgress: number = 60
+): Promise<UploadManifestFile[]> {
+  const manifestFiles: UploadManifestFile[] = [];
+  const progressPerImage = (100 - startProgress) / Math.max(imageUris.length, 1);
+
+  for (const [index, imageUri] of imageUris.entries()) {
+    const pageLabel = imageUris.length > 1 ? ` ${index + 1} of ${imageUris.length}` : '';
+    const imageStart = startProgress + progressPerImage * index;
+    onProgress?.(`Uploading image${pageLabel}...`, Math.round(imageStart));
+
+    // Upload image file - preserve original quality
+    const imageFile = await readUploadFile(imageUri);
+
+    // Use PNG for better quality if source is PNG, otherwise use original format
+    const imageExtension = imageFile.blob.type.includes('png') ? 'png' : 'jpg';
+    const imageName = `image-${index + 1}.${imageExtension}`;
+    const imagePath = `uploads/${teacherId}/${assessmentId}/${imageName}`;
+
+    // Upload with metadata to preserve quality
+    await uploadFile(imagePath, imageFile, `Uploading image${pageLabel}...`, onProgress, imageStart, imageStart + progressPerImage, {
+      contentType: imageFile.blob.type || 'image/jpeg',
+      customMetadata: {
+        originalSize: imageFile.blob.size.toString(),
+      },
+    });
+    manifestFiles.push(toManifestFile(imageName, 'image', imageFile));
+  }
+  console.log(`${imageUris.length} image(s) uploaded with full quality`);
+  return manifestFiles;
+}
+
+/**
+ * The signed-in teacher, recorded on new assessments so co-teachers' recordings can be told apart
+ */
+function currentRecorder(): AssessmentRecorder {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('You must be signed in to record an assessment');
+  }
+  return { uid: user.uid, email: user.email };
+}
+
+/**
+ * Refuse to record a student without granted parental consent
+ * (processAssessment deletes such uploads as a server-side backstop)
+ */
+async function assertParentalConsent(teacherId: string, studentId: string): Promise<void> {
+  const studentDoc = await getDoc(doc(db, 'teachers', teacherId, 'students', studentId));
+  if (studentDoc.data()?.consent?.status !== 'granted') {
+    throw new FirebaseError('failed-precondition', 'Parental consent has not been granted for this student');
+  }
+}
+
+/**
+ * A new assessment id, for uploads that may be retried under the same id
+ */
+export function generateAssessmentId(): string {
+  return doc(collection(db, 'temp')).id;
+}
+
 /**
  * Create a new assessment and upload files
+ * Images are optional when a library passage provides the expected words
+ * teacherId is the student's owner, so co-teachers record into the owner's classroom
+ * A retried upload passes the id of its first attempt, so it never creates a second assessment
  */
 export async function createAssessment(
   teacherId: string,
   studentId: string,
   studentName: string,
   audioUri: string,
-  imageUri: string,
-  onProgress?: (stage: string, progress: number) => void
+  imageUris: string[],
+  passage: AssessmentPassage | null,
+  recordingDuration: RecordingDuration,
+  onProgress?: (stage: string, progress: number) => void,
+  retryAssessmentId?: string
 ): Promise<string> {
-  console.log('createAssessment called with:', { teacherId, studentId, studentName, audioUri: audioUri?.slice(0, 50), imageUri: imageUri?.slice(0, 50) });
+  console.log('createAssessment called with:', { teacherId, studentId, studentName, audioUri: audioUri?.slice(0, 50), imageCount: imageUris.length, passageId: passage?.id });
 
-  // Generate assessment ID
-  const assessmentId = doc(collection(db, 'temp')).id;
-  console.log('Generated assessmentId:', assessmentId);
+  if (imageUris.length === 0 && !passage) {
+    throw new FirebaseError('invalid-argument', 'An image or a library passage is required');
+  }
+
+  await assertParentalConsent(teacherId, studentId);
+
+  const assessmentId = retryAssessmentId || generateAssessmentId();
+  console.log('Assessment ID:', assessmentId);
 
   try {
+    const assessmentRef = doc(db, 'teachers', teacherId, 'assessments', assessmentId);
+
+    // An earlier attempt that got as far as processing needs no new upload
+    // (the rules don't let co-teachers read an assessment that doesn't exist yet)
+    if (retryAssessmentId) {
+      const existing = await getDoc(assessmentRef).catch(() => null);
+      if (existing?.exists() && existing.data().status !== 'uploading') {
+        console.log('Assessment already uploaded:', assessmentId);
+        return assessmentId;
+      }
+    }
+
     // Create assessment document with uploading status (will be changed to 'processing' by cloud function)
     onProgress?.('Creating assessment...', 0);
-    const assessmentRef = doc(db, 'teachers', teacherId, 'assessments', assessmentId);
     await setDoc(assessmentRef, {
       studentId,
       studentName,
       status: 'uploading',
+      recordedBy: currentRecorder(),
+      recordingDuration,
+      ...toPassageFields(passage),
       createdAt: serverTimestamp(),
     });
     console.log('Assessment document created');
 
     onProgress?.('Uploading audio...', 20);
 
-    // Upload audio file
-    console.log('Fetching audio from:', audioUri?.slice(0, 100));
-    const audioResponse = await fetch(audioUri);
-    const audioBlob = await audioResponse.blob();
-    console.log('Audio blob size:', audioBlob.size);
-
-    const audioRef = ref(storage, `uploads/${teacherId}/${assessmentId}/audio.webm`);
-    console.log('Uploading audio to:', `uploads/${teacherId}/${assessmentId}/audio.webm`);
-    await uploadBytes(audioRef, audioBlob);
+    // Upload audio file (the whole bar when there are no images)
+    const audioFile = await readUploadFile(audioUri);
+    await uploadFile(
+      `uploads/${teacherId}/${assessmentId}/audio.webm`,
+      audioFile,
+      'Uploading audio...',
+      onProgress,
+      20,
+      imageUris.length > 0 ? 60 : 100
+    );
     console.log('Audio uploaded successfully');
 
-    onProgress?.('Uploading image...', 60);
+    // Passage-only assessments have no images
+    const imageFiles = await uploadPageImages(teacherId, assessmentId, imageUris, onProgress);
 
-    // Upload image file - preserve original quality
-    console.log('Fetching image from:', imageUri?.slice(0, 100));
-    const imageResponse = await fetch(imageUri);
-    const imageBlob = await imageResponse.blob();
-    console.log('Image blob size:', imageBlob.size, 'type:', imageBlob.type);
-
-    // Use PNG for better quality if source is PNG, otherwise use original format
-    const imageExtension = imageBlob.type.includes('png') ? 'png' : 'jpg';
-    const imageRef = ref(storage, `uploads/${teacherId}/${assessmentId}/image.${imageExtension}`);
-    console.log('Uploading image to:', `uploads/${teacherId}/${assessmentId}/image.${imageExtension}`);
-
-    // Upload with metadata to preserve quality
-    await uploadBytes(imageRef, imageBlob, {
-      contentType: imageBlob.type || 'image/jpeg',
-      customMetadata: {
-        originalSize: imageBlob.size.toString(),
-      },
-    });
-    console.log('Image uploaded successfully with full quality');
+    await writeUploadManifest(
+      teacherId,
+      assessmentId,
+      [toManifestFile('audio.webm', 'audio', audioFile), ...imageFiles],
+      passage?.id || null,
+      recordingDuration
+    );
 
     onProgress?.('Processing...', 100);
 
@@ -111,31 +411,7 @@ export function subscribeToAssessment(
 
   return onSnapshot(assessmentRef, (snapshot) => {
     if (snapshot.exists()) {
-      const data = snapshot.data();
-      onUpdate({
-        id: snapshot.id,
-        studentId: data.studentId,
-        studentName: data.studentName,
-        status: data.status,
-        errorMessage: data.errorMessage,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        processedAt: data.processedAt?.toDate(),
-        audioUrl: data.audioUrl,
-        imageUrl: data.imageUrl,
-        videoUrl: data.videoUrl,
-        pdfUrl: data.pdfUrl,
-        audioDuration: data.audioDuration,
-        imageWidth: data.imageWidth,
-        imageHeight: data.imageHeight,
-        ocrText: data.ocrText,
-        transcript: data.transcript,
-        metrics: data.metrics,
-        words: data.words,
-        errorPatterns: data.errorPatterns,
-        patternSummary: data.patternSummary,
-        aiSummary: data.aiSummary,
-        aiSummaryAudioUrl: data.aiSummaryAudioUrl,
-      });
+      onUpdate(toDashboardAssessment(snapshot.id, snapshot.data(), teacherId));
     }
   });
 }
@@ -152,37 +428,12 @@ export async function getAssessments(
 
   const snapshot = await getDocs(q);
 
-  return snapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      id: doc.id,
-      studentId: data.studentId,
-      studentName: data.studentName,
-      status: data.status,
-      errorMessage: data.errorMessage,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      processedAt: data.processedAt?.toDate(),
-      audioUrl: data.audioUrl,
-      imageUrl: data.imageUrl,
-      videoUrl: data.videoUrl,
-      pdfUrl: data.pdfUrl,
-      audioDuration: data.audioDuration,
-      imageWidth: data.imageWidth,
-      imageHeight: data.imageHeight,
-      ocrText: data.ocrText,
-      transcript: data.transcript,
-      metrics: data.metrics,
-      words: data.words,
-      errorPatterns: data.errorPatterns,
-      patternSummary: data.patternSummary,
-      aiSummary: data.aiSummary,
-      aiSummaryAudioUrl: data.aiSummaryAudioUrl,
-    };
-  });
+  return snapshot.docs.map((doc) => toDashboardAssessment(doc.id, doc.data(), teacherId));
 }
 
 /**
  * Subscribe to all assessments for a teacher (real-time updates)
+ * Includes the assessments of students other teachers shared with them, newest first
  */
 export function subscribeToAssessments(
   teacherId: string,
@@ -191,35 +442,84 @@ export function subscribeToAssessments(
   const assessmentsRef = collection(db, 'teachers', teacherId, 'assessments');
   const q = query(assessmentsRef, orderBy('createdAt', 'desc'), limit(50));
 
+  let owned: DashboardAssessment[] = [];
+  const shared = new Map<string, DashboardAssessment[]>();       // By sharedStudents entry
+  const sharedUnsubscribes = new Map<string, Unsubscribe>();
+
+  const emit = () => {
+    const assessments = [...owned, ...Array.from(shared.values()).flat()]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, 50);
+    onUpdate(assessments);
+  };
+
+  const unsubscribeOwned = onSnapshot(q, (snapshot) => {
+    owned = snapshot.docs.map((doc) => toDashboardAssessment(doc.id, doc.data(), teacherId));
+    emit();
+  });
+
+  // Shared students' assessments are stored in their owners' classrooms
+  const sharedRef = collection(db, 'teachers', teacherId, 'sharedStudents');
+  const unsubscribeShares = onSnapshot(sharedRef, (snapshot) => {
+    const entryIds = snapshot.docs.map(entry => entry.id);
+    sharedUnsubscribes.forEach((unsubscribe, entryId) => {
+      if (!entryIds.includes(entryId)) {
+        unsubscribe();
+        sharedUnsubscribes.delete(entryId);
+        shared.delete(entryId);
+      }
+    });
+
+    snapshot.docs.forEach((entry) => {
+      if (sharedUnsubscribes.has(entry.id)) return;
+      const { ownerId, studentId } = entry.data();
+      const sharedQuery = query(
+        collection(db, 'teachers', ownerId, 'assessments'),
+        where('studentId', '==', studentId)
+      );
+      sharedUnsubscribes.set(entry.id, onSnapshot(sharedQuery, (sharedSnapshot) => {
+        shared.set(entry.id, sharedSnapshot.docs.map((doc) => toDashboardAssessment(doc.id, doc.data(), ownerId)));
+        emit();
+      }, (error) => console.error('Shared assessments subscription error:', error)));
+    });
+    emit();
+  });
+
+  return () => {
+    unsubscribeOwned();
+    unsubscribeShares();
+    sharedUnsubscribes.forEach(unsubscribe => unsubscribe());
+  };
+}
+
+/**
+ * Subscribe to the revision history of an assessment (newest first)
+ */
+export function subscribeToRevisions(
+  teacherId: string,
+  assessmentId: string,
+  onUpdate: (revisions: AssessmentRevision[]) => void
+): Unsubscribe {
+  const revisionsRef = collection(db, 'teachers', teacherId, 'assessments', assessmentId, 'revisions');
+  const q = query(revisionsRef, orderBy('revision', 'desc'));
+
   return onSnapshot(q, (snapshot) => {
-    const assessments = snapshot.docs.map((doc) => {
+    const revisions = snapshot.docs.map((doc) => {
       const data = doc.data();
       return {
-        id: doc.id,
-        studentId: data.studentId,
-        studentName: data.studentName,
-        status: data.status,
-        errorMessage: data.errorMessage,
+        revision: data.revision,
+        source: data.source,
+        reason: data.reason,
+        editorUid: data.editorUid ?? null,
         createdAt: data.createdAt?.toDate() || new Date(),
-        processedAt: data.processedAt?.toDate(),
-        audioUrl: data.audioUrl,
-        imageUrl: data.imageUrl,
-        videoUrl: data.videoUrl,
-        pdfUrl: data.pdfUrl,
-        audioDuration: data.audioDuration,
-        imageWidth: data.imageWidth,
-        imageHeight: data.imageHeight,
-        ocrText: data.ocrText,
-        transcript: data.transcript,
+        restoredFrom: data.restoredFrom ?? undefined,
         metrics: data.metrics,
-        words: data.words,
-        errorPatterns: data.errorPatterns,
-        patternSummary: data.patternSummary,
-        aiSummary: data.aiSummary,
-        aiSummaryAudioUrl: data.aiSummaryAudioUrl,
+        words: data.words || [],
+        errorPatterns: data.errorPatterns || [],
+        patternSummary: data.patternSummary ?? undefined,
       };
     });
-    onUpdate(assessments);
+    onUpdate(revisions);
   });
 }
 
@@ -244,10 +544,14 @@ export async function startEarlyAudioUpload(
   studentId: string,
   studentName: string,
   audioUri: string,
+  passage: AssessmentPassage | null,
+  recordingDuration: RecordingDuration,
   onProgress?: (stage: string, progress: number) => void
 ): Promise<EarlyUploadResult> {
   console.log('startEarlyAudioUpload called with:', { teacherId, studentId, studentName, audioUri: audioUri?.slice(0, 50) });
 
+  await assertParentalConsent(teacherId, studentId);
+
   // Generate assessment ID
   const assessmentId = doc(collection(db, 'temp')).id;
   console.log('Generated assessmentId for early upload:', assessmentId);
@@ -255,14 +559,17 @@ export async function startEarlyAudioUpload(
   try {
     onProgress?.('Preparing upload...', 0);
 
-    // Create assessment document with 'pending_image' status
-    // Cloud function won't process until both files are present
+    // Create assessment document with 'uploading' status
+    // Cloud function won't process until the images and the manifest follow
     const assessmentRef = doc(db, 'teachers', teacherId, 'assessments', assessmentId);
     await setDoc(assessmentRef, {
       studentId,
       studentName,
-      status: 'uploading',  // Cloud function checks for this status
+      status: 'uploading',
       audioUploadedEarly: true,  // Flag to indicate early upload was used
+      recordedBy: currentRecorder(),
+      recordingDuration,
+      ...toPassageFields(passage),
       createdAt: serverTimestamp(),
     });
     console.log('Assessment document created for early upload');
@@ -270,17 +577,18 @@ export async function startEarlyAudioUpload(
     onProgress?.('Uploading audio...', 20);
 
     // Upload audio file
-    console.log('Fetching audio from:', audioUri?.slice(0, 100));
-    const audioResponse = await fetch(audioUri);
-    const audioBlob = await audioResponse.blob();
-    console.log('Audio blob size:', audioBlob.size);
-
-    const audioRef = ref(storage, `uploads/${teacherId}/${assessmentId}/audio.webm`);
-    console.log('Uploading audio to:', `uploads/${teacherId}/${assessmentId}/audio.webm`);
-    await uploadBytes(audioRef, audioBlob);
+    const audioFile = await readUploadFile(audioUri);
+    await uploadFile(
+      `uploads/${teacherId}/${assessmentId}/audio.webm`,
+      audioFile,
+      'Uploading audio...',
+      onProgress,
+      20,
+      100
+    );
     console.log('Early audio upload complete');
 
-    onProgress?.('Audio uploaded, waiting for image...', 100);
+    onProgress?.('Audio uploaded, waiting for images...', 100);
 
     return {
       assessmentId,
@@ -293,45 +601,68 @@ export async function startEarlyAudioUpload(
 }
 
 /**
- * Complete assessment with image - used after early audio upload
- * Uploads the image which triggers cloud function processing
+ * Complete assessment with images - used after early audio upload
+ * Uploads the pages, then the manifest (the early audio's entry comes from its stored
+ * metadata), which triggers cloud function processing
+ * Throws a 'not-found' error when the early assessment no longer exists
  */
-export async function completeAssessmentWithImage(
+export async function completeAssessmentWithImages(
   teacherId: string,
   assessmentId: string,
-  imageUri: string,
+  imageUris: string[],
   onProgress?: (stage: string, progress: number) => void
 ): Promise<string> {
-  console.log('completeAssessmentWithImage called with:', { teacherId, assessmentId, imageUri: imageUri?.slice(0, 50) });
+  console.log('completeAssessmentWithImages called with:', { teacherId, assessmentId, imageCount: imageUris.length });
 
   try {
-    onProgress?.('Uploading image...', 50);
+    const assessmentDoc = await getDoc(doc(db, 'teachers', teacherId, 'assessments', assessmentId));
+    if (!assessmentDoc.exists()) {
+      throw new FirebaseError('not-found', 'The early upload assessment no longer exists');
+    }
+    const audioMetadata = await getMetadata(ref(storage, `uploads/${teacherId}/${assessmentId}/audio.webm`));
 
-    // Upload image file - preserve original quality
-    console.log('Fetching image from:', imageUri?.slice(0, 100));
-    const imageResponse = await fetch(imageUri);
-    const imageBlob = await imageResponse.blob();
-    console.log('Image blob size:', imageBlob.size, 'type:', imageBlob.type);
+    const imageFiles = await uploadPageImages(teacherId, assessmentId, imageUris, onProgress, 50);
 
-    // Use PNG for better quality if source is PNG, otherwise use original format
-    const imageExtension = imageBlob.type.includes('png') ? 'png' : 'jpg';
-    const imageRef = ref(storage, `uploads/${teacherId}/${assessmentId}/image.${imageExtension}`);
-    console.log('Uploading image to:', `uploads/${teacherId}/${assessmentId}/image.${imageExtension}`);
-
-    // Upload with metadata to preserve quality
-    await uploadBytes(imageRef, imageBlob, {
-      contentType: imageBlob.type || 'image/jpeg',
-      customMetadata: {
-        originalSize: imageBlob.size.toString(),
-      },
-    });
-    console.log('Image uploaded with full quality - cloud function will now process');
+    const audioEntry: UploadManifestFile = {
+      name: 'audio.webm',
+      kind: 'audio',
+      size: audioMetadata.size,
+      sha256: audioMetadata.customMetadata?.sha256 || '',
+      contentType: audioMetadata.contentType || '',
+    };
+    await writeUploadManifest(
+      teacherId,
+      assessmentId,
+      [audioEntry, ...imageFiles],
+      assessmentDoc.data().passageId || null,
+      assessmentDoc.data().recordingDuration || null
+    );
+    console.log('Images uploaded - cloud function will now process');
 
     onProgress?.('Processing...', 100);
 
     return assessmentId;
   } catch (error) {
-    console.error('completeAssessmentWithImage error:', error);
+    console.error('completeAssessmentWithImages error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run a failed processing stage again (the stages after it follow)
+ */
+export async function retryAssessmentStage(
+  teacherId: string,
+  assessmentId: string,
+  stage: AssessmentStageName
+): Promise<void> {
+  try {
+    const retryStage = httpsCallable(getFunctions(), 'retryAssessmentStage', {
+      timeout: 540000,
+    });
+    await retryStage({ teacherId, assessmentId, stage });
+  } catch (error) {
+    console.error('retryAssessmentStage error:', error);
     throw error;
   }
 }
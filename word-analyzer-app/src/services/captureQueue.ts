@@ -0,0 +1,357 @@
+/**
+ * Capture Queue
+ * Keeps captured readings on the device when they cannot be uploaded (no Wi-Fi, upload
+ * errors) and uploads them later. Retries back off exponentially and start over as soon
+ * as the network returns or the app comes back to the foreground.
+ * On native the audio, images and queue metadata are copied to app storage so the queue
+ * survives a restart; on web it lasts for the session (blob URLs).
+ * Each user has their own queue (capture-queue/{uid}), and only the signed-in user's
+ * captures are uploaded. Errors that no retry can fix (no parental consent, no
+ * permission) fail the capture right away
+ */
+
+import { AppState, Platform } from 'react-native';
+import { File, Directory, Paths } from 'expo-file-system';
+import * as Network from 'expo-network';
+import { FirebaseError } from 'firebase/app';
+import { auth } from '../config/firebase';
+import { QueuedCapture, RecordingDuration } from '../types';
+import { createAssessment, completeAssessmentWithImages, generateAssessmentId } from './assessmentService';
+
+const RETRY_BASE_MS = 15 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+// After this many attempts a capture waits for the teacher to retry it
+const MAX_ATTEMPTS = 8;
+// Errors that fail the same way on every retry
+const PERMANENT_ERROR_CODES = new Set([
+  'failed-precondition',
+  'invalid-argument',
+  'permission-denied',
+  'storage/unauthorized',
+]);
+
+const PERSISTENT = Platform.OS !== 'web';
+
+/**
+ * A capture handed to the queue (the fields the analysis screen uploads with)
+ */
+export interface CaptureInput {
+  teacherId: string;
+  studentId: string;
+  studentName: string;
+  audioUri: string;
+  imageUris: string[];
+  passageId: string | null;
+  passageTitle: string | null;
+  recordingDuration: RecordingDuration;
+  earlyUploadAssessmentId: string | null;
+}
+
+export interface CaptureQueueStatus {
+  captures: QueuedCapture[];
+  isSyncing: boolean;
+}
+
+// The user whose queue is loaded
+let queueUid: string | null = null;
+let captures: QueuedCapture[] = [];
+let isSyncing = false;
+let isStarted = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(status: CaptureQueueStatus) => void>();
+
+function queueDirectory(): Directory {
+  return new Directory(Paths.document, 'capture-queue', queueUid || '');
+}
+
+function queueIndexFile(): File {
+  return new File(queueDirectory(), 'queue.json');
+}
+
+function notifyListeners(): void {
+  const status = { captures: [...captures], isSyncing };
+  listeners.forEach(listener => listener(status));
+}
+
+/**
+ * Write the queue metadata to app storage and tell subscribers
+ */
+function saveQueue(): void {
+  if (PERSISTENT && queueUid) {
+    try {
+      const directory = queueDirectory();
+      if (!directory.exists) directory.create({ intermediates: true });
+      const indexFile = queueIndexFile();
+      if (!indexFile.exists) indexFile.create();
+      indexFile.write(JSON.stringify(captures));
+    } catch (error) {
+      console.error('Failed to save capture queue:', error);
+    }
+  }
+  notifyListeners();
+}
+
+function loadQueue(): void {
+  captures = [];
+  if (!PERSISTENT || !queueUid) return;
+  try {
+    const indexFile = queueIndexFile();
+    if (!indexFile.exists) return;
+    captures = (JSON.parse(indexFile.textSync()) as QueuedCapture[])
+      // Uploads cut short by the app closing are retried
+      .map(capture => (capture.status === 'uploading' ? { ...capture, status: 'pending' } : capture));
+  } catch (error) {
+    console.error('Failed to load capture queue:', error);
+  }
+}
+
+/**
+ * Copy a recording or photo into the capture's folder, since the recorder and camera
+ * keep theirs in caches the system may clear
+ */
+function keepFile(directory: Directory, uri: string, name: string): string {
+  try {
+    const source = new File(uri);
+    const copy = new File(directory, `${name}${source.extension}`);
+    source.copy(copy);
+    return copy.uri;
+  } catch (error) {
+    console.error(`Failed to copy ${name} into the capture queue:`, error);
+    return uri;
+  }
+}
+
+function updateCapture(id: string, changes: Partial<QueuedCapture>): void {
+  captures = captures.map(capture => (capture.id === id ? { ...capture, ...changes } : capture));
+  saveQueue();
+}
+
+function removeCapture(id: string): void {
+  captures = captures.filter(capture => capture.id !== id);
+  if (PERSISTENT) {
+    try {
+      const directory = new Directory(queueDirectory(), id);
+      if (directory.exists) directory.delete();
+    } catch (error) {
+      console.error('Failed to delete queued capture files:', error);
+    }
+  }
+  saveQueue();
+}
+
+function isQueueUserSignedIn(): boolean {
+  return queueUid !== null && auth.currentUser?.uid === queueUid;
+}
+
+function isPermanentError(error: unknown): boolean {
+  return error instanceof FirebaseError && PERMANENT_ERROR_CODES.has(error.code);
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Upload a queued capture the way the analysis screen would have
+ * Early uploads only need their images, unless the early assessment no longer exists
+ */
+async function uploadCapture(capture: QueuedCapture): Promise<string> {
+  if (capture.earlyUploadAssessmentId && capture.imageUris.length > 0) {
+    try {
+      return await completeAssessmentWithImages(
+        capture.teacherId,
+        capture.earlyUploadAssessmentId,
+        capture.imageUris
+      );
+    } catch (error) {
+      // The early assessment or its audio is gone
+      const isGone = error instanceof FirebaseError &&
+        (error.code === 'not-found' || error.code === 'storage/object-not-found');
+      if (!isGone) throw error;
+      console.log('Early upload assessment is gone, uploading the capture as a new assessment');
+    }
+  }
+
+  return createAssessment(
+    capture.teacherId,
+    capture.studentId,
+    capture.studentName,
+    capture.audioUri,
+    capture.imageUris,
+    capture.passageId ? { id: capture.passageId, title: capture.passageTitle || '' } : null,
+    capture.recordingDuration,
+    undefined,
+    capture.assessmentId
+  );
+}
+
+/**
+ * Schedule the next sync for the earliest pending retry
+ */
+function scheduleRetry(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const pending = captures.filter(capture => capture.status === 'pending');
+  if (pending.length === 0) return;
+
+  const nextAttemptAt = Math.min(...pending.map(capture => capture.nextAttemptAt));
+  retryTimer = setTimeout(() => syncCaptureQueue(), Math.max(0, nextAttemptAt - Date.now()));
+}
+
+/**
+ * Upload every capture of the signed-in user whose retry is due, one at a time
+ */
+export async function syncCaptureQueue(): Promise<void> {
+  if (isSyncing || !isQueueUserSignedIn()) return;
+
+  const networkState = await Network.getNetworkStateAsync().catch(() => null);
+  if (networkState?.isConnected === false) {
+    console.log('Capture queue: offline, waiting for the network');
+    return;
+  }
+
+  isSyncing = true;
+  notifyListeners();
+
+  try {
+    const dueIds = captures
+      .filter(capture => capture.status === 'pending' && capture.nextAttemptAt <= Date.now())
+      .map(capture => capture.id);
+
+    for (const id of dueIds) {
+      // Stop when the user signs out or another user's queue is loaded
+      if (!isQueueUserSignedIn()) break;
+      const capture = captures.find(c => c.id === id);
+      if (!capture) continue;
+
+      updateCapture(id, { status: 'uploading' });
+      try {
+        const assessmentId = await uploadCapture(capture);
+        console.log('Queued capture uploaded, assessmentId:', assessmentId);
+        removeCapture(id);
+      } catch (error) {
+        const attempts = capture.attempts + 1;
+        console.error(`Queued capture upload failed (attempt ${attempts}):`, error);
+        updateCapture(id, {
+          status: attempts >= MAX_ATTEMPTS || isPermanentError(error) ? 'failed' : 'pending',
+          attempts,
+          nextAttemptAt: Date.now() + getRetryDelay(attempts),
+          lastError: error instanceof Error ? error.message : 'Upload failed',
+        });
+      }
+    }
+  } finally {
+    isSyncing = false;
+    notifyListeners();
+    scheduleRetry();
+  }
+}
+
+/**
+ * Retry every queued capture now, including those that gave up
+ */
+export function retryCaptureQueue(): Promise<void> {
+  captures = captures.map(capture => (capture.status === 'uploading'
+    ? capture
+    : { ...capture, status: 'pending', attempts: 0, nextAttemptAt: Date.now() }));
+  saveQueue();
+  return syncCaptureQueue();
+}
+
+/**
+ * Delete the captures that gave up retrying (their recordings are lost)
+ */
+export function discardFailedCaptures(): void {
+  captures
+    .filter(capture => capture.status === 'failed')
+    .forEach(capture => removeCapture(capture.id));
+}
+
+/**
+ * Keep a capture that could not be uploaded in the signed-in user's queue, and retry it with backoff
+ */
+export function enqueueCapture(input: CaptureInput): QueuedCapture {
+  if (!isQueueUserSignedIn()) {
+    throw new Error('The capture queue is not started for the signed-in user');
+  }
+
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  let audioUri = input.audioUri;
+  let imageUris = input.imageUris;
+
+  if (PERSISTENT) {
+    const directory = new Directory(queueDirectory(), id);
+    directory.create({ intermediates: true });
+    audioUri = keepFile(directory, input.audioUri, 'audio');
+    imageUris = input.imageUris.map((uri, index) => keepFile(directory, uri, `image-${index + 1}`));
+  }
+
+  const capture: QueuedCapture = {
+    ...input,
+    id,
+    audioUri,
+    imageUris,
+    assessmentId: generateAssessmentId(),
+    queuedAt: Date.now(),
+    status: 'pending',
+    attempts: 0,
+    // The upload just failed - give the connection a moment before the first retry
+    nextAttemptAt: Date.now() + RETRY_BASE_MS,
+    lastError: null,
+  };
+
+  captures = [...captures, capture];
+  saveQueue();
+  scheduleRetry();
+  console.log('Capture queued for upload:', id);
+  return capture;
+}
+
+/**
+ * Load the user's saved queue and start uploading it; retries start over when the network
+ * returns or the app is foregrounded. Safe to call more than once, and again when another
+ * user signs in
+ */
+export function startCaptureQueue(uid: string): void {
+  if (queueUid === uid) return;
+
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  queueUid = uid;
+  loadQueue();
+  notifyListeners();
+  syncCaptureQueue();
+
+  if (isStarted) return;
+  isStarted = true;
+
+  Network.addNetworkStateListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      console.log('Capture queue: network available, retrying');
+      captures = captures.map(capture => (capture.status === 'pending'
+        ? { ...capture, nextAttemptAt: Date.now() }
+        : capture));
+      syncCaptureQueue();
+    }
+  });
+
+  AppState.addEventListener('change', (appState) => {
+    if (appState === 'active') {
+      syncCaptureQueue();
+    }
+  });
+}
+
+/**
+ * Subscribe to the queued captures and whether they are uploading
+ */
+export function subscribeToCaptureQueue(
+  onUpdate: (status: CaptureQueueStatus) => void
+): () => void {
+  listeners.add(onUpdate);
+  onUpdate({ captures: [...captures], isSyncing });
+  return () => {
+    listeners.delete(onUpdate);
+  };
+}
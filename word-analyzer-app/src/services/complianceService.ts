@@ -0,0 +1,41 @@
+import {
+  collection,
+  query,
+  orderBy,
+  limit,
+  getDocs,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { DeletionLogEntry } from '../types';
+
+/**
+ * Get the most recent entries of a teacher's deletion log (newest first)
+ */
+export async function getDeletionLog(
+  teacherId: string,
+  maxResults: number = 100
+): Promise<DeletionLogEntry[]> {
+  try {
+    const logRef = collection(db, 'teachers', teacherId, 'deletionLog');
+    const q = query(logRef, orderBy('deletedAt', 'desc'), limit(maxResults));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        reason: data.reason,
+        assessmentId: data.assessmentId ?? null,
+        studentId: data.studentId ?? null,
+        files: data.files || [],
+        clearedFields: data.clearedFields || [],
+        assessmentIds: data.assessmentIds,
+        documentsDeleted: data.documentsDeleted,
+        deletedAt: data.deletedAt?.toDate() || new Date(),
+      };
+    });
+  } catch (error) {
+    console.error('getDeletionLog error:', error);
+    throw error;
+  }
+}
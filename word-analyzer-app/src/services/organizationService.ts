@@ -0,0 +1,242 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
+import { db } from '../config/firebase';
+import {
+  OcrProviderName,
+  Organization,
+  OrgClass,
+  OrgMember,
+  OrgInvite,
+  OrgMembership,
+  OrgRole,
+  OrgSchool,
+  SpeechProviderName,
+} from '../types';
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  'teacher': 'Teacher',
+  'specialist': 'Reading Specialist',
+  'school-admin': 'School Admin',
+  'district-admin': 'District Admin',
+};
+
+export interface OrganizationDirectory {
+  schools: OrgSchool[];
+  classes: OrgClass[];
+  members: OrgMember[];
+  ocrProvider: OcrProviderName | null;  // Applies to every classroom of the organization
+  speechProvider: SpeechProviderName | null;  // Likewise
+}
+
+export interface MemberResult {
+  invited: boolean;           // New people are invited and join when they accept
+  classroomLinked: boolean;   // False when the member's classroom belongs to another organization
+}
+
+export interface ClassInput {
+  name: string;
+  schoolId: string;
+  teacherId: string;
+}
+
+/**
+ * Map a Firestore member document to an OrgMember
+ */
+function toOrgMember(data: DocumentData): OrgMember {
+  return {
+    uid: data.uid,
+    email: data.email,
+    displayName: data.displayName ?? null,
+    role: data.role,
+    schoolIds: data.schoolIds || [],
+  };
+}
+
+/**
+ * Whether the role can manage the organization's schools, classes and members
+ */
+export function isOrgAdmin(role: OrgRole): boolean {
+  return role === 'school-admin' || role === 'district-admin';
+}
+
+/**
+ * Whether a member can read another member's classroom (mirrors firestore.rules)
+ */
+export function canViewClassroom(viewer: OrgMember, member: OrgMember): boolean {
+  if (viewer.uid === member.uid || viewer.role === 'district-admin') return true;
+  if (viewer.role === 'teacher') return false;
+  return member.schoolIds.some(schoolId => viewer.schoolIds.includes(schoolId));
+}
+
+/**
+ * Get the organizations the teacher belongs to, with their membership
+ */
+export async function getMemberships(teacherId: string): Promise<OrgMembership[]> {
+  try {
+    const teacherDoc = await getDoc(doc(db, 'teachers', teacherId));
+    const orgIds: string[] = teacherDoc.data()?.orgIds || [];
+
+    const memberships = await Promise.all(orgIds.map(async (orgId) => {
+      const [orgDoc, memberDoc] = await Promise.all([
+        getDoc(doc(db, 'organizations', orgId)),
+        getDoc(doc(db, 'organizations', orgId, 'members', teacherId)),
+      ]);
+      if (!orgDoc.exists() || !memberDoc.exists()) return null;
+
+      const organization: Organization = { id: orgDoc.id, name: orgDoc.data().name };
+      return { organization, member: toOrgMember(memberDoc.data()) };
+    }));
+
+    return memberships
+      .filter((membership): membership is OrgMembership => membership !== null)
+      .sort((a, b) => a.organization.name.localeCompare(b.organization.name));
+  } catch (error) {
+    console.error('getMemberships error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the organizations that invited the teacher and wait for an answer
+ */
+export async function getOrgInvites(teacherId: string): Promise<OrgInvite[]> {
+  try {
+    const snapshot = await getDocs(collection(db, 'teachers', teacherId, 'orgInvites'));
+    return snapshot.docs.map(doc => ({
+      orgId: doc.id,
+      orgName: doc.data().orgName,
+      role: doc.data().role,
+      invitedAt: (doc.data().invitedAt as Timestamp)?.toDate() || new Date(),
+    }));
+  } catch (error) {
+    console.error('getOrgInvites error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept an invitation; resolves false when the classroom already belongs to another organization
+ */
+export async function acceptInvite(orgId: string): Promise<boolean> {
+  const acceptOrganizationInvite = httpsCallable(getFunctions(), 'acceptOrganizationInvite');
+  const result = await acceptOrganizationInvite({ orgId });
+  return (result.data as { classroomLinked: boolean }).classroomLinked;
+}
+
+/**
+ * Decline an invitation
+ */
+export async function declineInvite(orgId: string): Promise<void> {
+  const declineOrganizationInvite = httpsCallable(getFunctions(), 'declineOrganizationInvite');
+  await declineOrganizationInvite({ orgId });
+}
+
+/**
+ * Leave an organization; its staff lose access to the teacher's classroom
+ */
+export async function leaveOrganization(orgId: string): Promise<void> {
+  const leaveOrganizationFn = httpsCallable(getFunctions(), 'leaveOrganization');
+  await leaveOrganizationFn({ orgId });
+}
+
+/**
+ * Get the schools, classes, members and OCR provider of an organization
+ */
+export async function getOrganizationDirectory(orgId: string): Promise<OrganizationDirectory> {
+  try {
+    const [orgDoc, schoolsSnapshot, classesSnapshot, membersSnapshot] = await Promise.all([
+      getDoc(doc(db, 'organizations', orgId)),
+      getDocs(query(collection(db, 'organizations', orgId, 'schools'), orderBy('name', 'asc'))),
+      getDocs(query(collection(db, 'organizations', orgId, 'classes'), orderBy('name', 'asc'))),
+      getDocs(query(collection(db, 'organizations', orgId, 'members'), orderBy('email', 'asc'))),
+    ]);
+
+    return {
+      schools: schoolsSnapshot.docs.map(doc => ({ id: doc.id, name: doc.data().name })),
+      classes: classesSnapshot.docs.map(doc => ({
+        id: doc.id,
+        name: doc.data().name,
+        schoolId: doc.data().schoolId,
+        teacherId: doc.data().teacherId,
+      })),
+      members: membersSnapshot.docs.map(doc => toOrgMember(doc.data())),
+      ocrProvider: orgDoc.data()?.ocrProvider ?? null,
+      speechProvider: orgDoc.data()?.speechProvider ?? null,
+    };
+  } catch (error) {
+    console.error('getOrganizationDirectory error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create an organization; the teacher becomes its district admin
+ */
+export async function createOrganization(name: string): Promise<string> {
+  const createOrganizationFn = httpsCallable(getFunctions(), 'createOrganization');
+  const result = await createOrganizationFn({ name });
+  return (result.data as { orgId: string }).orgId;
+}
+
+/**
+ * Add (schoolId null) or rename a school
+ */
+export async function saveSchool(orgId: string, schoolId: string | null, name: string): Promise<void> {
+  const saveOrganizationSchool = httpsCallable(getFunctions(), 'saveOrganizationSchool');
+  await saveOrganizationSchool({ orgId, schoolId, name });
+}
+
+/**
+ * Add (classId null) or update a class
+ */
+export async function saveClass(orgId: string, classId: string | null, input: ClassInput): Promise<void> {
+  const saveOrganizationClass = httpsCallable(getFunctions(), 'saveOrganizationClass');
+  await saveOrganizationClass({ orgId, classId, ...input });
+}
+
+/**
+ * Choose the OCR provider of every classroom of the organization (null: each teacher's choice)
+ */
+export async function setOcrProvider(orgId: string, ocrProvider: OcrProviderName | null): Promise<void> {
+  const setOrganizationOcrProvider = httpsCallable(getFunctions(), 'setOrganizationOcrProvider');
+  await setOrganizationOcrProvider({ orgId, ocrProvider });
+}
+
+/**
+ * Choose the speech provider of every classroom of the organization (null: each teacher's choice)
+ */
+export async function setSpeechProvider(orgId: string, speechProvider: SpeechProviderName | null): Promise<void> {
+  const setOrganizationSpeechProvider = httpsCallable(getFunctions(), 'setOrganizationSpeechProvider');
+  await setOrganizationSpeechProvider({ orgId, speechProvider });
+}
+
+/**
+ * Invite someone by email, or change a member's role and schools
+ */
+export async function setMember(
+  orgId: string,
+  email: string,
+  role: OrgRole,
+  schoolIds: string[]
+): Promise<MemberResult> {
+  const setOrganizationMember = httpsCallable(getFunctions(), 'setOrganizationMember');
+  const result = await setOrganizationMember({ orgId, email, role, schoolIds });
+  return result.data as MemberResult;
+}
+
+/**
+ * Remove a member from an organization
+ */
+export async function removeMember(orgId: string, uid: string): Promise<void> {
+  const removeOrganizationMember = httpsCallable(getFunctions(), 'removeOrganizationMember');
+  await removeOrganizationMember({ orgId, uid });
+}
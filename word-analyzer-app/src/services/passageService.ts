@@ -0,0 +1,126 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { Passage } from '../types';
+
+export interface PassageInput {
+  title: string;
+  gradeLevel?: string;
+  lexile?: number | null;
+  text: string;
+}
+
+/**
+ * Number of words in a passage text (whitespace separated, standalone punctuation ignored)
+ */
+export function countPassageWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[A-Za-z0-9\u00C0-\u024F]/.test(word)).length;
+}
+
+/**
+ * Map a Firestore passage document to a Passage
+ */
+function toPassage(id: string, data: DocumentData): Passage {
+  return {
+    id,
+    title: data.title,
+    gradeLevel: data.gradeLevel || undefined,
+    lexile: data.lexile ?? undefined,
+    text: data.text,
+    wordCount: data.wordCount || 0,
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+    updatedAt: (data.updatedAt as Timestamp)?.toDate(),
+  };
+}
+
+/**
+ * Build the stored fields of a passage from form input
+ */
+function toPassageData(input: PassageInput): DocumentData {
+  const text = input.text.trim();
+  return {
+    title: input.title.trim(),
+    gradeLevel: input.gradeLevel?.trim() || null,
+    lexile: input.lexile ?? null,
+    text,
+    wordCount: countPassageWords(text),
+  };
+}
+
+/**
+ * Get all passages in a teacher's library
+ */
+export async function getPassages(teacherId: string): Promise<Passage[]> {
+  try {
+    const passagesRef = collection(db, 'teachers', teacherId, 'passages');
+    const q = query(passagesRef, orderBy('title', 'asc'));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map(doc => toPassage(doc.id, doc.data()));
+  } catch (error) {
+    console.error('getPassages error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add a passage to the library
+ */
+export async function addPassage(teacherId: string, input: PassageInput): Promise<Passage> {
+  try {
+    const data = toPassageData(input);
+    const docRef = await addDoc(collection(db, 'teachers', teacherId, 'passages'), {
+      ...data,
+      createdAt: serverTimestamp(),
+    });
+
+    console.log('Passage added with ID:', docRef.id);
+    return toPassage(docRef.id, { ...data, createdAt: Timestamp.now() });
+  } catch (error) {
+    console.error('addPassage error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a passage's details or text
+ * Assessments already processed keep the words they were scored against
+ */
+export async function updatePassage(
+  teacherId: string,
+  passageId: string,
+  input: PassageInput
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, 'teachers', teacherId, 'passages', passageId), {
+      ...toPassageData(input),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('updatePassage error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a passage from the library
+ */
+export async function deletePassage(teacherId: string, passageId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, 'teachers', teacherId, 'passages', passageId));
+  } catch (error) {
+    console.error('deletePassage error:', error);
+    throw error;
+  }
+}
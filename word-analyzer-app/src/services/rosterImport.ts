@@ -0,0 +1,280 @@
+/**
+ * Roster Import
+ * Reads class rosters exported from a student information system - a plain CSV
+ * (name, grade, external id) or OneRoster users.csv with optional enrollments.csv -
+ * and plans how they change the teacher's students, de-duplicating by external id
+ */
+
+import { Student, RosterEntry, RosterImportItem } from '../types';
+
+export interface RosterFile {
+  name: string;
+  text: string;
+}
+
+export interface ParsedRoster {
+  format: 'csv' | 'oneroster';
+  entries: RosterEntry[];
+  classIds: string[];   // OneRoster classes with student enrollments, to pick one from
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields, doubled quotes,
+ * line breaks inside quotes)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Strip a byte order mark left by spreadsheet exports
+  if (rows.length > 0 && rows[0].length > 0) {
+    rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+  }
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Rows as objects keyed by normalized header, with their 1-based line numbers
+ */
+function toRecords(rows: string[][]): { record: Record<string, string>; line: number }[] {
+  const headers = rows[0].map(normalizeHeader);
+
+  return rows.slice(1)
+    .map((fields, index) => ({
+      record: Object.fromEntries(headers.map((header, i) => [header, (fields[i] || '').trim()])),
+      line: index + 2,
+    }))
+    .filter(({ record }) => Object.values(record).some(value => value));
+}
+
+function pick(record: Record<string, string>, keys: string[]): string {
+  for (const key of keys) {
+    if (record[key]) return record[key];
+  }
+  return '';
+}
+
+/**
+ * OneRoster grades are CEDS codes ('03', 'KG'); show them the way teachers enter them
+ */
+function normalizeGrade(grade: string): string | undefined {
+  // OneRoster allows several grades separated by commas - the first is the student's
+  const first = grade.split(',')[0].trim();
+  if (!first) return undefined;
+  if (/^\d+$/.test(first)) return String(parseInt(first, 10));
+  return first.toUpperCase() === 'KG' ? 'K' : first;
+}
+
+const NAME_KEYS = ['name', 'studentname', 'fullname', 'student'];
+const FIRST_NAME_KEYS = ['firstname', 'givenname', 'first'];
+const LAST_NAME_KEYS = ['lastname', 'familyname', 'surname', 'last'];
+const GRADE_KEYS = ['grade', 'grades', 'gradelevel'];
+const EXTERNAL_ID_KEYS = ['externalid', 'studentid', 'sourcedid', 'id', 'sisid', 'identifier'];
+
+/**
+ * Plain CSV: a header row naming the columns, or name, grade, external id columns without one
+ */
+function parsePlainCsv(rows: string[][]): RosterEntry[] {
+  const headers = rows[0].map(normalizeHeader);
+  const hasHeader = headers.some(header =>
+    [...NAME_KEYS, ...FIRST_NAME_KEYS, ...LAST_NAME_KEYS].includes(header));
+
+  if (!hasHeader) {
+    return rows
+      .map((fields, index) => ({
+        name: (fields[0] || '').trim(),
+        grade: normalizeGrade(fields[1] || ''),
+        externalId: (fields[2] || '').trim() || undefined,
+        line: index + 1,
+      }))
+      .filter(entry => entry.name || entry.externalId);
+  }
+
+  return toRecords(rows).map(({ record, line }) => {
+    const first = pick(record, FIRST_NAME_KEYS);
+    const last = pick(record, LAST_NAME_KEYS);
+    return {
+      name: pick(record, NAME_KEYS) || [first, last].filter(Boolean).join(' '),
+      grade: normalizeGrade(pick(record, GRADE_KEYS)),
+      externalId: pick(record, EXTERNAL_ID_KEYS) || undefined,
+      line,
+    };
+  });
+}
+
+/**
+ * OneRoster 1.1 users.csv, limited to students (and with enrollments.csv, to students
+ * enrolled in the chosen class)
+ */
+function parseOneRoster(
+  usersRows: string[][],
+  enrollmentRows: string[][] | null,
+  classId: string | null
+): ParsedRoster {
+  const isActive = (record: Record<string, string>) => record.status !== 'tobedeleted';
+
+  const enrollments = enrollmentRows
+    ? toRecords(enrollmentRows).map(({ record }) => record)
+      .filter(record => record.role === 'student' && isActive(record))
+    : [];
+  const classIds = Array.from(new Set(enrollments.map(record => record.classsourcedid))).filter(Boolean);
+
+  const enrolledIds = enrollmentRows
+    ? new Set(enrollments
+      .filter(record => !classId || record.classsourcedid === classId)
+      .map(record => record.usersourcedid))
+    : null;
+
+  const entries = toRecords(usersRows)
+    .filter(({ record }) => record.role === 'student' && isActive(record))
+    .filter(({ record }) => !enrolledIds || enrolledIds.has(record.sourcedid))
+    .map(({ record, line }) => ({
+      name: [record.givenname, record.familyname].filter(Boolean).join(' '),
+      grade: normalizeGrade(record.grades || ''),
+      externalId: record.sourcedid || undefined,
+      line,
+    }));
+
+  return { format: 'oneroster', entries, classIds };
+}
+
+/**
+ * Parse roster files: a plain CSV, or OneRoster users.csv with optional enrollments.csv
+ * (classId limits a OneRoster roster to one class)
+ */
+export function parseRoster(files: RosterFile[], classId: string | null = null): ParsedRoster {
+  const parsed = files
+    .map(file => parseCsv(file.text))
+    .filter(rows => rows.length > 0);
+
+  const isOneRosterUsers = (rows: string[][]) => {
+    const headers = rows[0].map(normalizeHeader);
+    return headers.includes('sourcedid') && headers.includes('role') && headers.includes('givenname');
+  };
+  const isEnrollments = (rows: string[][]) => {
+    const headers = rows[0].map(normalizeHeader);
+    return headers.includes('classsourcedid') && headers.includes('usersourcedid');
+  };
+
+  const users = parsed.find(isOneRosterUsers);
+  const enrollments = parsed.find(isEnrollments);
+
+  if (users) {
+    return parseOneRoster(users, enrollments || null, classId);
+  }
+  if (enrollments) {
+    throw new Error('enrollments.csv needs the users.csv from the same OneRoster export');
+  }
+  if (parsed.length !== 1) {
+    throw new Error('Choose one roster CSV, or the users.csv and enrollments.csv of a OneRoster export');
+  }
+
+  return { format: 'csv', entries: parsePlainCsv(parsed[0]), classIds: [] };
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Preview what importing roster entries does to the teacher's own students:
+ * matched by external id, or by name for students added by hand (linking their id).
+ * Entries that cannot be matched safely are conflicts and are not imported
+ */
+export function planRosterImport(entries: RosterEntry[], students: Student[]): RosterImportItem[] {
+  const owned = students.filter(student => !student.sharedBy);
+  const seenIds = new Set<string>();
+  const seenNames = new Set<string>();
+  const matchedIds = new Set<string>();
+
+  return entries.map((entry): RosterImportItem => {
+    if (!entry.name) {
+      return { entry, action: 'conflict', reason: 'Missing name' };
+    }
+
+    if (entry.externalId) {
+      if (seenIds.has(entry.externalId)) {
+        return { entry, action: 'conflict', reason: `Duplicate id ${entry.externalId} in the file` };
+      }
+      seenIds.add(entry.externalId);
+
+      const byId = owned.find(student => student.externalId === entry.externalId);
+      if (byId) {
+        const changes = [
+          !sameName(byId.name, entry.name) && `name (was ${byId.name})`,
+          entry.grade && entry.grade !== byId.grade && `grade (was ${byId.grade || 'none'})`,
+        ].filter(Boolean);
+        return changes.length > 0
+          ? { entry, action: 'update', studentId: byId.id, reason: `Updates ${changes.join(', ')}` }
+          : { entry, action: 'unchanged', studentId: byId.id };
+      }
+    }
+
+    // Without an id, a repeated name is indistinguishable from a duplicate row
+    const nameKey = entry.name.trim().toLowerCase();
+    if (!entry.externalId && seenNames.has(nameKey)) {
+      return { entry, action: 'conflict', reason: 'Same name appears earlier in the file' };
+    }
+    seenNames.add(nameKey);
+
+    const byName = owned.filter(student => sameName(student.name, entry.name));
+    if (byName.length > 1) {
+      return { entry, action: 'conflict', reason: 'Several students already have this name' };
+    }
+    if (byName.length === 1) {
+      const existing = byName[0];
+      if (existing.externalId && existing.externalId !== entry.externalId) {
+        return { entry, action: 'conflict', reason: `Existing student has id ${existing.externalId}` };
+      }
+      if (!entry.externalId) {
+        return { entry, action: 'conflict', reason: 'A student with this name exists and the file has no id' };
+      }
+      if (matchedIds.has(existing.id)) {
+        return { entry, action: 'conflict', reason: 'Another entry with this name is linked to the student' };
+      }
+      matchedIds.add(existing.id);
+      return { entry, action: 'update', studentId: existing.id, reason: `Links id ${entry.externalId}` };
+    }
+
+    return { entry, action: 'create' };
+  });
+}
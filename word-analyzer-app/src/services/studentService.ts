@@ -5,14 +5,37 @@ import {
   getDocs,
   getDoc,
   setDoc,
-  deleteDoc,
+  updateDoc,
+  arrayUnion,
   query,
   orderBy,
+  onSnapshot,
+  deleteField,
+  writeBatch,
+  Unsubscribe,
   serverTimestamp,
   Timestamp,
+  DocumentData,
 } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { db } from '../config/firebase';
-import { Student } from '../types';
+import {
+  Student,
+  PhaseChange,
+  StudentAim,
+  StudentProgress,
+  StudentDeletionCertificate,
+  ConsentStatus,
+  ConsentMethod,
+  StudentConsent,
+  SharedStudent,
+  ShareAccess,
+  StudentShare,
+  RosterImportItem,
+} from '../types';
+
+// Firestore allows 500 writes per batch
+const ROSTER_BATCH_SIZE = 400;
 
 /**
  * Ensure teacher document exists
@@ -29,29 +52,138 @@ async function ensureTeacherExists(teacherId: string): Promise<void> {
 }
 
 /**
- * Get all students for a teacher
+ * Map a Firestore student document to a Student
+ */
+function toStudent(id: string, data: DocumentData, teacherId: string, sharedBy?: SharedStudent): Student {
+  return {
+    id,
+    name: data.name,
+    grade: data.grade,
+    createdAt: (data.createdAt as Timestamp)?.toDate() || new Date(),
+    teacherId,
+    sharedBy,
+    externalId: data.externalId || undefined,
+    nickname: data.nickname || undefined,
+    consent: data.consent
+      ? {
+        status: data.consent.status,
+        date: (data.consent.date as Timestamp)?.toDate() || new Date(),
+        method: data.consent.method ?? null,
+        recordedBy: data.consent.recordedBy,
+        recordedByEmail: data.consent.recordedByEmail ?? null,
+      }
+      : undefined,
+    phaseChanges: (data.phaseChanges || []).map((phase: DocumentData) => ({
+      date: (phase.date as Timestamp)?.toDate() || new Date(),
+      label: phase.label,
+    })),
+    aim: data.aim
+      ? {
+        correctPerMinute: data.aim.correctPerMinute,
+        errorsPerMinute: data.aim.errorsPerMinute ?? null,
+        date: (data.aim.date as Timestamp)?.toDate() || new Date(),
+      }
+      : undefined,
+  };
+}
+
+/**
+ * Whether parental consent allows recording the student
+ */
+export function hasParentalConsent(student: Student | null): boolean {
+  return student?.consent?.status === 'granted';
+}
+
+/**
+ * Whether the teacher may change the student and record assessments for them
+ * (owned students, or shared with read-write access)
+ */
+export function canEditStudent(student: Student | null): boolean {
+  return !!student && (!student.sharedBy || student.sharedBy.access === 'write');
+}
+
+/**
+ * Get the students other teachers shared with a teacher
+ * Shares of students that no longer exist are skipped
+ */
+async function getSharedStudents(teacherId: string): Promise<Student[]> {
+  const sharedSnapshot = await getDocs(collection(db, 'teachers', teacherId, 'sharedStudents'));
+
+  const students = await Promise.all(sharedSnapshot.docs.map(async (entry) => {
+    const data = entry.data();
+    const studentDoc = await getDoc(doc(db, 'teachers', data.ownerId, 'students', data.studentId));
+    if (!studentDoc.exists()) return null;
+
+    return toStudent(studentDoc.id, studentDoc.data(), data.ownerId, {
+      ownerId: data.ownerId,
+      ownerEmail: data.ownerEmail,
+      access: data.access,
+    });
+  }));
+
+  return students.filter((student): student is Student => student !== null);
+}
+
+/**
+ * Get all students for a teacher, including those shared with them
+ * (includeShared false for another teacher's classroom, whose shares are private)
  */
-export async function getStudents(teacherId: string): Promise<Student[]> {
+export async function getStudents(teacherId: string, includeShared: boolean = true): Promise<Student[]> {
   try {
     await ensureTeacherExists(teacherId);
 
     const studentsRef = collection(db, 'teachers', teacherId, 'students');
     const q = query(studentsRef, orderBy('name', 'asc'));
-    const snapshot = await getDocs(q);
+    const [snapshot, sharedStudents] = await Promise.all([
+      getDocs(q),
+      includeShared ? getSharedStudents(teacherId) : Promise.resolve([]),
+    ]);
 
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      name: doc.data().name,
-      grade: doc.data().grade,
-      createdAt: (doc.data().createdAt as Timestamp)?.toDate() || new Date(),
-      teacherId,
-    }));
+    return [
+      ...snapshot.docs.map(doc => toStudent(doc.id, doc.data(), teacherId)),
+      ...sharedStudents,
+    ].sort((a, b) => a.name.localeCompare(b.name));
   } catch (error) {
     console.error('getStudents error:', error);
     throw error;
   }
 }
 
+/**
+ * Get a single student
+ */
+export async function getStudent(teacherId: string, studentId: string): Promise<Student | null> {
+  try {
+    const studentDoc = await getDoc(doc(db, 'teachers', teacherId, 'students', studentId));
+    return studentDoc.exists() ? toStudent(studentDoc.id, studentDoc.data(), teacherId) : null;
+  } catch (error) {
+    console.error('getStudent error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record the start of a new instructional phase for a student
+ */
+export async function addPhaseChange(
+  teacherId: string,
+  studentId: string,
+  phaseChange: PhaseChange
+): Promise<void> {
+  try {
+    const studentRef = doc(db, 'teachers', teacherId, 'students', studentId);
+    await updateDoc(studentRef, {
+      phaseChanges: arrayUnion({
+        date: Timestamp.fromDate(phaseChange.date),
+        label: phaseChange.label,
+      }),
+    });
+  } catch (error) {
+    console.error('addPhaseChange error:', error);
+    throw error;
+  }
+}
+
 /**
  * Add a new student
  */
@@ -87,9 +219,212 @@ export async function addStudent(
 }
 
 /**
- * Delete a student
+ * Create and update students from a previewed roster import, in batches
+ * (conflicts and unchanged entries are skipped)
+ */
+export async function importRoster(
+  teacherId: string,
+  items: RosterImportItem[]
+): Promise<{ created: number; updated: number }> {
+  try {
+    await ensureTeacherExists(teacherId);
+
+    const studentsRef = collection(db, 'teachers', teacherId, 'students');
+    const writes = items.filter(item => item.action === 'create' || item.action === 'update');
+    let created = 0;
+    let updated = 0;
+
+    for (let start = 0; start < writes.length; start += ROSTER_BATCH_SIZE) {
+      const batch = writeBatch(db);
+
+      for (const { entry, action, studentId } of writes.slice(start, start + ROSTER_BATCH_SIZE)) {
+        const fields = {
+          name: entry.name,
+          ...(entry.grade && { grade: entry.grade }),
+          ...(entry.externalId && { externalId: entry.externalId }),
+        };
+
+        if (action === 'update' && studentId) {
+          batch.update(doc(studentsRef, studentId), fields);
+          updated++;
+        } else {
+          batch.set(doc(studentsRef), {
+            grade: null,
+            ...fields,
+            createdAt: serverTimestamp(),
+          });
+          created++;
+        }
+      }
+
+      await batch.commit();
+    }
+
+    console.log(`Roster import: ${created} created, ${updated} updated`);
+    return { created, updated };
+  } catch (error) {
+    console.error('importRoster error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record a change of a student's parental consent
+ * The server records the signed-in teacher and keeps the history of changes
  */
-export async function deleteStudent(teacherId: string, studentId: string): Promise<void> {
-  const studentRef = doc(db, 'teachers', teacherId, 'students', studentId);
-  await deleteDoc(studentRef);
+export async function setStudentConsent(
+  teacherId: string,
+  studentId: string,
+  status: ConsentStatus,
+  method: ConsentMethod | null
+): Promise<StudentConsent> {
+  try {
+    const setStudentConsentFn = httpsCallable(getFunctions(), 'setStudentConsent');
+    const result = await setStudentConsentFn({ teacherId, studentId, status, method });
+    const { recordedBy, recordedByEmail } = result.data as { recordedBy: string; recordedByEmail: string | null };
+    return { status, date: new Date(), method, recordedBy, recordedByEmail };
+  } catch (error) {
+    console.error('setStudentConsent error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set or clear the nickname spoken in a student's audio feedback
+ */
+export async function setStudentNickname(
+  teacherId: string,
+  studentId: string,
+  nickname: string
+): Promise<void> {
+  try {
+    const studentRef = doc(db, 'teachers', teacherId, 'students', studentId);
+    await updateDoc(studentRef, {
+      nickname: nickname.trim() || deleteField(),
+    });
+  } catch (error) {
+    console.error('setStudentNickname error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set or clear the aim star for a student
+ */
+export async function setStudentAim(
+  teacherId: string,
+  studentId: string,
+  aim: StudentAim | null
+): Promise<void> {
+  try {
+    const studentRef = doc(db, 'teachers', teacherId, 'students', studentId);
+    await updateDoc(studentRef, {
+      aim: aim
+        ? {
+          correctPerMinute: aim.correctPerMinute,
+          errorsPerMinute: aim.errorsPerMinute ?? null,
+          date: Timestamp.fromDate(aim.date),
+        }
+        : deleteField(),
+    });
+  } catch (error) {
+    console.error('setStudentAim error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Subscribe to a student's celeration progress (computed by Cloud Functions)
+ */
+export function subscribeToStudentProgress(
+  teacherId: string,
+  studentId: string,
+  onUpdate: (progress: StudentProgress | null) => void
+): Unsubscribe {
+  const progressRef = doc(db, 'teachers', teacherId, 'students', studentId, 'progress', 'current');
+
+  return onSnapshot(progressRef, (snapshot) => {
+    if (!snapshot.exists()) {
+      onUpdate(null);
+      return;
+    }
+    const data = snapshot.data();
+    onUpdate({
+      ...(data as StudentProgress),
+      updatedAt: (data.updatedAt as Timestamp)?.toDate(),
+    });
+  });
+}
+
+/**
+ * Get the co-teachers a student is shared with
+ */
+export async function getStudentShares(teacherId: string, studentId: string): Promise<StudentShare[]> {
+  try {
+    const sharesRef = collection(db, 'teachers', teacherId, 'students', studentId, 'shares');
+    const snapshot = await getDocs(sharesRef);
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        uid: doc.id,
+        email: data.email,
+        access: data.access,
+        sharedAt: (data.sharedAt as Timestamp)?.toDate() || new Date(),
+      };
+    });
+  } catch (error) {
+    console.error('getStudentShares error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Share a student with a co-teacher by email, or change their access (runs server-side)
+ */
+export async function shareStudent(
+  teacherId: string,
+  studentId: string,
+  email: string,
+  access: ShareAccess
+): Promise<void> {
+  try {
+    const shareStudentFn = httpsCallable(getFunctions(), 'shareStudent');
+    await shareStudentFn({ teacherId, studentId, email, access });
+  } catch (error) {
+    console.error('shareStudent error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stop sharing a student with a co-teacher (runs server-side)
+ */
+export async function unshareStudent(teacherId: string, studentId: string, uid: string): Promise<void> {
+  try {
+    const unshareStudentFn = httpsCallable(getFunctions(), 'unshareStudent');
+    await unshareStudentFn({ teacherId, studentId, uid });
+  } catch (error) {
+    console.error('unshareStudent error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Permanently delete a student with all assessments and media (runs server-side)
+ */
+export async function deleteStudent(
+  teacherId: string,
+  studentId: string
+): Promise<StudentDeletionCertificate> {
+  try {
+    const deleteStudentFn = httpsCallable(getFunctions(), 'deleteStudent', {
+      timeout: 540000,
+    });
+    const result = await deleteStudentFn({ teacherId, studentId });
+    return result.data as StudentDeletionCertificate;
+  } catch (error) {
+    console.error('deleteStudent error:', error);
+    throw error;
+  }
 }
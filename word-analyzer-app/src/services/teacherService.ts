@@ -0,0 +1,99 @@
+import { doc, getDoc, setDoc, deleteField } from 'firebase/firestore';
+import * as Crypto from 'expo-crypto';
+import { db } from '../config/firebase';
+import { TeacherSettings, KioskPin, OcrProviderName, SpeechProviderName } from '../types';
+
+const DEFAULT_SETTINGS: TeacherSettings = {
+  neverTransmitNames: false,
+  activeOrgId: null,
+  ocrProvider: null,
+  speechProvider: null,
+};
+
+export const OCR_PROVIDER_LABELS: Record<OcrProviderName, string> = {
+  google: 'Google Cloud Vision',
+  tesseract: 'Tesseract (on our server)',
+};
+
+export const SPEECH_PROVIDER_LABELS: Record<SpeechProviderName, string> = {
+  google: 'Google Cloud Speech-to-Text',
+  local: 'Whisper (on our server)',
+};
+
+/**
+ * Get a teacher's settings, with defaults for anything not yet set
+ */
+export async function getTeacherSettings(teacherId: string): Promise<TeacherSettings> {
+  try {
+    const teacherDoc = await getDoc(doc(db, 'teachers', teacherId));
+    return {
+      ...DEFAULT_SETTINGS,
+      ...(teacherDoc.data()?.settings || {}),
+    };
+  } catch (error) {
+    console.error('getTeacherSettings error:', error);
+    throw error;
+  }
+}
+
+function hashKioskPin(salt: string, pin: string): Promise<string> {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+function kioskPinRef(teacherId: string) {
+  return doc(db, 'teachers', teacherId, 'private', 'kioskPin');
+}
+
+/**
+ * Get the teacher PIN that exits kiosk mode, null until one is set
+ */
+export async function getKioskPin(teacherId: string): Promise<KioskPin | null> {
+  try {
+    const data = (await getDoc(kioskPinRef(teacherId))).data();
+    return typeof data?.salt === 'string' && typeof data?.hash === 'string'
+      ? { salt: data.salt, hash: data.hash }
+      : null;
+  } catch (error) {
+    console.error('getKioskPin error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Set the teacher PIN that exits kiosk mode (stored as a salted hash only the teacher can read)
+ */
+export async function setKioskPin(teacherId: string, pin: string): Promise<KioskPin> {
+  const salt = Crypto.randomUUID();
+  const kioskPin = { salt, hash: await hashKioskPin(salt, pin) };
+  try {
+    await setDoc(kioskPinRef(teacherId), kioskPin);
+    // Earlier versions kept the hash in the settings, which organization staff can read
+    await setDoc(doc(db, 'teachers', teacherId), { settings: { kioskPin: deleteField() } }, { merge: true });
+    return kioskPin;
+  } catch (error) {
+    console.error('setKioskPin error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Whether a PIN entered to exit kiosk mode matches the teacher's
+ */
+export async function verifyKioskPin(kioskPin: KioskPin, pin: string): Promise<boolean> {
+  return (await hashKioskPin(kioskPin.salt, pin)) === kioskPin.hash;
+}
+
+/**
+ * Update some of a teacher's settings (creates the teacher document if needed)
+ */
+export async function updateTeacherSettings(
+  teacherId: string,
+  settings: Partial<TeacherSettings>
+): Promise<void> {
+  try {
+    await setDoc(doc(db, 'teachers', teacherId), { settings }, { merge: true });
+  } catch (error) {
+    console.error('updateTeacherSettings error:', error);
+    throw error;
+  }
+}
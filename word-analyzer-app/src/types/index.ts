@@ -9,12 +9,220 @@ export interface Teacher {
   photoURL: string | null;
 }
 
+// Per-teacher preferences (teachers/{uid}.settings)
+export interface TeacherSettings {
+  neverTransmitNames: boolean;  // Never send student names to AI or speech services, even on their own
+  activeOrgId: string | null;   // Organization chosen in the org switcher, null for the teacher's own classroom
+  ocrProvider: OcrProviderName | null;  // Passage photo OCR, null for the default (an organization's choice applies instead)
+  speechProvider: SpeechProviderName | null;  // Recording transcription, null for the default (an organization's choice applies instead)
+}
+
+// Reads the words of passage photos: Google Cloud Vision, or Tesseract on the server
+export type OcrProviderName = 'google' | 'tesseract';
+
+// Transcribes recordings: Google Cloud Speech-to-Text, or whisper.cpp on the server
+export type SpeechProviderName = 'google' | 'local';
+
+// Salted SHA-256 of the teacher PIN that exits student kiosk mode - the PIN itself is never
+// stored, and the hash is kept in teachers/{uid}/private/kioskPin, which only the teacher can read
+export interface KioskPin {
+  salt: string;
+  hash: string;
+}
+
+export type OrgRole = 'teacher' | 'specialist' | 'school-admin' | 'district-admin';
+
+// School or district (organizations/{orgId}), managed through Cloud Functions
+export interface Organization {
+  id: string;
+  name: string;
+}
+
+export interface OrgSchool {
+  id: string;
+  name: string;
+}
+
+// A teacher's class at a school (organizations/{orgId}/classes)
+export interface OrgClass {
+  id: string;
+  name: string;
+  schoolId: string;
+  teacherId: string;
+}
+
+// organizations/{orgId}/members/{uid}; the role scopes which classrooms the member can read
+export interface OrgMember {
+  uid: string;
+  email: string;
+  displayName: string | null;
+  role: OrgRole;
+  schoolIds: string[];        // Empty for district admins, who cover every school
+}
+
+// Invitation to join an organization (teachers/{uid}/orgInvites/{orgId}), written by Cloud Functions
+// The classroom is shared with the organization only once the teacher accepts
+export interface OrgInvite {
+  orgId: string;
+  orgName: string;
+  role: OrgRole;
+  invitedAt: Date;
+}
+
+// The signed-in teacher's own membership of an organization
+export interface OrgMembership {
+  organization: Organization;
+  member: OrgMember;
+}
+
 export interface Student {
   id: string;
   name: string;
   grade?: string;
   createdAt: Date;
-  teacherId: string;
+  teacherId: string;    // Owning teacher - another teacher's id for students shared with you
+  sharedBy?: SharedStudent;  // Set on students another teacher shared with you
+  nickname?: string;    // Teacher-approved name spoken in audio feedback instead of the real name
+  consent?: StudentConsent;  // Missing means pending
+  externalId?: string;  // Student id in an external system (imported chart data)
+  phaseChanges?: PhaseChange[];  // Celeration chart phase change lines
+  aim?: StudentAim;
+}
+
+export type ShareAccess = 'read' | 'write';
+
+// Co-teacher granted access to a student (students/{id}/shares/{uid}), written by Cloud Functions
+export interface StudentShare {
+  uid: string;
+  email: string;
+  access: ShareAccess;
+  sharedAt: Date;
+}
+
+// A student another teacher shared with you (teachers/{uid}/sharedStudents)
+export interface SharedStudent {
+  ownerId: string;
+  ownerEmail: string;
+  access: ShareAccess;
+}
+
+// A student read from a roster file (plain CSV or OneRoster users.csv)
+export interface RosterEntry {
+  name: string;
+  grade?: string;
+  externalId?: string;  // Student id in the school's SIS (OneRoster sourcedId)
+  line: number;         // Line in the source file, for the preview
+}
+
+export type RosterAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+// What importing a roster entry will do to the teacher's students
+export interface RosterImportItem {
+  entry: RosterEntry;
+  action: RosterAction;
+  studentId?: string;   // Existing student updated or left unchanged
+  reason?: string;      // Why the entry is a conflict, or what an update changes
+}
+
+// Who recorded an assessment - the owner or a co-teacher of the student
+export interface AssessmentRecorder {
+  uid: string;
+  email: string | null;
+}
+
+export type ConsentStatus = 'pending' | 'granted' | 'revoked';
+
+// How consent was obtained - see docs/compliance/SCHOOL-CONSENT-FORM.md
+export type ConsentMethod = 'school-authorization' | 'signed-form' | 'electronic';
+
+// Parental consent to collect the student's recordings (students/{id}.consent)
+export interface StudentConsent {
+  status: ConsentStatus;
+  date: Date;                 // When the status was given or changed
+  method: ConsentMethod | null;
+  recordedBy: string;         // Uid of the teacher who recorded it (set by the server)
+  recordedByEmail: string | null;
+}
+
+// Start of a new instructional phase on the celeration chart
+export interface PhaseChange {
+  date: Date;
+  label: string;
+}
+
+// Aim star: frequency the student should reach by a date
+export interface StudentAim {
+  correctPerMinute: number;
+  errorsPerMinute?: number | null;
+  date: Date;
+}
+
+// Reading passage with known text (teachers/{uid}/passages)
+export interface Passage {
+  id: string;
+  title: string;
+  gradeLevel?: string;
+  lexile?: number;          // Lexile-style difficulty measure, e.g. 650 for 650L
+  text: string;             // Canonical passage text used as the expected words
+  wordCount: number;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+// Celeration progress computed by Cloud Functions (teachers/{uid}/students/{id}/progress/current)
+// Dates are ISO days (YYYY-MM-DD); day numbers count from chartStart
+export interface CelerationLine {
+  celeration: number;       // Weekly multiplier (>1 accelerating, <1 decelerating)
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  bounceUp: number;
+  bounceDown: number;
+  bounce: number;
+}
+
+export interface ProgressPoint {
+  assessmentId: string;
+  date: string;
+  day: number;
+  correctPerMinute: number;
+  errorsPerMinute: number;
+}
+
+export interface PhaseProgress {
+  label: string;
+  startDate: string | null;   // null for the baseline
+  assessmentCount: number;
+  correct: CelerationLine | null;
+  errors: CelerationLine | null;
+  frequencyMultiplier: {
+    correct: number | null;
+    errors: number | null;
+  };
+}
+
+export interface AimProgress {
+  correctPerMinute: number;
+  errorsPerMinute: number | null;
+  date: string;
+  attained: boolean;
+  attainedDate: string | null;
+  projectedDate: string | null;
+}
+
+export interface StudentProgress {
+  chartStart: string;
+  assessmentCount: number;
+  points: ProgressPoint[];
+  latest: ProgressPoint | null;
+  overall: {
+    correct: CelerationLine | null;
+    errors: CelerationLine | null;
+  };
+  phases: PhaseProgress[];
+  aim: AimProgress | null;
+  updatedAt?: Date;
 }
 
 export interface Assessment {
@@ -114,6 +322,9 @@ export interface BoundingBox {
   height: number;
 }
 
+// Scoring a teacher can assign to a word (self-corrected is a correct word flagged isSelfCorrection)
+export type WordOverrideStatus = 'correct' | 'misread' | 'substituted' | 'skipped' | 'self-corrected';
+
 export interface AlignedWord {
   expected: string;
   spoken: string | null;
@@ -126,6 +337,30 @@ export interface AlignedWord {
   isRepeat?: boolean;         // True if this word was repeated
   isSelfCorrection?: boolean; // True if student self-corrected this word
   boundingBox?: BoundingBox;  // Position of word on the original image
+  page?: number;              // Index into pages for multi-page passages
+  isOverridden?: boolean;     // True if the teacher manually changed the scoring
+  originalStatus?: WordOverrideStatus; // Automated scoring before the teacher override
+}
+
+// OCR word as detected on the captured image
+export interface PassageWord {
+  text: string;
+  boundingBox: BoundingBox;
+  page?: number;  // Index into pages for multi-page passages
+}
+
+// One captured page of a multi-page passage
+export interface AssessmentPage {
+  imageUrl: string;
+  imageWidth?: number | null;
+  imageHeight?: number | null;
+}
+
+// Teacher correction of a single OCR word (ocrIndex points into ocrWords)
+export interface ExpectedWordEdit {
+  ocrIndex: number;
+  text: string;
+  included: boolean;
 }
 
 export interface DashboardErrorPattern {
@@ -145,12 +380,27 @@ export interface PatternSummary {
   referralSuggestions: string[];
 }
 
+// Processing stages, in pipeline order (functions/src/services/assessmentPipeline.ts)
+export type AssessmentStageName = 'transcribe' | 'ocr' | 'match' | 'metrics' | 'patterns' | 'summary' | 'tts' | 'media';
+export type AssessmentStageStatus = 'pending' | 'running' | 'complete' | 'error';
+
+export interface AssessmentStage {
+  status: AssessmentStageStatus;
+  startedAt?: Date;
+  durationMs: number | null;
+  error: string | null;
+}
+
 export interface DashboardAssessment {
   id: string;
+  teacherId: string;      // Owner of the classroom the assessment is stored in
   studentId: string;
   studentName: string;
+  recordedBy?: AssessmentRecorder;
   status: 'uploading' | 'processing' | 'complete' | 'error';
   errorMessage?: string;
+  stages?: Partial<Record<AssessmentStageName, AssessmentStage>>;
+  failedStage?: AssessmentStageName;  // Required stage that stopped processing (status 'error')
   createdAt: Date;
   processedAt?: Date;
 
@@ -160,13 +410,24 @@ export interface DashboardAssessment {
   videoUrl?: string;
   pdfUrl?: string;
   audioDuration?: number;
+  recordingDuration?: RecordingDuration;  // Reading length selected when recording
 
   // Image dimensions (for scaling bounding boxes)
   imageWidth?: number;
   imageHeight?: number;
 
+  // Captured pages in reading order (imageUrl/imageWidth/imageHeight mirror the first)
+  pages?: AssessmentPage[];
+
+  // Library passage read (expected words come from its text instead of OCR)
+  passageId?: string;
+  passageTitle?: string;
+  passageMatchConfidence?: number;  // Set when the passage was identified from the photo
+
   // Results
   ocrText?: string;
+  ocrWords?: PassageWord[];
+  expectedWordEdits?: ExpectedWordEdit[];  // Teacher corrections to the OCR passage
   transcript?: string;
   metrics?: AssessmentMetrics;
   words?: AlignedWord[];
@@ -174,14 +435,117 @@ export interface DashboardAssessment {
   patternSummary?: PatternSummary;
   aiSummary?: string;  // AI-generated personalized feedback for the student
   aiSummaryAudioUrl?: string;  // URL to pre-generated TTS audio of the summary
+
+  // Re-analysis
+  revision?: number;
+  reanalyzedAt?: Date;
+
+  // Historical timing imported from a celeration chart dataset (metrics only, no media)
+  importedFrom?: {
+    sourceAssessmentId: string;
+    source: string;
+  };
+}
+
+// Stored data covered by the retention policy
+export type RetentionCategory = 'uploads' | 'audio' | 'images' | 'videos' | 'summaryAudio' | 'pdfs' | 'exports';
+
+export interface DeletedFile {
+  path: string;
+  category: RetentionCategory;
+  retentionHours: number;
+  createdAt: string;          // ISO time the file was written
+  size: number;               // Bytes
+}
+
+// Append-only record of deleted student data (teachers/{uid}/deletionLog), written by Cloud Functions
+export interface DeletionLogEntry {
+  id: string;
+  reason: 'retention' | 'student-deletion' | 'no-consent';
+  assessmentId: string | null;
+  studentId: string | null;
+  files: DeletedFile[];
+  clearedFields: string[];    // Assessment fields whose URLs pointed at the deleted files
+  // Student deletions only
+  assessmentIds?: string[];
+  documentsDeleted?: number;
+  deletedAt: Date;
+}
+
+// Returned by the deleteStudent function; certificateId is the id of its deletion log entry
+export interface StudentDeletionCertificate {
+  certificateId: string;
+  studentId: string;
+  assessmentIds: string[];
+  documentsDeleted: number;
+  filesDeleted: number;
+  deletedAt: string;          // ISO time of the deletion
+}
+
+export type RevisionSource = 'pipeline' | 'reanalysis' | 'restore' | 'override';
+
+// Snapshot of analysis results (teachers/{uid}/assessments/{id}/revisions)
+export interface AssessmentRevision {
+  revision: number;
+  source: RevisionSource;
+  reason: string;
+  editorUid: string | null;   // null for the automated pipeline
+  createdAt: Date;
+  restoredFrom?: number;
+  metrics?: AssessmentMetrics;
+  words: AlignedWord[];
+  errorPatterns: DashboardErrorPattern[];
+  patternSummary?: PatternSummary;
+}
+
+// Timed readings stop automatically; untimed readings run until the teacher stops them
+export type RecordingDuration = 30 | 60 | 120 | 'untimed';
+
+// File of an assessment upload (uploads/{teacherId}/{assessmentId}/{name})
+export interface UploadManifestFile {
+  name: string;
+  kind: 'audio' | 'image';    // Images are listed in reading order
+  size: number;               // Bytes
+  sha256: string;             // Hex
+  contentType: string;
+}
+
+// manifest.json, written after the files it lists - processing starts from it
+export interface UploadManifest {
+  version: 1;
+  files: UploadManifestFile[];
+  passageId: string | null;
+  options: {
+    recordingDuration: RecordingDuration | null;
+  };
 }
 
-export type RecordingDuration = 30 | 60;
+export type QueuedCaptureStatus = 'pending' | 'uploading' | 'failed';
+
+// Captured reading kept on the device until it uploads (offline, or the upload failed)
+export interface QueuedCapture {
+  id: string;
+  teacherId: string;          // Student's owner, whose classroom the assessment goes to
+  studentId: string;
+  studentName: string;
+  audioUri: string;           // Copies in app storage, so they survive an app restart
+  imageUris: string[];
+  passageId: string | null;
+  passageTitle: string | null;
+  recordingDuration: RecordingDuration;
+  earlyUploadAssessmentId: string | null;  // Audio already uploaded early - only the images remain
+  assessmentId: string;       // Created once, so every retry uploads to the same assessment
+  queuedAt: number;           // Epoch ms
+  status: QueuedCaptureStatus;
+  attempts: number;
+  nextAttemptAt: number;      // Epoch ms of the next retry (backoff)
+  lastError: string | null;
+}
 
 export interface AppState {
   teacher: Teacher | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   currentAssessment: Partial<Assessment> | null;
-  offlineQueue: Assessment[];
+  offlineQueue: QueuedCapture[];
 }